@@ -0,0 +1,227 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import AddressDialog from "@/components/AddressDialog";
+import {
+  deleteAddress,
+  fetchAddresses,
+  formatAddressLines,
+  setDefaultAddress,
+  type Address,
+} from "@/lib/addresses";
+import { toast } from "sonner";
+
+interface AddressBookProps {
+  // Pre-filled recipient for new addresses
+  defaultName?: string;
+  // Free-text address from before the address book existed
+  legacyAddress?: string | null;
+}
+
+const outlineButtonClassName = "text-sm border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans";
+
+const AddressBook = ({ defaultName, legacyAddress }: AddressBookProps) => {
+  const { user } = useAuth();
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+  const [addressToDelete, setAddressToDelete] = useState<Address | null>(null);
+
+  useEffect(() => {
+    loadAddresses();
+  }, [user]);
+
+  const loadAddresses = async () => {
+    if (!user) return;
+    setAddresses(await fetchAddresses(user.id));
+    setLoading(false);
+  };
+
+  const openDialog = (address: Address | null) => {
+    setEditingAddress(address);
+    setDialogOpen(true);
+  };
+
+  const handleSetDefault = async (address: Address, kind: "shipping" | "billing") => {
+    const { error } = await setDefaultAddress(address.id, kind);
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(`Default ${kind} address updated`);
+      loadAddresses();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!addressToDelete) return;
+
+    const { error } = await deleteAddress(addressToDelete.id);
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success("Address deleted");
+      loadAddresses();
+    }
+    setAddressToDelete(null);
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white font-sans">
+          Address Book
+        </CardTitle>
+        <Button
+          onClick={() => openDialog(null)}
+          className="text-sm font-sans bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          Add Address
+        </Button>
+      </CardHeader>
+      <CardContent className="p-6 pt-0">
+        {loading ? (
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 font-sans animate-pulse">
+            Loading addresses...
+          </p>
+        ) : addresses.length === 0 ? (
+          <div className="text-center py-8">
+            <MapPin className="h-16 w-16 text-indigo-500 dark:text-indigo-400 mx-auto mb-4" />
+            <h3 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white font-sans mb-2">
+              No saved addresses
+            </h3>
+            <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 font-sans">
+              Add an address to check out faster
+            </p>
+            {legacyAddress && (
+              <p className="mt-4 text-sm text-gray-600 dark:text-gray-400 font-sans">
+                Your profile used to list <span className="font-semibold text-gray-900 dark:text-white">{legacyAddress}</span>.
+                Add it here to use it at checkout.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {addresses.map((address) => (
+              <div
+                key={address.id}
+                className="p-4 border rounded-lg border-gray-200 dark:border-gray-700 flex flex-col justify-between gap-4"
+              >
+                <div>
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {address.is_default_shipping && (
+                      <Badge className="bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200 text-sm font-sans">
+                        Default shipping
+                      </Badge>
+                    )}
+                    {address.is_default_billing && (
+                      <Badge className="bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200 text-sm font-sans">
+                        Default billing
+                      </Badge>
+                    )}
+                  </div>
+                  {formatAddressLines(address).map((line, index) => (
+                    <p
+                      key={index}
+                      className={`text-sm sm:text-base font-sans ${
+                        index === 0 ? "font-semibold text-gray-900 dark:text-white" : "text-gray-600 dark:text-gray-400"
+                      }`}
+                    >
+                      {line}
+                    </p>
+                  ))}
+                  {address.phone && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 font-sans mt-1">{address.phone}</p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openDialog(address)} className={outlineButtonClassName}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  {!address.is_default_shipping && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSetDefault(address, "shipping")}
+                      className={outlineButtonClassName}
+                    >
+                      Ship here by default
+                    </Button>
+                  )}
+                  {!address.is_default_billing && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSetDefault(address, "billing")}
+                      className={outlineButtonClassName}
+                    >
+                      Bill here by default
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setAddressToDelete(address)}
+                    className="text-sm border-red-500 text-red-500 hover:bg-red-50 dark:border-red-400 dark:text-red-400 dark:hover:bg-red-900 font-sans"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AddressDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        address={editingAddress}
+        defaultName={defaultName}
+        onSaved={loadAddresses}
+      />
+
+      <AlertDialog open={!!addressToDelete} onOpenChange={(open) => !open && setAddressToDelete(null)}>
+        <AlertDialogContent className="bg-white dark:bg-gray-800 rounded-2xl font-sans">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-xl font-bold text-gray-900 dark:text-white font-sans">
+              Delete this address?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+              Orders you've already placed keep their own copy of the address.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="text-sm font-sans">Keep Address</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="text-sm font-sans bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-800 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default AddressBook;
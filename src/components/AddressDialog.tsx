@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  ADDRESS_REGIONS,
+  emptyAddressInput,
+  getAddressFormat,
+  saveAddress,
+  toAddressInput,
+  validateAddress,
+  type Address,
+  type AddressErrors,
+  type AddressInput,
+} from "@/lib/addresses";
+import { SHIPPING_COUNTRIES, DEFAULT_SHIPPING_COUNTRY } from "@/lib/shipping";
+import { toast } from "sonner";
+
+interface AddressDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The address being edited, or null to add one
+  address: Address | null;
+  // Pre-filled recipient for new addresses
+  defaultName?: string;
+  onSaved: (address: Address) => void;
+}
+
+const labelClassName = "text-sm font-semibold text-gray-700 dark:text-gray-300 font-sans mb-1 block";
+const inputClassName = "text-sm text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700";
+
+const AddressDialog = ({ open, onOpenChange, address, defaultName, onSaved }: AddressDialogProps) => {
+  const { user } = useAuth();
+  const [form, setForm] = useState<AddressInput>(emptyAddressInput(DEFAULT_SHIPPING_COUNTRY));
+  const [errors, setErrors] = useState<AddressErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(address ? toAddressInput(address) : emptyAddressInput(DEFAULT_SHIPPING_COUNTRY, defaultName));
+      setErrors({});
+    }
+  }, [open, address]);
+
+  const format = getAddressFormat(form.country_code);
+  const regions = ADDRESS_REGIONS[form.country_code];
+  const regionLabel = format.regionRequired ? format.regionLabel : `${format.regionLabel} (optional)`;
+
+  const update = (changes: Partial<AddressInput>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    // Clear errors on the fields being edited; the rest wait for the next save
+    setErrors((prev) => {
+      const next = { ...prev };
+      (Object.keys(changes) as Array<keyof AddressInput>).forEach((key) => delete next[key]);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validationErrors = validateAddress(form);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setSaving(true);
+    const { data, error } = await saveAddress(user.id, form, address?.id || null);
+
+    if (error || !data) {
+      toast.error(error || "Failed to save address");
+    } else {
+      toast.success(address ? "Address updated" : "Address added");
+      onSaved(data);
+      onOpenChange(false);
+    }
+    setSaving(false);
+  };
+
+  const renderField = (
+    field: keyof AddressInput,
+    label: string,
+    props: { placeholder?: string; autoComplete?: string; type?: string } = {}
+  ) => (
+    <div>
+      <label htmlFor={`address-${field}`} className={labelClassName}>
+        {label}
+      </label>
+      <Input
+        id={`address-${field}`}
+        value={form[field] as string}
+        onChange={(e) => update({ [field]: e.target.value })}
+        aria-invalid={!!errors[field]}
+        className={`${inputClassName} ${errors[field] ? "border-red-500 dark:border-red-400" : ""}`}
+        {...props}
+      />
+      {errors[field] && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400 font-sans">{errors[field]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white font-sans">
+            {address ? "Edit Address" : "Add Address"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label className={labelClassName}>Country</label>
+            <Select
+              value={form.country_code}
+              // A region picked for the old country doesn't carry over
+              onValueChange={(value) => update({ country_code: value, ...((regions || ADDRESS_REGIONS[value]) && { region: "" }) })}
+            >
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                {SHIPPING_COUNTRIES.map((country) => (
+                  <SelectItem key={country.code} value={country.code} className="text-sm font-sans">
+                    {country.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {renderField("full_name", "Full name", { autoComplete: "name" })}
+          {renderField("line1", "Address line 1", { placeholder: "Street address", autoComplete: "address-line1" })}
+          {renderField("line2", "Address line 2 (optional)", { placeholder: "Apartment, suite, unit", autoComplete: "address-line2" })}
+
+          <div className="grid grid-cols-2 gap-3">
+            {renderField("city", "City", { autoComplete: "address-level2" })}
+            {regions ? (
+              <div>
+                <label htmlFor="address-region" className={labelClassName}>
+                  {regionLabel}
+                </label>
+                <Select value={form.region} onValueChange={(value) => update({ region: value })}>
+                  <SelectTrigger
+                    id="address-region"
+                    aria-invalid={!!errors.region}
+                    className={`${inputClassName} ${errors.region ? "border-red-500 dark:border-red-400" : ""}`}
+                  >
+                    <SelectValue placeholder={`Choose a ${format.regionLabel.toLowerCase()}`} />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                    {regions.map((region) => (
+                      <SelectItem key={region.code} value={region.code} className="text-sm font-sans">
+                        {region.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {errors.region && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400 font-sans">{errors.region}</p>
+                )}
+              </div>
+            ) : (
+              renderField("region", regionLabel, { autoComplete: "address-level1" })
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {renderField("postal_code", format.postalCodeRequired ? format.postalCodeLabel : `${format.postalCodeLabel} (optional)`, {
+              placeholder: format.postalCodeExample,
+              autoComplete: "postal-code",
+            })}
+            {renderField("phone", "Phone (optional)", { type: "tel", autoComplete: "tel" })}
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 font-sans">
+              <Checkbox
+                checked={form.is_default_shipping}
+                onCheckedChange={(checked) => update({ is_default_shipping: checked === true })}
+              />
+              Use as my default shipping address
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 font-sans">
+              <Checkbox
+                checked={form.is_default_billing}
+                onCheckedChange={(checked) => update({ is_default_billing: checked === true })}
+              />
+              Use as my default billing address
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="text-sm border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="text-sm font-sans bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white"
+            >
+              {saving ? "Saving..." : "Save Address"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddressDialog;
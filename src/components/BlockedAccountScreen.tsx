@@ -0,0 +1,47 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Ban } from "lucide-react";
+
+interface BlockedAccountScreenProps {
+  reason: string | null;
+  blockedUntil: string | null;
+  onDismiss: () => void;
+}
+
+const BlockedAccountScreen = ({ reason, blockedUntil, onDismiss }: BlockedAccountScreenProps) => {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4 font-sans">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-800 shadow-lg rounded-2xl border-0">
+        <CardHeader className="text-center">
+          <Ban className="h-12 w-12 mx-auto text-red-500 dark:text-red-400 mb-2" />
+          <CardTitle className="text-2xl font-bold text-gray-900 dark:text-white font-sans">
+            Your account has been blocked
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {reason && (
+            <p className="text-sm sm:text-base text-gray-700 dark:text-gray-300 font-sans">
+              Reason: {reason}
+            </p>
+          )}
+          <p className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+            {blockedUntil
+              ? `You'll be able to sign in again after ${new Date(blockedUntil).toLocaleString()}.`
+              : "If you think this is a mistake, please contact our support team."}
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+            You have been signed out. You can keep browsing, but you can't shop or post reviews.
+          </p>
+          <Button
+            onClick={onDismiss}
+            className="text-sm font-sans bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white"
+          >
+            Continue Browsing
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BlockedAccountScreen;
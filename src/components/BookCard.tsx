@@ -3,6 +3,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Star } from "lucide-react";
 import AddToCartButton from "./AddToCartButton";
+import WishlistButton from "./WishlistButton";
+import HighlightedText from "./HighlightedText";
+import StockBadge from "./StockBadge";
 
 interface BookCardProps {
   id: string;
@@ -14,6 +17,10 @@ interface BookCardProps {
   category: string;
   rating: number;
   reviewCount: number;
+  stockQuantity: number;
+  // Search results pass the title and a description excerpt with matches marked
+  titleHighlight?: string;
+  snippet?: string | null;
 }
 
 const BookCard = ({
@@ -26,27 +33,41 @@ const BookCard = ({
   category,
   rating,
   reviewCount,
+  stockQuantity,
+  titleHighlight,
+  snippet,
 }: BookCardProps) => {
   return (
     <Card className="group bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-all duration-200 rounded-2xl border-0">
       <CardContent className="p-0">
-        <Link to={`/book/${id}`}>
-          <div className="relative overflow-hidden rounded-t-2xl">
-            <img
-              src={image}
-              alt={title}
-              className="w-full h-56 object-cover transition-transform duration-200 group-hover:scale-105"
-              onError={(e) => {
-                e.currentTarget.src = "https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400&h=600&fit=crop";
-              }}
-            />
-            {originalPrice && originalPrice > price && (
-              <Badge className="absolute top-2 right-2 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 text-xs font-sans font-semibold shadow-md">
-                Save ${(originalPrice - price).toFixed(2)}
-              </Badge>
-            )}
-          </div>
-        </Link>
+        <div className="relative">
+          <Link to={`/book/${id}`}>
+            <div className="relative overflow-hidden rounded-t-2xl">
+              <img
+                src={image}
+                alt={title}
+                className="w-full h-56 object-cover transition-transform duration-200 group-hover:scale-105"
+                onError={(e) => {
+                  e.currentTarget.src = "https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400&h=600&fit=crop";
+                }}
+              />
+              {originalPrice && originalPrice > price && (
+                <Badge className="absolute top-2 right-2 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 text-xs font-sans font-semibold shadow-md">
+                  Save ${(originalPrice - price).toFixed(2)}
+                </Badge>
+              )}
+              <StockBadge
+                stockQuantity={stockQuantity}
+                className="absolute bottom-2 left-2 font-semibold shadow-md"
+              />
+            </div>
+          </Link>
+          <WishlistButton
+            bookId={id}
+            title={title}
+            className="absolute top-2 left-2 h-8 w-8 rounded-full bg-white/90 dark:bg-gray-800/90 border-0 text-indigo-500 hover:bg-white dark:text-indigo-400 dark:hover:bg-gray-800 shadow-md"
+          />
+        </div>
         
         <div className="p-3">
           <Link to={`/book/${id}`}>
@@ -54,9 +75,14 @@ const BookCard = ({
               {category}
             </Badge>
             <h3 className="text-sm sm:text-base font-semibold text-gray-900 dark:text-white font-sans mb-1 line-clamp-2 group-hover:text-indigo-500 dark:group-hover:text-indigo-400 transition-colors">
-              {title}
+              {titleHighlight ? <HighlightedText value={titleHighlight} /> : title}
             </h3>
             <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 font-sans mb-2">{author}</p>
+            {snippet && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 font-sans mb-2 line-clamp-3">
+                <HighlightedText value={snippet} />
+              </p>
+            )}
           </Link>
           
           <div className="flex items-center mb-2">
@@ -93,6 +119,7 @@ const BookCard = ({
           <AddToCartButton 
             bookId={id} 
             title={title}
+            stockQuantity={stockQuantity}
             className="w-full text-xs sm:text-sm bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
           />
         </div>
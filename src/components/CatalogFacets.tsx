@@ -0,0 +1,146 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Slider } from "@/components/ui/slider";
+import { Star } from "lucide-react";
+import type { SearchFacets } from "@/lib/search";
+import type { CatalogFilters } from "@/hooks/useCatalogFilters";
+
+interface CatalogFacetsProps {
+  facets: SearchFacets | null;
+  categories: { id: string; name: string }[];
+  filters: CatalogFilters;
+  onChange: (changes: Partial<CatalogFilters>) => void;
+}
+
+const RATING_OPTIONS = [4, 3, 2, 1];
+
+const CatalogFacets = ({ facets, categories, filters, onChange }: CatalogFacetsProps) => {
+  const priceMin = facets?.price.min ?? 0;
+  const priceMax = facets?.price.max ?? 0;
+  const [priceRange, setPriceRange] = useState<number[]>([priceMin, priceMax]);
+
+  // Follow the URL and the bounds of the current results while not dragging
+  useEffect(() => {
+    setPriceRange([filters.minPrice ?? priceMin, filters.maxPrice ?? priceMax]);
+  }, [filters.minPrice, filters.maxPrice, priceMin, priceMax]);
+
+  const categoryCount = (name: string) =>
+    facets?.categories.find((category) => category.name === name)?.count ?? 0;
+
+  const handlePriceCommit = ([min, max]: number[]) => {
+    onChange({
+      minPrice: min > priceMin ? min : null,
+      maxPrice: max < priceMax ? max : null,
+    });
+  };
+
+  const headingClass = "text-sm sm:text-base font-semibold text-gray-900 dark:text-white font-sans mb-2";
+  const optionClass = (active: boolean) =>
+    `flex w-full items-center justify-between rounded-md px-2 py-1 text-sm font-sans transition-colors ${
+      active
+        ? "bg-indigo-50 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-200 font-semibold"
+        : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+    }`;
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-lg rounded-2xl border-0">
+      <CardContent className="p-6 space-y-6">
+        <div>
+          <h3 className={headingClass}>Category</h3>
+          <div className="space-y-0.5">
+            <button
+              type="button"
+              onClick={() => onChange({ category: null })}
+              className={optionClass(!filters.category)}
+            >
+              All Categories
+            </button>
+            {categories.map((category) => (
+              <button
+                key={category.id}
+                type="button"
+                onClick={() => onChange({ category: category.name })}
+                className={optionClass(filters.category === category.name)}
+              >
+                <span className="truncate">{category.name}</span>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{categoryCount(category.name)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className={headingClass}>Price</h3>
+          <Slider
+            min={priceMin}
+            max={priceMax}
+            step={1}
+            value={priceRange}
+            onValueChange={setPriceRange}
+            onValueCommit={handlePriceCommit}
+            disabled={priceMin >= priceMax}
+            className="my-4"
+          />
+          <div className="flex justify-between text-xs sm:text-sm text-gray-600 dark:text-gray-400 font-sans">
+            <span>${priceRange[0]}</span>
+            <span>${priceRange[1]}</span>
+          </div>
+        </div>
+
+        <div>
+          <h3 className={headingClass}>Rating</h3>
+          <div className="space-y-0.5">
+            {RATING_OPTIONS.map((rating) => (
+              <button
+                key={rating}
+                type="button"
+                onClick={() => onChange({ minRating: filters.minRating === rating ? null : rating })}
+                className={optionClass(filters.minRating === rating)}
+              >
+                <span className="flex items-center">
+                  {[...Array(5)].map((_, i) => (
+                    <Star
+                      key={i}
+                      className={`h-3.5 w-3.5 ${
+                        i < rating ? "text-yellow-400 fill-current" : "text-gray-300 dark:text-gray-600"
+                      }`}
+                    />
+                  ))}
+                  <span className="ml-1">& up</span>
+                </span>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{facets?.ratings[rating] ?? 0}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className={headingClass}>Availability</h3>
+          <label className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300 font-sans cursor-pointer">
+            <span className="flex items-center gap-2">
+              <Checkbox
+                checked={filters.inStock}
+                onCheckedChange={(checked) => onChange({ inStock: checked === true })}
+              />
+              In stock only
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{facets?.in_stock ?? 0}</span>
+          </label>
+          <label className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300 font-sans cursor-pointer">
+            <span className="flex items-center gap-2">
+              <Checkbox
+                checked={filters.onSale}
+                onCheckedChange={(checked) => onChange({ onSale: checked === true })}
+              />
+              On sale
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{facets?.on_sale ?? 0}</span>
+          </label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CatalogFacets;
@@ -1,11 +1,30 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
-import { CreditCard, Lock } from "lucide-react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Lock, Plus } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
+import { placeOrder, describeCheckoutError } from "@/lib/checkout";
+import type { AppliedPromotion } from "@/lib/promotions";
+import {
+  quoteShipping,
+  formatDeliveryEstimate,
+  DEFAULT_SHIPPING_COUNTRY,
+  type ShippingQuote,
+} from "@/lib/shipping";
+import { fetchAddresses, formatAddressSummary, type Address } from "@/lib/addresses";
+import { quoteTax, sumTax, taxLabel, formatTaxRate, type TaxDisplay, type TaxLine } from "@/lib/tax";
+import PromoCodeInput from "@/components/PromoCodeInput";
+import AddressDialog from "@/components/AddressDialog";
+import PaymentDialog from "@/components/PaymentDialog";
 import { toast } from "sonner";
 
 interface CheckoutDialogProps {
@@ -20,17 +39,103 @@ interface CheckoutDialogProps {
       price: number;
     };
   }>;
+  subtotal: number;
+  // Subtotal less the discount, before shipping and tax
   total: number;
+  taxDisplay: TaxDisplay;
+  promotion: AppliedPromotion | null;
+  onPromotionChange: (promotion: AppliedPromotion | null) => void;
   onOrderComplete: () => void;
 }
 
-const CheckoutDialog = ({ open, onOpenChange, cartItems, total, onOrderComplete }: CheckoutDialogProps) => {
+const addressSelectClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+
+const CheckoutDialog = ({
+  open,
+  onOpenChange,
+  cartItems,
+  subtotal,
+  total,
+  taxDisplay,
+  promotion,
+  onPromotionChange,
+  onOrderComplete,
+}: CheckoutDialogProps) => {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
-  const [shippingAddress, setShippingAddress] = useState("");
-  const [cardNumber, setCardNumber] = useState("4242424242424242");
-  const [expiryDate, setExpiryDate] = useState("12/25");
-  const [cvv, setCvv] = useState("123");
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [shippingAddressId, setShippingAddressId] = useState("");
+  // "same" bills the shipping address
+  const [billingAddressId, setBillingAddressId] = useState("same");
+  const [addressDialogOpen, setAddressDialogOpen] = useState(false);
+  const [quotes, setQuotes] = useState<ShippingQuote[]>([]);
+  const [quotesLoading, setQuotesLoading] = useState(false);
+  const [methodId, setMethodId] = useState("");
+  const [taxLines, setTaxLines] = useState<TaxLine[]>([]);
+  // Placed and waiting to be paid for
+  const [placedOrder, setPlacedOrder] = useState<{ id: string; total: number } | null>(null);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const loadAddresses = async () => {
+      const data = await fetchAddresses(user.id);
+      const defaultShipping = data.find((address) => address.is_default_shipping) || data[0];
+      const defaultBilling = data.find((address) => address.is_default_billing);
+
+      setAddresses(data);
+      setShippingAddressId(defaultShipping?.id || "");
+      setBillingAddressId(defaultBilling && defaultBilling.id !== defaultShipping?.id ? defaultBilling.id : "same");
+    };
+
+    loadAddresses();
+  }, [open, user]);
+
+  const selectedQuote = quotes.find((quote) => quote.method_id === methodId) || null;
+  const requiresAddress = selectedQuote?.requires_address !== false;
+  const effectiveBillingId = billingAddressId === "same" ? shippingAddressId : billingAddressId;
+  const shippingAddress = addresses.find((address) => address.id === shippingAddressId) || null;
+  const billingAddress = addresses.find((address) => address.id === effectiveBillingId) || null;
+  // place_order prices and taxes pickup orders for the billing address
+  const pricedAddress = requiresAddress ? shippingAddress : billingAddress;
+  const country = pricedAddress?.country_code || DEFAULT_SHIPPING_COUNTRY;
+  const region = pricedAddress?.region || null;
+  const promoCode = promotion?.code;
+
+  // Rates depend on the cart's weight and value as well as the destination
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const loadQuotes = async () => {
+      setQuotesLoading(true);
+      const { data, error } = await quoteShipping(country);
+
+      if (error) {
+        toast.error(error);
+      }
+      setQuotes(data);
+      setMethodId((current) => (data.some((quote) => quote.method_id === current) ? current : data[0]?.method_id || ""));
+      setQuotesLoading(false);
+    };
+
+    loadQuotes();
+  }, [open, user, country, cartItems]);
+
+  // Tax is on the discounted price, so it changes with the promo code too
+  useEffect(() => {
+    if (!open || !user) return;
+
+    quoteTax(country, region, promoCode).then(({ data, error }) => {
+      if (error) {
+        toast.error(error);
+      }
+      setTaxLines(data);
+    });
+  }, [open, user, country, region, promoCode, cartItems]);
+
+  const shippingCost = selectedQuote && !promotion?.free_shipping ? selectedQuote.price : 0;
+  const tax = sumTax(taxLines);
+  const orderTotal = total + shippingCost + tax;
 
   const handlePlaceOrder = async () => {
     if (!user) {
@@ -38,188 +143,273 @@ const CheckoutDialog = ({ open, onOpenChange, cartItems, total, onOrderComplete
       return;
     }
 
-    if (!shippingAddress.trim()) {
-      toast.error("Please enter a shipping address");
+    if (!selectedQuote) {
+      toast.error("Please choose a delivery option");
+      return;
+    }
+
+    if (requiresAddress && !shippingAddress) {
+      toast.error("Please choose a shipping address");
+      return;
+    }
+
+    if (!billingAddress) {
+      toast.error("Please add a billing address");
       return;
     }
 
     setLoading(true);
 
-    try {
-      // Create the order
-      const { data: orderData, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          user_id: user.id,
-          total_amount: total,
-          shipping_address: shippingAddress,
-          status: "confirmed",
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = cartItems.map((item) => ({
-        order_id: orderData.id,
-        book_id: item.books.id,
-        quantity: item.quantity,
-        price: item.books.price,
-      }));
-
-      const { error: itemsError } = await supabase.from("order_items").insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      // Clear the cart
-      const { error: clearCartError } = await supabase
-        .from("cart_items")
-        .delete()
-        .eq("user_id", user.id);
-
-      if (clearCartError) throw clearCartError;
-
-      toast.success("Order placed successfully! Order ID: " + orderData.id.slice(0, 8));
-      onOrderComplete();
-      onOpenChange(false);
-    } catch (error) {
+    const { orderId, error } = await placeOrder(
+      {
+        methodId: selectedQuote.method_id,
+        shippingAddressId: requiresAddress ? shippingAddress.id : null,
+        billingAddressId: billingAddress.id,
+      },
+      promotion?.code
+    );
+
+    if (error) {
       console.error("Error placing order:", error);
-      toast.error("Failed to place order. Please try again.");
-    } finally {
-      setLoading(false);
+      toast.error(describeCheckoutError(error));
+      if (error.code === "PROMOTION_INVALID") {
+        onPromotionChange(null);
+      }
+    } else {
+      setPlacedOrder({ id: orderId, total: orderTotal });
+      onOpenChange(false);
+    }
+    setLoading(false);
+  };
+
+  const handleAddressSaved = async (address: Address) => {
+    if (!user) return;
+
+    setAddresses(await fetchAddresses(user.id));
+    if (requiresAddress) {
+      setShippingAddressId(address.id);
+    } else {
+      setBillingAddressId(address.id);
     }
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-[18rem] bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
-        <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
-          <DialogTitle className="flex items-center gap-1.5 text-base font-bold text-gray-900 dark:text-white font-sans">
-            <div className="w-5 h-5 bg-indigo-500 dark:bg-indigo-600 rounded-full flex items-center justify-center">
-              <Lock className="h-2.5 w-2.5 text-white" />
-            </div>
-            Secure Checkout
-          </DialogTitle>
-          <DialogDescription className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
-            Secure payment (Demo Mode)
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="space-y-3">
-          {/* Order Summary */}
-          <Card className="bg-white dark:bg-gray-800 shadow-md rounded-2xl border-0">
-            <CardContent className="p-3">
-              <h3 className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans mb-1">
-                Order Summary
-              </h3>
-              <div className="space-y-0.5 text-[0.65rem] sm:text-xs">
-                {cartItems.map((item) => (
-                  <div key={item.id} className="flex justify-between items-center">
-                    <span className="text-gray-600 dark:text-gray-400 font-sans truncate">{item.books.title} × {item.quantity}</span>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-[18rem] max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+          <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+            <DialogTitle className="flex items-center gap-1.5 text-base font-bold text-gray-900 dark:text-white font-sans">
+              <div className="w-5 h-5 bg-indigo-500 dark:bg-indigo-600 rounded-full flex items-center justify-center">
+                <Lock className="h-2.5 w-2.5 text-white" />
+              </div>
+              Secure Checkout
+            </DialogTitle>
+            <DialogDescription className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+              Review your order, then pay on the next step
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {/* Order Summary */}
+            <Card className="bg-white dark:bg-gray-800 shadow-md rounded-2xl border-0">
+              <CardContent className="p-3">
+                <h3 className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans mb-1">
+                  Order Summary
+                </h3>
+                <div className="space-y-0.5 text-[0.65rem] sm:text-xs">
+                  {cartItems.map((item) => (
+                    <div key={item.id} className="flex justify-between items-center">
+                      <span className="text-gray-600 dark:text-gray-400 font-sans truncate">{item.books.title} × {item.quantity}</span>
+                      <span className="font-semibold text-gray-900 dark:text-white font-sans">
+                        ${(item.books.price * item.quantity).toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="border-t border-gray-200 dark:border-gray-700 pt-0.5 flex justify-between items-center">
+                    <span className="text-gray-600 dark:text-gray-400 font-sans">Subtotal</span>
+                    <span className="font-semibold text-gray-900 dark:text-white font-sans">${subtotal.toFixed(2)}</span>
+                  </div>
+                  {promotion && subtotal > total && (
+                    <div className="flex justify-between items-center text-green-700 dark:text-green-400">
+                      <span className="font-sans">Discount ({promotion.code})</span>
+                      <span className="font-semibold font-sans">-${(subtotal - total).toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600 dark:text-gray-400 font-sans truncate">
+                      Shipping{selectedQuote && ` (${selectedQuote.name})`}
+                    </span>
                     <span className="font-semibold text-gray-900 dark:text-white font-sans">
-                      ${(item.books.price * item.quantity).toFixed(2)}
+                      {!selectedQuote ? '—' : shippingCost === 0 ? 'Free' : `$${shippingCost.toFixed(2)}`}
+                    </span>
+                  </div>
+                  {taxDisplay === 'exclusive' && taxLines.map((line) => (
+                    <div key={`${line.name}-${line.rate}`} className="flex justify-between items-center">
+                      <span className="text-gray-600 dark:text-gray-400 font-sans truncate">
+                        {line.name} ({formatTaxRate(line.rate)})
+                      </span>
+                      <span className="font-semibold text-gray-900 dark:text-white font-sans">${line.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <div className="border-t border-gray-200 dark:border-gray-700 pt-0.5 font-bold flex justify-between items-center">
+                    <span className="text-gray-900 dark:text-white font-sans">Total</span>
+                    <span className="text-xs sm:text-sm bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
+                      ${orderTotal.toFixed(2)}
                     </span>
                   </div>
-                ))}
-                <div className="border-t border-gray-200 dark:border-gray-700 pt-0.5 font-bold flex justify-between items-center">
-                  <span className="text-gray-900 dark:text-white font-sans">Total</span>
-                  <span className="text-xs sm:text-sm bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
-                    ${total.toFixed(2)}
-                  </span>
+                  {taxDisplay === 'inclusive' && tax > 0 && (
+                    <p className="text-right text-gray-500 dark:text-gray-400 font-sans">
+                      Includes ${tax.toFixed(2)} {taxLabel(taxLines)}
+                    </p>
+                  )}
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Shipping Address */}
-          <div className="space-y-0.5">
-            <label className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
-              Shipping Address
-            </label>
-            <Input
-              placeholder="Full address"
-              value={shippingAddress}
-              onChange={(e) => setShippingAddress(e.target.value)}
-              className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
-            />
-          </div>
+              </CardContent>
+            </Card>
 
-          {/* Mock Payment Form */}
-          <Card className="bg-white dark:bg-gray-800 shadow-md rounded-2xl border-0">
-            <CardContent className="p-3">
-              <div className="flex items-center gap-1 mb-1">
-                <div className="w-4 h-4 bg-indigo-500 dark:bg-indigo-600 rounded-full flex items-center justify-center">
-                  <CreditCard className="h-2 w-2 text-white" />
-                </div>
-                <span className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">
-                  Payment (Demo)
-                </span>
-              </div>
+            <PromoCodeInput promotion={promotion} onChange={onPromotionChange} compact />
 
-              <div className="space-y-1">
-                <div>
+            {/* Addresses */}
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <label className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
+                  {requiresAddress ? "Shipping Address" : "Billing Address"}
+                </label>
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => setAddressDialogOpen(true)}
+                  className="text-[0.65rem] sm:text-xs text-indigo-500 dark:text-indigo-400 font-sans p-0 h-auto"
+                >
+                  <Plus className="h-3 w-3 mr-0.5" />
+                  New address
+                </Button>
+              </div>
+              {addresses.length === 0 ? (
+                <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans">
+                  Add an address to continue
+                </p>
+              ) : requiresAddress ? (
+                <>
+                  <Select value={shippingAddressId} onValueChange={setShippingAddressId}>
+                    <SelectTrigger className={addressSelectClassName}>
+                      <SelectValue placeholder="Choose an address" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                      {addresses.map((address) => (
+                        <SelectItem key={address.id} value={address.id} className="text-[0.65rem] sm:text-xs font-sans">
+                          {formatAddressSummary(address)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <label className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
-                    Card Number
+                    Billing Address
                   </label>
-                  <Input
-                    value={cardNumber}
-                    onChange={(e) => setCardNumber(e.target.value)}
-                    placeholder="4242 4242 4242 4242"
-                    className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
-                  />
-                </div>
-
-                <div className="grid grid-cols-2 gap-1">
-                  <div>
-                    <label className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
-                      Expiry
-                    </label>
-                    <Input
-                      value={expiryDate}
-                      onChange={(e) => setExpiryDate(e.target.value)}
-                      placeholder="MM/YY"
-                      className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
-                    />
-                  </div>
-                  <div>
-                    <label className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
-                      CVV
-                    </label>
-                    <Input
-                      value={cvv}
-                      onChange={(e) => setCvv(e.target.value)}
-                      placeholder="123"
-                      className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
-                    />
-                  </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+                  <Select value={billingAddressId} onValueChange={setBillingAddressId}>
+                    <SelectTrigger className={addressSelectClassName}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                      <SelectItem value="same" className="text-[0.65rem] sm:text-xs font-sans">
+                        Same as shipping address
+                      </SelectItem>
+                      {addresses.map((address) => (
+                        <SelectItem key={address.id} value={address.id} className="text-[0.65rem] sm:text-xs font-sans">
+                          {formatAddressSummary(address)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              ) : (
+                <Select value={effectiveBillingId} onValueChange={setBillingAddressId}>
+                  <SelectTrigger className={addressSelectClassName}>
+                    <SelectValue placeholder="Choose an address" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                    {addresses.map((address) => (
+                      <SelectItem key={address.id} value={address.id} className="text-[0.65rem] sm:text-xs font-sans">
+                        {formatAddressSummary(address)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
 
-          <div className="bg-gray-50 dark:bg-gray-700 p-1 rounded-md border border-gray-200 dark:border-gray-600">
-            <div className="flex items-center">
-              <div className="w-4 h-4 bg-indigo-500 dark:bg-indigo-600 rounded-full flex items-center justify-center mr-1">
-                <Lock className="h-2 w-2 text-white" />
-              </div>
-              <span className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
-                Mock payment. No charge.
-              </span>
+            {/* Delivery */}
+            <div className="space-y-1">
+              <label className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
+                Delivery
+              </label>
+              {quotesLoading ? (
+                <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans animate-pulse">
+                  Loading delivery options...
+                </p>
+              ) : quotes.length === 0 ? (
+                <p className="text-[0.65rem] sm:text-xs text-red-600 dark:text-red-400 font-sans">
+                  We can't deliver this order to that country yet
+                </p>
+              ) : (
+                <RadioGroup value={methodId} onValueChange={setMethodId} className="gap-1">
+                  {quotes.map((quote) => {
+                    const estimate = formatDeliveryEstimate(quote.min_days, quote.max_days);
+                    return (
+                      <label
+                        key={quote.method_id}
+                        className="flex items-center gap-2 rounded-md border border-gray-200 dark:border-gray-600 p-1.5 cursor-pointer"
+                      >
+                        <RadioGroupItem value={quote.method_id} className="h-3 w-3" />
+                        <span className="flex-1 min-w-0 text-[0.65rem] sm:text-xs font-sans">
+                          <span className="block font-semibold text-gray-900 dark:text-white">{quote.name}</span>
+                          <span className="block text-gray-500 dark:text-gray-400 truncate">
+                            {[estimate, quote.carrier_name].filter(Boolean).join(' · ') || quote.description}
+                          </span>
+                        </span>
+                        <span className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">
+                          {quote.price === 0 || promotion?.free_shipping ? 'Free' : `$${quote.price.toFixed(2)}`}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </RadioGroup>
+              )}
             </div>
+
+            <Button
+              onClick={handlePlaceOrder}
+              disabled={loading || !selectedQuote || !billingAddress}
+              className="w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+              size="sm"
+            >
+              {loading ? "Placing order..." : `Continue to payment - $${orderTotal.toFixed(2)}`}
+            </Button>
           </div>
+        </DialogContent>
+      </Dialog>
+
+      <AddressDialog
+        open={addressDialogOpen}
+        onOpenChange={setAddressDialogOpen}
+        address={null}
+        onSaved={handleAddressSaved}
+      />
 
-          <Button
-            onClick={handlePlaceOrder}
-            disabled={loading}
-            className="w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
-            size="sm"
-          >
-            {loading ? "Processing..." : `Order - $${total.toFixed(2)}`}
-          </Button>
-        </div>
-      </DialogContent>
-    </Dialog>
+      {placedOrder && (
+        <PaymentDialog
+          open={!!placedOrder}
+          // Unpaid orders stay pending and can be paid for from the Orders page
+          onOpenChange={(open) => {
+            if (!open) {
+              setPlacedOrder(null);
+              onOrderComplete();
+            }
+          }}
+          orderId={placedOrder.id}
+          amount={placedOrder.total}
+        />
+      )}
+    </>
   );
 };
 
@@ -1,11 +1,14 @@
 import { useState, useEffect } from "react";
 import { Link, useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Search, ShoppingCart, User, LogIn, BookOpen, LogOut, Package, Settings } from "lucide-react";
+import { ShoppingCart, User, LogIn, BookOpen, LogOut, Package, Settings, Heart } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/integrations/supabase/client";
+import { getCartCount } from "@/lib/cart";
+import { getWishlistNoticeCount } from "@/lib/wishlist";
+import HeaderSearch from "@/components/HeaderSearch";
 
 interface Category {
   id: string;
@@ -14,62 +17,39 @@ interface Category {
 }
 
 const Header = () => {
-  const [searchQuery, setSearchQuery] = useState("");
   const [cartItemsCount, setCartItemsCount] = useState(0);
+  const [wishlistNoticeCount, setWishlistNoticeCount] = useState(0);
   const [topCategories, setTopCategories] = useState<Category[]>([]);
-  const [userRole, setUserRole] = useState<string | null>(null);
   const { user, signOut } = useAuth();
+  const { isStaff } = usePermissions();
   const navigate = useNavigate();
   const location = useLocation();
 
   useEffect(() => {
-    if (user) {
-      fetchCartItemsCount();
-      fetchUserRole();
-    } else {
-      setCartItemsCount(0);
-    }
+    fetchCartItemsCount();
+    fetchWishlistNoticeCount();
     fetchTopCategories();
 
-    // Listen for cart updates
+    // Listen for cart updates (guest carts included)
     const handleCartUpdate = () => {
-      if (user) {
-        fetchCartItemsCount();
-      }
+      fetchCartItemsCount();
     };
 
     window.addEventListener("cartUpdated", handleCartUpdate);
-    return () => window.removeEventListener("cartUpdated", handleCartUpdate);
+    window.addEventListener("wishlistUpdated", fetchWishlistNoticeCount);
+    return () => {
+      window.removeEventListener("cartUpdated", handleCartUpdate);
+      window.removeEventListener("wishlistUpdated", fetchWishlistNoticeCount);
+    };
   }, [user]);
 
-  const fetchUserRole = async () => {
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("role")
-      .eq("id", user.id)
-      .single();
-
-    if (!error && data) {
-      setUserRole(data.role);
-    }
-  };
-
   const fetchCartItemsCount = async () => {
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from("cart_items")
-      .select("quantity")
-      .eq("user_id", user.id);
+    setCartItemsCount(await getCartCount(user?.id ?? null));
+  };
 
-    if (error) {
-      console.error("Error fetching cart items count:", error);
-    } else {
-      const totalCount = data?.reduce((sum, item) => sum + item.quantity, 0) || 0;
-      setCartItemsCount(totalCount);
-    }
+  // Saved books whose price dropped or that are back in stock
+  const fetchWishlistNoticeCount = async () => {
+    setWishlistNoticeCount(user ? await getWishlistNoticeCount(user.id) : 0);
   };
 
   const fetchTopCategories = async () => {
@@ -101,13 +81,6 @@ const Header = () => {
     }
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/books?search=${encodeURIComponent(searchQuery)}`);
-    }
-  };
-
   const handleCategoryClick = (categoryName: string) => {
     const searchParams = new URLSearchParams();
     searchParams.set("category", categoryName);
@@ -132,24 +105,15 @@ const Header = () => {
           </Link>
 
           {/* Search Bar */}
-          <form onSubmit={handleSearch} className="flex-1 max-w-2xl mx-8">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-indigo-500 dark:text-indigo-400" />
-              <Input
-                type="text"
-                placeholder="Search for books, authors, genres..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10 pr-4 py-2 text-sm sm:text-base text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-lg"
-              />
-            </div>
-          </form>
+          <div className="flex-1 max-w-2xl mx-8">
+            <HeaderSearch />
+          </div>
 
           {/* Navigation Items */}
           <div className="flex items-center space-x-4">
             {user ? (
               <>
-                {userRole === "admin" && (
+                {isStaff && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -175,6 +139,27 @@ const Header = () => {
                   </Link>
                 </Button>
 
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  asChild
+                  className="relative text-sm sm:text-base text-gray-700 dark:text-gray-300 hover:text-indigo-500 dark:hover:text-indigo-400 font-sans"
+                >
+                  <Link
+                    to="/wishlist"
+                    className="flex items-center space-x-1"
+                    title={wishlistNoticeCount > 0 ? "Price drops or restocks on your wishlist" : undefined}
+                  >
+                    <Heart className="h-5 w-5 text-indigo-500 dark:text-indigo-400" />
+                    <span>Wishlist</span>
+                    {wishlistNoticeCount > 0 && (
+                      <Badge className="absolute -top-2 -right-2 h-5 w-5 flex items-center justify-center p-0 text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 font-sans">
+                        {wishlistNoticeCount}
+                      </Badge>
+                    )}
+                  </Link>
+                </Button>
+
                 <Button
                   variant="ghost"
                   size="sm"
@@ -0,0 +1,211 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Command as CommandPrimitive } from "cmdk";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { Search, Clock, User, Tag, X } from "lucide-react";
+import { useDebounce } from "@/hooks/useDebounce";
+import {
+  fetchSearchSuggestions,
+  getRecentSearches,
+  saveRecentSearch,
+  clearRecentSearches,
+  type SearchSuggestion,
+} from "@/lib/search";
+
+const SUGGESTION_DELAY_MS = 200;
+
+const HeaderSearch = () => {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const debouncedQuery = useDebounce(query.trim(), SUGGESTION_DELAY_MS);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (debouncedQuery.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    // Drop responses for queries the user has already typed past
+    let ignore = false;
+    fetchSearchSuggestions(debouncedQuery).then(({ data, error }) => {
+      if (ignore) return;
+      if (error) {
+        console.error("Error fetching search suggestions:", error);
+      }
+      setSuggestions(data);
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [debouncedQuery]);
+
+  const openDropdown = () => {
+    setRecentSearches(getRecentSearches());
+    setOpen(true);
+  };
+
+  const go = (path: string, remember?: string) => {
+    if (remember) {
+      saveRecentSearch(remember);
+    }
+    setOpen(false);
+    setQuery("");
+    navigate(path);
+  };
+
+  const searchFor = (value: string) => {
+    go(`/books?search=${encodeURIComponent(value.trim())}`, value);
+  };
+
+  const handleClearRecent = () => {
+    clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  const books = suggestions.filter((s) => s.kind === "book");
+  const authors = suggestions.filter((s) => s.kind === "author");
+  const categories = suggestions.filter((s) => s.kind === "category");
+  const trimmedQuery = query.trim();
+  const showRecent = !trimmedQuery && recentSearches.length > 0;
+
+  const itemClassName = "text-sm font-sans text-gray-700 dark:text-gray-300 aria-selected:bg-indigo-50 aria-selected:text-indigo-700 dark:aria-selected:bg-indigo-900 dark:aria-selected:text-indigo-200 cursor-pointer";
+  const groupClassName = "[&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:font-semibold [&_[cmdk-group-heading]]:text-gray-500 dark:[&_[cmdk-group-heading]]:text-gray-400";
+
+  return (
+    <Command
+      shouldFilter={false}
+      className="relative overflow-visible bg-transparent"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          setOpen(false);
+        }
+      }}
+    >
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-indigo-500 dark:text-indigo-400" />
+        <CommandPrimitive.Input
+          value={query}
+          onValueChange={(value) => {
+            setQuery(value);
+            setOpen(true);
+          }}
+          onFocus={openDropdown}
+          onBlur={() => setOpen(false)}
+          placeholder="Search for books, authors, genres..."
+          className="flex h-10 w-full rounded-lg border border-input pl-10 pr-4 py-2 text-sm sm:text-base text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        />
+      </div>
+
+      {open && (trimmedQuery || showRecent) && (
+        <div
+          className="absolute top-full left-0 right-0 z-50 mt-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg"
+          // Keep focus in the input so clicking an item doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandList className="max-h-[420px]">
+            {showRecent && (
+              <CommandGroup heading="Recent searches" className={groupClassName}>
+                {recentSearches.map((recent) => (
+                  <CommandItem
+                    key={recent}
+                    value={`recent:${recent}`}
+                    onSelect={() => searchFor(recent)}
+                    className={itemClassName}
+                  >
+                    <Clock className="mr-2 h-4 w-4 text-gray-400" />
+                    {recent}
+                  </CommandItem>
+                ))}
+                <CommandItem
+                  value="recent:clear"
+                  onSelect={handleClearRecent}
+                  className="text-xs font-sans text-gray-500 dark:text-gray-400 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-700 cursor-pointer"
+                >
+                  <X className="mr-2 h-3 w-3" />
+                  Clear recent searches
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {trimmedQuery && (
+              <CommandGroup className={groupClassName}>
+                <CommandItem
+                  value={`search:${trimmedQuery}`}
+                  onSelect={() => searchFor(trimmedQuery)}
+                  className={itemClassName}
+                >
+                  <Search className="mr-2 h-4 w-4 text-indigo-500 dark:text-indigo-400" />
+                  Search for "{trimmedQuery}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {trimmedQuery && books.length > 0 && (
+              <CommandGroup heading="Books" className={groupClassName}>
+                {books.map((book) => (
+                  <CommandItem
+                    key={book.id}
+                    value={`book:${book.id}`}
+                    onSelect={() => go(`/book/${book.id}`, trimmedQuery)}
+                    className={itemClassName}
+                  >
+                    <img
+                      src={book.image_url || "https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400&h=600&fit=crop"}
+                      alt=""
+                      className="mr-3 h-10 w-7 flex-shrink-0 rounded object-cover"
+                    />
+                    <div className="min-w-0">
+                      <p className="truncate font-semibold text-gray-900 dark:text-white">{book.label}</p>
+                      {book.detail && (
+                        <p className="truncate text-xs text-gray-500 dark:text-gray-400">{book.detail}</p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {trimmedQuery && authors.length > 0 && (
+              <CommandGroup heading="Authors" className={groupClassName}>
+                {authors.map((author) => (
+                  <CommandItem
+                    key={author.label}
+                    value={`author:${author.label}`}
+                    onSelect={() => searchFor(author.label)}
+                    className={itemClassName}
+                  >
+                    <User className="mr-2 h-4 w-4 text-indigo-500 dark:text-indigo-400" />
+                    <span className="flex-1 truncate">{author.label}</span>
+                    <span className="ml-2 text-xs text-gray-400">{author.book_count}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {trimmedQuery && categories.length > 0 && (
+              <CommandGroup heading="Categories" className={groupClassName}>
+                {categories.map((category) => (
+                  <CommandItem
+                    key={category.id}
+                    value={`category:${category.id}`}
+                    onSelect={() => go(`/books?category=${encodeURIComponent(category.label)}`, trimmedQuery)}
+                    className={itemClassName}
+                  >
+                    <Tag className="mr-2 h-4 w-4 text-indigo-500 dark:text-indigo-400" />
+                    <span className="flex-1 truncate">{category.label}</span>
+                    <span className="ml-2 text-xs text-gray-400">{category.book_count}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </div>
+      )}
+    </Command>
+  );
+};
+
+export default HeaderSearch;
@@ -0,0 +1,27 @@
+import { parseHighlight } from "@/lib/search";
+
+interface HighlightedTextProps {
+  value: string;
+  className?: string;
+}
+
+const HighlightedText = ({ value, className }: HighlightedTextProps) => {
+  return (
+    <span className={className}>
+      {parseHighlight(value).map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="bg-yellow-100 text-inherit dark:bg-yellow-900/60 rounded-sm px-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </span>
+  );
+};
+
+export default HighlightedText;
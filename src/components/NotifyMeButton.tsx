@@ -0,0 +1,67 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Bell, BellOff } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { isSubscribedToStock, subscribeToStock, unsubscribeFromStock } from "@/lib/stockNotifications";
+import { toast } from "sonner";
+
+interface NotifyMeButtonProps {
+  bookId: string;
+  title: string;
+  className?: string;
+}
+
+const NotifyMeButton = ({ bookId, title, className }: NotifyMeButtonProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [subscribed, setSubscribed] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setSubscribed(false);
+      return;
+    }
+
+    isSubscribedToStock(user.id, bookId).then(setSubscribed);
+  }, [user, bookId]);
+
+  const handleToggle = async () => {
+    if (!user) {
+      toast.error('Please login to be notified when this book is back');
+      navigate('/login');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = subscribed
+      ? await unsubscribeFromStock(user.id, bookId)
+      : await subscribeToStock(user.id, bookId);
+
+    if (error) {
+      console.error('Error updating stock notification:', error);
+      toast.error('Failed to update notification');
+    } else {
+      toast.success(subscribed
+        ? `You won't be emailed about "${title}"`
+        : `We'll email ${user.email} when "${title}" is back in stock`);
+      setSubscribed(!subscribed);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Button
+      onClick={handleToggle}
+      disabled={loading}
+      aria-pressed={subscribed}
+      className={className}
+    >
+      {subscribed ? <BellOff className="h-5 w-5 mr-2" /> : <Bell className="h-5 w-5 mr-2" />}
+      {subscribed ? 'Cancel Notification' : 'Notify Me'}
+    </Button>
+  );
+};
+
+export default NotifyMeButton;
@@ -0,0 +1,64 @@
+import { formatOrderStatus, type OrderStatusEvent } from "@/lib/orders";
+
+interface OrderTimelineProps {
+  events: OrderStatusEvent[];
+  // Who made a change, e.g. "You" or an admin's email
+  describeActor?: (event: OrderStatusEvent) => string | null;
+  compact?: boolean;
+}
+
+const dotClassNames: Record<string, string> = {
+  pending: "bg-yellow-400",
+  confirmed: "bg-blue-500",
+  shipped: "bg-indigo-500",
+  delivered: "bg-green-500",
+  return_requested: "bg-orange-500",
+  refunded: "bg-purple-500",
+  cancelled: "bg-red-500",
+};
+
+const OrderTimeline = ({ events, describeActor, compact = false }: OrderTimelineProps) => {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  if (sorted.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 font-sans">No status history yet</p>
+    );
+  }
+
+  const titleClass = compact ? "text-[0.65rem] sm:text-xs" : "text-sm";
+  const detailClass = compact ? "text-[0.6rem] sm:text-[0.65rem]" : "text-xs";
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-1.5">
+      {sorted.map((event, index) => {
+        const actor = describeActor?.(event);
+        const isLatest = index === sorted.length - 1;
+
+        return (
+          <li key={event.id} className={`ml-4 ${isLatest ? "" : "pb-4"}`}>
+            <span
+              className={`absolute -left-1.5 mt-1 h-3 w-3 rounded-full border-2 border-white dark:border-gray-800 ${
+                dotClassNames[event.new_status] || "bg-gray-400"
+              }`}
+            />
+            <p className={`${titleClass} font-semibold text-gray-900 dark:text-white font-sans`}>
+              {formatOrderStatus(event.new_status)}
+            </p>
+            <p className={`${detailClass} text-gray-500 dark:text-gray-400 font-sans`}>
+              {new Date(event.created_at).toLocaleString()}
+              {actor && ` · ${actor}`}
+            </p>
+            {event.note && (
+              <p className={`${detailClass} mt-0.5 text-gray-600 dark:text-gray-300 font-sans`}>{event.note}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
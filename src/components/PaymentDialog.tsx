@@ -0,0 +1,278 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CreditCard, Lock, ShieldCheck } from "lucide-react";
+import {
+  authorizePayment,
+  completePaymentChallenge,
+  describeDeclineReason,
+  fetchPayment,
+  TEST_CARDS,
+  type CardInput,
+  type PaymentAttempt,
+} from "@/lib/payments";
+import { toast } from "sonner";
+
+interface PaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  amount: number;
+  // Called once the payment is captured and the order confirmed
+  onPaid?: () => void;
+}
+
+// card: entering card details
+// challenge: the bank wants the customer to confirm (3-D Secure)
+// processing: waiting for the result to arrive by webhook
+type PaymentStep = "card" | "challenge" | "processing";
+
+// How often, and how many times, to check on a payment that's processing
+const POLL_INTERVAL_MS = 2000;
+const POLL_ATTEMPTS = 15;
+
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const primaryButtonClassName = "w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md shadow-md h-8";
+const outlineButtonClassName = "w-full text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans h-8";
+
+const PaymentDialog = ({ open, onOpenChange, orderId, amount, onPaid }: PaymentDialogProps) => {
+  const [card, setCard] = useState<CardInput>({ number: "4242 4242 4242 4242", expiry: "12/30", cvc: "123" });
+  const [step, setStep] = useState<PaymentStep>("card");
+  const [attempt, setAttempt] = useState<PaymentAttempt | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setStep("card");
+      setAttempt(null);
+      setError(null);
+    }
+  }, [open, orderId]);
+
+  // The result of a processing payment arrives by webhook; check until it's in
+  useEffect(() => {
+    if (!open || step !== "processing" || !attempt) return;
+
+    let checks = 0;
+    const timer = setInterval(async () => {
+      checks++;
+      const payment = await fetchPayment(attempt.payment_id);
+
+      if (payment && payment.status !== "processing") {
+        clearInterval(timer);
+        handleResult({ ...attempt, status: payment.status, failure_reason: payment.failure_reason, challenge: null });
+      } else if (checks >= POLL_ATTEMPTS) {
+        clearInterval(timer);
+        setError("Your bank is still processing the payment. We'll confirm your order as soon as it's through.");
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [open, step, attempt]);
+
+  const handleResult = (result: PaymentAttempt) => {
+    setAttempt(result);
+
+    switch (result.status) {
+      case "captured":
+        toast.success(`Payment received! Order #${orderId.slice(0, 8)} is confirmed.`);
+        onPaid?.();
+        onOpenChange(false);
+        break;
+      case "requires_action":
+        setStep("challenge");
+        break;
+      case "processing":
+        setStep("processing");
+        break;
+      case "refunded":
+        // The order was cancelled while the payment went through
+        toast.error("This order was cancelled, so your payment has been refunded");
+        onOpenChange(false);
+        break;
+      default:
+        setStep("card");
+        setError(describeDeclineReason(result.failure_reason));
+    }
+  };
+
+  const handlePay = async () => {
+    setSubmitting(true);
+    setError(null);
+
+    const { data, error } = await authorizePayment(orderId, card);
+
+    if (error || !data) {
+      setError(error || "Couldn't take the payment. Please try again.");
+    } else {
+      handleResult(data);
+    }
+    setSubmitting(false);
+  };
+
+  const handleChallenge = async (approved: boolean) => {
+    if (!attempt) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    const { data, error } = await completePaymentChallenge(attempt.payment_id, approved);
+
+    if (error || !data) {
+      setStep("card");
+      setError(error || "Couldn't confirm the payment. Please try again.");
+    } else {
+      handleResult(data);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[18rem] max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+        <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+          <DialogTitle className="flex items-center gap-1.5 text-base font-bold text-gray-900 dark:text-white font-sans">
+            <div className="w-5 h-5 bg-indigo-500 dark:bg-indigo-600 rounded-full flex items-center justify-center">
+              <CreditCard className="h-2.5 w-2.5 text-white" />
+            </div>
+            Payment
+          </DialogTitle>
+          <DialogDescription className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+            Order #{orderId.slice(0, 8)} · ${amount.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {step === "card" && (
+            <>
+              <div className="space-y-1">
+                <div>
+                  <label htmlFor="payment-card-number" className={labelClassName}>
+                    Card Number
+                  </label>
+                  <Input
+                    id="payment-card-number"
+                    value={card.number}
+                    onChange={(e) => setCard({ ...card, number: e.target.value })}
+                    placeholder="4242 4242 4242 4242"
+                    autoComplete="cc-number"
+                    inputMode="numeric"
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-1">
+                  <div>
+                    <label htmlFor="payment-card-expiry" className={labelClassName}>
+                      Expiry
+                    </label>
+                    <Input
+                      id="payment-card-expiry"
+                      value={card.expiry}
+                      onChange={(e) => setCard({ ...card, expiry: e.target.value })}
+                      placeholder="MM/YY"
+                      autoComplete="cc-exp"
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="payment-card-cvc" className={labelClassName}>
+                      CVV
+                    </label>
+                    <Input
+                      id="payment-card-cvc"
+                      value={card.cvc}
+                      onChange={(e) => setCard({ ...card, cvc: e.target.value })}
+                      placeholder="123"
+                      autoComplete="cc-csc"
+                      inputMode="numeric"
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-gray-50 dark:bg-gray-700 p-1.5 rounded-md border border-gray-200 dark:border-gray-600 space-y-0.5">
+                <div className="flex items-center">
+                  <div className="w-4 h-4 bg-indigo-500 dark:bg-indigo-600 rounded-full flex items-center justify-center mr-1">
+                    <Lock className="h-2 w-2 text-white" />
+                  </div>
+                  <span className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    Test payments. No charge.
+                  </span>
+                </div>
+                {TEST_CARDS.map((testCard) => (
+                  <button
+                    key={testCard.number}
+                    type="button"
+                    onClick={() => setCard({ ...card, number: testCard.number })}
+                    className="flex w-full justify-between text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-500 dark:hover:text-indigo-400 font-sans"
+                  >
+                    <span className="font-mono">{testCard.number}</span>
+                    <span>{testCard.result}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {step === "challenge" && (
+            <div className="text-center space-y-2">
+              <ShieldCheck className="h-8 w-8 text-indigo-500 dark:text-indigo-400 mx-auto" />
+              <p className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                {attempt?.challenge?.message || "Your bank wants to confirm this payment."}
+              </p>
+            </div>
+          )}
+
+          {step === "processing" && (
+            <p
+              className={`text-center text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans ${
+                error ? "" : "animate-pulse"
+              }`}
+            >
+              Waiting for your bank to approve the payment...
+            </p>
+          )}
+
+          {error && (
+            <p className="text-[0.65rem] sm:text-xs text-red-600 dark:text-red-400 font-sans">{error}</p>
+          )}
+
+          {step === "card" && (
+            <Button onClick={handlePay} disabled={submitting} className={primaryButtonClassName} size="sm">
+              {submitting ? "Processing..." : `Pay $${amount.toFixed(2)}`}
+            </Button>
+          )}
+
+          {step === "challenge" && (
+            <div className="space-y-1">
+              <Button onClick={() => handleChallenge(true)} disabled={submitting} className={primaryButtonClassName} size="sm">
+                {submitting ? "Confirming..." : "Complete authentication"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleChallenge(false)}
+                disabled={submitting}
+                className={outlineButtonClassName}
+                size="sm"
+              >
+                Fail authentication
+              </Button>
+            </div>
+          )}
+
+          {step === "processing" && error && (
+            <Button variant="outline" onClick={() => onOpenChange(false)} className={outlineButtonClassName} size="sm">
+              Close
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentDialog;
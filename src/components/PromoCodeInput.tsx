@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tag, X } from "lucide-react";
+import { toast } from "sonner";
+import { validatePromotion, type AppliedPromotion } from "@/lib/promotions";
+
+interface PromoCodeInputProps {
+  promotion: AppliedPromotion | null;
+  onChange: (promotion: AppliedPromotion | null) => void;
+  compact?: boolean;
+}
+
+const PromoCodeInput = ({ promotion, onChange, compact = false }: PromoCodeInputProps) => {
+  const [code, setCode] = useState("");
+  const [applying, setApplying] = useState(false);
+
+  const textSize = compact ? "text-[0.65rem] sm:text-xs" : "text-sm sm:text-base";
+  const height = compact ? "h-8" : "h-10";
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setApplying(true);
+    const { promotion: applied, error } = await validatePromotion(code);
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(`Code ${applied.code} applied`);
+      onChange(applied);
+      setCode("");
+    }
+    setApplying(false);
+  };
+
+  if (promotion) {
+    return (
+      <div className={`flex items-center justify-between rounded-md border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/30 px-2 py-1 ${textSize} font-sans`}>
+        <span className="flex items-center gap-1 font-semibold text-green-800 dark:text-green-200">
+          <Tag className="h-3 w-3" />
+          {promotion.code}
+          {promotion.description && (
+            <span className="font-normal text-green-700 dark:text-green-300 truncate">
+              — {promotion.description}
+            </span>
+          )}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(null)}
+          className="h-6 w-6 text-green-800 dark:text-green-200 hover:bg-green-100 dark:hover:bg-green-800"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="flex gap-2">
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="Promo code"
+        className={`${textSize} ${height} uppercase text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600`}
+      />
+      <Button
+        type="submit"
+        variant="outline"
+        disabled={applying || !code.trim()}
+        className={`${textSize} ${height} border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans`}
+      >
+        {applying ? "Applying..." : "Apply"}
+      </Button>
+    </form>
+  );
+};
+
+export default PromoCodeInput;
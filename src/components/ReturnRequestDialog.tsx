@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { requestReturn } from "@/lib/orders";
+import { toast } from "sonner";
+
+export interface ReturnableItem {
+  id: string;
+  title: string;
+  price: number;
+  // Quantity still eligible for return after earlier requests
+  returnable: number;
+}
+
+interface ReturnRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  items: ReturnableItem[];
+  onReturnRequested: () => void;
+}
+
+const RETURN_REASONS = [
+  "Damaged or defective",
+  "Wrong item received",
+  "No longer needed",
+  "Arrived too late",
+  "Other",
+];
+
+const ReturnRequestDialog = ({ open, onOpenChange, orderId, items, onReturnRequested }: ReturnRequestDialogProps) => {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setQuantities({});
+      setReason("");
+      setDetails("");
+    }
+  }, [open]);
+
+  const toggleItem = (item: ReturnableItem, checked: boolean) => {
+    setQuantities((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[item.id] = item.returnable;
+      } else {
+        delete next[item.id];
+      }
+      return next;
+    });
+  };
+
+  const selected = Object.entries(quantities).map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+  const refundEstimate = items.reduce((sum, item) => sum + (quantities[item.id] || 0) * item.price, 0);
+
+  const handleSubmit = async () => {
+    if (selected.length === 0) {
+      toast.error("Select at least one item to return");
+      return;
+    }
+    if (!reason) {
+      toast.error("Please choose a reason for the return");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const fullReason = details.trim() ? `${reason}: ${details.trim()}` : reason;
+    const { error } = await requestReturn(orderId, selected, fullReason);
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success("Return requested. We'll be in touch soon.");
+      onReturnRequested();
+      onOpenChange(false);
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white font-sans">
+            Return Items
+          </DialogTitle>
+          <DialogDescription className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+            Order #{orderId.slice(0, 8)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            {items.map((item) => {
+              const isSelected = item.id in quantities;
+              return (
+                <div key={item.id} className="flex items-center gap-3">
+                  <Checkbox
+                    checked={isSelected}
+                    disabled={item.returnable === 0}
+                    onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white font-sans truncate">
+                      {item.title}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 font-sans">
+                      {item.returnable === 0 ? "Already returned" : `$${item.price.toFixed(2)} each`}
+                    </p>
+                  </div>
+                  {isSelected && item.returnable > 1 && (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={item.returnable}
+                      value={quantities[item.id]}
+                      onChange={(e) =>
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [item.id]: Math.min(item.returnable, Math.max(1, Number(e.target.value) || 1)),
+                        }))
+                      }
+                      className="w-16 h-8 text-sm text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <label className="text-sm sm:text-base font-semibold text-gray-700 dark:text-gray-300 font-sans mb-2 block">
+              Reason
+            </label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger className="text-sm text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                {RETURN_REASONS.map((option) => (
+                  <SelectItem key={option} value={option} className="text-sm font-sans">
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="text-sm sm:text-base font-semibold text-gray-700 dark:text-gray-300 font-sans mb-2 block">
+              Details (optional)
+            </label>
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything we should know?"
+              rows={3}
+              className="text-sm sm:text-base text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700"
+            />
+          </div>
+
+          {refundEstimate > 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+              Estimated refund: <span className="font-semibold text-gray-900 dark:text-white">${refundEstimate.toFixed(2)}</span>
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="text-sm border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting || selected.length === 0 || !reason}
+              className="text-sm font-sans bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white"
+            >
+              {isSubmitting ? "Submitting..." : "Request Return"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnRequestDialog;
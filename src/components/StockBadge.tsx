@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import { LOW_STOCK_THRESHOLD } from "@/lib/cart";
+
+interface StockBadgeProps {
+  stockQuantity: number;
+  className?: string;
+}
+
+// Renders nothing while there's plenty of stock
+const StockBadge = ({ stockQuantity, className = "" }: StockBadgeProps) => {
+  if (stockQuantity > LOW_STOCK_THRESHOLD) return null;
+
+  return stockQuantity === 0 ? (
+    <Badge className={`bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 text-xs font-sans ${className}`}>
+      Out of stock
+    </Badge>
+  ) : (
+    <Badge className={`bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200 text-xs font-sans ${className}`}>
+      Only {stockQuantity} left
+    </Badge>
+  );
+};
+
+export default StockBadge;
@@ -0,0 +1,76 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Heart } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { addToWishlist, removeFromWishlist, getWishlistBookIds } from "@/lib/wishlist";
+import { toast } from "sonner";
+
+interface WishlistButtonProps {
+  bookId: string;
+  title: string;
+  className?: string;
+}
+
+const WishlistButton = ({ bookId, title, className }: WishlistButtonProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [saved, setSaved] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setSaved(false);
+      return;
+    }
+
+    const checkSaved = async () => {
+      const ids = await getWishlistBookIds(user.id);
+      setSaved(ids.has(bookId));
+    };
+
+    checkSaved();
+    window.addEventListener("wishlistUpdated", checkSaved);
+    return () => window.removeEventListener("wishlistUpdated", checkSaved);
+  }, [user, bookId]);
+
+  const handleToggle = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!user) {
+      toast.error('Please login to save books to your wishlist');
+      navigate('/login');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = saved
+      ? await removeFromWishlist(user.id, bookId)
+      : await addToWishlist(user.id, bookId);
+
+    if (error) {
+      console.error('Error updating wishlist:', error);
+      toast.error('Failed to update wishlist');
+    } else {
+      toast.success(saved ? `"${title}" removed from wishlist` : `"${title}" saved to wishlist`);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      onClick={handleToggle}
+      disabled={loading}
+      aria-pressed={saved}
+      aria-label={saved ? "Remove from wishlist" : "Save to wishlist"}
+      className={className}
+    >
+      <Heart className={`h-5 w-5 ${saved ? "fill-current" : ""}`} />
+    </Button>
+  );
+};
+
+export default WishlistButton;
@@ -0,0 +1,314 @@
+import { Fragment, useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useDebounce } from "@/hooks/useDebounce";
+import type { Json } from "@/integrations/supabase/types";
+
+interface AuditEntry {
+  id: string;
+  actor_email: string | null;
+  table_name: string;
+  row_id: string;
+  row_label: string | null;
+  action: string;
+  before: Json | null;
+  after: Json | null;
+  created_at: string;
+}
+
+const PAGE_SIZE = 50;
+
+const ENTITIES: Record<string, string> = {
+  books: "Books",
+  categories: "Categories",
+  promotions: "Promotions",
+  orders: "Orders",
+  return_requests: "Returns",
+  profiles: "Users",
+};
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+
+const actionClassNames: Record<string, string> = {
+  insert: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  update: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  delete: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+const asObject = (value: Json | null): Record<string, Json> =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, Json>) : {};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === undefined || value === null) return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const ActivityLog = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [actor, setActor] = useState("");
+  const [entity, setEntity] = useState("all");
+  const [record, setRecord] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const debouncedActor = useDebounce(actor.trim(), 300);
+  const debouncedRecord = useDebounce(record.trim(), 300);
+
+  useEffect(() => {
+    fetchEntries(0);
+  }, [debouncedActor, entity, debouncedRecord, from, to]);
+
+  const fetchEntries = async (offset: number) => {
+    setLoading(true);
+    let query = supabase
+      .from('audit_log')
+      .select('id, actor_email, table_name, row_id, row_label, action, before, after, created_at')
+      .order('created_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (debouncedActor) {
+      query = query.ilike('actor_email', `%${debouncedActor}%`);
+    }
+    if (entity !== 'all') {
+      query = query.eq('table_name', entity);
+    }
+    if (debouncedRecord) {
+      query = query.ilike('row_label', `%${debouncedRecord}%`);
+    }
+    if (from) {
+      query = query.gte('created_at', new Date(`${from}T00:00:00`).toISOString());
+    }
+    if (to) {
+      query = query.lte('created_at', new Date(`${to}T23:59:59.999`).toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching activity:', error);
+    } else {
+      setEntries((prev) => (offset === 0 ? data || [] : [...prev, ...(data || [])]));
+      setHasMore((data || []).length === PAGE_SIZE);
+    }
+    setLoading(false);
+  };
+
+  const clearFilters = () => {
+    setActor("");
+    setEntity("all");
+    setRecord("");
+    setFrom("");
+    setTo("");
+  };
+
+  const renderDiff = (entry: AuditEntry) => {
+    const before = asObject(entry.before);
+    const after = asObject(entry.after);
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+    return (
+      <table className="w-full text-[0.65rem] sm:text-xs font-sans">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="py-1 pr-4 font-semibold">Field</th>
+            <th className="py-1 pr-4 font-semibold">Before</th>
+            <th className="py-1 font-semibold">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map((field) => (
+            <tr key={field} className="align-top">
+              <td className="py-1 pr-4 font-semibold text-gray-700 dark:text-gray-300">{field}</td>
+              <td className="py-1 pr-4 text-red-700 dark:text-red-300 break-all">
+                {entry.action === 'insert' ? '—' : formatValue(before[field])}
+              </td>
+              <td className="py-1 text-green-700 dark:text-green-300 break-all">
+                {entry.action === 'delete' ? '—' : formatValue(after[field])}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+      <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <CardTitle className="text-base sm:text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
+          Activity
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        <div className="grid grid-cols-2 lg:grid-cols-6 gap-2 items-end">
+          <div className="space-y-0.5">
+            <Label htmlFor="activity-actor" className={labelClassName}>Who</Label>
+            <Input
+              id="activity-actor"
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              placeholder="Staff email"
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-0.5">
+            <Label className={labelClassName}>What</Label>
+            <Select value={entity} onValueChange={setEntity}>
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                <SelectItem value="all" className="text-[0.65rem] sm:text-xs font-sans">Everything</SelectItem>
+                {Object.entries(ENTITIES).map(([value, label]) => (
+                  <SelectItem key={value} value={value} className="text-[0.65rem] sm:text-xs font-sans">
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-0.5">
+            <Label htmlFor="activity-record" className={labelClassName}>Record</Label>
+            <Input
+              id="activity-record"
+              value={record}
+              onChange={(e) => setRecord(e.target.value)}
+              placeholder="Title, name, code or email"
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-0.5">
+            <Label htmlFor="activity-from" className={labelClassName}>From</Label>
+            <Input
+              id="activity-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-0.5">
+            <Label htmlFor="activity-to" className={labelClassName}>To</Label>
+            <Input
+              id="activity-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clearFilters}
+            className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md h-8"
+          >
+            Clear Filters
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow className="border-b border-gray-200 dark:border-gray-700">
+              <TableHead className="w-6" />
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">When</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Who</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Action</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">What</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Changed</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!loading && entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans py-6">
+                  No activity matches these filters
+                </TableCell>
+              </TableRow>
+            )}
+            {entries.map((entry) => {
+              const isExpanded = expanded === entry.id;
+              const changedFields = Object.keys(asObject(entry.action === 'delete' ? entry.before : entry.after));
+
+              return (
+                <Fragment key={entry.id}>
+                  <TableRow
+                    className="border-b border-gray-200 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                    onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                  >
+                    <TableCell className="text-gray-500">
+                      {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    </TableCell>
+                    <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans">
+                      {entry.actor_email || 'Unknown'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={`text-[0.65rem] sm:text-xs font-sans ${actionClassNames[entry.action] || ''}`}>
+                        {entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                      <span className="font-semibold text-gray-900 dark:text-white">
+                        {ENTITIES[entry.table_name] || entry.table_name}
+                      </span>
+                      {' · '}
+                      {entry.row_label || `${entry.row_id.slice(0, 8)}...`}
+                    </TableCell>
+                    <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans max-w-[14rem] truncate">
+                      {entry.action === 'update' ? changedFields.join(', ') : `${changedFields.length} fields`}
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow className="border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+                      <TableCell />
+                      <TableCell colSpan={5}>{renderDiff(entry)}</TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {loading && (
+          <p className="text-center text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans animate-pulse">
+            Loading activity...
+          </p>
+        )}
+        {!loading && hasMore && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fetchEntries(entries.length)}
+              className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md h-8"
+            >
+              Load More
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityLog;
@@ -0,0 +1,123 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+
+interface BlockUserDialogProps {
+  user: { id: string; email: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onBlocked: () => void;
+}
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+
+const describeBlockError = (message: string) => {
+  switch (message) {
+    case "CANNOT_BLOCK_USER":
+      return "Admins and your own account can't be blocked";
+    case "MISSING_BLOCK_REASON":
+      return "Please give a reason for the block";
+    case "INVALID_BLOCK_EXPIRY":
+      return "The block must end in the future";
+    case "NOT_AUTHORIZED":
+      return "You don't have permission to block users";
+    default:
+      return "Failed to block user";
+  }
+};
+
+const BlockUserDialog = ({ user, onOpenChange, onBlocked }: BlockUserDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [until, setUntil] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      setReason("");
+      setUntil("");
+    }
+  }, [user?.id]);
+
+  const handleBlock = async () => {
+    if (!user) return;
+    if (!reason.trim()) {
+      toast.error("Please give a reason for the block");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("set_user_block", {
+      p_user_id: user.id,
+      p_blocked: true,
+      p_reason: reason.trim(),
+      p_until: until ? new Date(until).toISOString() : undefined,
+    });
+
+    if (error) {
+      console.error("Error blocking user:", error);
+      toast.error(describeBlockError(error.message));
+    } else {
+      toast.success(`${user.email} has been blocked`);
+      onBlocked();
+      onOpenChange(false);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[22rem] bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+        <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+          <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+            Block {user?.email}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="block-reason" className={labelClassName}>Reason</Label>
+            <Textarea
+              id="block-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Shown to the user when they sign in"
+              className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 min-h-[60px]"
+            />
+          </div>
+          <div className="space-y-0.5">
+            <Label htmlFor="block-until" className={labelClassName}>Blocked until</Label>
+            <Input
+              id="block-until"
+              type="datetime-local"
+              value={until}
+              onChange={(e) => setUntil(e.target.value)}
+              className={inputClassName}
+            />
+            <p className="text-[0.65rem] text-gray-500 dark:text-gray-400 font-sans">
+              Leave empty to block until someone unblocks them
+            </p>
+          </div>
+          <Button
+            onClick={handleBlock}
+            disabled={saving}
+            className="w-full text-[0.65rem] sm:text-xs bg-red-500 hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+            size="sm"
+          >
+            {saving ? 'Blocking...' : 'Block User'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BlockUserDialog;
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -29,20 +29,37 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { toast } from "sonner";
-import { Edit, Plus, Trash2, Upload } from "lucide-react";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Download, Edit, FileUp, Plus, Trash2, Upload } from "lucide-react";
+import CatalogImportDialog from "@/components/admin/CatalogImportDialog";
+import InventoryHistory from "@/components/admin/InventoryHistory";
+import { serializeCatalog, type CatalogFormat } from "@/lib/catalogCsv";
+import { fetchTaxClasses, DEFAULT_TAX_CLASS, type TaxClass } from "@/lib/tax";
 
 interface Book {
   id: string;
   title: string;
   author: string;
+  isbn: string | null;
   price: number;
+  original_price: number | null;
   stock_quantity: number;
-  description?: string;
-  category_id?: string;
-  image_url?: string | null;
+  reorder_threshold: number;
+  weight_grams: number;
+  tax_class: string;
+  is_featured: boolean | null;
+  description: string | null;
+  category_id: string | null;
+  image_url: string | null;
   categories: { name: string } | null;
 }
 
@@ -58,8 +75,13 @@ interface BookManagementProps {
 }
 
 const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) => {
+  const { can } = usePermissions();
+  const canEdit = can('catalog.write');
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("all");
   const [editingBook, setEditingBook] = useState<Book | null>(null);
   const [uploading, setUploading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -68,10 +90,18 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
     author: "",
     price: "",
     stock_quantity: "",
+    reorder_threshold: "5",
+    weight_grams: "400",
+    tax_class: DEFAULT_TAX_CLASS,
     description: "",
     category_id: "",
     image_url: "",
   });
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+
+  useEffect(() => {
+    fetchTaxClasses().then(setTaxClasses);
+  }, []);
 
   const resetForm = () => {
     setFormData({
@@ -79,6 +109,9 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
       author: "",
       price: "",
       stock_quantity: "",
+      reorder_threshold: "5",
+      weight_grams: "400",
+      tax_class: DEFAULT_TAX_CLASS,
       description: "",
       category_id: "",
       image_url: "",
@@ -108,6 +141,26 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
     return data.publicUrl;
   };
 
+  const searchTerm = search.trim().toLowerCase();
+  const filteredBooks = books.filter((book) =>
+    (categoryFilter === 'all' || book.category_id === categoryFilter) &&
+    (!searchTerm ||
+      book.title.toLowerCase().includes(searchTerm) ||
+      book.author.toLowerCase().includes(searchTerm) ||
+      (book.isbn || '').toLowerCase().includes(searchTerm))
+  );
+
+  const handleExport = (format: CatalogFormat) => {
+    const content = serializeCatalog(filteredBooks, format);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `catalog-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setSelectedFile(e.target.files[0]);
@@ -132,6 +185,9 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
       author: formData.author,
       price: parseFloat(formData.price),
       stock_quantity: parseInt(formData.stock_quantity),
+      reorder_threshold: parseInt(formData.reorder_threshold),
+      weight_grams: parseInt(formData.weight_grams),
+      tax_class: formData.tax_class,
       description: formData.description || null,
       category_id: formData.category_id || null,
       image_url: imageUrl || null,
@@ -155,6 +211,9 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
       author: book.author,
       price: book.price.toString(),
       stock_quantity: book.stock_quantity.toString(),
+      reorder_threshold: book.reorder_threshold.toString(),
+      weight_grams: book.weight_grams.toString(),
+      tax_class: book.tax_class,
       description: book.description || "",
       category_id: book.category_id || "",
       image_url: book.image_url || "",
@@ -183,7 +242,9 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
         title: formData.title,
         author: formData.author,
         price: parseFloat(formData.price),
-        stock_quantity: parseInt(formData.stock_quantity),
+        reorder_threshold: parseInt(formData.reorder_threshold),
+        weight_grams: parseInt(formData.weight_grams),
+        tax_class: formData.tax_class,
         description: formData.description || null,
         category_id: formData.category_id || null,
         image_url: imageUrl || null,
@@ -253,18 +314,63 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
           className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
         />
       </div>
+      {!isEdit && (
+        <div className="space-y-0.5">
+          <Label htmlFor="stock" className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
+            Opening Stock
+          </Label>
+          <Input
+            id="stock"
+            type="number"
+            value={formData.stock_quantity}
+            onChange={(e) => setFormData({ ...formData, stock_quantity: e.target.value })}
+            className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
+          />
+        </div>
+      )}
+      <div className="space-y-0.5">
+        <Label htmlFor={isEdit ? "edit-reorder" : "reorder"} className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
+          Reorder Threshold
+        </Label>
+        <Input
+          id={isEdit ? "edit-reorder" : "reorder"}
+          type="number"
+          min="0"
+          value={formData.reorder_threshold}
+          onChange={(e) => setFormData({ ...formData, reorder_threshold: e.target.value })}
+          className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
+        />
+      </div>
       <div className="space-y-0.5">
-        <Label htmlFor={isEdit ? "edit-stock" : "stock"} className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
-          Stock Quantity
+        <Label htmlFor={isEdit ? "edit-weight" : "weight"} className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
+          Shipping Weight (g)
         </Label>
         <Input
-          id={isEdit ? "edit-stock" : "stock"}
+          id={isEdit ? "edit-weight" : "weight"}
           type="number"
-          value={formData.stock_quantity}
-          onChange={(e) => setFormData({ ...formData, stock_quantity: e.target.value })}
+          min="1"
+          value={formData.weight_grams}
+          onChange={(e) => setFormData({ ...formData, weight_grams: e.target.value })}
           className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
         />
       </div>
+      <div className="space-y-0.5">
+        <Label className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
+          Tax Class
+        </Label>
+        <Select value={formData.tax_class} onValueChange={(value) => setFormData({ ...formData, tax_class: value })}>
+          <SelectTrigger className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans border-gray-200 dark:border-gray-600 rounded-md">
+            {taxClasses.map((taxClass) => (
+              <SelectItem key={taxClass.code} value={taxClass.code} className="text-[0.65rem] sm:text-xs">
+                {taxClass.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
       <div className="space-y-0.5">
         <Label htmlFor={isEdit ? "edit-category" : "category"} className="text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans">
           Category
@@ -338,28 +444,84 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
         <CardTitle className="text-base sm:text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
           Books Management
         </CardTitle>
-        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-          <DialogTrigger asChild>
-            <Button 
-              onClick={resetForm}
-              className="text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+        <div className="flex gap-1">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+              >
+                <Download className="h-3 w-3 mr-1" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="bg-white dark:bg-gray-800 font-sans">
+              <DropdownMenuItem onClick={() => handleExport('csv')} className="text-[0.65rem] sm:text-xs">
+                CSV ({filteredBooks.length} books)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('json')} className="text-[0.65rem] sm:text-xs">
+                JSON ({filteredBooks.length} books)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {canEdit && (
+            <Button
+              variant="outline"
               size="sm"
+              onClick={() => setIsImportOpen(true)}
+              className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
             >
-              <Plus className="h-3 w-3 mr-1" />
-              Add Book
+              <FileUp className="h-3 w-3 mr-1" />
+              Import
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-[18rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
-            <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
-              <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
-                Create Book
-              </DialogTitle>
-            </DialogHeader>
-            <BookForm />
-          </DialogContent>
-        </Dialog>
+          )}
+          {canEdit && (
+            <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+              <DialogTrigger asChild>
+                <Button 
+                  onClick={resetForm}
+                  className="text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                  size="sm"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Book
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-[18rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+                <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+                  <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+                    Create Book
+                  </DialogTitle>
+                </DialogHeader>
+                <BookForm />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
       </CardHeader>
       <CardContent className="p-4">
+        <div className="flex flex-col sm:flex-row gap-2 mb-3">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search title, author or ISBN"
+            className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8 sm:max-w-xs"
+          />
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8 sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans border-gray-200 dark:border-gray-600 rounded-md">
+              <SelectItem value="all" className="text-[0.65rem] sm:text-xs">All categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id} className="text-[0.65rem] sm:text-xs">
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <Table>
           <TableHeader>
             <TableRow className="border-b border-gray-200 dark:border-gray-700">
@@ -381,13 +543,15 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
               <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">
                 Stock
               </TableHead>
-              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">
-                Actions
-              </TableHead>
+              {canEdit && (
+                <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">
+                  Actions
+                </TableHead>
+              )}
             </TableRow>
           </TableHeader>
           <TableBody>
-            {books.map((book) => (
+            {filteredBooks.map((book) => (
               <TableRow key={book.id} className="border-b border-gray-200 dark:border-gray-700">
                 <TableCell>
                   {book.image_url ? (
@@ -420,67 +584,84 @@ const BookManagement = ({ books, categories, onRefresh }: BookManagementProps) =
                 <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
                   {book.stock_quantity}
                 </TableCell>
-                <TableCell className="space-x-1">
-                  <Button 
-                    variant="outline" 
-                    size="sm" 
-                    onClick={() => handleEdit(book)}
-                    className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
-                  >
-                    <Edit className="h-3 w-3 mr-1" />
-                    Edit
-                  </Button>
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
-                      >
-                        <Trash2 className="h-3 w-3 mr-1" />
-                        Delete
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent className="max-w-[18rem] bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
-                      <AlertDialogHeader>
-                        <AlertDialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
-                          Are you sure?
-                        </AlertDialogTitle>
-                        <AlertDialogDescription className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
-                          This will permanently delete "{book.title}".
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel 
+                {canEdit && (
+                  <TableCell className="space-x-1">
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      onClick={() => handleEdit(book)}
+                      className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                    >
+                      <Edit className="h-3 w-3 mr-1" />
+                      Edit
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
                           className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
                         >
-                          Cancel
-                        </AlertDialogCancel>
-                        <AlertDialogAction 
-                          onClick={() => handleDelete(book.id)}
-                          className="text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
-                        >
+                          <Trash2 className="h-3 w-3 mr-1" />
                           Delete
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </TableCell>
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent className="max-w-[18rem] bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+                        <AlertDialogHeader>
+                          <AlertDialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+                            Are you sure?
+                          </AlertDialogTitle>
+                          <AlertDialogDescription className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                            This will permanently delete "{book.title}".
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel 
+                            className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                          >
+                            Cancel
+                          </AlertDialogCancel>
+                          <AlertDialogAction 
+                            onClick={() => handleDelete(book.id)}
+                            className="text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                )}
               </TableRow>
             ))}
           </TableBody>
         </Table>
 
         <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-          <DialogContent className="max-w-[18rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+          <DialogContent className="max-w-[24rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
             <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
               <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
                 Edit Book
               </DialogTitle>
             </DialogHeader>
             <BookForm isEdit={true} />
+            {editingBook && can('inventory.manage') && (
+              <InventoryHistory
+                bookId={editingBook.id}
+                stockQuantity={books.find((book) => book.id === editingBook.id)?.stock_quantity ?? editingBook.stock_quantity}
+                onRecorded={onRefresh}
+              />
+            )}
           </DialogContent>
         </Dialog>
+
+        <CatalogImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          books={books}
+          categories={categories}
+          onImported={onRefresh}
+        />
       </CardContent>
     </Card>
   );
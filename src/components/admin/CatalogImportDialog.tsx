@@ -0,0 +1,194 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import {
+  buildImportPreview,
+  importBooks,
+  readCatalogFile,
+  CATALOG_COLUMNS,
+  type CatalogBook,
+  type ImportPreviewRow,
+  type ImportResult,
+} from "@/lib/catalogCsv";
+
+interface CatalogImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  books: CatalogBook[];
+  categories: { id: string; name: string }[];
+  onImported: () => void;
+}
+
+const actionClassNames: Record<ImportPreviewRow["action"], string> = {
+  create: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  update: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  unchanged: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  invalid: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+const headClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans";
+const cellClassName = "text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans";
+
+const CatalogImportDialog = ({ open, onOpenChange, books, categories, onImported }: CatalogImportDialogProps) => {
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFileName("");
+      setPreview([]);
+      setResult(null);
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setResult(null);
+    const { records, error } = readCatalogFile(file.name, await file.text());
+
+    if (error) {
+      toast.error(error);
+      setPreview([]);
+      setFileName("");
+      return;
+    }
+
+    setFileName(file.name);
+    setPreview(buildImportPreview(records, books, categories));
+  };
+
+  const counts = preview.reduce<Record<ImportPreviewRow["action"], number>>(
+    (totals, row) => ({ ...totals, [row.action]: totals[row.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, invalid: 0 }
+  );
+  const changedRows = preview.filter((row) => row.action === 'create' || row.action === 'update');
+
+  const handleImport = async () => {
+    setImporting(true);
+    const { result: imported, error } = await importBooks(changedRows.map((row) => row.values!));
+
+    if (error) {
+      toast.error(error);
+    } else if (imported) {
+      // Rows left out of the request were skipped too
+      const skipped = imported.skipped + counts.unchanged + counts.invalid;
+      setResult({ ...imported, skipped });
+      setPreview([]);
+      toast.success(`Imported ${imported.created} new and ${imported.updated} updated books`);
+      onImported();
+    }
+    setImporting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[40rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+        <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+          <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+            Import Books
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="catalog-file" className={labelClassName}>CSV or JSON file</Label>
+            <Input
+              id="catalog-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8"
+            />
+            <p className="text-[0.65rem] text-gray-500 dark:text-gray-400 font-sans">
+              Columns: {CATALOG_COLUMNS.join(", ")}. Books are matched on ISBN; categories by name.
+              Columns left out of the file keep their current values.
+            </p>
+          </div>
+
+          {result && (
+            <div className="rounded-md bg-gray-50 dark:bg-gray-700 p-3 text-[0.65rem] sm:text-xs text-gray-700 dark:text-gray-200 font-sans">
+              <span className="font-semibold">Import complete:</span> {result.created} created, {result.updated} updated, {result.skipped} skipped
+            </div>
+          )}
+
+          {preview.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans mr-1">
+                  {fileName}:
+                </span>
+                {(Object.keys(counts) as ImportPreviewRow["action"][]).map((action) => (
+                  <Badge key={action} className={`text-[0.65rem] sm:text-xs font-sans ${actionClassNames[action]}`}>
+                    {counts[action]} {action}
+                  </Badge>
+                ))}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-b border-gray-200 dark:border-gray-700">
+                    <TableHead className={headClassName}>Row</TableHead>
+                    <TableHead className={headClassName}>ISBN</TableHead>
+                    <TableHead className={headClassName}>Title</TableHead>
+                    <TableHead className={headClassName}>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((row) => (
+                    <TableRow key={row.row} className="border-b border-gray-200 dark:border-gray-700 align-top">
+                      <TableCell className={cellClassName}>{row.row}</TableCell>
+                      <TableCell className={cellClassName}>{row.isbn || '—'}</TableCell>
+                      <TableCell className={`${cellClassName} font-semibold text-gray-900 dark:text-white`}>
+                        {row.title || '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`text-[0.65rem] sm:text-xs font-sans ${actionClassNames[row.action]}`}>
+                          {row.action}
+                        </Badge>
+                        {row.errors.map((error) => (
+                          <div key={error} className="mt-1 text-[0.65rem] text-red-600 dark:text-red-400 font-sans">
+                            {error}
+                          </div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Button
+                onClick={handleImport}
+                disabled={importing || changedRows.length === 0}
+                className="w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                size="sm"
+              >
+                {importing
+                  ? 'Importing...'
+                  : changedRows.length === 0
+                    ? 'Nothing to import'
+                    : `Import ${changedRows.length} ${changedRows.length === 1 ? 'book' : 'books'}`}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CatalogImportDialog;
@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  recordInventoryMovement,
+  MOVEMENT_LABELS,
+  type InventoryMovement,
+  type MovementType,
+} from "@/lib/inventory";
+
+interface InventoryHistoryProps {
+  bookId: string;
+  stockQuantity: number;
+  onRecorded: () => void;
+}
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+
+const InventoryHistory = ({ bookId, stockQuantity, onRecorded }: InventoryHistoryProps) => {
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [type, setType] = useState<MovementType>("receipt");
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [bookId]);
+
+  const fetchMovements = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('inventory_movements')
+      .select('id, movement_type, quantity, order_id, note, created_at')
+      .eq('book_id', bookId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching inventory movements:', error);
+    } else {
+      setMovements(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleRecord = async () => {
+    setSaving(true);
+    const { error } = await recordInventoryMovement(bookId, type, Number(quantity), note.trim() || null);
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(`${MOVEMENT_LABELS[type]} recorded`);
+      setQuantity("");
+      setNote("");
+      fetchMovements();
+      onRecorded();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-3 mt-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-bold text-gray-900 dark:text-white font-sans">Stock</h3>
+        <span className="text-xs sm:text-sm font-semibold text-gray-900 dark:text-white font-sans">
+          {stockQuantity} in stock
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-0.5">
+          <Label className={labelClassName}>Movement</Label>
+          <Select value={type} onValueChange={(value) => setType(value as MovementType)}>
+            <SelectTrigger className={inputClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+              {Object.entries(MOVEMENT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value} className="text-[0.65rem] sm:text-xs font-sans">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-0.5">
+          <Label htmlFor="movement-quantity" className={labelClassName}>
+            {type === 'adjustment' ? 'Change (+/−)' : 'Copies'}
+          </Label>
+          <Input
+            id="movement-quantity"
+            type="number"
+            step="1"
+            min={type === 'adjustment' ? undefined : 1}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="space-y-0.5">
+        <Label htmlFor="movement-note" className={labelClassName}>Note</Label>
+        <Input
+          id="movement-note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={type === 'adjustment' || type === 'damage' ? 'Required, e.g. stock count' : 'Optional, e.g. supplier invoice'}
+          className={inputClassName}
+        />
+      </div>
+      <Button
+        onClick={handleRecord}
+        disabled={saving || !quantity || Number(quantity) === 0}
+        className="w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+        size="sm"
+      >
+        {saving ? 'Recording...' : 'Record Movement'}
+      </Button>
+
+      {loading ? (
+        <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans animate-pulse">
+          Loading history...
+        </p>
+      ) : movements.length === 0 ? (
+        <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans">No stock movements yet</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {movements.map((movement) => (
+            <li key={movement.id} className="flex items-start justify-between gap-2 text-[0.65rem] sm:text-xs font-sans">
+              <div>
+                <p className="font-semibold text-gray-900 dark:text-white">
+                  {MOVEMENT_LABELS[movement.movement_type]}
+                  {movement.order_id && (
+                    <span className="font-normal text-gray-500 dark:text-gray-400"> · Order #{movement.order_id.slice(0, 8)}</span>
+                  )}
+                </p>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {new Date(movement.created_at).toLocaleString()}
+                  {movement.note && ` · ${movement.note}`}
+                </p>
+              </div>
+              <span className={`font-semibold ${movement.quantity > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InventoryHistory;
@@ -0,0 +1,87 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle } from "lucide-react";
+import { fetchLowStock, type LowStockBook } from "@/lib/inventory";
+
+// Window of recent sales used for the days-of-cover estimate
+const SALES_WINDOW_DAYS = 30;
+
+const headClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans";
+const cellClassName = "text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans";
+
+const LowStockPanel = () => {
+  const [books, setBooks] = useState<LowStockBook[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadLowStock();
+  }, []);
+
+  const loadLowStock = async () => {
+    const { data } = await fetchLowStock(SALES_WINDOW_DAYS);
+    setBooks(data);
+    setLoading(false);
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+      <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <CardTitle className="text-base sm:text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
+          Low Stock
+        </CardTitle>
+        <AlertTriangle className="h-5 w-5 text-amber-500" />
+      </CardHeader>
+      <CardContent className="p-4">
+        {loading ? (
+          <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans animate-pulse">
+            Loading stock levels...
+          </p>
+        ) : books.length === 0 ? (
+          <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans">
+            Every book is above its reorder threshold
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-b border-gray-200 dark:border-gray-700">
+                <TableHead className={headClassName}>Book</TableHead>
+                <TableHead className={`${headClassName} text-right`}>Stock</TableHead>
+                <TableHead className={`${headClassName} text-right`}>Reorder at</TableHead>
+                <TableHead className={`${headClassName} text-right`}>Sold ({SALES_WINDOW_DAYS}d)</TableHead>
+                <TableHead className={`${headClassName} text-right`}>Days of cover</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {books.map((book) => (
+                <TableRow key={book.book_id} className="border-b border-gray-200 dark:border-gray-700">
+                  <TableCell className={cellClassName}>
+                    <span className="font-semibold text-gray-900 dark:text-white">{book.title}</span>
+                    <span className="block">{book.author}</span>
+                  </TableCell>
+                  <TableCell className={`${cellClassName} text-right`}>
+                    {book.stock_quantity === 0 ? (
+                      <Badge className="text-[0.65rem] sm:text-xs font-sans bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                        Out
+                      </Badge>
+                    ) : (
+                      book.stock_quantity
+                    )}
+                  </TableCell>
+                  <TableCell className={`${cellClassName} text-right`}>{book.reorder_threshold}</TableCell>
+                  <TableCell className={`${cellClassName} text-right`}>{book.units_sold}</TableCell>
+                  <TableCell className={`${cellClassName} text-right`}>
+                    {book.days_of_cover === null ? '—' : Math.floor(book.days_of_cover)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LowStockPanel;
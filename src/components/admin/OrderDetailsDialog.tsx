@@ -0,0 +1,286 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { FileText, Package } from "lucide-react";
+import OrderTimeline from "@/components/OrderTimeline";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  formatOrderStatus,
+  updateOrderStatus,
+  MANUAL_STATUS_TRANSITIONS,
+  type OrderStatus,
+  type OrderStatusEvent,
+} from "@/lib/orders";
+import { fetchShippingCarriers, type ShippingCarrier } from "@/lib/shipping";
+import { fetchLatestPayment, formatPaymentStatus, type Payment } from "@/lib/payments";
+import { downloadInvoice, downloadPackingSlip, UNINVOICEABLE_STATUSES } from "@/lib/invoices";
+
+interface OrderDetailsDialogProps {
+  order: {
+    id: string;
+    user_id: string;
+    status: OrderStatus;
+    total_amount: number;
+    customer_email?: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onStatusChanged: () => void;
+}
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+const outlineButtonClassName = "flex-1 text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md h-8";
+
+const OrderDetailsDialog = ({ order, onOpenChange, onStatusChanged }: OrderDetailsDialogProps) => {
+  const [events, setEvents] = useState<OrderStatusEvent[]>([]);
+  const [actorEmails, setActorEmails] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [nextStatus, setNextStatus] = useState<OrderStatus | "">("");
+  const [note, setNote] = useState("");
+  const [tracking, setTracking] = useState({ carrier: "", number: "" });
+  const [carriers, setCarriers] = useState<ShippingCarrier[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [downloading, setDownloading] = useState<"invoice" | "packing_slip" | null>(null);
+  const { can } = usePermissions();
+
+  useEffect(() => {
+    if (order) {
+      setNextStatus("");
+      setNote("");
+      setTracking({ carrier: "", number: "" });
+      fetchEvents(order.id);
+      setPayment(null);
+      fetchLatestPayment(order.id).then(setPayment);
+    }
+  }, [order?.id]);
+
+  useEffect(() => {
+    fetchShippingCarriers().then(setCarriers);
+  }, []);
+
+  const fetchEvents = async (orderId: string) => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('order_status_events')
+      .select('id, old_status, new_status, changed_by, note, created_at')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching order history:', error);
+      setEvents([]);
+      setLoading(false);
+      return;
+    }
+
+    const actorIds = [...new Set((data || []).map(event => event.changed_by).filter((id): id is string => !!id))];
+    if (actorIds.length > 0) {
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, email')
+        .in('id', actorIds);
+
+      if (profilesError) {
+        console.error('Error fetching profiles:', profilesError);
+      }
+      setActorEmails(new Map((profilesData || []).map(profile => [profile.id, profile.email])));
+    }
+
+    setEvents(data || []);
+    setLoading(false);
+  };
+
+  const describeActor = (event: OrderStatusEvent) => {
+    if (!event.changed_by) return null;
+    if (event.changed_by === order?.user_id) return 'Customer';
+    return actorEmails.get(event.changed_by) || 'Staff';
+  };
+
+  const handleUpdate = async () => {
+    if (!order || !nextStatus) return;
+
+    setSaving(true);
+    const { error } = await updateOrderStatus(
+      order.id,
+      nextStatus,
+      note.trim() || null,
+      nextStatus === 'shipped' ? tracking : null
+    );
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(`Order status updated to ${formatOrderStatus(nextStatus)}`);
+      onStatusChanged();
+      onOpenChange(false);
+    }
+    setSaving(false);
+  };
+
+  const handleDownload = async (kind: "invoice" | "packing_slip") => {
+    if (!order) return;
+
+    setDownloading(kind);
+    const { error } = kind === 'invoice' ? await downloadInvoice(order.id) : await downloadPackingSlip(order.id);
+
+    if (error) {
+      toast.error(error);
+    }
+    setDownloading(null);
+  };
+
+  const allowedStatuses = order && can('orders.update') ? MANUAL_STATUS_TRANSITIONS[order.status] : [];
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[24rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+        <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+          <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+            Order #{order?.id.slice(0, 8)}
+          </DialogTitle>
+          {order && (
+            <p className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+              {order.customer_email} · ${order.total_amount.toFixed(2)} · {formatOrderStatus(order.status)}
+            </p>
+          )}
+          {order && (
+            <p className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+              {payment
+                ? [
+                    `Payment: ${formatPaymentStatus(payment.status)}`,
+                    payment.card_last4 && `${payment.card_brand} ending ${payment.card_last4}`,
+                    payment.refunded_amount > 0 && `$${payment.refunded_amount.toFixed(2)} refunded`,
+                    payment.status === 'failed' && payment.failure_reason,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')
+                : 'Payment: none yet'}
+            </p>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading ? (
+            <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans animate-pulse">
+              Loading history...
+            </p>
+          ) : (
+            <OrderTimeline events={events} describeActor={describeActor} compact />
+          )}
+
+          {/* Unpaid and cancelled orders have nothing to invoice or pack */}
+          {order && !UNINVOICEABLE_STATUSES.includes(order.status) && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownload('invoice')}
+                disabled={!!downloading}
+                className={outlineButtonClassName}
+              >
+                <FileText className="h-3 w-3 mr-1" />
+                {downloading === 'invoice' ? 'Preparing...' : 'Invoice'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownload('packing_slip')}
+                disabled={!!downloading}
+                className={outlineButtonClassName}
+              >
+                <Package className="h-3 w-3 mr-1" />
+                {downloading === 'packing_slip' ? 'Preparing...' : 'Packing Slip'}
+              </Button>
+            </div>
+          )}
+
+          {allowedStatuses.length > 0 && (
+            <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-3">
+              <div className="space-y-0.5">
+                <Label className={labelClassName}>Change status</Label>
+                <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as OrderStatus)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue placeholder="Select a status" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                    {allowedStatuses.map((status) => (
+                      <SelectItem key={status} value={status} className="text-[0.65rem] sm:text-xs font-sans">
+                        {formatOrderStatus(status)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {nextStatus === 'shipped' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="tracking-carrier" className={labelClassName}>Carrier</Label>
+                    <Select value={tracking.carrier} onValueChange={(value) => setTracking({ ...tracking, carrier: value })}>
+                      <SelectTrigger id="tracking-carrier" className={inputClassName}>
+                        <SelectValue placeholder="Select a carrier" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                        {carriers.map((carrier) => (
+                          <SelectItem key={carrier.code} value={carrier.code} className="text-[0.65rem] sm:text-xs font-sans">
+                            {carrier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-0.5">
+                    <Label htmlFor="tracking-number" className={labelClassName}>Tracking number</Label>
+                    <Input
+                      id="tracking-number"
+                      value={tracking.number}
+                      onChange={(e) => setTracking({ ...tracking, number: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="space-y-0.5">
+                <Label htmlFor="status-note" className={labelClassName}>Note</Label>
+                <Textarea
+                  id="status-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Optional, included in the email to the customer"
+                  className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 min-h-[60px]"
+                />
+              </div>
+              <Button
+                onClick={handleUpdate}
+                disabled={saving || !nextStatus}
+                className="w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                size="sm"
+              >
+                {saving ? 'Updating...' : 'Update Status'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OrderDetailsDialog;
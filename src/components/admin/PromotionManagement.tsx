@@ -0,0 +1,429 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Pause, Play, Plus } from "lucide-react";
+import type { Database } from "@/integrations/supabase/types";
+
+type PromotionType = Database['public']['Enums']['promotion_type'];
+
+interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  type: PromotionType;
+  value: number;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  category_id: string | null;
+  min_spend: number;
+  usage_limit: number | null;
+  usage_limit_per_user: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  categories: { name: string } | null;
+  promotion_redemptions: { count: number }[];
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface PromotionManagementProps {
+  promotions: Promotion[];
+  categories: Category[];
+  onRefresh: () => void;
+}
+
+const emptyForm = {
+  code: "",
+  description: "",
+  type: "percentage" as PromotionType,
+  value: "",
+  buy_quantity: "",
+  get_quantity: "",
+  category_id: "all",
+  min_spend: "",
+  usage_limit: "",
+  usage_limit_per_user: "",
+  starts_at: "",
+  ends_at: "",
+};
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+
+const describePromotion = (promotion: Promotion) => {
+  switch (promotion.type) {
+    case "percentage":
+      return `${promotion.value}% off`;
+    case "fixed_amount":
+      return `$${promotion.value.toFixed(2)} off`;
+    case "buy_x_get_y":
+      return `Buy ${promotion.buy_quantity} get ${promotion.get_quantity} free`;
+    case "free_shipping":
+      return "Free shipping";
+  }
+};
+
+const getPromotionStatus = (promotion: Promotion) => {
+  const now = new Date();
+  if (!promotion.is_active) return "Paused";
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return "Scheduled";
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) return "Expired";
+  return "Active";
+};
+
+const PromotionManagement = ({ promotions, categories, onRefresh }: PromotionManagementProps) => {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const toNumberOrNull = (value: string) => (value.trim() === "" ? null : Number(value));
+
+  const handleCreate = async () => {
+    if (!formData.code.trim()) {
+      toast.error('Code is required');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from('promotions').insert([{
+      code: formData.code.trim().toUpperCase(),
+      description: formData.description || null,
+      type: formData.type,
+      value: formData.type === 'percentage' || formData.type === 'fixed_amount'
+        ? Number(formData.value || 0)
+        : 0,
+      buy_quantity: formData.type === 'buy_x_get_y' ? toNumberOrNull(formData.buy_quantity) : null,
+      get_quantity: formData.type === 'buy_x_get_y' ? toNumberOrNull(formData.get_quantity) : null,
+      category_id: formData.category_id === 'all' ? null : formData.category_id,
+      min_spend: Number(formData.min_spend || 0),
+      usage_limit: toNumberOrNull(formData.usage_limit),
+      usage_limit_per_user: toNumberOrNull(formData.usage_limit_per_user),
+      starts_at: formData.starts_at ? new Date(formData.starts_at).toISOString() : null,
+      ends_at: formData.ends_at ? new Date(formData.ends_at).toISOString() : null,
+    }]);
+
+    if (error) {
+      console.error('Error creating promotion:', error);
+      toast.error(error.code === '23505' ? 'A promotion with that code already exists' : 'Failed to create promotion');
+    } else {
+      toast.success('Promotion created successfully');
+      setIsCreateOpen(false);
+      setFormData(emptyForm);
+      onRefresh();
+    }
+    setSaving(false);
+  };
+
+  const toggleActive = async (promotion: Promotion) => {
+    const { error } = await supabase
+      .from('promotions')
+      .update({ is_active: !promotion.is_active, updated_at: new Date().toISOString() })
+      .eq('id', promotion.id);
+
+    if (error) {
+      console.error('Error updating promotion:', error);
+      toast.error('Failed to update promotion');
+    } else {
+      toast.success(`Promotion ${promotion.is_active ? 'paused' : 'resumed'}`);
+      onRefresh();
+    }
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+      <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <CardTitle className="text-base sm:text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
+          Promotions
+        </CardTitle>
+        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+          <DialogTrigger asChild>
+            <Button
+              onClick={() => setFormData(emptyForm)}
+              className="text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+              size="sm"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Promotion
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-[22rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+            <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+              <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+                Create Promotion
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="promo-code" className={labelClassName}>Code</Label>
+                <Input
+                  id="promo-code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  placeholder="SUMMER10"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-0.5">
+                <Label htmlFor="promo-description" className={labelClassName}>Description</Label>
+                <Textarea
+                  id="promo-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 min-h-[60px]"
+                />
+              </div>
+              <div className="space-y-0.5">
+                <Label className={labelClassName}>Type</Label>
+                <Select value={formData.type} onValueChange={(value) => setFormData({ ...formData, type: value as PromotionType })}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans border-gray-200 dark:border-gray-600 rounded-md">
+                    <SelectItem value="percentage" className="text-[0.65rem] sm:text-xs">Percentage off</SelectItem>
+                    <SelectItem value="fixed_amount" className="text-[0.65rem] sm:text-xs">Fixed amount off</SelectItem>
+                    <SelectItem value="buy_x_get_y" className="text-[0.65rem] sm:text-xs">Buy X get Y free</SelectItem>
+                    <SelectItem value="free_shipping" className="text-[0.65rem] sm:text-xs">Free shipping</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {(formData.type === 'percentage' || formData.type === 'fixed_amount') && (
+                <div className="space-y-0.5">
+                  <Label htmlFor="promo-value" className={labelClassName}>
+                    {formData.type === 'percentage' ? 'Percent off' : 'Amount off ($)'}
+                  </Label>
+                  <Input
+                    id="promo-value"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={formData.type === 'percentage' ? 100 : undefined}
+                    value={formData.value}
+                    onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+              {formData.type === 'buy_x_get_y' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="promo-buy" className={labelClassName}>Buy</Label>
+                    <Input
+                      id="promo-buy"
+                      type="number"
+                      min="1"
+                      value={formData.buy_quantity}
+                      onChange={(e) => setFormData({ ...formData, buy_quantity: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="space-y-0.5">
+                    <Label htmlFor="promo-get" className={labelClassName}>Get free</Label>
+                    <Input
+                      id="promo-get"
+                      type="number"
+                      min="1"
+                      value={formData.get_quantity}
+                      onChange={(e) => setFormData({ ...formData, get_quantity: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="space-y-0.5">
+                <Label className={labelClassName}>Applies to</Label>
+                <Select value={formData.category_id} onValueChange={(value) => setFormData({ ...formData, category_id: value })}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans border-gray-200 dark:border-gray-600 rounded-md">
+                    <SelectItem value="all" className="text-[0.65rem] sm:text-xs">All categories</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id} className="text-[0.65rem] sm:text-xs">
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-0.5">
+                <Label htmlFor="promo-min-spend" className={labelClassName}>Minimum spend ($)</Label>
+                <Input
+                  id="promo-min-spend"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.min_spend}
+                  onChange={(e) => setFormData({ ...formData, min_spend: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-0.5">
+                  <Label htmlFor="promo-limit" className={labelClassName}>Total uses</Label>
+                  <Input
+                    id="promo-limit"
+                    type="number"
+                    min="1"
+                    placeholder="Unlimited"
+                    value={formData.usage_limit}
+                    onChange={(e) => setFormData({ ...formData, usage_limit: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-0.5">
+                  <Label htmlFor="promo-limit-user" className={labelClassName}>Uses per customer</Label>
+                  <Input
+                    id="promo-limit-user"
+                    type="number"
+                    min="1"
+                    placeholder="Unlimited"
+                    value={formData.usage_limit_per_user}
+                    onChange={(e) => setFormData({ ...formData, usage_limit_per_user: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-0.5">
+                  <Label htmlFor="promo-starts" className={labelClassName}>Starts</Label>
+                  <Input
+                    id="promo-starts"
+                    type="datetime-local"
+                    value={formData.starts_at}
+                    onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-0.5">
+                  <Label htmlFor="promo-ends" className={labelClassName}>Ends</Label>
+                  <Input
+                    id="promo-ends"
+                    type="datetime-local"
+                    value={formData.ends_at}
+                    onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <Button
+                onClick={handleCreate}
+                disabled={saving}
+                className="w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                size="sm"
+              >
+                {saving ? 'Creating...' : 'Create Promotion'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent className="p-4">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-b border-gray-200 dark:border-gray-700">
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Code</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Offer</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Applies to</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Min spend</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Valid</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Redemptions</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Status</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promotions.map((promotion) => {
+              const redemptions = promotion.promotion_redemptions[0]?.count || 0;
+              const status = getPromotionStatus(promotion);
+
+              return (
+                <TableRow key={promotion.id} className="border-b border-gray-200 dark:border-gray-700">
+                  <TableCell className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">
+                    {promotion.code}
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    {describePromotion(promotion)}
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    {promotion.categories?.name || 'All categories'}
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    {promotion.min_spend > 0 ? `$${promotion.min_spend.toFixed(2)}` : '—'}
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    {promotion.starts_at ? new Date(promotion.starts_at).toLocaleDateString() : 'Now'}
+                    {' – '}
+                    {promotion.ends_at ? new Date(promotion.ends_at).toLocaleDateString() : 'No end'}
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    {redemptions}{promotion.usage_limit ? ` / ${promotion.usage_limit}` : ''}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      className={`text-[0.65rem] sm:text-xs font-sans ${
+                        status === 'Active'
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                          : status === 'Scheduled'
+                          ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                          : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+                      }`}
+                    >
+                      {status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => toggleActive(promotion)}
+                      className="text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                    >
+                      {promotion.is_active ? (
+                        <>
+                          <Pause className="h-3 w-3 mr-1" />
+                          Pause
+                        </>
+                      ) : (
+                        <>
+                          <Play className="h-3 w-3 mr-1" />
+                          Resume
+                        </>
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromotionManagement;
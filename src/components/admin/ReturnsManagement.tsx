@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Check, X, DollarSign } from "lucide-react";
+import { resolveReturn, type ReturnAction, type ReturnStatus } from "@/lib/orders";
+
+interface ReturnRequest {
+  id: string;
+  order_id: string;
+  status: ReturnStatus;
+  reason: string;
+  admin_note: string | null;
+  refund_amount: number | null;
+  created_at: string;
+  customer_email?: string;
+  orders: {
+    total_amount: number;
+    refunded_amount: number;
+    subtotal_amount: number;
+    discount_amount: number;
+  } | null;
+  return_request_items: Array<{
+    quantity: number;
+    order_items: {
+      price: number;
+      quantity: number;
+      tax_amount: number;
+      books: { title: string } | null;
+    } | null;
+  }>;
+}
+
+interface ReturnsManagementProps {
+  returnRequests: ReturnRequest[];
+  onRefresh: () => void;
+}
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+const actionButtonClassName = "text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8";
+
+const statusClassNames: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  approved: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  rejected: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  refunded: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+};
+
+// What the customer paid for the returned items: their share of the order's
+// discount taken off, tax added. Mirrors begin_return_refund()'s default.
+const getItemsTotal = (request: ReturnRequest) => {
+  const subtotal = request.orders?.subtotal_amount || 0;
+  const discount = request.orders?.discount_amount || 0;
+
+  return request.return_request_items.reduce((sum, item) => {
+    if (!item.order_items) return sum;
+    const { price, quantity, tax_amount } = item.order_items;
+    const discountedPrice = Math.max(price - (subtotal > 0 ? (discount * price) / subtotal : 0), 0);
+    return sum + item.quantity * (discountedPrice + tax_amount / quantity);
+  }, 0);
+};
+
+const ReturnsManagement = ({ returnRequests, onRefresh }: ReturnsManagementProps) => {
+  const [selected, setSelected] = useState<ReturnRequest | null>(null);
+  const [action, setAction] = useState<ReturnAction>('approve');
+  const [refundAmount, setRefundAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (request: ReturnRequest, nextAction: ReturnAction) => {
+    setSelected(request);
+    setAction(nextAction);
+    setRefundAmount(nextAction === 'refund' ? getItemsTotal(request).toFixed(2) : "");
+    setNote(request.admin_note || "");
+  };
+
+  const handleResolve = async () => {
+    if (!selected) return;
+
+    setSaving(true);
+    const { error } = await resolveReturn(selected.id, action, {
+      refundAmount: action === 'refund' && refundAmount.trim() !== '' ? Number(refundAmount) : null,
+      note: note.trim() || null,
+    });
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(
+        action === 'approve' ? 'Return approved' : action === 'reject' ? 'Return rejected' : 'Refund recorded'
+      );
+      setSelected(null);
+      onRefresh();
+    }
+    setSaving(false);
+  };
+
+  const remainingRefundable = selected?.orders
+    ? selected.orders.total_amount - selected.orders.refunded_amount
+    : 0;
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+      <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <CardTitle className="text-base sm:text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
+          Returns
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-b border-gray-200 dark:border-gray-700">
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Order</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Customer</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Items</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Reason</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Requested</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Status</TableHead>
+              <TableHead className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {returnRequests.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans py-6">
+                  No return requests yet
+                </TableCell>
+              </TableRow>
+            )}
+            {returnRequests.map((request) => {
+              const isOpen = request.status === 'requested' || request.status === 'approved';
+
+              return (
+                <TableRow key={request.id} className="border-b border-gray-200 dark:border-gray-700">
+                  <TableCell className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">
+                    {request.order_id.slice(0, 8)}...
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    {request.customer_email || 'N/A'}
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    {request.return_request_items.map((item, index) => (
+                      <div key={index}>
+                        {item.quantity} × {item.order_items?.books?.title || 'Unknown book'}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans max-w-[12rem]">
+                    {request.reason}
+                  </TableCell>
+                  <TableCell className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                    {new Date(request.created_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={`text-[0.65rem] sm:text-xs font-sans ${statusClassNames[request.status]}`}>
+                      {request.status}
+                    </Badge>
+                    {request.refund_amount !== null && (
+                      <div className="mt-1 text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+                        ${request.refund_amount.toFixed(2)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isOpen && (
+                      <div className="flex gap-1">
+                        {request.status === 'requested' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openDialog(request, 'approve')}
+                            className={actionButtonClassName}
+                          >
+                            <Check className="h-3 w-3 mr-1" />
+                            Approve
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog(request, 'refund')}
+                          className={actionButtonClassName}
+                        >
+                          <DollarSign className="h-3 w-3 mr-1" />
+                          Refund
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog(request, 'reject')}
+                          className="text-[0.65rem] sm:text-xs border-red-500 text-red-500 hover:bg-red-50 dark:border-red-400 dark:text-red-400 dark:hover:bg-red-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+                        >
+                          <X className="h-3 w-3 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-[22rem] bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+          <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+            <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+              {action === 'approve' ? 'Approve Return' : action === 'reject' ? 'Reject Return' : 'Record Refund'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            {action === 'refund' && (
+              <div className="space-y-0.5">
+                <Label htmlFor="refund-amount" className={labelClassName}>Refund amount</Label>
+                <Input
+                  id="refund-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  max={remainingRefundable}
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                  className={inputClassName}
+                />
+                <p className="text-[0.65rem] text-gray-500 dark:text-gray-400 font-sans">
+                  Up to ${remainingRefundable.toFixed(2)} can still be refunded on this order
+                </p>
+              </div>
+            )}
+            <div className="space-y-0.5">
+              <Label htmlFor="return-note" className={labelClassName}>Note to customer</Label>
+              <Textarea
+                id="return-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Optional"
+                className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 min-h-[60px]"
+              />
+            </div>
+            <Button
+              onClick={handleResolve}
+              disabled={saving}
+              className="w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+              size="sm"
+            >
+              {saving ? 'Saving...' : 'Confirm'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ReturnsManagement;
@@ -0,0 +1,329 @@
+import { useState, useEffect } from "react";
+import { format, parseISO, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { CalendarDays } from "lucide-react";
+import { toast } from "sonner";
+import { formatOrderStatus } from "@/lib/orders";
+import {
+  fetchSalesAnalytics,
+  type AnalyticsBucket,
+  type SalesAnalytics,
+  type SalesTotals,
+} from "@/lib/analytics";
+
+const BUCKETS: Record<AnalyticsBucket, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const revenueConfig = {
+  revenue: { label: "Revenue", color: "#6366f1" },
+} satisfies ChartConfig;
+
+const statusConfig = {
+  count: { label: "Orders", color: "#8b5cf6" },
+} satisfies ChartConfig;
+
+const customerConfig = {
+  new: { label: "New", color: "#6366f1" },
+  returning: { label: "Returning", color: "#a855f7" },
+} satisfies ChartConfig;
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const sectionTitleClassName = "text-xs sm:text-sm font-semibold text-gray-700 dark:text-gray-200 font-sans mb-2";
+const headClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans";
+const cellClassName = "text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans";
+
+const formatMoney = (value: number) => `$${Number(value).toFixed(2)}`;
+
+const SalesDashboard = () => {
+  const [range, setRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 29),
+    to: new Date(),
+  });
+  const [bucket, setBucket] = useState<AnalyticsBucket>("day");
+  const [rankBy, setRankBy] = useState<keyof SalesTotals>("units");
+  const [analytics, setAnalytics] = useState<SalesAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const from = range?.from ? format(range.from, "yyyy-MM-dd") : null;
+  const to = range?.to ? format(range.to, "yyyy-MM-dd") : from;
+
+  useEffect(() => {
+    if (from && to) {
+      fetchAnalytics(from, to);
+    }
+  }, [from, to, bucket]);
+
+  const fetchAnalytics = async (rangeFrom: string, rangeTo: string) => {
+    setLoading(true);
+    const { data, error } = await fetchSalesAnalytics(rangeFrom, rangeTo, bucket);
+
+    if (error) {
+      toast.error(error);
+    } else {
+      setAnalytics(data);
+    }
+    setLoading(false);
+  };
+
+  const formatPeriod = (period: string) =>
+    format(parseISO(period), bucket === "month" ? "MMM yyyy" : "MMM d");
+
+  const summaryCards = analytics
+    ? [
+        { label: "Net revenue", value: formatMoney(analytics.summary.net_revenue) },
+        { label: "Orders", value: analytics.summary.orders },
+        { label: "Average order", value: formatMoney(analytics.summary.average_order_value) },
+        { label: "Units sold", value: analytics.summary.units_sold },
+        { label: "Refunded", value: formatMoney(analytics.summary.refunded) },
+        { label: "Tax collected", value: formatMoney(analytics.summary.tax) },
+        { label: "New customers", value: analytics.customers.new },
+      ]
+    : [];
+
+  const customerData = analytics
+    ? [
+        { segment: "new", customers: analytics.customers.new, fill: "var(--color-new)" },
+        { segment: "returning", customers: analytics.customers.returning, fill: "var(--color-returning)" },
+      ]
+    : [];
+
+  const renderRanking = <T extends SalesTotals>(
+    title: string,
+    rows: T[],
+    getKey: (row: T) => string,
+    getLabel: (row: T) => string
+  ) => (
+    <div>
+      <h3 className={sectionTitleClassName}>{title}</h3>
+      <Table>
+        <TableHeader>
+          <TableRow className="border-b border-gray-200 dark:border-gray-700">
+            <TableHead className={headClassName}>Name</TableHead>
+            <TableHead className={`${headClassName} text-right`}>Units</TableHead>
+            <TableHead className={`${headClassName} text-right`}>Revenue</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={3} className={`${cellClassName} text-center py-4`}>
+                No sales in this period
+              </TableCell>
+            </TableRow>
+          )}
+          {rows.map((row) => (
+            <TableRow key={getKey(row)} className="border-b border-gray-200 dark:border-gray-700">
+              <TableCell className={`${cellClassName} font-semibold text-gray-900 dark:text-white`}>{getLabel(row)}</TableCell>
+              <TableCell className={`${cellClassName} text-right`}>{row.units}</TableCell>
+              <TableCell className={`${cellClassName} text-right`}>{formatMoney(row.revenue)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700">
+        <CardTitle className="text-base sm:text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
+          Sales
+        </CardTitle>
+        <div className="flex flex-wrap gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className={`${inputClassName} justify-start font-normal`}>
+                <CalendarDays className="h-3 w-3 mr-1" />
+                {range?.from
+                  ? `${format(range.from, "MMM d, yyyy")} – ${format(range.to || range.from, "MMM d, yyyy")}`
+                  : "Pick a date range"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0 bg-white dark:bg-gray-800" align="end">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={setRange}
+                numberOfMonths={2}
+                disabled={{ after: new Date() }}
+                defaultMonth={range?.from}
+              />
+            </PopoverContent>
+          </Popover>
+          <Select value={bucket} onValueChange={(value) => setBucket(value as AnalyticsBucket)}>
+            <SelectTrigger className={`${inputClassName} w-28`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+              {Object.entries(BUCKETS).map(([value, label]) => (
+                <SelectItem key={value} value={value} className="text-[0.65rem] sm:text-xs font-sans">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-6">
+        {loading && !analytics ? (
+          <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans animate-pulse">
+            Loading sales...
+          </p>
+        ) : analytics && (
+          <div className={`space-y-6 transition-opacity ${loading ? "opacity-60" : ""}`}>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-7 gap-3">
+              {summaryCards.map((card) => (
+                <div key={card.label} className="rounded-lg bg-gray-50 dark:bg-gray-700 p-3">
+                  <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans">{card.label}</p>
+                  <p className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white font-sans">{card.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <h3 className={sectionTitleClassName}>Revenue</h3>
+              <ChartContainer config={revenueConfig} className="h-64 w-full aspect-auto">
+                <AreaChart data={analytics.revenue} margin={{ left: 4, right: 4 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} tickFormatter={formatPeriod} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value) => `$${value}`} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(value) => formatPeriod(String(value))}
+                        formatter={(value) => formatMoney(Number(value))}
+                      />
+                    }
+                  />
+                  <Area
+                    dataKey="revenue"
+                    type="monotone"
+                    stroke="var(--color-revenue)"
+                    fill="var(--color-revenue)"
+                    fillOpacity={0.2}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h3 className={sectionTitleClassName}>Orders by status</h3>
+                <ChartContainer config={statusConfig} className="h-56 w-full aspect-auto">
+                  <BarChart data={analytics.orders_by_status}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="status" tickLine={false} axisLine={false} tickFormatter={formatOrderStatus} />
+                    <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatOrderStatus(String(value))} />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+              <div>
+                <h3 className={sectionTitleClassName}>New vs. returning customers</h3>
+                <ChartContainer config={customerConfig} className="h-56 w-full aspect-auto">
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent nameKey="segment" hideLabel />} />
+                    <Pie data={customerData} dataKey="customers" nameKey="segment" innerRadius={48}>
+                      {customerData.map((entry) => (
+                        <Cell key={entry.segment} fill={entry.fill} />
+                      ))}
+                    </Pie>
+                    <ChartLegend content={<ChartLegendContent nameKey="segment" />} />
+                  </PieChart>
+                </ChartContainer>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-end">
+                <Select value={rankBy} onValueChange={(value) => setRankBy(value as keyof SalesTotals)}>
+                  <SelectTrigger className={`${inputClassName} w-36`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                    <SelectItem value="units" className="text-[0.65rem] sm:text-xs font-sans">Top by units</SelectItem>
+                    <SelectItem value="revenue" className="text-[0.65rem] sm:text-xs font-sans">Top by revenue</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {renderRanking(
+                  "Top books",
+                  analytics.top_books[rankBy],
+                  (row) => row.book_id,
+                  (row) => row.title || "Deleted book"
+                )}
+                {renderRanking(
+                  "Top categories",
+                  analytics.top_categories[rankBy],
+                  (row) => row.category_name,
+                  (row) => row.category_name
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h3 className={sectionTitleClassName}>Tax by region</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-b border-gray-200 dark:border-gray-700">
+                    <TableHead className={headClassName}>Region</TableHead>
+                    <TableHead className={`${headClassName} text-right`}>Orders</TableHead>
+                    <TableHead className={`${headClassName} text-right`}>Sales</TableHead>
+                    <TableHead className={`${headClassName} text-right`}>Tax</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analytics.tax_by_region.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className={`${cellClassName} text-center py-4`}>
+                        No tax charged in this period
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {analytics.tax_by_region.map((row) => (
+                    <TableRow key={`${row.country_code}-${row.region}`} className="border-b border-gray-200 dark:border-gray-700">
+                      <TableCell className={`${cellClassName} font-semibold text-gray-900 dark:text-white`}>
+                        {[row.country_code || "Unknown", row.region].filter(Boolean).join(" · ")}
+                      </TableCell>
+                      <TableCell className={`${cellClassName} text-right`}>{row.orders}</TableCell>
+                      <TableCell className={`${cellClassName} text-right`}>{formatMoney(row.sales)}</TableCell>
+                      <TableCell className={`${cellClassName} text-right`}>{formatMoney(row.tax)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SalesDashboard;
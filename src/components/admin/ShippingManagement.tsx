@@ -0,0 +1,566 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Pause, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import {
+  fetchShippingCarriers,
+  formatDeliveryEstimate,
+  type ShippingCarrier,
+  type ShippingMethod,
+  type ShippingRate,
+} from "@/lib/shipping";
+
+const emptyMethodForm = {
+  code: "",
+  name: "",
+  description: "",
+  carrier_code: "none",
+  requires_address: true,
+  min_days: "",
+  max_days: "",
+  sort_order: "",
+};
+
+const emptyRateForm = {
+  country_code: "",
+  min_weight_grams: "",
+  max_weight_grams: "",
+  min_order_value: "",
+  max_order_value: "",
+  price: "",
+};
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+const headClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans";
+const cellClassName = "text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans";
+const primaryButtonClassName = "w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8";
+const outlineButtonClassName = "text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8";
+
+const formatBand = (min: number, max: number | null, format: (value: number) => string) => {
+  if (max === null) return min > 0 ? `${format(min)}+` : "any";
+  return `${format(min)}–${format(max)}`;
+};
+
+const describeRate = (rate: ShippingRate) =>
+  [
+    rate.country_code || "Anywhere",
+    `weight ${formatBand(rate.min_weight_grams, rate.max_weight_grams, (value) => `${value} g`)}`,
+    `order ${formatBand(rate.min_order_value, rate.max_order_value, (value) => `$${value.toFixed(2)}`)}`,
+  ].join(" · ");
+
+const ShippingManagement = () => {
+  const [methods, setMethods] = useState<ShippingMethod[]>([]);
+  const [carriers, setCarriers] = useState<ShippingCarrier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null while closed, "new" when creating, otherwise the method being edited
+  const [editingMethod, setEditingMethod] = useState<ShippingMethod | "new" | null>(null);
+  const [methodForm, setMethodForm] = useState(emptyMethodForm);
+  const [ratesMethodId, setRatesMethodId] = useState<string | null>(null);
+  const [rateForm, setRateForm] = useState(emptyRateForm);
+
+  useEffect(() => {
+    fetchMethods();
+    fetchShippingCarriers().then(setCarriers);
+  }, []);
+
+  const fetchMethods = async () => {
+    const { data, error } = await supabase
+      .from('shipping_methods')
+      .select('*, shipping_rates(*)')
+      .order('sort_order')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching shipping methods:', error);
+      toast.error('Failed to load shipping methods');
+    } else {
+      setMethods(data || []);
+    }
+    setLoading(false);
+  };
+
+  const toNumberOrNull = (value: string) => (value.trim() === "" ? null : Number(value));
+
+  const openMethodDialog = (method: ShippingMethod | "new") => {
+    setMethodForm(
+      method === "new"
+        ? emptyMethodForm
+        : {
+            code: method.code,
+            name: method.name,
+            description: method.description || "",
+            carrier_code: method.carrier_code || "none",
+            requires_address: method.requires_address,
+            min_days: method.min_days?.toString() || "",
+            max_days: method.max_days?.toString() || "",
+            sort_order: method.sort_order.toString(),
+          }
+    );
+    setEditingMethod(method);
+  };
+
+  const handleSaveMethod = async () => {
+    if (!methodForm.code.trim() || !methodForm.name.trim()) {
+      toast.error('Code and name are required');
+      return;
+    }
+
+    const values = {
+      code: methodForm.code.trim().toLowerCase(),
+      name: methodForm.name.trim(),
+      description: methodForm.description.trim() || null,
+      carrier_code: methodForm.carrier_code === 'none' ? null : methodForm.carrier_code,
+      requires_address: methodForm.requires_address,
+      min_days: toNumberOrNull(methodForm.min_days),
+      max_days: toNumberOrNull(methodForm.max_days),
+      sort_order: Number(methodForm.sort_order || 0),
+    };
+
+    setSaving(true);
+    const { error } = editingMethod === 'new'
+      ? await supabase.from('shipping_methods').insert([values])
+      : await supabase
+          .from('shipping_methods')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', editingMethod!.id);
+
+    if (error) {
+      console.error('Error saving shipping method:', error);
+      toast.error(error.code === '23505' ? 'A shipping method with that code already exists' : 'Failed to save shipping method');
+    } else {
+      toast.success(editingMethod === 'new' ? 'Shipping method created' : 'Shipping method updated');
+      setEditingMethod(null);
+      fetchMethods();
+    }
+    setSaving(false);
+  };
+
+  const toggleActive = async (method: ShippingMethod) => {
+    const { error } = await supabase
+      .from('shipping_methods')
+      .update({ is_active: !method.is_active, updated_at: new Date().toISOString() })
+      .eq('id', method.id);
+
+    if (error) {
+      console.error('Error updating shipping method:', error);
+      toast.error('Failed to update shipping method');
+    } else {
+      toast.success(`${method.name} ${method.is_active ? 'paused' : 'resumed'}`);
+      fetchMethods();
+    }
+  };
+
+  const handleAddRate = async () => {
+    if (!ratesMethodId) return;
+
+    const countryCode = rateForm.country_code.trim().toUpperCase();
+    if (countryCode && !/^[A-Z]{2}$/.test(countryCode)) {
+      toast.error('Country must be a two-letter code, or empty for anywhere');
+      return;
+    }
+    if (rateForm.price.trim() === '') {
+      toast.error('Price is required');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from('shipping_rates').insert([{
+      method_id: ratesMethodId,
+      country_code: countryCode || null,
+      min_weight_grams: Number(rateForm.min_weight_grams || 0),
+      max_weight_grams: toNumberOrNull(rateForm.max_weight_grams),
+      min_order_value: Number(rateForm.min_order_value || 0),
+      max_order_value: toNumberOrNull(rateForm.max_order_value),
+      price: Number(rateForm.price),
+    }]);
+
+    if (error) {
+      console.error('Error adding shipping rate:', error);
+      toast.error(error.code === '23514' ? 'Check the rule: maximums must be above minimums' : 'Failed to add shipping rate');
+    } else {
+      toast.success('Rate added');
+      setRateForm(emptyRateForm);
+      fetchMethods();
+    }
+    setSaving(false);
+  };
+
+  const handleDeleteRate = async (rate: ShippingRate) => {
+    const { error } = await supabase.from('shipping_rates').delete().eq('id', rate.id);
+
+    if (error) {
+      console.error('Error deleting shipping rate:', error);
+      toast.error('Failed to delete shipping rate');
+    } else {
+      toast.success('Rate removed');
+      fetchMethods();
+    }
+  };
+
+  const ratesMethod = methods.find((method) => method.id === ratesMethodId) || null;
+  const carrierName = (code: string | null) => carriers.find((carrier) => carrier.code === code)?.name;
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+      <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <CardTitle className="text-base sm:text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
+          Shipping Methods
+        </CardTitle>
+        <Button
+          onClick={() => openMethodDialog("new")}
+          className="text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+          size="sm"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add Method
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4">
+        {loading ? (
+          <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans animate-pulse">
+            Loading shipping methods...
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-b border-gray-200 dark:border-gray-700">
+                <TableHead className={headClassName}>Method</TableHead>
+                <TableHead className={headClassName}>Carrier</TableHead>
+                <TableHead className={headClassName}>Delivery</TableHead>
+                <TableHead className={headClassName}>Rates</TableHead>
+                <TableHead className={headClassName}>Status</TableHead>
+                <TableHead className={headClassName}>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {methods.map((method) => (
+                <TableRow key={method.id} className="border-b border-gray-200 dark:border-gray-700">
+                  <TableCell className={cellClassName}>
+                    <span className="font-semibold text-gray-900 dark:text-white">{method.name}</span>
+                    <span className="block">{method.code}</span>
+                  </TableCell>
+                  <TableCell className={cellClassName}>{carrierName(method.carrier_code) || '—'}</TableCell>
+                  <TableCell className={cellClassName}>
+                    {method.requires_address
+                      ? formatDeliveryEstimate(method.min_days, method.max_days) || 'Delivery'
+                      : 'No address needed'}
+                  </TableCell>
+                  <TableCell className={cellClassName}>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      onClick={() => setRatesMethodId(method.id)}
+                      className="text-[0.65rem] sm:text-xs text-indigo-500 dark:text-indigo-400 font-sans p-0 h-auto"
+                    >
+                      {method.shipping_rates.length} {method.shipping_rates.length === 1 ? 'rule' : 'rules'}
+                    </Button>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      className={`text-[0.65rem] sm:text-xs font-sans ${
+                        method.is_active
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                          : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+                      }`}
+                    >
+                      {method.is_active ? 'Active' : 'Paused'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="space-x-1 whitespace-nowrap">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openMethodDialog(method)}
+                      className={outlineButtonClassName}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => toggleActive(method)}
+                      className={outlineButtonClassName}
+                    >
+                      {method.is_active ? (
+                        <>
+                          <Pause className="h-3 w-3 mr-1" />
+                          Pause
+                        </>
+                      ) : (
+                        <>
+                          <Play className="h-3 w-3 mr-1" />
+                          Resume
+                        </>
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingMethod} onOpenChange={(open) => !open && setEditingMethod(null)}>
+        <DialogContent className="max-w-[22rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+          <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+            <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+              {editingMethod === 'new' ? 'Add Shipping Method' : 'Edit Shipping Method'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="method-name" className={labelClassName}>Name</Label>
+                <Input
+                  id="method-name"
+                  value={methodForm.name}
+                  onChange={(e) => setMethodForm({ ...methodForm, name: e.target.value })}
+                  placeholder="Express"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-0.5">
+                <Label htmlFor="method-code" className={labelClassName}>Code</Label>
+                <Input
+                  id="method-code"
+                  value={methodForm.code}
+                  onChange={(e) => setMethodForm({ ...methodForm, code: e.target.value })}
+                  placeholder="express"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div className="space-y-0.5">
+              <Label htmlFor="method-description" className={labelClassName}>Description</Label>
+              <Input
+                id="method-description"
+                value={methodForm.description}
+                onChange={(e) => setMethodForm({ ...methodForm, description: e.target.value })}
+                placeholder="Shown at checkout"
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-0.5">
+              <Label className={labelClassName}>Carrier</Label>
+              <Select value={methodForm.carrier_code} onValueChange={(value) => setMethodForm({ ...methodForm, carrier_code: value })}>
+                <SelectTrigger className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans border-gray-200 dark:border-gray-600 rounded-md">
+                  <SelectItem value="none" className="text-[0.65rem] sm:text-xs">None</SelectItem>
+                  {carriers.map((carrier) => (
+                    <SelectItem key={carrier.code} value={carrier.code} className="text-[0.65rem] sm:text-xs">
+                      {carrier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="method-requires-address" className={labelClassName}>Needs a delivery address</Label>
+              <Switch
+                id="method-requires-address"
+                checked={methodForm.requires_address}
+                onCheckedChange={(checked) => setMethodForm({ ...methodForm, requires_address: checked })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="method-min-days" className={labelClassName}>Min days</Label>
+                <Input
+                  id="method-min-days"
+                  type="number"
+                  min="0"
+                  value={methodForm.min_days}
+                  onChange={(e) => setMethodForm({ ...methodForm, min_days: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-0.5">
+                <Label htmlFor="method-max-days" className={labelClassName}>Max days</Label>
+                <Input
+                  id="method-max-days"
+                  type="number"
+                  min="0"
+                  value={methodForm.max_days}
+                  onChange={(e) => setMethodForm({ ...methodForm, max_days: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-0.5">
+                <Label htmlFor="method-sort-order" className={labelClassName}>Position</Label>
+                <Input
+                  id="method-sort-order"
+                  type="number"
+                  value={methodForm.sort_order}
+                  onChange={(e) => setMethodForm({ ...methodForm, sort_order: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <Button onClick={handleSaveMethod} disabled={saving} className={primaryButtonClassName} size="sm">
+              {saving ? 'Saving...' : editingMethod === 'new' ? 'Create Method' : 'Save Changes'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!ratesMethod}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRatesMethodId(null);
+            setRateForm(emptyRateForm);
+          }
+        }}
+      >
+        <DialogContent className="max-w-[26rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+          <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+            <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+              {ratesMethod?.name} Rates
+            </DialogTitle>
+            <p className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+              The cheapest matching rule is charged. Rules for the customer's country take precedence over rules for anywhere.
+            </p>
+          </DialogHeader>
+          <div className="space-y-3">
+            {ratesMethod && ratesMethod.shipping_rates.length === 0 ? (
+              <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans">
+                No rules yet, so this method isn't offered at checkout
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {ratesMethod?.shipping_rates.map((rate) => (
+                  <div
+                    key={rate.id}
+                    className="flex items-center justify-between gap-2 rounded-md border border-gray-200 dark:border-gray-600 p-1.5"
+                  >
+                    <span className={cellClassName}>{describeRate(rate)}</span>
+                    <span className="flex items-center gap-1">
+                      <span className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">
+                        {rate.price > 0 ? `$${rate.price.toFixed(2)}` : 'Free'}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteRate(rate)}
+                        className="h-6 w-6 p-0 text-red-500 hover:text-red-600"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-0.5">
+                  <Label htmlFor="rate-country" className={labelClassName}>Country</Label>
+                  <Input
+                    id="rate-country"
+                    value={rateForm.country_code}
+                    onChange={(e) => setRateForm({ ...rateForm, country_code: e.target.value.toUpperCase() })}
+                    placeholder="Anywhere"
+                    maxLength={2}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-0.5">
+                  <Label htmlFor="rate-price" className={labelClassName}>Price ($)</Label>
+                  <Input
+                    id="rate-price"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={rateForm.price}
+                    onChange={(e) => setRateForm({ ...rateForm, price: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-0.5">
+                  <Label htmlFor="rate-min-weight" className={labelClassName}>Min weight (g)</Label>
+                  <Input
+                    id="rate-min-weight"
+                    type="number"
+                    min="0"
+                    placeholder="0"
+                    value={rateForm.min_weight_grams}
+                    onChange={(e) => setRateForm({ ...rateForm, min_weight_grams: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-0.5">
+                  <Label htmlFor="rate-max-weight" className={labelClassName}>Max weight (g)</Label>
+                  <Input
+                    id="rate-max-weight"
+                    type="number"
+                    min="0"
+                    placeholder="No limit"
+                    value={rateForm.max_weight_grams}
+                    onChange={(e) => setRateForm({ ...rateForm, max_weight_grams: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-0.5">
+                  <Label htmlFor="rate-min-value" className={labelClassName}>Min order ($)</Label>
+                  <Input
+                    id="rate-min-value"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0"
+                    value={rateForm.min_order_value}
+                    onChange={(e) => setRateForm({ ...rateForm, min_order_value: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-0.5">
+                  <Label htmlFor="rate-max-value" className={labelClassName}>Max order ($)</Label>
+                  <Input
+                    id="rate-max-value"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="No limit"
+                    value={rateForm.max_order_value}
+                    onChange={(e) => setRateForm({ ...rateForm, max_order_value: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <Button onClick={handleAddRate} disabled={saving} className={primaryButtonClassName} size="sm">
+                {saving ? 'Adding...' : 'Add Rule'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ShippingManagement;
@@ -0,0 +1,514 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  fetchTaxClasses,
+  fetchTaxDisplay,
+  formatTaxRate,
+  DEFAULT_TAX_CLASS,
+  type TaxClass,
+  type TaxDisplay,
+  type TaxRate,
+} from "@/lib/tax";
+
+const emptyRateForm = {
+  country_code: "",
+  region: "",
+  tax_class: DEFAULT_TAX_CLASS,
+  name: "",
+  // Percentage, e.g. "7.25"
+  rate: "",
+};
+
+const emptyClassForm = {
+  code: "",
+  name: "",
+};
+
+// Printed at the top of invoices and packing slips
+const emptySellerForm = {
+  seller_name: "",
+  seller_address: "",
+  seller_email: "",
+  seller_tax_id: "",
+};
+
+const inputClassName = "text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 h-8";
+const labelClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-700 dark:text-gray-300 font-sans";
+const headClassName = "text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans";
+const cellClassName = "text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans";
+const primaryButtonClassName = "w-full text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8";
+const outlineButtonClassName = "text-[0.65rem] sm:text-xs border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8";
+const titleClassName = "text-base sm:text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans";
+
+const TaxManagement = () => {
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [classes, setClasses] = useState<TaxClass[]>([]);
+  const [taxDisplay, setTaxDisplay] = useState<TaxDisplay>("exclusive");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null while closed, "new" when creating, otherwise the rate being edited
+  const [editingRate, setEditingRate] = useState<TaxRate | "new" | null>(null);
+  const [rateForm, setRateForm] = useState(emptyRateForm);
+  const [classForm, setClassForm] = useState(emptyClassForm);
+  const [sellerForm, setSellerForm] = useState(emptySellerForm);
+
+  useEffect(() => {
+    fetchRates();
+    fetchTaxClasses().then(setClasses);
+    fetchTaxDisplay().then(setTaxDisplay);
+    fetchSellerDetails();
+  }, []);
+
+  const fetchSellerDetails = async () => {
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('seller_name, seller_address, seller_email, seller_tax_id')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching invoice details:', error);
+    } else if (data) {
+      setSellerForm({ ...data, seller_tax_id: data.seller_tax_id || '' });
+    }
+  };
+
+  const fetchRates = async () => {
+    const { data, error } = await supabase
+      .from('tax_rates')
+      .select('id, country_code, region, tax_class, name, rate')
+      .order('country_code')
+      .order('region', { nullsFirst: true })
+      .order('tax_class');
+
+    if (error) {
+      console.error('Error fetching tax rates:', error);
+      toast.error('Failed to load tax rates');
+    } else {
+      setRates(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleDisplayChange = async (value: TaxDisplay) => {
+    const { error } = await supabase
+      .from('store_settings')
+      .update({ tax_display: value, updated_at: new Date().toISOString() })
+      .eq('id', true);
+
+    if (error) {
+      console.error('Error updating tax display:', error);
+      toast.error('Failed to update tax display');
+    } else {
+      setTaxDisplay(value);
+      toast.success(value === 'inclusive' ? 'Totals now show tax as included' : 'Totals now show tax separately');
+    }
+  };
+
+  const openRateDialog = (rate: TaxRate | "new") => {
+    setRateForm(
+      rate === "new"
+        ? emptyRateForm
+        : {
+            country_code: rate.country_code,
+            region: rate.region || "",
+            tax_class: rate.tax_class,
+            name: rate.name,
+            rate: Number((rate.rate * 100).toFixed(3)).toString(),
+          }
+    );
+    setEditingRate(rate);
+  };
+
+  const handleSaveRate = async () => {
+    const countryCode = rateForm.country_code.trim().toUpperCase();
+    if (!/^[A-Z]{2}$/.test(countryCode)) {
+      toast.error('Country must be a two-letter code');
+      return;
+    }
+
+    const percentage = Number(rateForm.rate);
+    if (rateForm.rate.trim() === '' || Number.isNaN(percentage) || percentage < 0 || percentage >= 100) {
+      toast.error('Rate must be a percentage from 0 to below 100');
+      return;
+    }
+
+    const values = {
+      country_code: countryCode,
+      region: rateForm.region.trim().toUpperCase() || null,
+      tax_class: rateForm.tax_class,
+      name: rateForm.name.trim() || 'Tax',
+      rate: Number((percentage / 100).toFixed(4)),
+    };
+
+    setSaving(true);
+    const { error } = editingRate === 'new'
+      ? await supabase.from('tax_rates').insert([values])
+      : await supabase.from('tax_rates').update(values).eq('id', editingRate!.id);
+
+    if (error) {
+      console.error('Error saving tax rate:', error);
+      toast.error(error.code === '23505' ? 'That place already has a rate for this tax class' : 'Failed to save tax rate');
+    } else {
+      toast.success(editingRate === 'new' ? 'Tax rate added' : 'Tax rate updated');
+      setEditingRate(null);
+      fetchRates();
+    }
+    setSaving(false);
+  };
+
+  const handleDeleteRate = async (rate: TaxRate) => {
+    const { error } = await supabase.from('tax_rates').delete().eq('id', rate.id);
+
+    if (error) {
+      console.error('Error deleting tax rate:', error);
+      toast.error('Failed to delete tax rate');
+    } else {
+      toast.success('Tax rate removed');
+      fetchRates();
+    }
+  };
+
+  const handleAddClass = async () => {
+    const code = classForm.code.trim().toLowerCase();
+    if (!/^[a-z0-9_]+$/.test(code) || !classForm.name.trim()) {
+      toast.error('Enter a code (letters, numbers and underscores) and a name');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from('tax_classes').insert([{ code, name: classForm.name.trim() }]);
+
+    if (error) {
+      console.error('Error adding tax class:', error);
+      toast.error(error.code === '23505' ? 'A tax class with that code already exists' : 'Failed to add tax class');
+    } else {
+      toast.success('Tax class added');
+      setClassForm(emptyClassForm);
+      fetchTaxClasses().then(setClasses);
+    }
+    setSaving(false);
+  };
+
+  const handleSaveSeller = async () => {
+    if (!sellerForm.seller_name.trim() || !sellerForm.seller_email.trim()) {
+      toast.error('Enter the business name and email');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('store_settings')
+      .update({
+        seller_name: sellerForm.seller_name.trim(),
+        seller_address: sellerForm.seller_address.trim(),
+        seller_email: sellerForm.seller_email.trim(),
+        seller_tax_id: sellerForm.seller_tax_id.trim() || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', true);
+
+    if (error) {
+      console.error('Error updating invoice details:', error);
+      toast.error('Failed to update invoice details');
+    } else {
+      toast.success('Invoice details updated');
+    }
+    setSaving(false);
+  };
+
+  const className = (code: string) => classes.find((taxClass) => taxClass.code === code)?.name || code;
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+        <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <CardTitle className={titleClassName}>Tax Rates</CardTitle>
+          <Button
+            onClick={() => openRateDialog("new")}
+            className="text-[0.65rem] sm:text-xs bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white font-sans font-semibold rounded-md transition-all duration-200 hover:scale-[1.02] shadow-md h-8"
+            size="sm"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add Rate
+          </Button>
+        </CardHeader>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <Label className={labelClassName}>Show tax in totals</Label>
+            <Select value={taxDisplay} onValueChange={(value) => handleDisplayChange(value as TaxDisplay)}>
+              <SelectTrigger className={`${inputClassName} sm:w-64`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans border-gray-200 dark:border-gray-600 rounded-md">
+                <SelectItem value="exclusive" className="text-[0.65rem] sm:text-xs">As a separate line</SelectItem>
+                <SelectItem value="inclusive" className="text-[0.65rem] sm:text-xs">As included in the total</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+            A region's rate takes precedence over its country's. Places without a rate aren't taxed, and shipping is never taxed.
+          </p>
+          {loading ? (
+            <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans animate-pulse">
+              Loading tax rates...
+            </p>
+          ) : rates.length === 0 ? (
+            <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans">
+              No tax rates yet, so no tax is charged
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-b border-gray-200 dark:border-gray-700">
+                  <TableHead className={headClassName}>Country</TableHead>
+                  <TableHead className={headClassName}>Region</TableHead>
+                  <TableHead className={headClassName}>Class</TableHead>
+                  <TableHead className={headClassName}>Name</TableHead>
+                  <TableHead className={headClassName}>Rate</TableHead>
+                  <TableHead className={headClassName}>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id} className="border-b border-gray-200 dark:border-gray-700">
+                    <TableCell className={cellClassName}>{rate.country_code}</TableCell>
+                    <TableCell className={cellClassName}>{rate.region || 'Whole country'}</TableCell>
+                    <TableCell className={cellClassName}>{className(rate.tax_class)}</TableCell>
+                    <TableCell className={cellClassName}>{rate.name}</TableCell>
+                    <TableCell className={`${cellClassName} font-semibold text-gray-900 dark:text-white`}>
+                      {formatTaxRate(rate.rate)}
+                    </TableCell>
+                    <TableCell className="space-x-1 whitespace-nowrap">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openRateDialog(rate)}
+                        className={outlineButtonClassName}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeleteRate(rate)}
+                        className="text-[0.65rem] sm:text-xs border-red-500 text-red-500 hover:bg-red-50 dark:border-red-400 dark:text-red-400 dark:hover:bg-red-900 font-sans font-semibold rounded-md h-8"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+        <CardHeader className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <CardTitle className={titleClassName}>Tax Classes</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 space-y-3">
+          <p className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+            Each book has a tax class, so printed books and gift items can be taxed at different rates.
+          </p>
+          <div className="space-y-1">
+            {classes.map((taxClass) => (
+              <div
+                key={taxClass.code}
+                className="flex items-center justify-between gap-2 rounded-md border border-gray-200 dark:border-gray-600 p-1.5"
+              >
+                <span className="text-[0.65rem] sm:text-xs font-semibold text-gray-900 dark:text-white font-sans">{taxClass.name}</span>
+                <span className={cellClassName}>{taxClass.code}</span>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+            <div className="space-y-0.5">
+              <Label htmlFor="class-name" className={labelClassName}>Name</Label>
+              <Input
+                id="class-name"
+                value={classForm.name}
+                onChange={(e) => setClassForm({ ...classForm, name: e.target.value })}
+                placeholder="E-books"
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-0.5">
+              <Label htmlFor="class-code" className={labelClassName}>Code</Label>
+              <Input
+                id="class-code"
+                value={classForm.code}
+                onChange={(e) => setClassForm({ ...classForm, code: e.target.value })}
+                placeholder="ebooks"
+                className={inputClassName}
+              />
+            </div>
+            <Button onClick={handleAddClass} disabled={saving} className={primaryButtonClassName} size="sm">
+              Add Class
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300 rounded-2xl border-0">
+        <CardHeader className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <CardTitle className={titleClassName}>Invoice Details</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 space-y-3">
+          <p className="text-[0.65rem] sm:text-xs text-gray-600 dark:text-gray-400 font-sans">
+            Printed on invoices and packing slips. Invoices keep the details they were issued with.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <div className="space-y-0.5">
+              <Label htmlFor="seller-name" className={labelClassName}>Business name</Label>
+              <Input
+                id="seller-name"
+                value={sellerForm.seller_name}
+                onChange={(e) => setSellerForm({ ...sellerForm, seller_name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-0.5">
+              <Label htmlFor="seller-email" className={labelClassName}>Email</Label>
+              <Input
+                id="seller-email"
+                type="email"
+                value={sellerForm.seller_email}
+                onChange={(e) => setSellerForm({ ...sellerForm, seller_email: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-0.5">
+              <Label htmlFor="seller-address" className={labelClassName}>Address</Label>
+              <Textarea
+                id="seller-address"
+                value={sellerForm.seller_address}
+                onChange={(e) => setSellerForm({ ...sellerForm, seller_address: e.target.value })}
+                placeholder={"12 High Street\nBath BA1 1AA\nUnited Kingdom"}
+                className="text-[0.65rem] sm:text-xs text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700 rounded-md border-gray-200 dark:border-gray-600 min-h-[60px]"
+              />
+            </div>
+            <div className="space-y-0.5">
+              <Label htmlFor="seller-tax-id" className={labelClassName}>Tax registration number (optional)</Label>
+              <Input
+                id="seller-tax-id"
+                value={sellerForm.seller_tax_id}
+                onChange={(e) => setSellerForm({ ...sellerForm, seller_tax_id: e.target.value })}
+                placeholder="GB123456789"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <Button onClick={handleSaveSeller} disabled={saving} className={primaryButtonClassName} size="sm">
+            Save Invoice Details
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingRate} onOpenChange={(open) => !open && setEditingRate(null)}>
+        <DialogContent className="max-w-[22rem] max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 shadow-lg rounded-2xl font-sans p-3.5">
+          <DialogHeader className="border-b border-gray-200 dark:border-gray-700 pb-1.5 mb-3">
+            <DialogTitle className="text-base font-bold text-gray-900 dark:text-white font-sans">
+              {editingRate === 'new' ? 'Add Tax Rate' : 'Edit Tax Rate'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="rate-country" className={labelClassName}>Country</Label>
+                <Input
+                  id="rate-country"
+                  value={rateForm.country_code}
+                  onChange={(e) => setRateForm({ ...rateForm, country_code: e.target.value.toUpperCase() })}
+                  placeholder="US"
+                  maxLength={2}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-0.5">
+                <Label htmlFor="rate-region" className={labelClassName}>Region</Label>
+                <Input
+                  id="rate-region"
+                  value={rateForm.region}
+                  onChange={(e) => setRateForm({ ...rateForm, region: e.target.value })}
+                  placeholder="Whole country"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <p className="text-[0.65rem] sm:text-xs text-gray-500 dark:text-gray-400 font-sans">
+              The region is matched against the state or province on the customer's address, e.g. CA.
+            </p>
+            <div className="space-y-0.5">
+              <Label className={labelClassName}>Tax class</Label>
+              <Select value={rateForm.tax_class} onValueChange={(value) => setRateForm({ ...rateForm, tax_class: value })}>
+                <SelectTrigger className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans border-gray-200 dark:border-gray-600 rounded-md">
+                  {classes.map((taxClass) => (
+                    <SelectItem key={taxClass.code} value={taxClass.code} className="text-[0.65rem] sm:text-xs">
+                      {taxClass.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="rate-name" className={labelClassName}>Name</Label>
+                <Input
+                  id="rate-name"
+                  value={rateForm.name}
+                  onChange={(e) => setRateForm({ ...rateForm, name: e.target.value })}
+                  placeholder="Tax"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-0.5">
+                <Label htmlFor="rate-percentage" className={labelClassName}>Rate (%)</Label>
+                <Input
+                  id="rate-percentage"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  max="99.99"
+                  value={rateForm.rate}
+                  onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <Button onClick={handleSaveRate} disabled={saving} className={primaryButtonClassName} size="sm">
+              {saving ? 'Saving...' : editingRate === 'new' ? 'Add Rate' : 'Save Changes'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaxManagement;
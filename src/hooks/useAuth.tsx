@@ -2,6 +2,13 @@
 import { useState, useEffect, createContext, useContext } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { mergeGuestCart } from '@/lib/cart';
+import BlockedAccountScreen from '@/components/BlockedAccountScreen';
+
+interface BlockedAccount {
+  reason: string | null;
+  blockedUntil: string | null;
+}
 
 interface AuthContextType {
   user: User | null;
@@ -18,6 +25,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [blockedAccount, setBlockedAccount] = useState<BlockedAccount | null>(null);
+
+  // Signs the user out if their profile is blocked and the block hasn't expired
+  const checkBlocked = async (userId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('is_blocked, block_reason, blocked_until')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking account status:', error);
+      return false;
+    }
+
+    const isBlocked = !!data?.is_blocked &&
+      (!data.blocked_until || new Date(data.blocked_until) > new Date());
+    if (!isBlocked) return false;
+
+    setBlockedAccount({ reason: data.block_reason, blockedUntil: data.blocked_until });
+    await supabase.auth.signOut();
+    return true;
+  };
 
   useEffect(() => {
     // Set up auth state listener
@@ -26,6 +56,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
+
+        if ((event === 'SIGNED_IN' || event === 'INITIAL_SESSION' || event === 'TOKEN_REFRESHED') && session) {
+          // Defer so the Supabase calls don't run inside the auth callback
+          setTimeout(async () => {
+            if (await checkBlocked(session.user.id) || event !== 'SIGNED_IN') return;
+
+            const { error } = await mergeGuestCart();
+            if (error) {
+              console.error('Error merging guest cart:', error);
+            }
+          }, 0);
+        }
       }
     );
 
@@ -56,36 +98,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signIn = async (email: string, password: string) => {
-    // Check if this is the admin account
-    if (email === 'admin@admin.com' && password === 'imadmin') {
-      // First, try to create the admin user in auth if it doesn't exist
-      const { data: signUpData, error: signUpError } = await supabase.auth.signUp({
-        email: 'admin@admin.com',
-        password: 'imadmin',
-        options: {
-          data: {
-            full_name: 'Admin User'
-          }
-        }
-      });
-
-      // If signup fails because user exists, try to sign in
-      if (signUpError && signUpError.message.includes('already registered')) {
-        const { error: signInError } = await supabase.auth.signInWithPassword({
-          email: 'admin@admin.com',
-          password: 'imadmin'
-        });
-        return { error: signInError };
-      }
-
-      return { error: signUpError };
-    }
-
-    // Regular sign in for other users
-    const { error } = await supabase.auth.signInWithPassword({
+    const { data, error } = await supabase.auth.signInWithPassword({
       email,
       password
     });
+
+    if (!error && data.user && await checkBlocked(data.user.id)) {
+      return { error: { message: 'This account has been blocked' } };
+    }
     return { error };
   };
 
@@ -95,7 +115,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   return (
     <AuthContext.Provider value={{ user, session, loading, signUp, signIn, signOut }}>
-      {children}
+      {blockedAccount ? (
+        <BlockedAccountScreen
+          reason={blockedAccount.reason}
+          blockedUntil={blockedAccount.blockedUntil}
+          onDismiss={() => setBlockedAccount(null)}
+        />
+      ) : (
+        children
+      )}
     </AuthContext.Provider>
   );
 }
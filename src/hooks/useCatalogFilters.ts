@@ -0,0 +1,67 @@
+import { useSearchParams } from "react-router-dom";
+import type { SearchFilters, SearchSort } from "@/lib/search";
+
+export interface CatalogFilters extends SearchFilters {
+  query: string;
+  category: string | null;
+  sort: SearchSort;
+  page: number;
+}
+
+const SORTS: SearchSort[] = ["relevance", "title", "price_low", "price_high", "rating", "newest"];
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Every /books filter lives in the query string so results can be linked to,
+// bookmarked and restored with the back button. Default values are left out.
+export function useCatalogFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const query = searchParams.get("search") || "";
+  const sortParam = searchParams.get("sort") as SearchSort | null;
+
+  const filters: CatalogFilters = {
+    query,
+    category: searchParams.get("category") || null,
+    sort: sortParam && SORTS.includes(sortParam) ? sortParam : query ? "relevance" : "title",
+    page: Math.max(1, parseNumber(searchParams.get("page")) ?? 1),
+    minPrice: parseNumber(searchParams.get("min_price")),
+    maxPrice: parseNumber(searchParams.get("max_price")),
+    minRating: parseNumber(searchParams.get("rating")),
+    inStock: searchParams.get("in_stock") === "1",
+    onSale: searchParams.get("on_sale") === "1",
+  };
+
+  const toParams = (next: CatalogFilters) => {
+    const params = new URLSearchParams();
+    if (next.query) params.set("search", next.query);
+    if (next.category) params.set("category", next.category);
+    if (next.sort !== (next.query ? "relevance" : "title")) params.set("sort", next.sort);
+    if (next.minPrice !== null && next.minPrice !== undefined) params.set("min_price", String(next.minPrice));
+    if (next.maxPrice !== null && next.maxPrice !== undefined) params.set("max_price", String(next.maxPrice));
+    if (next.minRating) params.set("rating", String(next.minRating));
+    if (next.inStock) params.set("in_stock", "1");
+    if (next.onSale) params.set("on_sale", "1");
+    if (next.page > 1) params.set("page", String(next.page));
+    return params;
+  };
+
+  // Changing any filter goes back to the first page unless a page is given
+  const setFilters = (changes: Partial<CatalogFilters>) => {
+    const next = { ...filters, page: 1, ...changes };
+    if ("query" in changes && !("sort" in changes)) {
+      next.sort = next.query ? "relevance" : "title";
+    }
+    setSearchParams(toParams(next));
+  };
+
+  const clearFilters = () => setSearchParams({});
+
+  const pageHref = (page: number) => `?${toParams({ ...filters, page }).toString()}`;
+
+  return { filters, setFilters, clearFilters, pageHref };
+}
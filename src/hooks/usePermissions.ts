@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchPermissions, type Permission } from "@/lib/permissions";
+
+// What the signed-in user's role lets them do. The database enforces the same
+// permissions; this only decides what to show.
+export function usePermissions() {
+  const { user, loading: authLoading } = useAuth();
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      setPermissions([]);
+      setLoading(false);
+      return;
+    }
+
+    let ignore = false;
+    setLoading(true);
+    fetchPermissions().then(({ data, error }) => {
+      if (ignore) return;
+      if (error) {
+        console.error("Error fetching permissions:", error);
+      }
+      setPermissions(data);
+      setLoading(false);
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [user?.id, authLoading]);
+
+  const can = (permission: Permission) => permissions.includes(permission);
+
+  return { permissions, can, isStaff: permissions.length > 0, loading };
+}
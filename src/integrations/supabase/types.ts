@@ -9,6 +9,96 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      addresses: {
+        Row: {
+          city: string
+          country_code: string
+          created_at: string
+          full_name: string
+          id: string
+          is_default_billing: boolean
+          is_default_shipping: boolean
+          line1: string
+          line2: string | null
+          phone: string | null
+          postal_code: string | null
+          region: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          city: string
+          country_code: string
+          created_at?: string
+          full_name: string
+          id?: string
+          is_default_billing?: boolean
+          is_default_shipping?: boolean
+          line1: string
+          line2?: string | null
+          phone?: string | null
+          postal_code?: string | null
+          region?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          city?: string
+          country_code?: string
+          created_at?: string
+          full_name?: string
+          id?: string
+          is_default_billing?: boolean
+          is_default_shipping?: boolean
+          line1?: string
+          line2?: string | null
+          phone?: string | null
+          postal_code?: string | null
+          region?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: string
+          row_id: string
+          row_label: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          row_id: string
+          row_label?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          row_id?: string
+          row_label?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
       books: {
         Row: {
           author: string
@@ -22,10 +112,16 @@ export type Database = {
           original_price: number | null
           price: number
           rating: number | null
+          rating_distribution: Json
+          reorder_threshold: number
           review_count: number | null
+          search_text: string | null
+          search_vector: unknown | null
           stock_quantity: number
+          tax_class: string
           title: string
           updated_at: string
+          weight_grams: number
         }
         Insert: {
           author: string
@@ -39,10 +135,16 @@ export type Database = {
           original_price?: number | null
           price: number
           rating?: number | null
+          rating_distribution?: Json
+          reorder_threshold?: number
           review_count?: number | null
+          search_text?: string | null
+          search_vector?: unknown | null
           stock_quantity?: number
+          tax_class?: string
           title: string
           updated_at?: string
+          weight_grams?: number
         }
         Update: {
           author?: string
@@ -56,46 +158,845 @@ export type Database = {
           original_price?: number | null
           price?: number
           rating?: number | null
+          rating_distribution?: Json
+          reorder_threshold?: number
           review_count?: number | null
+          search_text?: string | null
+          search_vector?: unknown | null
           stock_quantity?: number
+          tax_class?: string
           title?: string
           updated_at?: string
+          weight_grams?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "books_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "books_tax_class_fkey"
+            columns: ["tax_class"]
+            isOneToOne: false
+            referencedRelation: "tax_classes"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      cart_items: {
+        Row: {
+          book_id: string
+          created_at: string
+          id: string
+          quantity: number
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          id?: string
+          quantity?: number
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          id?: string
+          quantity?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          order_id: string | null
+          payload: Json
+          sent_at: string | null
+          status: string
+          template: string
+          template_version: number | null
+          to_email: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          order_id?: string | null
+          payload?: Json
+          sent_at?: string | null
+          status?: string
+          template: string
+          template_version?: number | null
+          to_email: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          order_id?: string | null
+          payload?: Json
+          sent_at?: string | null
+          status?: string
+          template?: string
+          template_version?: number | null
+          to_email?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_movements: {
+        Row: {
+          book_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: Database["public"]["Enums"]["inventory_movement_type"]
+          note: string | null
+          order_id: string | null
+          quantity: number
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: Database["public"]["Enums"]["inventory_movement_type"]
+          note?: string | null
+          order_id?: string | null
+          quantity: number
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type?: Database["public"]["Enums"]["inventory_movement_type"]
+          note?: string | null
+          order_id?: string | null
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          id: string
+          issued_at: string
+          number: number
+          order_id: string
+          seller: Json
+        }
+        Insert: {
+          id?: string
+          issued_at?: string
+          number: number
+          order_id: string
+          seller: Json
+        }
+        Update: {
+          id?: string
+          issued_at?: string
+          number?: number
+          order_id?: string
+          seller?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          book_id: string
+          created_at: string
+          id: string
+          order_id: string
+          price: number
+          quantity: number
+          tax_amount: number
+          tax_rate: number
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          id?: string
+          order_id: string
+          price: number
+          quantity: number
+          tax_amount?: number
+          tax_rate?: number
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          id?: string
+          order_id?: string
+          price?: number
+          quantity?: number
+          tax_amount?: number
+          tax_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          new_status: Database["public"]["Enums"]["order_status"]
+          note: string | null
+          old_status: Database["public"]["Enums"]["order_status"] | null
+          order_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_status: Database["public"]["Enums"]["order_status"]
+          note?: string | null
+          old_status?: Database["public"]["Enums"]["order_status"] | null
+          order_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_status?: Database["public"]["Enums"]["order_status"]
+          note?: string | null
+          old_status?: Database["public"]["Enums"]["order_status"] | null
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          billing_address_snapshot: Json | null
+          created_at: string
+          discount_amount: number
+          free_shipping: boolean
+          id: string
+          promotion_code: string | null
+          promotion_id: string | null
+          refunded_amount: number
+          shipping_address: string
+          shipping_address_snapshot: Json | null
+          shipping_amount: number
+          shipping_country: string | null
+          shipping_method_id: string | null
+          shipping_method_name: string | null
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal_amount: number
+          tax_amount: number
+          tax_country: string | null
+          tax_region: string | null
+          total_amount: number
+          tracking_carrier: string | null
+          tracking_number: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          billing_address_snapshot?: Json | null
+          created_at?: string
+          discount_amount?: number
+          free_shipping?: boolean
+          id?: string
+          promotion_code?: string | null
+          promotion_id?: string | null
+          refunded_amount?: number
+          shipping_address: string
+          shipping_address_snapshot?: Json | null
+          shipping_amount?: number
+          shipping_country?: string | null
+          shipping_method_id?: string | null
+          shipping_method_name?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal_amount: number
+          tax_amount?: number
+          tax_country?: string | null
+          tax_region?: string | null
+          total_amount: number
+          tracking_carrier?: string | null
+          tracking_number?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          billing_address_snapshot?: Json | null
+          created_at?: string
+          discount_amount?: number
+          free_shipping?: boolean
+          id?: string
+          promotion_code?: string | null
+          promotion_id?: string | null
+          refunded_amount?: number
+          shipping_address?: string
+          shipping_address_snapshot?: Json | null
+          shipping_amount?: number
+          shipping_country?: string | null
+          shipping_method_id?: string | null
+          shipping_method_name?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal_amount?: number
+          tax_amount?: number
+          tax_country?: string | null
+          tax_region?: string | null
+          total_amount?: number
+          tracking_carrier?: string | null
+          tracking_number?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_shipping_method_id_fkey"
+            columns: ["shipping_method_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_methods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_tracking_carrier_fkey"
+            columns: ["tracking_carrier"]
+            isOneToOne: false
+            referencedRelation: "shipping_carriers"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      payment_events: {
+        Row: {
+          created_at: string
+          id: string
+          payload: Json
+          payment_id: string | null
+          provider: string
+          provider_event_id: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          payload?: Json
+          payment_id?: string | null
+          provider: string
+          provider_event_id: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          payload?: Json
+          payment_id?: string | null
+          provider?: string
+          provider_event_id?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_events_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          captured_at: string | null
+          card_brand: string | null
+          card_last4: string | null
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          id: string
+          order_id: string
+          provider: string
+          provider_reference: string | null
+          refunded_amount: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          captured_at?: string | null
+          card_brand?: string | null
+          card_last4?: string | null
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id: string
+          provider: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          captured_at?: string | null
+          card_brand?: string | null
+          card_last4?: string | null
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id?: string
+          provider?: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          address: string | null
+          block_reason: string | null
+          blocked_at: string | null
+          blocked_by: string | null
+          blocked_until: string | null
+          created_at: string
+          email: string
+          full_name: string | null
+          id: string
+          is_blocked: boolean
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          block_reason?: string | null
+          blocked_at?: string | null
+          blocked_by?: string | null
+          blocked_until?: string | null
+          created_at?: string
+          email: string
+          full_name?: string | null
+          id: string
+          is_blocked?: boolean
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          block_reason?: string | null
+          blocked_at?: string | null
+          blocked_by?: string | null
+          blocked_until?: string | null
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          id?: string
+          is_blocked?: boolean
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promotion_redemptions: {
+        Row: {
+          created_at: string
+          discount_amount: number
+          id: string
+          order_id: string
+          promotion_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          discount_amount: number
+          id?: string
+          order_id: string
+          promotion_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          promotion_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          buy_quantity: number | null
+          category_id: string | null
+          code: string
+          created_at: string
+          description: string | null
+          ends_at: string | null
+          get_quantity: number | null
+          id: string
+          is_active: boolean
+          min_spend: number
+          starts_at: string | null
+          type: Database["public"]["Enums"]["promotion_type"]
+          updated_at: string
+          usage_limit: number | null
+          usage_limit_per_user: number | null
+          value: number
+        }
+        Insert: {
+          buy_quantity?: number | null
+          category_id?: string | null
+          code: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          is_active?: boolean
+          min_spend?: number
+          starts_at?: string | null
+          type: Database["public"]["Enums"]["promotion_type"]
+          updated_at?: string
+          usage_limit?: number | null
+          usage_limit_per_user?: number | null
+          value?: number
+        }
+        Update: {
+          buy_quantity?: number | null
+          category_id?: string | null
+          code?: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          is_active?: boolean
+          min_spend?: number
+          starts_at?: string | null
+          type?: Database["public"]["Enums"]["promotion_type"]
+          updated_at?: string
+          usage_limit?: number | null
+          usage_limit_per_user?: number | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          completed_at: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          note: string | null
+          order_id: string
+          payment_id: string | null
+          provider_reference: string | null
+          requested_by: string | null
+          return_request_id: string | null
+          status: string
+        }
+        Insert: {
+          amount: number
+          completed_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          payment_id?: string | null
+          provider_reference?: string | null
+          requested_by?: string | null
+          return_request_id?: string | null
+          status?: string
+        }
+        Update: {
+          amount?: number
+          completed_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          payment_id?: string | null
+          provider_reference?: string | null
+          requested_by?: string | null
+          return_request_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_return_request_id_fkey"
+            columns: ["return_request_id"]
+            isOneToOne: false
+            referencedRelation: "return_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_request_items: {
+        Row: {
+          id: string
+          order_item_id: string
+          quantity: number
+          return_request_id: string
+        }
+        Insert: {
+          id?: string
+          order_item_id: string
+          quantity: number
+          return_request_id: string
+        }
+        Update: {
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          return_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_request_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_request_items_return_request_id_fkey"
+            columns: ["return_request_id"]
+            isOneToOne: false
+            referencedRelation: "return_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_requests: {
+        Row: {
+          admin_note: string | null
+          created_at: string
+          id: string
+          order_id: string
+          reason: string
+          refund_amount: number | null
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["return_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          admin_note?: string | null
+          created_at?: string
+          id?: string
+          order_id: string
+          reason: string
+          refund_amount?: number | null
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["return_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          admin_note?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          reason?: string
+          refund_amount?: number | null
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["return_status"]
+          updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "books_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "return_requests_order_id_fkey"
+            columns: ["order_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "orders"
             referencedColumns: ["id"]
           },
         ]
       }
-      cart_items: {
+      reviews: {
         Row: {
           book_id: string
+          comment: string | null
           created_at: string
           id: string
-          quantity: number
+          rating: number
           user_id: string
         }
         Insert: {
           book_id: string
+          comment?: string | null
           created_at?: string
           id?: string
-          quantity?: number
+          rating: number
           user_id: string
         }
         Update: {
           book_id?: string
+          comment?: string | null
           created_at?: string
           id?: string
-          quantity?: number
+          rating?: number
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "cart_items_book_id_fkey"
+            foreignKeyName: "reviews_book_id_fkey"
             columns: ["book_id"]
             isOneToOne: false
             referencedRelation: "books"
@@ -103,163 +1004,276 @@ export type Database = {
           },
         ]
       }
-      categories: {
+      role_permissions: {
+        Row: {
+          permission: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Insert: {
+          permission: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Update: {
+          permission?: string
+          role?: Database["public"]["Enums"]["user_role"]
+        }
+        Relationships: []
+      }
+      shipping_carriers: {
+        Row: {
+          code: string
+          name: string
+          tracking_url_template: string | null
+        }
+        Insert: {
+          code: string
+          name: string
+          tracking_url_template?: string | null
+        }
+        Update: {
+          code?: string
+          name?: string
+          tracking_url_template?: string | null
+        }
+        Relationships: []
+      }
+      shipping_methods: {
         Row: {
+          carrier_code: string | null
+          code: string
           created_at: string
           description: string | null
           id: string
+          is_active: boolean
+          max_days: number | null
+          min_days: number | null
           name: string
+          requires_address: boolean
+          sort_order: number
+          updated_at: string
         }
         Insert: {
+          carrier_code?: string | null
+          code: string
           created_at?: string
           description?: string | null
           id?: string
+          is_active?: boolean
+          max_days?: number | null
+          min_days?: number | null
           name: string
+          requires_address?: boolean
+          sort_order?: number
+          updated_at?: string
         }
         Update: {
+          carrier_code?: string | null
+          code?: string
           created_at?: string
           description?: string | null
           id?: string
+          is_active?: boolean
+          max_days?: number | null
+          min_days?: number | null
           name?: string
+          requires_address?: boolean
+          sort_order?: number
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "shipping_methods_carrier_code_fkey"
+            columns: ["carrier_code"]
+            isOneToOne: false
+            referencedRelation: "shipping_carriers"
+            referencedColumns: ["code"]
+          },
+        ]
       }
-      order_items: {
+      shipping_rates: {
         Row: {
-          book_id: string
+          country_code: string | null
           created_at: string
           id: string
-          order_id: string
+          max_order_value: number | null
+          max_weight_grams: number | null
+          method_id: string
+          min_order_value: number
+          min_weight_grams: number
           price: number
-          quantity: number
         }
         Insert: {
-          book_id: string
+          country_code?: string | null
           created_at?: string
           id?: string
-          order_id: string
+          max_order_value?: number | null
+          max_weight_grams?: number | null
+          method_id: string
+          min_order_value?: number
+          min_weight_grams?: number
           price: number
-          quantity: number
         }
         Update: {
-          book_id?: string
+          country_code?: string | null
           created_at?: string
           id?: string
-          order_id?: string
+          max_order_value?: number | null
+          max_weight_grams?: number | null
+          method_id?: string
+          min_order_value?: number
+          min_weight_grams?: number
           price?: number
-          quantity?: number
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_book_id_fkey"
-            columns: ["book_id"]
-            isOneToOne: false
-            referencedRelation: "books"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "shipping_rates_method_id_fkey"
+            columns: ["method_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "shipping_methods"
             referencedColumns: ["id"]
           },
         ]
       }
-      orders: {
+      store_settings: {
+        Row: {
+          id: boolean
+          seller_address: string
+          seller_email: string
+          seller_name: string
+          seller_tax_id: string | null
+          tax_display: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          seller_address?: string
+          seller_email?: string
+          seller_name?: string
+          seller_tax_id?: string | null
+          tax_display?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          seller_address?: string
+          seller_email?: string
+          seller_name?: string
+          seller_tax_id?: string | null
+          tax_display?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_notifications: {
         Row: {
+          book_id: string
           created_at: string
           id: string
-          shipping_address: string
-          status: Database["public"]["Enums"]["order_status"]
-          total_amount: number
-          updated_at: string
           user_id: string
         }
         Insert: {
+          book_id: string
           created_at?: string
           id?: string
-          shipping_address: string
-          status?: Database["public"]["Enums"]["order_status"]
-          total_amount: number
-          updated_at?: string
           user_id: string
         }
         Update: {
+          book_id?: string
           created_at?: string
           id?: string
-          shipping_address?: string
-          status?: Database["public"]["Enums"]["order_status"]
-          total_amount?: number
-          updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "stock_notifications_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_classes: {
+        Row: {
+          code: string
+          name: string
+        }
+        Insert: {
+          code: string
+          name: string
+        }
+        Update: {
+          code?: string
+          name?: string
+        }
         Relationships: []
       }
-      profiles: {
+      tax_rates: {
         Row: {
-          address: string | null
+          country_code: string
           created_at: string
-          email: string
-          full_name: string | null
           id: string
-          is_blocked: boolean | null
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          updated_at: string
+          name: string
+          rate: number
+          region: string | null
+          tax_class: string
         }
         Insert: {
-          address?: string | null
+          country_code: string
           created_at?: string
-          email: string
-          full_name?: string | null
-          id: string
-          is_blocked?: boolean | null
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string
+          id?: string
+          name?: string
+          rate: number
+          region?: string | null
+          tax_class: string
         }
         Update: {
-          address?: string | null
+          country_code?: string
           created_at?: string
-          email?: string
-          full_name?: string | null
           id?: string
-          is_blocked?: boolean | null
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string
+          name?: string
+          rate?: number
+          region?: string | null
+          tax_class?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tax_rates_tax_class_fkey"
+            columns: ["tax_class"]
+            isOneToOne: false
+            referencedRelation: "tax_classes"
+            referencedColumns: ["code"]
+          },
+        ]
       }
-      reviews: {
+      wishlist_items: {
         Row: {
           book_id: string
-          comment: string | null
           created_at: string
           id: string
-          rating: number
+          in_stock_at_save: boolean
+          price_at_save: number
           user_id: string
         }
         Insert: {
           book_id: string
-          comment?: string | null
           created_at?: string
           id?: string
-          rating: number
+          in_stock_at_save?: boolean
+          price_at_save?: number
           user_id: string
         }
         Update: {
           book_id?: string
-          comment?: string | null
           created_at?: string
           id?: string
-          rating?: number
+          in_stock_at_save?: boolean
+          price_at_save?: number
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "reviews_book_id_fkey"
+            foreignKeyName: "wishlist_items_book_id_fkey"
             columns: ["book_id"]
             isOneToOne: false
             referencedRelation: "books"
@@ -272,19 +1286,417 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acknowledge_wishlist_item: {
+        Args: { p_item_id: string }
+        Returns: undefined
+      }
+      apply_order_cancellation: {
+        Args: { p_order_id: string; p_note?: string }
+        Returns: undefined
+      }
+      begin_cancellation: {
+        Args: { p_order_id: string; p_note?: string }
+        Returns: {
+          refund_id: string
+          payment_id: string
+          provider: string
+          provider_reference: string
+          amount: number
+        }[]
+      }
+      begin_return_refund: {
+        Args: { p_request_id: string; p_amount?: number; p_note?: string }
+        Returns: {
+          refund_id: string
+          payment_id: string
+          provider: string
+          provider_reference: string
+          amount: number
+        }[]
+      }
+      bootstrap_admin: {
+        Args: { p_email: string }
+        Returns: string
+      }
+      build_book_search_vector: {
+        Args: {
+          p_title: string
+          p_author: string
+          p_isbn: string
+          p_category_name: string
+          p_description: string
+        }
+        Returns: unknown
+      }
+      cancel_order: {
+        Args: { p_order_id: string }
+        Returns: undefined
+      }
+      cart_tax_lines: {
+        Args: {
+          p_user_id: string
+          p_country: string
+          p_region: string
+          p_discount: number
+        }
+        Returns: {
+          book_id: string
+          quantity: number
+          price: number
+          tax_name: string
+          tax_rate: number
+          tax_amount: number
+        }[]
+      }
+      claim_email_outbox: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          order_id: string | null
+          payload: Json
+          sent_at: string | null
+          status: string
+          template: string
+          template_version: number | null
+          to_email: string
+        }[]
+      }
+      complete_refund: {
+        Args: { p_refund_id: string; p_provider_reference?: string }
+        Returns: undefined
+      }
+      evaluate_promotion: {
+        Args: { p_code: string; p_user_id: string }
+        Returns: {
+          promotion_id: string
+          code: string
+          description: string
+          discount_amount: number
+          free_shipping: boolean
+        }
+      }
+      expire_unpaid_orders: {
+        Args: { p_older_than?: unknown }
+        Returns: number
+      }
+      fail_refund: {
+        Args: { p_refund_id: string; p_reason: string }
+        Returns: undefined
+      }
+      format_address: {
+        Args: { p_address: Json }
+        Returns: string
+      }
+      get_current_user_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_low_stock_books: {
+        Args: { p_days?: number }
+        Returns: {
+          book_id: string
+          title: string
+          author: string
+          stock_quantity: number
+          reorder_threshold: number
+          units_sold: number
+          days_of_cover: number
+        }[]
+      }
+      get_packing_slip: {
+        Args: { p_order_id: string }
+        Returns: Json
+      }
+      get_reviewer_names: {
+        Args: { p_user_ids: string[] }
+        Returns: {
+          id: string
+          full_name: string | null
+        }[]
+      }
+      get_sales_analytics: {
+        Args: {
+          p_from: string
+          p_to: string
+          p_bucket?: string
+          p_timezone?: string
+        }
+        Returns: Json
+      }
+      has_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
+      import_books: {
+        Args: { p_rows: Json }
+        Returns: Json
+      }
+      issue_invoice: {
+        Args: { p_order_id: string }
+        Returns: Json
+      }
+      is_current_user_blocked: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_valid_order_status_transition: {
+        Args: {
+          p_from: Database["public"]["Enums"]["order_status"]
+          p_to: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      match_books: {
+        Args: { p_query: string }
+        Returns: {
+          book_id: string
+          category_name: string
+          rank: number
+          ts_query: unknown
+        }[]
+      }
+      merge_guest_cart: {
+        Args: { p_items: Json }
+        Returns: undefined
+      }
+      normalize_isbn: {
+        Args: { p_isbn: string }
+        Returns: string
+      }
+      order_document_lines: {
+        Args: { p_order_id: string }
+        Returns: Json
+      }
+      order_fully_refunded: {
+        Args: { p_order_id: string }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          p_shipping_method_id: string
+          p_shipping_address_id?: string
+          p_billing_address_id?: string
+          p_promo_code?: string
+        }
+        Returns: string
+      }
+      quote_shipping: {
+        Args: { p_country: string }
+        Returns: {
+          method_id: string
+          code: string
+          name: string
+          description: string
+          carrier_name: string
+          requires_address: boolean
+          min_days: number
+          max_days: number
+          price: number
+        }[]
+      }
+      quote_tax: {
+        Args: { p_country: string; p_region?: string; p_promo_code?: string }
+        Returns: {
+          name: string
+          rate: number
+          amount: number
+        }[]
+      }
+      queue_order_email: {
+        Args: { p_order_id: string; p_template: string; p_extra?: Json }
+        Returns: undefined
+      }
+      record_inventory_movement: {
+        Args: {
+          p_book_id: string
+          p_type: Database["public"]["Enums"]["inventory_movement_type"]
+          p_quantity: number
+          p_note?: string
+          p_order_id?: string
+        }
+        Returns: string
+      }
+      record_payment_refund: {
+        Args: { p_payment_id: string; p_amount: number }
+        Returns: undefined
+      }
+      record_payment_update: {
+        Args: {
+          p_payment_id: string
+          p_status: string
+          p_provider_reference?: string
+          p_failure_reason?: string
+          p_card_brand?: string
+          p_card_last4?: string
+        }
+        Returns: {
+          payment_status: string
+          order_status: Database["public"]["Enums"]["order_status"]
+        }[]
+      }
+      refresh_book_review_stats: {
+        Args: { p_book_id: string }
+        Returns: undefined
+      }
+      refund_is_stale: {
+        Args: { p_refund: Database["public"]["Tables"]["refunds"]["Row"] }
+        Returns: boolean
+      }
+      request_return: {
+        Args: { p_order_id: string; p_items: Json; p_reason: string }
+        Returns: string
+      }
+      resolve_return: {
+        Args: {
+          p_request_id: string
+          p_action: string
+          p_refund_amount?: number
+          p_note?: string
+        }
+        Returns: undefined
+      }
+      reverse_order_sales: {
+        Args: { p_order_id: string }
+        Returns: undefined
+      }
+      search_book_facets: {
+        Args: {
+          p_query?: string
+          p_category?: string
+          p_min_price?: number
+          p_max_price?: number
+          p_min_rating?: number
+          p_in_stock?: boolean
+          p_on_sale?: boolean
+        }
+        Returns: Json
+      }
+      search_books: {
+        Args: {
+          p_query?: string
+          p_category?: string
+          p_sort?: string
+          p_limit?: number
+          p_offset?: number
+          p_min_price?: number
+          p_max_price?: number
+          p_min_rating?: number
+          p_in_stock?: boolean
+          p_on_sale?: boolean
+        }
+        Returns: {
+          id: string
+          title: string
+          author: string
+          price: number
+          original_price: number
+          image_url: string
+          stock_quantity: number
+          rating: number
+          review_count: number
+          category_name: string
+          rank: number
+          title_highlight: string
+          snippet: string
+          total_count: number
+        }[]
+      }
+      search_suggestions: {
+        Args: { p_query: string; p_limit?: number }
+        Returns: {
+          kind: string
+          id: string
+          label: string
+          detail: string
+          image_url: string
+          book_count: number
+        }[]
+      }
+      set_user_block: {
+        Args: {
+          p_user_id: string
+          p_blocked: boolean
+          p_reason?: string
+          p_until?: string
+        }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: {
+          p_user_id: string
+          p_role: Database["public"]["Enums"]["user_role"]
+        }
+        Returns: undefined
+      }
+      shipping_rate_for: {
+        Args: {
+          p_method_id: string
+          p_country: string
+          p_weight_grams: number
+          p_order_value: number
+        }
+        Returns: number
+      }
+      start_payment: {
+        Args: { p_order_id: string; p_provider: string }
+        Returns: {
+          payment_id: string
+          amount: number
+          currency: string
+        }[]
+      }
+      update_order_status: {
+        Args: {
+          p_order_id: string
+          p_status: Database["public"]["Enums"]["order_status"]
+          p_note?: string
+          p_tracking_carrier?: string
+          p_tracking_number?: string
+        }
+        Returns: undefined
+      }
+      validate_promotion: {
+        Args: { p_code: string }
+        Returns: {
+          promotion_id: string
+          code: string
+          description: string
+          discount_amount: number
+          free_shipping: boolean
+        }[]
+      }
     }
     Enums: {
+      inventory_movement_type:
+        | "receipt"
+        | "sale"
+        | "return"
+        | "adjustment"
+        | "damage"
       order_status:
         | "pending"
         | "confirmed"
         | "shipped"
         | "delivered"
         | "cancelled"
-      user_role: "customer" | "admin"
+        | "return_requested"
+        | "refunded"
+      promotion_type:
+        | "percentage"
+        | "fixed_amount"
+        | "buy_x_get_y"
+        | "free_shipping"
+      return_status: "requested" | "approved" | "rejected" | "refunded"
+      user_role: "customer" | "admin" | "catalog_editor" | "fulfilment" | "support"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -400,14 +1812,30 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      inventory_movement_type: [
+        "receipt",
+        "sale",
+        "return",
+        "adjustment",
+        "damage",
+      ],
       order_status: [
         "pending",
         "confirmed",
         "shipped",
         "delivered",
         "cancelled",
+        "return_requested",
+        "refunded",
+      ],
+      promotion_type: [
+        "percentage",
+        "fixed_amount",
+        "buy_x_get_y",
+        "free_shipping",
       ],
-      user_role: ["customer", "admin"],
+      return_status: ["requested", "approved", "rejected", "refunded"],
+      user_role: ["customer", "admin", "catalog_editor", "fulfilment", "support"],
     },
   },
 } as const
@@ -0,0 +1,296 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { SHIPPING_COUNTRIES } from "@/lib/shipping";
+
+export type Address = Database["public"]["Tables"]["addresses"]["Row"];
+
+export interface AddressInput {
+  full_name: string;
+  line1: string;
+  line2: string;
+  city: string;
+  region: string;
+  postal_code: string;
+  country_code: string;
+  phone: string;
+  is_default_shipping: boolean;
+  is_default_billing: boolean;
+}
+
+// The copy of an address stored on an order (orders.*_address_snapshot)
+export type AddressSnapshot = Pick<
+  Address,
+  "full_name" | "line1" | "line2" | "city" | "region" | "postal_code" | "country_code" | "phone"
+>;
+
+export type AddressErrors = Partial<Record<keyof AddressInput, string>>;
+
+interface AddressFormat {
+  regionLabel: string;
+  regionRequired: boolean;
+  postalCodeLabel: string;
+  postalCodeRequired: boolean;
+  postalCodePattern?: RegExp;
+  postalCodeExample?: string;
+}
+
+const DEFAULT_FORMAT: AddressFormat = {
+  regionLabel: "State / Province",
+  regionRequired: false,
+  postalCodeLabel: "Postal code",
+  postalCodeRequired: false,
+};
+
+// Labels and postal code rules for the countries we ship to
+const ADDRESS_FORMATS: Record<string, AddressFormat> = {
+  US: { regionLabel: "State", regionRequired: true, postalCodeLabel: "ZIP code", postalCodeRequired: true, postalCodePattern: /^\d{5}(-\d{4})?$/, postalCodeExample: "94103" },
+  CA: { regionLabel: "Province", regionRequired: true, postalCodeLabel: "Postal code", postalCodeRequired: true, postalCodePattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, postalCodeExample: "K1A 0B1" },
+  MX: { regionLabel: "State", regionRequired: true, postalCodeLabel: "Postal code", postalCodeRequired: true, postalCodePattern: /^\d{5}$/, postalCodeExample: "06700" },
+  GB: { regionLabel: "County", regionRequired: false, postalCodeLabel: "Postcode", postalCodeRequired: true, postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, postalCodeExample: "SW1A 1AA" },
+  IE: { regionLabel: "County", regionRequired: true, postalCodeLabel: "Eircode", postalCodeRequired: false, postalCodePattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i, postalCodeExample: "D02 X285" },
+  FR: { regionLabel: "Region", regionRequired: false, postalCodeLabel: "Postal code", postalCodeRequired: true, postalCodePattern: /^\d{5}$/, postalCodeExample: "75008" },
+  DE: { regionLabel: "State", regionRequired: false, postalCodeLabel: "Postal code", postalCodeRequired: true, postalCodePattern: /^\d{5}$/, postalCodeExample: "10115" },
+  ES: { regionLabel: "Province", regionRequired: false, postalCodeLabel: "Postal code", postalCodeRequired: true, postalCodePattern: /^\d{5}$/, postalCodeExample: "28013" },
+  IT: { regionLabel: "Province", regionRequired: false, postalCodeLabel: "Postal code", postalCodeRequired: true, postalCodePattern: /^\d{5}$/, postalCodeExample: "00184" },
+  NL: { regionLabel: "Province", regionRequired: false, postalCodeLabel: "Postal code", postalCodeRequired: true, postalCodePattern: /^\d{4} ?[A-Z]{2}$/i, postalCodeExample: "1012 JS" },
+  AU: { regionLabel: "State", regionRequired: true, postalCodeLabel: "Postcode", postalCodeRequired: true, postalCodePattern: /^\d{4}$/, postalCodeExample: "2000" },
+  NZ: { regionLabel: "Region", regionRequired: false, postalCodeLabel: "Postcode", postalCodeRequired: true, postalCodePattern: /^\d{4}$/, postalCodeExample: "6011" },
+  JP: { regionLabel: "Prefecture", regionRequired: true, postalCodeLabel: "Postal code", postalCodeRequired: true, postalCodePattern: /^\d{3}-?\d{4}$/, postalCodeExample: "100-0001" },
+  IN: { regionLabel: "State", regionRequired: true, postalCodeLabel: "PIN code", postalCodeRequired: true, postalCodePattern: /^\d{6}$/, postalCodeExample: "110001" },
+};
+
+export const getAddressFormat = (countryCode: string): AddressFormat =>
+  ADDRESS_FORMATS[countryCode] || DEFAULT_FORMAT;
+
+// Countries whose tax can differ by region. Their addresses pick the region
+// from this list and store its code, which is what tax_rates.region matches.
+export const ADDRESS_REGIONS: Record<string, { code: string; name: string }[]> = {
+  US: [
+    { code: "AL", name: "Alabama" },
+    { code: "AK", name: "Alaska" },
+    { code: "AZ", name: "Arizona" },
+    { code: "AR", name: "Arkansas" },
+    { code: "CA", name: "California" },
+    { code: "CO", name: "Colorado" },
+    { code: "CT", name: "Connecticut" },
+    { code: "DE", name: "Delaware" },
+    { code: "DC", name: "District of Columbia" },
+    { code: "FL", name: "Florida" },
+    { code: "GA", name: "Georgia" },
+    { code: "HI", name: "Hawaii" },
+    { code: "ID", name: "Idaho" },
+    { code: "IL", name: "Illinois" },
+    { code: "IN", name: "Indiana" },
+    { code: "IA", name: "Iowa" },
+    { code: "KS", name: "Kansas" },
+    { code: "KY", name: "Kentucky" },
+    { code: "LA", name: "Louisiana" },
+    { code: "ME", name: "Maine" },
+    { code: "MD", name: "Maryland" },
+    { code: "MA", name: "Massachusetts" },
+    { code: "MI", name: "Michigan" },
+    { code: "MN", name: "Minnesota" },
+    { code: "MS", name: "Mississippi" },
+    { code: "MO", name: "Missouri" },
+    { code: "MT", name: "Montana" },
+    { code: "NE", name: "Nebraska" },
+    { code: "NV", name: "Nevada" },
+    { code: "NH", name: "New Hampshire" },
+    { code: "NJ", name: "New Jersey" },
+    { code: "NM", name: "New Mexico" },
+    { code: "NY", name: "New York" },
+    { code: "NC", name: "North Carolina" },
+    { code: "ND", name: "North Dakota" },
+    { code: "OH", name: "Ohio" },
+    { code: "OK", name: "Oklahoma" },
+    { code: "OR", name: "Oregon" },
+    { code: "PA", name: "Pennsylvania" },
+    { code: "PR", name: "Puerto Rico" },
+    { code: "RI", name: "Rhode Island" },
+    { code: "SC", name: "South Carolina" },
+    { code: "SD", name: "South Dakota" },
+    { code: "TN", name: "Tennessee" },
+    { code: "TX", name: "Texas" },
+    { code: "UT", name: "Utah" },
+    { code: "VT", name: "Vermont" },
+    { code: "VA", name: "Virginia" },
+    { code: "WA", name: "Washington" },
+    { code: "WV", name: "West Virginia" },
+    { code: "WI", name: "Wisconsin" },
+    { code: "WY", name: "Wyoming" },
+  ],
+  CA: [
+    { code: "AB", name: "Alberta" },
+    { code: "BC", name: "British Columbia" },
+    { code: "MB", name: "Manitoba" },
+    { code: "NB", name: "New Brunswick" },
+    { code: "NL", name: "Newfoundland and Labrador" },
+    { code: "NS", name: "Nova Scotia" },
+    { code: "NT", name: "Northwest Territories" },
+    { code: "NU", name: "Nunavut" },
+    { code: "ON", name: "Ontario" },
+    { code: "PE", name: "Prince Edward Island" },
+    { code: "QC", name: "Quebec" },
+    { code: "SK", name: "Saskatchewan" },
+    { code: "YT", name: "Yukon" },
+  ],
+};
+
+// A region's code when it's in ADDRESS_REGIONS, given its code or its name;
+// otherwise the region as entered
+export const normalizeRegion = (countryCode: string, region: string) => {
+  const value = region.trim();
+  const match = ADDRESS_REGIONS[countryCode]?.find(
+    (option) => option.code === value.toUpperCase() || option.name.toLowerCase() === value.toLowerCase()
+  );
+  return match ? match.code : value;
+};
+
+export const countryName = (countryCode: string) =>
+  SHIPPING_COUNTRIES.find((country) => country.code === countryCode)?.name || countryCode;
+
+export const emptyAddressInput = (countryCode: string, fullName = ""): AddressInput => ({
+  full_name: fullName,
+  line1: "",
+  line2: "",
+  city: "",
+  region: "",
+  postal_code: "",
+  country_code: countryCode,
+  phone: "",
+  is_default_shipping: false,
+  is_default_billing: false,
+});
+
+export const toAddressInput = (address: Address): AddressInput => ({
+  full_name: address.full_name,
+  line1: address.line1,
+  line2: address.line2 || "",
+  city: address.city,
+  region: normalizeRegion(address.country_code, address.region || ""),
+  postal_code: address.postal_code || "",
+  country_code: address.country_code,
+  phone: address.phone || "",
+  is_default_shipping: address.is_default_shipping,
+  is_default_billing: address.is_default_billing,
+});
+
+export const validateAddress = (input: AddressInput): AddressErrors => {
+  const format = getAddressFormat(input.country_code);
+  const errors: AddressErrors = {};
+  const postalCode = input.postal_code.trim();
+
+  if (!input.full_name.trim()) errors.full_name = "Enter the recipient's name";
+  if (!input.line1.trim()) errors.line1 = "Enter a street address";
+  if (!input.city.trim()) errors.city = "Enter a city";
+  if (!input.country_code) errors.country_code = "Choose a country";
+  const regions = ADDRESS_REGIONS[input.country_code];
+  const region = normalizeRegion(input.country_code, input.region);
+  if (format.regionRequired && !region) {
+    errors.region = `${regions ? "Choose" : "Enter"} a ${format.regionLabel.toLowerCase()}`;
+  } else if (regions && region && !regions.some((option) => option.code === region)) {
+    errors.region = `Choose a ${format.regionLabel.toLowerCase()} from the list`;
+  }
+  if (!postalCode) {
+    if (format.postalCodeRequired) errors.postal_code = `Enter a ${format.postalCodeLabel}`;
+  } else if (format.postalCodePattern && !format.postalCodePattern.test(postalCode)) {
+    errors.postal_code = `Enter a valid ${format.postalCodeLabel}, e.g. ${format.postalCodeExample}`;
+  }
+  if (input.phone.trim() && !/^\+?[\d\s().-]{6,20}$/.test(input.phone.trim())) {
+    errors.phone = "Enter a valid phone number";
+  }
+
+  return errors;
+};
+
+// Lines as they'd be written on a parcel
+export const formatAddressLines = (address: AddressSnapshot): string[] =>
+  [
+    address.full_name,
+    address.line1,
+    address.line2,
+    address.city,
+    [address.region, address.postal_code].filter(Boolean).join(" "),
+    countryName(address.country_code),
+  ].filter((line): line is string => !!line);
+
+export const formatAddressSummary = (address: AddressSnapshot) =>
+  [address.full_name, address.line1, address.city, address.country_code].filter(Boolean).join(", ");
+
+const toRow = (input: AddressInput) => ({
+  full_name: input.full_name.trim(),
+  line1: input.line1.trim(),
+  line2: input.line2.trim() || null,
+  city: input.city.trim(),
+  region: normalizeRegion(input.country_code, input.region) || null,
+  postal_code: input.postal_code.trim().toUpperCase() || null,
+  country_code: input.country_code,
+  phone: input.phone.trim() || null,
+  is_default_shipping: input.is_default_shipping,
+  is_default_billing: input.is_default_billing,
+});
+
+export const fetchAddresses = async (userId: string): Promise<Address[]> => {
+  const { data, error } = await supabase
+    .from("addresses")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching addresses:", error);
+  }
+  return data || [];
+};
+
+// Inserts when addressId is null, otherwise updates
+export const saveAddress = async (
+  userId: string,
+  input: AddressInput,
+  addressId: string | null
+): Promise<{ data: Address | null; error: string | null }> => {
+  const { data, error } = addressId
+    ? await supabase
+        .from("addresses")
+        .update({ ...toRow(input), updated_at: new Date().toISOString() })
+        .eq("id", addressId)
+        .select()
+        .single()
+    : await supabase
+        .from("addresses")
+        .insert([{ ...toRow(input), user_id: userId }])
+        .select()
+        .single();
+
+  if (error) {
+    console.error("Error saving address:", error);
+    return { data: null, error: "Failed to save address" };
+  }
+  return { data, error: null };
+};
+
+export const deleteAddress = async (addressId: string): Promise<{ error: string | null }> => {
+  const { error } = await supabase.from("addresses").delete().eq("id", addressId);
+
+  if (error) {
+    console.error("Error deleting address:", error);
+    return { error: "Failed to delete address" };
+  }
+  return { error: null };
+};
+
+export const setDefaultAddress = async (
+  addressId: string,
+  kind: "shipping" | "billing"
+): Promise<{ error: string | null }> => {
+  const { error } = await supabase
+    .from("addresses")
+    .update(kind === "shipping" ? { is_default_shipping: true } : { is_default_billing: true })
+    .eq("id", addressId);
+
+  if (error) {
+    console.error("Error updating default address:", error);
+    return { error: "Failed to update default address" };
+  }
+  return { error: null };
+};
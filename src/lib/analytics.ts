@@ -0,0 +1,83 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { OrderStatus } from "@/lib/orders";
+
+export type AnalyticsBucket = "day" | "week" | "month";
+
+export interface SalesTotals {
+  units: number;
+  revenue: number;
+}
+
+export interface BookSales extends SalesTotals {
+  book_id: string;
+  title: string | null;
+}
+
+export interface CategorySales extends SalesTotals {
+  category_name: string;
+}
+
+export interface RegionTax {
+  country_code: string | null;
+  // Null when the rate covered the whole country
+  region: string | null;
+  orders: number;
+  // After discounts, before shipping and tax
+  sales: number;
+  tax: number;
+}
+
+export interface SalesAnalytics {
+  summary: {
+    orders: number;
+    gross_revenue: number;
+    refunded: number;
+    net_revenue: number;
+    average_order_value: number;
+    units_sold: number;
+    // Tax charged, before refunds
+    tax: number;
+  };
+  // One entry per day, week or month in the range, starting on its first day
+  revenue: { period: string; revenue: number; orders: number }[];
+  orders_by_status: { status: OrderStatus; count: number }[];
+  // Top ten ranked by units sold and by revenue
+  top_books: Record<keyof SalesTotals, BookSales[]>;
+  top_categories: Record<keyof SalesTotals, CategorySales[]>;
+  customers: { new: number; returning: number };
+  tax_by_region: RegionTax[];
+}
+
+// get_sales_analytics raises P0001 exceptions whose message is one of these codes.
+export const describeAnalyticsError = (error: Pick<PostgrestError, "message" | "details">): string => {
+  switch (error.message) {
+    case "NOT_AUTHORIZED":
+      return "You don't have permission to view sales reports";
+    case "INVALID_BUCKET":
+      return `Sales can't be grouped by ${error.details || "that period"}`;
+    case "INVALID_DATE_RANGE":
+      return "Choose a start date on or before the end date";
+    default:
+      return "Failed to load sales analytics";
+  }
+};
+
+export const fetchSalesAnalytics = async (
+  from: string,
+  to: string,
+  bucket: AnalyticsBucket
+): Promise<{ data: SalesAnalytics | null; error: string | null }> => {
+  const { data, error } = await supabase.rpc("get_sales_analytics", {
+    p_from: from,
+    p_to: to,
+    p_bucket: bucket,
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+
+  if (error) {
+    console.error("Error fetching sales analytics:", error);
+    return { data: null, error: describeAnalyticsError(error) };
+  }
+  return { data: data as unknown as SalesAnalytics, error: null };
+};
@@ -0,0 +1,234 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface CartItem {
+  // cart_items.id for signed-in users, the book id for guest carts
+  id: string;
+  quantity: number;
+  books: {
+    id: string;
+    title: string;
+    author: string;
+    price: number;
+    image_url: string | null;
+    stock_quantity: number;
+  };
+}
+
+type GuestCartItem = {
+  book_id: string;
+  quantity: number;
+};
+
+const GUEST_CART_KEY = "guest_cart";
+
+const CART_BOOK_COLUMNS = "id, title, author, price, image_url, stock_quantity";
+
+// Storefront shows "Only N left" at or below this many copies
+export const LOW_STOCK_THRESHOLD = 5;
+
+export const notifyCartUpdated = () => {
+  window.dispatchEvent(new Event("cartUpdated"));
+};
+
+export const getGuestCart = (): GuestCartItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_CART_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveGuestCart = (items: GuestCartItem[]) => {
+  if (items.length === 0) {
+    localStorage.removeItem(GUEST_CART_KEY);
+  } else {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(items));
+  }
+  notifyCartUpdated();
+};
+
+export const fetchCart = async (
+  userId: string | null
+): Promise<{ data: CartItem[]; error: PostgrestError | null }> => {
+  if (userId) {
+    const { data, error } = await supabase
+      .from("cart_items")
+      .select(`id, quantity, books (${CART_BOOK_COLUMNS})`)
+      .eq("user_id", userId);
+
+    return { data: data || [], error };
+  }
+
+  const guestItems = getGuestCart();
+  if (guestItems.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data: books, error } = await supabase
+    .from("books")
+    .select(CART_BOOK_COLUMNS)
+    .in("id", guestItems.map((item) => item.book_id));
+
+  if (error) {
+    return { data: [], error };
+  }
+
+  const booksById = new Map(books.map((book) => [book.id, book]));
+  return {
+    data: guestItems
+      .filter((item) => booksById.has(item.book_id))
+      .map((item) => ({
+        id: item.book_id,
+        quantity: item.quantity,
+        books: booksById.get(item.book_id)!,
+      })),
+    error: null,
+  };
+};
+
+export const getCartCount = async (userId: string | null): Promise<number> => {
+  if (!userId) {
+    return getGuestCart().reduce((sum, item) => sum + item.quantity, 0);
+  }
+
+  const { data, error } = await supabase
+    .from("cart_items")
+    .select("quantity")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching cart items count:", error);
+    return 0;
+  }
+  return data.reduce((sum, item) => sum + item.quantity, 0);
+};
+
+// Cart quantities are capped at the book's current stock. stockLimit is set when
+// fewer copies than requested were added (possibly none).
+export const addToCart = async (
+  userId: string | null,
+  bookId: string,
+  quantity = 1
+): Promise<{ error: PostgrestError | null; stockLimit: number | null }> => {
+  const { data: book, error: bookError } = await supabase
+    .from("books")
+    .select("stock_quantity")
+    .eq("id", bookId)
+    .single();
+
+  if (bookError) {
+    return { error: bookError, stockLimit: null };
+  }
+
+  if (!userId) {
+    const items = getGuestCart();
+    const existing = items.find((item) => item.book_id === bookId);
+    const current = existing?.quantity ?? 0;
+    const next = Math.min(current + quantity, book.stock_quantity);
+    const stockLimit = next < current + quantity ? book.stock_quantity : null;
+
+    if (next > current) {
+      saveGuestCart(
+        existing
+          ? items.map((item) => (item.book_id === bookId ? { ...item, quantity: next } : item))
+          : [...items, { book_id: bookId, quantity: next }]
+      );
+    }
+    return { error: null, stockLimit };
+  }
+
+  const { data: existing } = await supabase
+    .from("cart_items")
+    .select("id, quantity")
+    .eq("user_id", userId)
+    .eq("book_id", bookId)
+    .maybeSingle();
+
+  const current = existing?.quantity ?? 0;
+  const next = Math.min(current + quantity, book.stock_quantity);
+  const stockLimit = next < current + quantity ? book.stock_quantity : null;
+
+  if (next <= current) {
+    return { error: null, stockLimit };
+  }
+
+  const { error } = existing
+    ? await supabase
+        .from("cart_items")
+        .update({ quantity: next })
+        .eq("id", existing.id)
+    : await supabase
+        .from("cart_items")
+        .insert({ user_id: userId, book_id: bookId, quantity: next });
+
+  if (!error) {
+    notifyCartUpdated();
+  }
+  return { error, stockLimit };
+};
+
+// Items whose book has sold out, or dropped below the quantity in the cart,
+// since they were added.
+export const getUnavailableItems = (items: CartItem[]): CartItem[] =>
+  items.filter((item) => item.quantity > item.books.stock_quantity);
+
+export const updateCartItemQuantity = async (
+  userId: string | null,
+  itemId: string,
+  quantity: number
+): Promise<{ error: PostgrestError | null }> => {
+  if (!userId) {
+    saveGuestCart(
+      getGuestCart().map((item) => (item.book_id === itemId ? { ...item, quantity } : item))
+    );
+    return { error: null };
+  }
+
+  const { error } = await supabase
+    .from("cart_items")
+    .update({ quantity })
+    .eq("id", itemId);
+
+  if (!error) {
+    notifyCartUpdated();
+  }
+  return { error };
+};
+
+export const removeCartItem = async (
+  userId: string | null,
+  itemId: string
+): Promise<{ error: PostgrestError | null }> => {
+  if (!userId) {
+    saveGuestCart(getGuestCart().filter((item) => item.book_id !== itemId));
+    return { error: null };
+  }
+
+  const { error } = await supabase
+    .from("cart_items")
+    .delete()
+    .eq("id", itemId);
+
+  if (!error) {
+    notifyCartUpdated();
+  }
+  return { error };
+};
+
+// Moves the guest cart into cart_items after sign-in, summing quantities for
+// books that were already in the account's cart.
+export const mergeGuestCart = async (): Promise<{ error: PostgrestError | null }> => {
+  const items = getGuestCart();
+  if (items.length === 0) {
+    return { error: null };
+  }
+
+  const { error } = await supabase.rpc("merge_guest_cart", { p_items: items });
+
+  if (!error) {
+    saveGuestCart([]);
+  }
+  return { error };
+};
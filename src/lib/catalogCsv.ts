@@ -0,0 +1,346 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type CatalogFormat = "csv" | "json";
+
+// Column order for exports; imports accept them in any order
+export const CATALOG_COLUMNS = [
+  "isbn",
+  "title",
+  "author",
+  "price",
+  "original_price",
+  "stock_quantity",
+  "category",
+  "is_featured",
+  "image_url",
+  "description",
+] as const;
+
+type CatalogColumn = (typeof CATALOG_COLUMNS)[number];
+
+// Columns a file can leave out. Existing books keep their value for them; new
+// books get the default.
+const OPTIONAL_COLUMNS: CatalogColumn[] = [
+  "original_price",
+  "stock_quantity",
+  "category",
+  "is_featured",
+  "image_url",
+  "description",
+];
+
+// Other headers spreadsheets tend to use for the same fields
+const COLUMN_ALIASES: Record<string, CatalogColumn> = {
+  category_name: "category",
+  stock: "stock_quantity",
+  featured: "is_featured",
+  image: "image_url",
+};
+
+export interface CatalogBook {
+  id: string;
+  isbn: string | null;
+  title: string;
+  author: string;
+  price: number;
+  original_price: number | null;
+  stock_quantity: number;
+  is_featured: boolean | null;
+  image_url: string | null;
+  description: string | null;
+  category_id: string | null;
+  categories: { name: string } | null;
+}
+
+// Optional fields are missing when their column is
+export interface ImportRowValues {
+  isbn: string;
+  title: string;
+  author: string;
+  price: number;
+  original_price?: number | null;
+  stock_quantity?: number;
+  category_id?: string | null;
+  is_featured?: boolean;
+  image_url?: string | null;
+  description?: string | null;
+}
+
+export interface ImportPreviewRow {
+  // 1-based position among the data rows
+  row: number;
+  isbn: string;
+  title: string;
+  action: "create" | "update" | "unchanged" | "invalid";
+  errors: string[];
+  values: ImportRowValues | null;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+type CatalogRecord = Partial<Record<CatalogColumn, unknown>>;
+
+// Mirrors normalize_isbn() in the database
+export const normalizeIsbn = (value: string | null | undefined) =>
+  (value || "").toUpperCase().replace(/[^0-9X]/g, "");
+
+const asText = (value: unknown) => (value === null || value === undefined ? "" : String(value).trim());
+
+const normalizeHeader = (header: string) => {
+  const key = header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return COLUMN_ALIASES[key] || key;
+};
+
+// RFC 4180: fields may be quoted, quotes inside are doubled, and quoted fields
+// can span lines.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+const escapeCsvValue = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toRecord = (book: CatalogBook): Record<CatalogColumn, string | number | boolean | null> => ({
+  isbn: book.isbn,
+  title: book.title,
+  author: book.author,
+  price: book.price,
+  original_price: book.original_price,
+  stock_quantity: book.stock_quantity,
+  category: book.categories?.name ?? null,
+  is_featured: book.is_featured ?? false,
+  image_url: book.image_url,
+  description: book.description,
+});
+
+export const serializeCatalog = (books: CatalogBook[], format: CatalogFormat): string => {
+  const records = books.map(toRecord);
+
+  if (format === "json") {
+    return JSON.stringify(records, null, 2);
+  }
+
+  const lines = [
+    CATALOG_COLUMNS.join(","),
+    ...records.map((record) =>
+      CATALOG_COLUMNS.map((column) => escapeCsvValue(asText(record[column]))).join(",")
+    ),
+  ];
+  return lines.join("\r\n");
+};
+
+// Reads an uploaded .csv or .json file into records keyed by catalog column.
+export const readCatalogFile = (
+  fileName: string,
+  text: string
+): { records: CatalogRecord[]; error: string | null } => {
+  if (fileName.toLowerCase().endsWith(".json")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { records: [], error: "That file isn't valid JSON" };
+    }
+    if (!Array.isArray(parsed) || parsed.some((item) => typeof item !== "object" || item === null)) {
+      return { records: [], error: "The JSON file must contain an array of books" };
+    }
+    const records = parsed.map((item: Record<string, unknown>) =>
+      Object.fromEntries(Object.entries(item).map(([key, value]) => [normalizeHeader(key), value]))
+    );
+    return { records, error: null };
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return { records: [], error: "The file is empty" };
+  }
+
+  const columns = header.map(normalizeHeader);
+  const records = rows.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""]))
+  );
+  return { records, error: null };
+};
+
+const parseAmount = (value: unknown): number | null => {
+  const text = asText(value).replace(/[$,]/g, "");
+  if (text === "") return null;
+  const amount = Number(text);
+  return Number.isFinite(amount) ? amount : NaN;
+};
+
+const parseFlag = (value: unknown): boolean | null => {
+  if (typeof value === "boolean") return value;
+  const text = asText(value).toLowerCase();
+  if (["", "false", "no", "n", "0"].includes(text)) return false;
+  if (["true", "yes", "y", "1"].includes(text)) return true;
+  return null;
+};
+
+// Fields the row leaves out count as unchanged
+const isUnchanged = (book: CatalogBook, values: ImportRowValues) => {
+  const matches = <T>(current: T, value: T | undefined) => value === undefined || current === value;
+
+  return (
+    normalizeIsbn(book.isbn) === values.isbn &&
+    book.title === values.title &&
+    book.author === values.author &&
+    Number(book.price) === values.price &&
+    matches(book.original_price === null ? null : Number(book.original_price), values.original_price) &&
+    matches(book.stock_quantity, values.stock_quantity) &&
+    matches(book.category_id || null, values.category_id) &&
+    matches(book.is_featured ?? false, values.is_featured) &&
+    matches(book.image_url || null, values.image_url) &&
+    matches(book.description || null, values.description)
+  );
+};
+
+// Validates each record and works out whether importing it would create,
+// update or leave alone a book, without writing anything.
+export const buildImportPreview = (
+  records: CatalogRecord[],
+  books: CatalogBook[],
+  categories: { id: string; name: string }[]
+): ImportPreviewRow[] => {
+  const booksByIsbn = new Map(
+    books.filter((book) => book.isbn).map((book) => [normalizeIsbn(book.isbn), book])
+  );
+  const categoriesByName = new Map(categories.map((category) => [category.name.trim().toLowerCase(), category.id]));
+  const seenIsbns = new Map<string, number>();
+
+  return records.map((record, index) => {
+    const row = index + 1;
+    const errors: string[] = [];
+    const isbn = normalizeIsbn(asText(record.isbn));
+    const title = asText(record.title);
+    const author = asText(record.author);
+    const price = parseAmount(record.price);
+    const originalPrice = parseAmount(record.original_price);
+    const stockText = asText(record.stock_quantity);
+    const stock = stockText === "" ? 0 : Number(stockText);
+    const categoryName = asText(record.category);
+    const categoryId = categoryName ? categoriesByName.get(categoryName.toLowerCase()) : null;
+    const featured = parseFlag(record.is_featured);
+    const has = (column: CatalogColumn) => !OPTIONAL_COLUMNS.includes(column) || column in record;
+
+    if (!isbn) {
+      errors.push("ISBN is required");
+    } else if (!/^(\d{9}[\dX]|\d{13})$/.test(isbn)) {
+      errors.push("ISBN must have 10 or 13 digits");
+    } else if (seenIsbns.has(isbn)) {
+      errors.push(`Same ISBN as row ${seenIsbns.get(isbn)}`);
+    } else {
+      seenIsbns.set(isbn, row);
+    }
+    if (!title) errors.push("Title is required");
+    if (!author) errors.push("Author is required");
+    if (price === null) {
+      errors.push("Price is required");
+    } else if (Number.isNaN(price) || price <= 0) {
+      errors.push("Price must be a number above 0");
+    }
+    if (originalPrice !== null && (Number.isNaN(originalPrice) || originalPrice < (price || 0))) {
+      errors.push("Original price must be a number no lower than the price");
+    }
+    if (!Number.isInteger(stock) || stock < 0) {
+      errors.push("Stock must be a whole number of 0 or more");
+    }
+    if (categoryId === undefined) {
+      errors.push(`Unknown category "${categoryName}"`);
+    }
+    if (featured === null) {
+      errors.push("Featured must be true or false");
+    }
+
+    if (errors.length > 0) {
+      return { row, isbn, title, action: "invalid", errors, values: null };
+    }
+
+    const values: ImportRowValues = {
+      isbn,
+      title,
+      author,
+      price: price as number,
+      ...(has("original_price") && { original_price: originalPrice }),
+      ...(has("stock_quantity") && { stock_quantity: stock }),
+      ...(has("category") && { category_id: categoryId ?? null }),
+      ...(has("is_featured") && { is_featured: featured as boolean }),
+      ...(has("image_url") && { image_url: asText(record.image_url) || null }),
+      ...(has("description") && { description: asText(record.description) || null }),
+    };
+    const existing = booksByIsbn.get(isbn);
+    const action = !existing ? "create" : isUnchanged(existing, values) ? "unchanged" : "update";
+
+    return { row, isbn, title, action, errors, values };
+  });
+};
+
+// import_books raises P0001 exceptions whose message is one of these codes.
+export const describeImportError = (error: Pick<PostgrestError, "message" | "details">): string => {
+  switch (error.message) {
+    case "NOT_AUTHORIZED":
+      return "You don't have permission to edit the catalog";
+    case "NO_IMPORT_ROWS":
+      return "There are no valid rows to import";
+    case "INVALID_IMPORT_ROW":
+      return `Row ${error.details || "?"} of the import is missing an ISBN, title, author or price`;
+    default:
+      return "Import failed. No books were changed.";
+  }
+};
+
+export const importBooks = async (
+  rows: ImportRowValues[]
+): Promise<{ result: ImportResult | null; error: string | null }> => {
+  const { data, error } = await supabase.rpc("import_books", { p_rows: rows as unknown as Json });
+
+  if (error) {
+    console.error("Error importing books:", error);
+    return { result: null, error: describeImportError(error) };
+  }
+  return { result: data as unknown as ImportResult, error: null };
+};
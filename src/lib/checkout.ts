@@ -0,0 +1,99 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { describePromotionError, isPromotionError } from "@/lib/promotions";
+
+export interface StockShortage {
+  book_id: string;
+  title: string;
+  requested: number;
+  available: number;
+}
+
+export type CheckoutError =
+  | { code: "NOT_AUTHENTICATED" }
+  | { code: "MISSING_SHIPPING_ADDRESS" }
+  | { code: "MISSING_BILLING_ADDRESS" }
+  | { code: "ADDRESS_NOT_FOUND" }
+  | { code: "SHIPPING_METHOD_UNAVAILABLE" }
+  | { code: "EMPTY_CART" }
+  | { code: "ACCOUNT_BLOCKED" }
+  | { code: "OUT_OF_STOCK"; shortages: StockShortage[] }
+  | { code: "PROMOTION_INVALID"; message: string }
+  | { code: "UNKNOWN"; message: string };
+
+// place_order raises its failures as P0001 exceptions whose message is the
+// error code; anything else is passed through as UNKNOWN.
+const toCheckoutError = (error: PostgrestError): CheckoutError => {
+  switch (error.message) {
+    case "NOT_AUTHENTICATED":
+    case "MISSING_SHIPPING_ADDRESS":
+    case "MISSING_BILLING_ADDRESS":
+    case "ADDRESS_NOT_FOUND":
+    case "SHIPPING_METHOD_UNAVAILABLE":
+    case "EMPTY_CART":
+    case "ACCOUNT_BLOCKED":
+      return { code: error.message };
+    case "OUT_OF_STOCK": {
+      let shortages: StockShortage[] = [];
+      try {
+        shortages = JSON.parse(error.details || "[]");
+      } catch {
+        // Fall through with an empty list; the code alone is still useful
+      }
+      return { code: "OUT_OF_STOCK", shortages };
+    }
+    default:
+      if (isPromotionError(error.message)) {
+        return { code: "PROMOTION_INVALID", message: describePromotionError(error) };
+      }
+      return { code: "UNKNOWN", message: error.message };
+  }
+};
+
+export const describeCheckoutError = (error: CheckoutError): string => {
+  switch (error.code) {
+    case "NOT_AUTHENTICATED":
+      return "Please log in to place an order";
+    case "MISSING_SHIPPING_ADDRESS":
+      return "Please choose a shipping address";
+    case "MISSING_BILLING_ADDRESS":
+      return "Please choose a billing address";
+    case "ADDRESS_NOT_FOUND":
+      return "That address is no longer in your address book. Please choose another.";
+    case "SHIPPING_METHOD_UNAVAILABLE":
+      return "That delivery option isn't available for this order. Please choose another.";
+    case "EMPTY_CART":
+      return "Your cart is empty";
+    case "ACCOUNT_BLOCKED":
+      return "Your account has been blocked, so you can't place orders";
+    case "OUT_OF_STOCK":
+      return error.shortages.length > 0
+        ? `Not enough stock for ${error.shortages
+            .map((s) => `"${s.title}" (${s.available} left)`)
+            .join(", ")}`
+        : "Some items in your cart are out of stock";
+    case "PROMOTION_INVALID":
+      return error.message;
+    default:
+      return "Failed to place order. Please try again.";
+  }
+};
+
+// Addresses are ids from the customer's address book. Pickup orders need no
+// shipping address, and the billing address defaults to the shipping one.
+export const placeOrder = async (
+  shipping: { methodId: string; shippingAddressId: string | null; billingAddressId: string | null },
+  promoCode?: string | null
+): Promise<{ orderId: string | null; error: CheckoutError | null }> => {
+  const { data, error } = await supabase.rpc("place_order", {
+    p_shipping_method_id: shipping.methodId,
+    p_shipping_address_id: shipping.shippingAddressId || undefined,
+    p_billing_address_id: shipping.billingAddressId || undefined,
+    p_promo_code: promoCode || undefined,
+  });
+
+  if (error) {
+    return { orderId: null, error: toCheckoutError(error) };
+  }
+  return { orderId: data, error: null };
+};
@@ -0,0 +1,85 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type MovementType = Database["public"]["Enums"]["inventory_movement_type"];
+
+export interface InventoryMovement {
+  id: string;
+  movement_type: MovementType;
+  // Signed change in stock
+  quantity: number;
+  order_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface LowStockBook {
+  book_id: string;
+  title: string;
+  author: string;
+  stock_quantity: number;
+  reorder_threshold: number;
+  units_sold: number;
+  // Null when the book hasn't sold recently
+  days_of_cover: number | null;
+}
+
+export const MOVEMENT_LABELS: Record<MovementType, string> = {
+  receipt: "Receipt",
+  sale: "Sale",
+  return: "Return",
+  adjustment: "Adjustment",
+  damage: "Damage",
+};
+
+// record_inventory_movement and get_low_stock_books raise P0001 exceptions whose message is one
+// of these codes. STOCK_MANAGED_BY_LEDGER comes from writing books.stock_quantity directly.
+export const describeInventoryError = (error: Pick<PostgrestError, "message" | "details">): string => {
+  switch (error.message) {
+    case "NOT_AUTHORIZED":
+      return "You don't have permission to manage stock";
+    case "BOOK_NOT_FOUND":
+      return "Book not found";
+    case "INVALID_MOVEMENT_QUANTITY":
+      return "Enter a quantity other than 0";
+    case "MISSING_MOVEMENT_NOTE":
+      return "Please add a note explaining the change";
+    case "INSUFFICIENT_STOCK":
+      return `Only ${error.details || 0} in stock`;
+    case "STOCK_MANAGED_BY_LEDGER":
+      return "Stock can only be changed by recording a movement";
+    default:
+      return "Something went wrong. Please try again.";
+  }
+};
+
+export const recordInventoryMovement = async (
+  bookId: string,
+  type: MovementType,
+  quantity: number,
+  note?: string | null
+): Promise<{ error: string | null }> => {
+  const { error } = await supabase.rpc("record_inventory_movement", {
+    p_book_id: bookId,
+    p_type: type,
+    p_quantity: quantity,
+    p_note: note || undefined,
+  });
+
+  if (error) {
+    console.error("Error recording inventory movement:", error);
+    return { error: describeInventoryError(error) };
+  }
+  return { error: null };
+};
+
+export const fetchLowStock = async (days = 30): Promise<{ data: LowStockBook[]; error: string | null }> => {
+  const { data, error } = await supabase.rpc("get_low_stock_books", { p_days: days });
+
+  if (error) {
+    console.error("Error fetching low stock:", error);
+    return { data: [], error: describeInventoryError(error) };
+  }
+  return { data: data || [], error: null };
+};
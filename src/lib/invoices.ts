@@ -0,0 +1,349 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { formatAddressLines, type AddressSnapshot } from "@/lib/addresses";
+import { formatTaxRate } from "@/lib/tax";
+import { createPdfDocument, downloadPdf, PAGE_WIDTH, type PdfDocument } from "@/lib/pdf";
+
+export interface SellerDetails {
+  name: string;
+  // Several lines
+  address: string;
+  email: string;
+  tax_id?: string | null;
+}
+
+export interface DocumentLine {
+  title: string;
+  author: string;
+  isbn: string | null;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  tax_amount: number;
+}
+
+// What issue_invoice returns
+export interface Invoice {
+  number: number;
+  issued_at: string;
+  seller: SellerDetails;
+  order_id: string;
+  ordered_at: string;
+  customer_email: string | null;
+  billing_address: AddressSnapshot | null;
+  // Null for pickup orders and orders placed before the address book
+  shipping_address: AddressSnapshot | null;
+  legacy_address: string | null;
+  shipping_method: string | null;
+  promotion_code: string | null;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  refunded: number;
+  lines: DocumentLine[];
+}
+
+// What get_packing_slip returns
+export interface PackingSlip {
+  seller: SellerDetails;
+  order_id: string;
+  ordered_at: string;
+  status: string;
+  customer_email: string | null;
+  shipping_address: AddressSnapshot | null;
+  legacy_address: string | null;
+  shipping_method: string | null;
+  tracking_number: string | null;
+  lines: DocumentLine[];
+}
+
+// Statuses whose orders can't be invoiced yet, or at all
+export const UNINVOICEABLE_STATUSES = ["pending", "cancelled"];
+
+// 42 -> "INV-000042"
+export const formatInvoiceNumber = (number: number) => `INV-${String(number).padStart(6, "0")}`;
+
+export const describeInvoiceError = (error: Pick<PostgrestError, "message" | "details">): string => {
+  switch (error.message) {
+    case "NOT_AUTHENTICATED":
+      return "Please log in to download invoices";
+    case "NOT_AUTHORIZED":
+      return "You don't have permission to do that";
+    case "ORDER_NOT_FOUND":
+      return "Order not found";
+    case "ORDER_NOT_INVOICEABLE":
+      return error.details === "cancelled"
+        ? "Cancelled orders don't have an invoice"
+        : "The invoice is available once the order is paid for";
+    default:
+      return "Couldn't create the document. Please try again.";
+  }
+};
+
+const MARGIN = 48;
+const RIGHT = PAGE_WIDTH - MARGIN;
+// Where content stops and a new page starts
+const PAGE_BOTTOM = 720;
+
+const formatMoney = (amount: number) => `$${Number(amount).toFixed(2)}`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+// Orders from before the address book only have a line of free text
+const addressBlock = (address: AddressSnapshot | null, legacyAddress: string | null) =>
+  address ? formatAddressLines(address) : legacyAddress ? [legacyAddress] : [];
+
+// Seller name and address in the top-left corner; returns where they end
+const drawSeller = (pdf: PdfDocument, seller: SellerDetails) => {
+  pdf.text(MARGIN, MARGIN, seller.name, { size: 18, bold: true });
+
+  let y = MARGIN + 26;
+  const lines = [
+    ...seller.address.split("\n").map((line) => line.trim()).filter(Boolean),
+    seller.email,
+    seller.tax_id ? `Tax ID: ${seller.tax_id}` : "",
+  ].filter(Boolean);
+  lines.forEach((line) => {
+    pdf.text(MARGIN, y, line, { size: 9, gray: 0.35 });
+    y += 12;
+  });
+  return y;
+};
+
+// Title and label/value pairs in the top-right corner
+const drawHeading = (pdf: PdfDocument, title: string, details: Array<[string, string]>) => {
+  pdf.text(RIGHT, MARGIN, title, { size: 20, bold: true, align: "right", gray: 0.25 });
+
+  details.forEach(([label, value], index) => {
+    const y = MARGIN + 30 + index * 13;
+    pdf.text(RIGHT, y, value, { size: 9, bold: true, align: "right" });
+    pdf.text(RIGHT - pdf.textWidth(value, 9, true) - 6, y, label, { size: 9, align: "right", gray: 0.35 });
+  });
+};
+
+// A labelled address column; returns where it ends
+const drawAddress = (pdf: PdfDocument, x: number, y: number, label: string, lines: string[]) => {
+  pdf.text(x, y, label.toUpperCase(), { size: 8, bold: true, gray: 0.45 });
+  lines.forEach((line, index) => pdf.text(x, y + 14 + index * 12, line, { size: 10 }));
+  return y + 14 + lines.length * 12;
+};
+
+interface Column {
+  label: string;
+  // Left edge for left-aligned columns, right edge for right-aligned ones
+  x: number;
+  align?: "left" | "right";
+}
+
+const drawTableHeader = (pdf: PdfDocument, y: number, columns: Column[]) => {
+  pdf.box(MARGIN, y, RIGHT - MARGIN, 20, 0.93);
+  columns.forEach((column) =>
+    pdf.text(column.x, y + 6, column.label, { size: 8, bold: true, align: column.align, gray: 0.3 })
+  );
+  return y + 26;
+};
+
+// Draws each line item, starting new pages as needed. The title and book
+// details go in the first column; drawCells draws the rest of the row.
+// Returns where the table ends.
+const drawLineItems = (
+  pdf: PdfDocument,
+  startY: number,
+  columns: Column[],
+  lines: DocumentLine[],
+  titleWidth: number,
+  drawCells: (line: DocumentLine, y: number) => void
+) => {
+  const titleX = columns[0].x;
+  let y = drawTableHeader(pdf, startY, columns);
+
+  lines.forEach((line) => {
+    const titleLines = pdf.wrap(line.title, titleWidth, 10, true);
+    const details = [line.author, line.isbn && `ISBN ${line.isbn}`].filter(Boolean).join(" · ");
+    const height = titleLines.length * 12 + 18;
+
+    if (y + height > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = drawTableHeader(pdf, MARGIN, columns);
+    }
+
+    titleLines.forEach((text, index) => pdf.text(titleX, y + index * 12, text, { size: 10, bold: true }));
+    pdf.text(titleX, y + titleLines.length * 12, details, { size: 8, gray: 0.45 });
+    drawCells(line, y);
+
+    y += height;
+    pdf.line(MARGIN, y - 6, RIGHT, y - 6);
+  });
+
+  return y;
+};
+
+export const renderInvoice = (invoice: Invoice): Blob => {
+  const pdf = createPdfDocument();
+
+  const sellerEnd = drawSeller(pdf, invoice.seller);
+  drawHeading(pdf, "INVOICE", [
+    ["Invoice", formatInvoiceNumber(invoice.number)],
+    ["Issued", formatDate(invoice.issued_at)],
+    ["Order", `#${invoice.order_id.slice(0, 8)}`],
+    ["Ordered", formatDate(invoice.ordered_at)],
+  ]);
+
+  const addressTop = Math.max(sellerEnd, MARGIN + 90) + 16;
+  const billTo = [
+    ...addressBlock(invoice.billing_address, invoice.legacy_address),
+    invoice.customer_email || "",
+  ].filter(Boolean);
+  // Pickup orders keep the delivery option's name in place of an address
+  const shipTo = addressBlock(invoice.shipping_address, invoice.legacy_address);
+  const addressEnd = Math.max(
+    drawAddress(pdf, MARGIN, addressTop, "Bill to", billTo),
+    drawAddress(pdf, PAGE_WIDTH / 2, addressTop, "Ship to", shipTo)
+  );
+
+  const columns: Column[] = [
+    { label: "ITEM", x: MARGIN + 6 },
+    { label: "QTY", x: 340, align: "right" },
+    { label: "UNIT PRICE", x: 410, align: "right" },
+    { label: "TAX", x: 470, align: "right" },
+    { label: "AMOUNT", x: RIGHT - 6, align: "right" },
+  ];
+  let y = drawLineItems(pdf, addressEnd + 20, columns, invoice.lines, 260, (line, rowY) => {
+    pdf.text(340, rowY, String(line.quantity), { size: 10, align: "right" });
+    pdf.text(410, rowY, formatMoney(line.unit_price), { size: 10, align: "right" });
+    pdf.text(470, rowY, formatTaxRate(line.tax_rate), { size: 10, align: "right" });
+    pdf.text(RIGHT - 6, rowY, formatMoney(line.quantity * line.unit_price), { size: 10, align: "right" });
+  });
+
+  // Tax is charged per line, so it's summed per rate for the totals
+  const taxByRate = new Map<number, number>();
+  invoice.lines
+    .filter((line) => line.tax_amount > 0)
+    .forEach((line) => taxByRate.set(line.tax_rate, (taxByRate.get(line.tax_rate) || 0) + line.tax_amount));
+
+  const totals: Array<{ label: string; value: string; bold?: boolean }> = [
+    { label: "Subtotal", value: formatMoney(invoice.subtotal) },
+  ];
+  if (invoice.discount > 0) {
+    totals.push({
+      label: invoice.promotion_code ? `Discount (${invoice.promotion_code})` : "Discount",
+      value: `-${formatMoney(invoice.discount)}`,
+    });
+  }
+  totals.push({
+    label: invoice.shipping_method ? `Shipping (${invoice.shipping_method})` : "Shipping",
+    value: invoice.shipping > 0 ? formatMoney(invoice.shipping) : "Free",
+  });
+  if (taxByRate.size === 0) {
+    totals.push({ label: "Tax", value: formatMoney(invoice.tax) });
+  }
+  taxByRate.forEach((amount, rate) => totals.push({ label: `Tax (${formatTaxRate(rate)})`, value: formatMoney(amount) }));
+  totals.push({ label: "Total", value: formatMoney(invoice.total), bold: true });
+  if (invoice.refunded > 0) {
+    totals.push({ label: "Refunded", value: `-${formatMoney(invoice.refunded)}` });
+    totals.push({ label: "Net total", value: formatMoney(invoice.total - invoice.refunded), bold: true });
+  }
+
+  if (y + totals.length * 16 + 40 > PAGE_BOTTOM) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+
+  y += 6;
+  totals.forEach(({ label, value, bold }) => {
+    if (bold) {
+      pdf.line(PAGE_WIDTH / 2, y - 4, RIGHT, y - 4, 0.6);
+    }
+    pdf.text(RIGHT - 130, y, label, { size: bold ? 11 : 10, bold, align: "right", gray: bold ? 0 : 0.35 });
+    pdf.text(RIGHT - 6, y, value, { size: bold ? 11 : 10, bold, align: "right" });
+    y += 16;
+  });
+
+  pdf.text(MARGIN, y + 24, `Thank you for shopping with ${invoice.seller.name}.`, { size: 9, gray: 0.45 });
+
+  return pdf.toBlob();
+};
+
+export const renderPackingSlip = (slip: PackingSlip): Blob => {
+  const pdf = createPdfDocument();
+
+  const sellerEnd = drawSeller(pdf, slip.seller);
+  drawHeading(
+    pdf,
+    "PACKING SLIP",
+    [
+      ["Order", `#${slip.order_id.slice(0, 8)}`],
+      ["Ordered", formatDate(slip.ordered_at)],
+      ["Delivery", slip.shipping_method || "Standard"],
+      ...(slip.tracking_number ? [["Tracking", slip.tracking_number] as [string, string]] : []),
+    ]
+  );
+
+  const addressTop = Math.max(sellerEnd, MARGIN + 90) + 16;
+  const shipTo = [
+    ...addressBlock(slip.shipping_address, slip.legacy_address),
+    slip.shipping_address?.phone || "",
+    slip.customer_email || "",
+  ].filter(Boolean);
+  const addressEnd = drawAddress(pdf, MARGIN, addressTop, "Ship to", shipTo);
+
+  const columns: Column[] = [
+    { label: "ITEM", x: MARGIN + 36 },
+    { label: "QTY", x: RIGHT - 6, align: "right" },
+  ];
+  const y = drawLineItems(pdf, addressEnd + 20, columns, slip.lines, 380, (line, rowY) => {
+    // A box to tick once the item is packed
+    pdf.line(MARGIN + 8, rowY, MARGIN + 20, rowY, 0.3);
+    pdf.line(MARGIN + 20, rowY, MARGIN + 20, rowY + 12, 0.3);
+    pdf.line(MARGIN + 20, rowY + 12, MARGIN + 8, rowY + 12, 0.3);
+    pdf.line(MARGIN + 8, rowY + 12, MARGIN + 8, rowY, 0.3);
+    pdf.text(RIGHT - 6, rowY, String(line.quantity), { size: 12, bold: true, align: "right" });
+  });
+
+  const itemCount = slip.lines.reduce((total, line) => total + line.quantity, 0);
+  pdf.text(RIGHT - 6, y + 6, `${itemCount} ${itemCount === 1 ? "item" : "items"}`, { size: 10, bold: true, align: "right" });
+
+  return pdf.toBlob();
+};
+
+export const fetchInvoice = async (orderId: string): Promise<{ data: Invoice | null; error: string | null }> => {
+  const { data, error } = await supabase.rpc("issue_invoice", { p_order_id: orderId });
+
+  if (error) {
+    console.error("Error issuing invoice:", error);
+    return { data: null, error: describeInvoiceError(error) };
+  }
+  return { data: data as unknown as Invoice, error: null };
+};
+
+export const fetchPackingSlip = async (
+  orderId: string
+): Promise<{ data: PackingSlip | null; error: string | null }> => {
+  const { data, error } = await supabase.rpc("get_packing_slip", { p_order_id: orderId });
+
+  if (error) {
+    console.error("Error fetching packing slip:", error);
+    return { data: null, error: describeInvoiceError(error) };
+  }
+  return { data: data as unknown as PackingSlip, error: null };
+};
+
+// Issues the invoice if needed and saves it as a PDF
+export const downloadInvoice = async (orderId: string): Promise<{ error: string | null }> => {
+  const { data, error } = await fetchInvoice(orderId);
+  if (error || !data) return { error: error || "Couldn't create the invoice" };
+
+  downloadPdf(renderInvoice(data), `${formatInvoiceNumber(data.number)}.pdf`);
+  return { error: null };
+};
+
+export const downloadPackingSlip = async (orderId: string): Promise<{ error: string | null }> => {
+  const { data, error } = await fetchPackingSlip(orderId);
+  if (error || !data) return { error: error || "Couldn't create the packing slip" };
+
+  downloadPdf(renderPackingSlip(data), `packing-slip-${orderId.slice(0, 8)}.pdf`);
+  return { error: null };
+};
@@ -0,0 +1,178 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { invokePayments } from "@/lib/payments";
+
+export type OrderStatus = Database["public"]["Enums"]["order_status"];
+export type ReturnStatus = Database["public"]["Enums"]["return_status"];
+export type ReturnAction = "approve" | "reject" | "refund";
+
+export type ReturnItemSelection = {
+  order_item_id: string;
+  quantity: number;
+};
+
+export interface OrderStatusEvent {
+  id: string;
+  old_status: OrderStatus | null;
+  new_status: OrderStatus;
+  changed_by: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface OrderTracking {
+  // shipping_carriers.code
+  carrier: string;
+  number: string;
+}
+
+// Statuses in which the customer can still cancel the order themselves
+export const CANCELLABLE_STATUSES = ["pending", "confirmed"];
+
+// Statuses an admin can move an order to by hand. Mirrors
+// is_valid_order_status_transition(), minus the return statuses, which only
+// change through return requests, and pending -> confirmed, which happens when
+// the payment is captured.
+export const MANUAL_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["cancelled"],
+  confirmed: ["shipped", "delivered", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  return_requested: [],
+  refunded: [],
+  cancelled: [],
+};
+
+export const formatOrderStatus = (status: string) =>
+  (status.charAt(0).toUpperCase() + status.slice(1)).replace(/_/g, " ");
+
+// cancel_order, update_order_status, request_return and resolve_return raise P0001 exceptions whose
+// message is one of these codes. Cancellations and refunds go through the payments function, which
+// adds the PAYMENT_* codes.
+export const describeOrderError = (error: Pick<PostgrestError, "message" | "details">): string => {
+  switch (error.message) {
+    case "NOT_AUTHENTICATED":
+      return "Please log in to manage your orders";
+    case "NOT_AUTHORIZED":
+      return "You don't have permission to do that";
+    case "ACCOUNT_BLOCKED":
+      return "Your account has been blocked";
+    case "ORDER_NOT_FOUND":
+      return "Order not found";
+    case "ORDER_NOT_CANCELLABLE":
+      return `This order can no longer be cancelled (it is ${error.details || "already being processed"})`;
+    case "INVALID_STATUS_TRANSITION":
+      return `That status change isn't allowed (${error.details || "invalid transition"})`;
+    case "UNKNOWN_CARRIER":
+      return "Choose a carrier from the list";
+    case "ORDER_NOT_RETURNABLE":
+      return "Returns can only be requested for delivered orders";
+    case "MISSING_RETURN_REASON":
+      return "Please tell us why you're returning these items";
+    case "NO_RETURN_ITEMS":
+      return "Select at least one item to return";
+    case "INVALID_RETURN_ITEMS":
+      return "Some of the selected items can't be returned in those quantities";
+    case "RETURN_NOT_FOUND":
+      return "Return request not found";
+    case "INVALID_RETURN_TRANSITION":
+      return `This return request is already ${error.details || "resolved"}`;
+    case "INVALID_REFUND_AMOUNT":
+      return `Refund must be more than $0 and at most $${Number(error.details || 0).toFixed(2)}`;
+    case "PAYMENT_NOT_CAPTURED":
+      return "Orders are confirmed once they're paid for";
+    case "REFUND_IN_PROGRESS":
+      return "A refund for this order is already going through. Try again in a few minutes.";
+    case "PAYMENT_REFUND_REQUIRED":
+      return "Paid orders have to be refunded through the payment provider";
+    case "PAYMENT_REFUND_FAILED":
+      return "The payment provider couldn't make the refund. Nothing was changed.";
+    case "PAYMENT_PROVIDER_MISMATCH":
+      return `This order was paid through ${error.details || "another provider"}; refund it there`;
+    default:
+      return "Something went wrong. Please try again.";
+  }
+};
+
+// Refunds whatever was paid, then cancels the order
+export const cancelOrder = async (orderId: string): Promise<{ error: string | null }> => {
+  const { error } = await invokePayments({ action: "cancel_order", order_id: orderId });
+
+  if (error) {
+    console.error("Error cancelling order:", error);
+    return { error: describeOrderError(error) };
+  }
+  return { error: null };
+};
+
+export const updateOrderStatus = async (
+  orderId: string,
+  status: OrderStatus,
+  note?: string | null,
+  // Only stored when the order moves to shipped
+  tracking?: OrderTracking | null
+): Promise<{ error: string | null }> => {
+  // Cancelling has to refund the payment too
+  const { error } =
+    status === "cancelled"
+      ? await invokePayments({ action: "cancel_order", order_id: orderId, note: note || undefined })
+      : await supabase.rpc("update_order_status", {
+          p_order_id: orderId,
+          p_status: status,
+          p_note: note || undefined,
+          p_tracking_carrier: tracking?.carrier || undefined,
+          p_tracking_number: tracking?.number || undefined,
+        });
+
+  if (error) {
+    console.error("Error updating order status:", error);
+    return { error: describeOrderError(error) };
+  }
+  return { error: null };
+};
+
+export const requestReturn = async (
+  orderId: string,
+  items: ReturnItemSelection[],
+  reason: string
+): Promise<{ requestId: string | null; error: string | null }> => {
+  const { data, error } = await supabase.rpc("request_return", {
+    p_order_id: orderId,
+    p_items: items,
+    p_reason: reason,
+  });
+
+  if (error) {
+    console.error("Error requesting return:", error);
+    return { requestId: null, error: describeOrderError(error) };
+  }
+  return { requestId: data, error: null };
+};
+
+export const resolveReturn = async (
+  requestId: string,
+  action: ReturnAction,
+  options: { refundAmount?: number | null; note?: string | null } = {}
+): Promise<{ error: string | null }> => {
+  // Refunds go back to the customer's card through the payments function
+  const { error } =
+    action === "refund"
+      ? await invokePayments({
+          action: "refund_return",
+          return_request_id: requestId,
+          amount: options.refundAmount ?? undefined,
+          note: options.note || undefined,
+        })
+      : await supabase.rpc("resolve_return", {
+          p_request_id: requestId,
+          p_action: action,
+          p_note: options.note || undefined,
+        });
+
+  if (error) {
+    console.error("Error resolving return:", error);
+    return { error: describeOrderError(error) };
+  }
+  return { error: null };
+};
@@ -0,0 +1,190 @@
+import { FunctionsHttpError, type PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export type PaymentStatus =
+  | "pending"
+  | "requires_action"
+  | "processing"
+  | "authorized"
+  | "captured"
+  | "failed"
+  | "refunded";
+
+export interface CardInput {
+  number: string;
+  // MM/YY
+  expiry: string;
+  cvc: string;
+}
+
+export interface Payment {
+  id: string;
+  status: PaymentStatus;
+  amount: number;
+  refunded_amount: number;
+  card_brand: string | null;
+  card_last4: string | null;
+  failure_reason: string | null;
+  captured_at: string | null;
+  created_at: string;
+}
+
+// What the payments function says after an attempt or a 3-D Secure step
+export interface PaymentAttempt {
+  payment_id: string;
+  status: PaymentStatus;
+  failure_reason: string | null;
+  // Set when the bank wants the customer to confirm the payment
+  challenge: { message: string } | null;
+}
+
+type FunctionError = Pick<PostgrestError, "message" | "details">;
+
+// Cards the mock gateway understands (see the README), for the hint at checkout
+export const TEST_CARDS = [
+  { number: "4242 4242 4242 4242", result: "Approved" },
+  { number: "4000 0000 0000 0002", result: "Declined" },
+  { number: "4000 0000 0000 3220", result: "3-D Secure" },
+  { number: "4000 0000 0000 0077", result: "Delayed approval" },
+];
+
+export const formatPaymentStatus = (status: PaymentStatus) => {
+  switch (status) {
+    case "requires_action":
+      return "Awaiting authentication";
+    case "captured":
+      return "Paid";
+    default:
+      return status.charAt(0).toUpperCase() + status.slice(1);
+  }
+};
+
+// Why the gateway refused a payment, from payments.failure_reason
+export const describeDeclineReason = (reason: string | null): string => {
+  switch (reason) {
+    case "card_declined":
+      return "Your card was declined";
+    case "insufficient_funds":
+      return "Your card has insufficient funds";
+    case "authentication_failed":
+      return "Your bank couldn't confirm the payment";
+    case "invalid_number":
+      return "That card number isn't valid";
+    case "invalid_expiry":
+      return "Enter the expiry date as MM/YY";
+    case "expired_card":
+      return "That card has expired";
+    case "expired":
+      return "This order wasn't paid for in time and has been cancelled";
+    case "invalid_cvc":
+      return "Enter the 3 or 4 digit security code";
+    default:
+      return "The payment didn't go through. Please try another card.";
+  }
+};
+
+// The payments function and the start_payment it calls fail with these codes
+export const describePaymentError = (error: FunctionError): string => {
+  switch (error.message) {
+    case "NOT_AUTHENTICATED":
+      return "Please log in to pay for your order";
+    case "ORDER_NOT_FOUND":
+      return "Order not found";
+    case "ORDER_NOT_PAYABLE":
+      // Unpaid orders are cancelled after a while
+      return error.details === "cancelled"
+        ? "This order was cancelled because it wasn't paid for in time"
+        : "This order doesn't need paying";
+    case "PAYMENT_IN_PROGRESS":
+      return "A payment for this order is already going through";
+    case "PAYMENT_NOT_FOUND":
+      return "This payment can no longer be confirmed. Please try again.";
+    default:
+      return "Couldn't take the payment. Please try again.";
+  }
+};
+
+// Calls the payments edge function. Its errors have the same shape as a
+// PostgrestError and come back in the response body.
+export const invokePayments = async <T>(
+  body: Record<string, unknown>
+): Promise<{ data: T | null; error: FunctionError | null }> => {
+  const { data, error } = await supabase.functions.invoke("payments", { body });
+
+  if (!error) return { data: data as T, error: null };
+
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const response = await error.context.json();
+      return { data: null, error: { message: response.error, details: response.details ?? "" } };
+    } catch {
+      // Not one of ours, e.g. the function isn't deployed
+    }
+  }
+  return { data: null, error: { message: error.message, details: "" } };
+};
+
+export const authorizePayment = async (
+  orderId: string,
+  card: CardInput
+): Promise<{ data: PaymentAttempt | null; error: string | null }> => {
+  const { data, error } = await invokePayments<PaymentAttempt>({
+    action: "authorize",
+    order_id: orderId,
+    card: { ...card, number: card.number.replace(/\s/g, "") },
+  });
+
+  if (error) {
+    console.error("Error authorizing payment:", error);
+    return { data: null, error: describePaymentError(error) };
+  }
+  return { data, error: null };
+};
+
+// Finishes a 3-D Secure challenge. The mock gateway lets the customer pick the
+// outcome; a real one would report what happened on the bank's page.
+export const completePaymentChallenge = async (
+  paymentId: string,
+  approved: boolean
+): Promise<{ data: PaymentAttempt | null; error: string | null }> => {
+  const { data, error } = await invokePayments<PaymentAttempt>({
+    action: "complete_challenge",
+    payment_id: paymentId,
+    response: approved ? "approved" : "failed",
+  });
+
+  if (error) {
+    console.error("Error completing payment challenge:", error);
+    return { data: null, error: describePaymentError(error) };
+  }
+  return { data, error: null };
+};
+
+export const fetchPayment = async (paymentId: string): Promise<Payment | null> => {
+  const { data, error } = await supabase
+    .from("payments")
+    .select("id, status, amount, refunded_amount, card_brand, card_last4, failure_reason, captured_at, created_at")
+    .eq("id", paymentId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching payment:", error);
+  }
+  return (data as Payment | null) || null;
+};
+
+// The order's most recent payment attempt, if any
+export const fetchLatestPayment = async (orderId: string): Promise<Payment | null> => {
+  const { data, error } = await supabase
+    .from("payments")
+    .select("id, status, amount, refunded_amount, card_brand, card_last4, failure_reason, captured_at, created_at")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching payment:", error);
+  }
+  return (data as Payment | null) || null;
+};
@@ -0,0 +1,187 @@
+// A small PDF writer for the documents the shop prints: text in Helvetica,
+// lines and filled boxes on US Letter pages. Coordinates are in points from
+// the top-left corner of the page.
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right";
+  // 0 is black, 1 is white
+  gray?: number;
+}
+
+export interface PdfDocument {
+  // Starts a new page; drawing goes to the newest page
+  addPage(): void;
+  text(x: number, y: number, value: string, options?: TextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, gray?: number): void;
+  box(x: number, y: number, width: number, height: number, gray: number): void;
+  textWidth(value: string, size: number, bold?: boolean): number;
+  // Splits text into lines no wider than width
+  wrap(value: string, width: number, size: number, bold?: boolean): string[];
+  toBlob(): Blob;
+}
+
+// Glyph widths (per 1000 units of font size) for characters 32 to 126, from
+// the standard Helvetica font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 128,
+  "…": 133,
+  "‘": 145,
+  "’": 146,
+  "“": 147,
+  "”": 148,
+  "•": 149,
+  "–": 150,
+  "—": 151,
+};
+
+// The character's code in WinAnsiEncoding, or "?" for ones it can't show
+const toWinAnsi = (char: string) => {
+  const code = char.charCodeAt(0);
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return 63;
+};
+
+const charWidth = (code: number, bold: boolean) => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  // Accented letters and symbols are close enough to an average glyph
+  return code >= 32 && code <= 126 ? widths[code - 32] : 556;
+};
+
+// A PDF string literal, with bytes outside printable ASCII written as octal
+const pdfString = (value: string) =>
+  `(${Array.from(value, (char) => {
+    const code = toWinAnsi(char);
+    if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+    if (code > 126) return `\\${code.toString(8)}`;
+    return String.fromCharCode(code);
+  }).join("")})`;
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+export const createPdfDocument = (): PdfDocument => {
+  // Starts with one page; addPage adds the next
+  let current: string[] = [];
+  const pages: string[][] = [current];
+
+  const textWidth = (value: string, size: number, bold = false) =>
+    (Array.from(value).reduce((total, char) => total + charWidth(toWinAnsi(char), bold), 0) * size) / 1000;
+
+  const pdf: PdfDocument = {
+    addPage: () => {
+      current = [];
+      pages.push(current);
+    },
+
+    text: (x, y, value, { size = 10, bold = false, align = "left", gray = 0 } = {}) => {
+      const left = align === "right" ? x - textWidth(value, size, bold) : x;
+      // y is the top of the text; PDF places it by its baseline from the bottom
+      const baseline = PAGE_HEIGHT - y - size * 0.8;
+      current.push(
+        `BT ${formatNumber(gray)} g /${bold ? "F2" : "F1"} ${size} Tf ${formatNumber(left)} ${formatNumber(baseline)} Td ${pdfString(value)} Tj ET`
+      );
+    },
+
+    line: (x1, y1, x2, y2, gray = 0.8) => {
+      current.push(
+        `${formatNumber(gray)} G 0.75 w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+      );
+    },
+
+    box: (x, y, width, height, gray) => {
+      current.push(
+        `${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+      );
+    },
+
+    textWidth,
+
+    wrap: (value, width, size, bold = false) => {
+      const lines: string[] = [];
+      let line = "";
+
+      value.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textWidth(candidate, size, bold) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+
+      return line ? [...lines, line] : lines;
+    },
+
+    toBlob: () => {
+      // Objects 1-4 are the catalog, page tree and two fonts; each page then
+      // takes two objects, the page and its content stream
+      const objects: string[] = [
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+      ];
+
+      pages.forEach((operations, index) => {
+        const content = operations.join("\n");
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+          `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+        );
+      });
+
+      // Everything written is ASCII, so string lengths are byte offsets
+      let output = "%PDF-1.4\n";
+      const offsets = objects.map((object, index) => {
+        const offset = output.length;
+        output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+
+      const xref = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      return new Blob([output], { type: "application/pdf" });
+    },
+  };
+
+  return pdf;
+};
+
+// Saves the PDF through the browser's download prompt
+export const downloadPdf = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
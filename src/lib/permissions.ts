@@ -0,0 +1,33 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type UserRole = Database["public"]["Enums"]["user_role"];
+
+// Capabilities granted to roles in the role_permissions table
+export type Permission =
+  | "catalog.write"
+  | "promotions.write"
+  | "orders.view"
+  | "orders.update"
+  | "returns.manage"
+  | "users.view"
+  | "users.block"
+  | "users.roles"
+  | "audit.view"
+  | "inventory.manage"
+  | "reports.view"
+  | "shipping.manage"
+  | "tax.manage";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  customer: "Customer",
+  admin: "Admin",
+  catalog_editor: "Catalog editor",
+  fulfilment: "Fulfilment",
+  support: "Support",
+};
+
+export const fetchPermissions = async (): Promise<{ data: Permission[]; error: unknown }> => {
+  const { data, error } = await supabase.rpc("get_current_user_permissions");
+  return { data: (data || []) as Permission[], error };
+};
@@ -0,0 +1,52 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface AppliedPromotion {
+  promotion_id: string;
+  code: string;
+  description: string | null;
+  discount_amount: number;
+  free_shipping: boolean;
+}
+
+// Messages for the PROMO_* errors raised by evaluate_promotion()
+export const describePromotionError = (error: Pick<PostgrestError, "message" | "details">): string => {
+  switch (error.message) {
+    case "NOT_AUTHENTICATED":
+      return "Please log in to use a promotion code";
+    case "PROMO_NOT_FOUND":
+      return "That code doesn't exist";
+    case "PROMO_INACTIVE":
+      return "That code is no longer active";
+    case "PROMO_NOT_STARTED":
+      return "That code isn't valid yet";
+    case "PROMO_EXPIRED":
+      return "That code has expired";
+    case "PROMO_USAGE_LIMIT_REACHED":
+      return "That code has reached its usage limit";
+    case "PROMO_ALREADY_USED":
+      return "You've already used that code";
+    case "PROMO_NOT_APPLICABLE":
+      return "That code doesn't apply to the items in your cart";
+    case "PROMO_MIN_SPEND_NOT_MET":
+      return `Spend at least $${Number(error.details || 0).toFixed(2)} on eligible items to use that code`;
+    default:
+      return "Couldn't apply that code";
+  }
+};
+
+export const isPromotionError = (message: string) =>
+  message.startsWith("PROMO_");
+
+export const validatePromotion = async (
+  code: string
+): Promise<{ promotion: AppliedPromotion | null; error: string | null }> => {
+  const { data, error } = await supabase
+    .rpc("validate_promotion", { p_code: code.trim().toUpperCase() })
+    .single();
+
+  if (error) {
+    return { promotion: null, error: describePromotionError(error) };
+  }
+  return { promotion: data, error: null };
+};
@@ -0,0 +1,157 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export type SearchSort = "relevance" | "title" | "price_low" | "price_high" | "rating" | "newest";
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  author: string;
+  price: number;
+  original_price: number | null;
+  image_url: string | null;
+  stock_quantity: number;
+  rating: number | null;
+  review_count: number | null;
+  category_name: string | null;
+  rank: number;
+  // Title and description excerpt with matched terms wrapped in <mark></mark>
+  title_highlight: string;
+  snippet: string | null;
+  // Matches across all pages
+  total_count: number;
+}
+
+export interface SearchFilters {
+  query?: string;
+  category?: string | null;
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  minRating?: number | null;
+  inStock?: boolean;
+  onSale?: boolean;
+}
+
+export interface SearchOptions extends SearchFilters {
+  sort?: SearchSort;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchFacets {
+  categories: { name: string; count: number }[];
+  price: { min: number; max: number };
+  // Number of books rated at least 1, 2, 3 and 4 stars
+  ratings: Record<string, number>;
+  in_stock: number;
+  on_sale: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+const toFilterArgs = (filters: SearchFilters) => ({
+  p_query: filters.query?.trim() || undefined,
+  p_category: filters.category || undefined,
+  p_min_price: filters.minPrice ?? undefined,
+  p_max_price: filters.maxPrice ?? undefined,
+  p_min_rating: filters.minRating ?? undefined,
+  p_in_stock: filters.inStock || undefined,
+  p_on_sale: filters.onSale || undefined,
+});
+
+export const searchBooks = async ({
+  sort = "relevance",
+  limit,
+  offset,
+  ...filters
+}: SearchOptions): Promise<{ data: SearchResult[]; total: number; error: PostgrestError | null }> => {
+  const { data, error } = await supabase.rpc("search_books", {
+    ...toFilterArgs(filters),
+    p_sort: sort,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  return { data: data || [], total: data?.[0]?.total_count ?? 0, error };
+};
+
+export const fetchSearchFacets = async (
+  filters: SearchFilters
+): Promise<{ data: SearchFacets | null; error: PostgrestError | null }> => {
+  const { data, error } = await supabase.rpc("search_book_facets", toFilterArgs(filters));
+
+  return { data: data as unknown as SearchFacets | null, error };
+};
+
+// Splits a search_books highlight into plain and matched segments so it can be
+// rendered as text nodes instead of injected HTML.
+export const parseHighlight = (value: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(MARK_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: value.slice(lastIndex, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < value.length) {
+    segments.push({ text: value.slice(lastIndex), highlighted: false });
+  }
+  return segments;
+};
+
+export interface SearchSuggestion {
+  kind: "book" | "author" | "category";
+  id: string | null;
+  label: string;
+  // Author name for book suggestions
+  detail: string | null;
+  image_url: string | null;
+  // Number of books for author and category suggestions
+  book_count: number | null;
+}
+
+const RECENT_SEARCHES_KEY = "recent_searches";
+const MAX_RECENT_SEARCHES = 5;
+
+export const fetchSearchSuggestions = async (
+  query: string
+): Promise<{ data: SearchSuggestion[]; error: PostgrestError | null }> => {
+  const { data, error } = await supabase.rpc("search_suggestions", { p_query: query });
+
+  return { data: (data || []) as SearchSuggestion[], error };
+};
+
+export const getRecentSearches = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecentSearch = (query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) return;
+
+  const recent = getRecentSearches().filter(
+    (item) => item.toLowerCase() !== trimmed.toLowerCase()
+  );
+  localStorage.setItem(
+    RECENT_SEARCHES_KEY,
+    JSON.stringify([trimmed, ...recent].slice(0, MAX_RECENT_SEARCHES))
+  );
+};
+
+export const clearRecentSearches = () => {
+  localStorage.removeItem(RECENT_SEARCHES_KEY);
+};
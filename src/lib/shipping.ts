@@ -0,0 +1,113 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ShippingQuote {
+  method_id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  carrier_name: string | null;
+  requires_address: boolean;
+  min_days: number | null;
+  max_days: number | null;
+  price: number;
+}
+
+export interface ShippingCarrier {
+  code: string;
+  name: string;
+  tracking_url_template: string | null;
+}
+
+export interface ShippingRate {
+  id: string;
+  method_id: string;
+  // Null applies to every country
+  country_code: string | null;
+  min_weight_grams: number;
+  max_weight_grams: number | null;
+  min_order_value: number;
+  max_order_value: number | null;
+  price: number;
+}
+
+export interface ShippingMethod {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  carrier_code: string | null;
+  requires_address: boolean;
+  min_days: number | null;
+  max_days: number | null;
+  is_active: boolean;
+  sort_order: number;
+  shipping_rates: ShippingRate[];
+}
+
+// Destinations offered at checkout. Rate rules can name any ISO country code;
+// countries without a rule of their own fall back to the catch-all rules.
+export const SHIPPING_COUNTRIES = [
+  { code: "US", name: "United States" },
+  { code: "CA", name: "Canada" },
+  { code: "MX", name: "Mexico" },
+  { code: "GB", name: "United Kingdom" },
+  { code: "IE", name: "Ireland" },
+  { code: "FR", name: "France" },
+  { code: "DE", name: "Germany" },
+  { code: "ES", name: "Spain" },
+  { code: "IT", name: "Italy" },
+  { code: "NL", name: "Netherlands" },
+  { code: "AU", name: "Australia" },
+  { code: "NZ", name: "New Zealand" },
+  { code: "JP", name: "Japan" },
+  { code: "IN", name: "India" },
+];
+
+export const DEFAULT_SHIPPING_COUNTRY = "US";
+
+export const formatDeliveryEstimate = (minDays: number | null, maxDays: number | null): string | null => {
+  if (minDays === null && maxDays === null) return null;
+  if (minDays === maxDays || maxDays === null) {
+    return `${minDays} business ${minDays === 1 ? "day" : "days"}`;
+  }
+  return `${minDays ?? 0}–${maxDays} business days`;
+};
+
+export const getTrackingUrl = (template: string | null | undefined, trackingNumber: string | null) =>
+  template && trackingNumber
+    ? template.replace("{tracking_number}", encodeURIComponent(trackingNumber))
+    : null;
+
+export const describeShippingError = (error: Pick<PostgrestError, "message" | "details">): string => {
+  switch (error.message) {
+    case "NOT_AUTHENTICATED":
+      return "Please log in to see delivery options";
+    default:
+      return "Couldn't load delivery options. Please try again.";
+  }
+};
+
+export const quoteShipping = async (
+  country: string
+): Promise<{ data: ShippingQuote[]; error: string | null }> => {
+  const { data, error } = await supabase.rpc("quote_shipping", { p_country: country });
+
+  if (error) {
+    console.error("Error quoting shipping:", error);
+    return { data: [], error: describeShippingError(error) };
+  }
+  return { data: data || [], error: null };
+};
+
+export const fetchShippingCarriers = async (): Promise<ShippingCarrier[]> => {
+  const { data, error } = await supabase
+    .from("shipping_carriers")
+    .select("code, name, tracking_url_template")
+    .order("name");
+
+  if (error) {
+    console.error("Error fetching shipping carriers:", error);
+  }
+  return data || [];
+};
@@ -0,0 +1,42 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Subscriptions are removed once the back-in-stock email has been queued, so an
+// existing row always means the customer is still waiting.
+export const isSubscribedToStock = async (userId: string, bookId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from("stock_notifications")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("book_id", bookId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching stock notification:", error);
+  }
+  return !!data;
+};
+
+export const subscribeToStock = async (
+  userId: string,
+  bookId: string
+): Promise<{ error: PostgrestError | null }> => {
+  const { error } = await supabase
+    .from("stock_notifications")
+    .insert({ user_id: userId, book_id: bookId });
+
+  return { error };
+};
+
+export const unsubscribeFromStock = async (
+  userId: string,
+  bookId: string
+): Promise<{ error: PostgrestError | null }> => {
+  const { error } = await supabase
+    .from("stock_notifications")
+    .delete()
+    .eq("user_id", userId)
+    .eq("book_id", bookId);
+
+  return { error };
+};
@@ -0,0 +1,86 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Whether totals list tax as its own line or as already included
+export type TaxDisplay = "exclusive" | "inclusive";
+
+export interface TaxLine {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export interface TaxClass {
+  code: string;
+  name: string;
+}
+
+export interface TaxRate {
+  id: string;
+  country_code: string;
+  // Null applies to the whole country
+  region: string | null;
+  tax_class: string;
+  name: string;
+  rate: number;
+}
+
+export const DEFAULT_TAX_CLASS = "books";
+
+// 0.0725 -> "7.25%"
+export const formatTaxRate = (rate: number) => `${Number((rate * 100).toFixed(3))}%`;
+
+export const sumTax = (lines: TaxLine[]) => lines.reduce((total, line) => total + line.amount, 0);
+
+// "VAT" when every line is VAT, otherwise the generic "tax"
+export const taxLabel = (lines: TaxLine[]) => {
+  const names = new Set(lines.map((line) => line.name));
+  return names.size === 1 ? [...names][0] : "tax";
+};
+
+export const describeTaxError = (error: Pick<PostgrestError, "message" | "details">): string => {
+  switch (error.message) {
+    case "NOT_AUTHENTICATED":
+      return "Please log in to see tax for your order";
+    default:
+      return "Couldn't work out tax. Please try again.";
+  }
+};
+
+// Tax on the current user's cart for delivery to the given address, after the
+// promo code's discount. Places without a rate come back with no lines.
+export const quoteTax = async (
+  country: string,
+  region: string | null,
+  promoCode?: string
+): Promise<{ data: TaxLine[]; error: string | null }> => {
+  const { data, error } = await supabase.rpc("quote_tax", {
+    p_country: country,
+    p_region: region || undefined,
+    p_promo_code: promoCode || undefined,
+  });
+
+  if (error) {
+    console.error("Error quoting tax:", error);
+    return { data: [], error: describeTaxError(error) };
+  }
+  return { data: data || [], error: null };
+};
+
+export const fetchTaxDisplay = async (): Promise<TaxDisplay> => {
+  const { data, error } = await supabase.from("store_settings").select("tax_display").maybeSingle();
+
+  if (error) {
+    console.error("Error fetching tax display setting:", error);
+  }
+  return (data?.tax_display as TaxDisplay) || "exclusive";
+};
+
+export const fetchTaxClasses = async (): Promise<TaxClass[]> => {
+  const { data, error } = await supabase.from("tax_classes").select("code, name").order("name");
+
+  if (error) {
+    console.error("Error fetching tax classes:", error);
+  }
+  return data || [];
+};
@@ -0,0 +1,126 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface WishlistItem {
+  id: string;
+  price_at_save: number;
+  in_stock_at_save: boolean;
+  created_at: string;
+  books: {
+    id: string;
+    title: string;
+    author: string;
+    price: number;
+    image_url: string | null;
+    stock_quantity: number;
+  };
+}
+
+export type WishlistNotice = "price_drop" | "back_in_stock";
+
+// Book ids on the current user's wishlist, shared by every heart toggle on the
+// page so a grid of book cards doesn't query once per card.
+let bookIdsCache: { userId: string; ids: Promise<Set<string>> } | null = null;
+
+export const notifyWishlistUpdated = () => {
+  bookIdsCache = null;
+  window.dispatchEvent(new Event("wishlistUpdated"));
+};
+
+export const getWishlistNotice = (item: WishlistItem): WishlistNotice | null => {
+  if (item.books.price < item.price_at_save) {
+    return "price_drop";
+  }
+  if (!item.in_stock_at_save && item.books.stock_quantity > 0) {
+    return "back_in_stock";
+  }
+  return null;
+};
+
+export const fetchWishlist = async (
+  userId: string
+): Promise<{ data: WishlistItem[]; error: PostgrestError | null }> => {
+  const { data, error } = await supabase
+    .from("wishlist_items")
+    .select(`
+      id,
+      price_at_save,
+      in_stock_at_save,
+      created_at,
+      books (id, title, author, price, image_url, stock_quantity)
+    `)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  return { data: data || [], error };
+};
+
+const fetchWishlistBookIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from("wishlist_items")
+    .select("book_id")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching wishlist:", error);
+  }
+  return new Set((data || []).map((item) => item.book_id));
+};
+
+export const getWishlistBookIds = (userId: string): Promise<Set<string>> => {
+  if (bookIdsCache?.userId !== userId) {
+    bookIdsCache = { userId, ids: fetchWishlistBookIds(userId) };
+  }
+  return bookIdsCache.ids;
+};
+
+export const getWishlistNoticeCount = async (userId: string): Promise<number> => {
+  const { data, error } = await fetchWishlist(userId);
+
+  if (error) {
+    console.error("Error fetching wishlist notices:", error);
+    return 0;
+  }
+  return data.filter((item) => getWishlistNotice(item) !== null).length;
+};
+
+export const addToWishlist = async (
+  userId: string,
+  bookId: string
+): Promise<{ error: PostgrestError | null }> => {
+  const { error } = await supabase
+    .from("wishlist_items")
+    .insert({ user_id: userId, book_id: bookId });
+
+  if (!error) {
+    notifyWishlistUpdated();
+  }
+  return { error };
+};
+
+export const removeFromWishlist = async (
+  userId: string,
+  bookId: string
+): Promise<{ error: PostgrestError | null }> => {
+  const { error } = await supabase
+    .from("wishlist_items")
+    .delete()
+    .eq("user_id", userId)
+    .eq("book_id", bookId);
+
+  if (!error) {
+    notifyWishlistUpdated();
+  }
+  return { error };
+};
+
+export const acknowledgeWishlistItem = async (
+  itemId: string
+): Promise<{ error: PostgrestError | null }> => {
+  const { error } = await supabase.rpc("acknowledge_wishlist_item", { p_item_id: itemId });
+
+  if (!error) {
+    notifyWishlistUpdated();
+  }
+  return { error };
+};
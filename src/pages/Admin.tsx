@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/integrations/supabase/client";
 import { Navigate } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -17,19 +18,51 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
 import BookManagement from "@/components/admin/BookManagement";
 import CategoryManagement from "@/components/admin/CategoryManagement";
+import PromotionManagement from "@/components/admin/PromotionManagement";
+import ReturnsManagement from "@/components/admin/ReturnsManagement";
+import OrderDetailsDialog from "@/components/admin/OrderDetailsDialog";
+import BlockUserDialog from "@/components/admin/BlockUserDialog";
+import ActivityLog from "@/components/admin/ActivityLog";
+import SalesDashboard from "@/components/admin/SalesDashboard";
+import LowStockPanel from "@/components/admin/LowStockPanel";
+import ShippingManagement from "@/components/admin/ShippingManagement";
+import TaxManagement from "@/components/admin/TaxManagement";
+import { updateOrderStatus as changeOrderStatus } from "@/lib/orders";
+import { ROLE_LABELS, type UserRole } from "@/lib/permissions";
 import type { Database } from "@/integrations/supabase/types";
 
 type OrderStatus = Database['public']['Enums']['order_status'];
+type PromotionType = Database['public']['Enums']['promotion_type'];
+type ReturnStatus = Database['public']['Enums']['return_status'];
 
 interface User {
   id: string;
   email: string;
   full_name: string | null;
-  role: string;
+  role: UserRole;
   is_blocked: boolean;
+  block_reason: string | null;
+  blocked_until: string | null;
   created_at: string;
 }
 
@@ -37,10 +70,17 @@ interface Book {
   id: string;
   title: string;
   author: string;
+  isbn: string | null;
   price: number;
+  original_price: number | null;
   stock_quantity: number;
-  description?: string;
-  category_id?: string;
+  reorder_threshold: number;
+  weight_grams: number;
+  tax_class: string;
+  is_featured: boolean | null;
+  description: string | null;
+  category_id: string | null;
+  image_url: string | null;
   categories: { name: string } | null;
 }
 
@@ -51,65 +91,97 @@ interface Category {
   created_at: string;
 }
 
+interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  type: PromotionType;
+  value: number;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  category_id: string | null;
+  min_spend: number;
+  usage_limit: number | null;
+  usage_limit_per_user: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  categories: { name: string } | null;
+  promotion_redemptions: { count: number }[];
+}
+
 interface Order {
   id: string;
   user_id: string;
   total_amount: number;
-  status: string;
+  status: OrderStatus;
   created_at: string;
   customer_email?: string;
   customer_name?: string;
 }
 
+interface ReturnRequest {
+  id: string;
+  order_id: string;
+  user_id: string;
+  status: ReturnStatus;
+  reason: string;
+  admin_note: string | null;
+  refund_amount: number | null;
+  created_at: string;
+  customer_email?: string;
+  orders: {
+    total_amount: number;
+    refunded_amount: number;
+    subtotal_amount: number;
+    discount_amount: number;
+  } | null;
+  return_request_items: Array<{
+    quantity: number;
+    order_items: {
+      price: number;
+      quantity: number;
+      tax_amount: number;
+      books: { title: string } | null;
+    } | null;
+  }>;
+}
+
 const Admin = () => {
   const { user } = useAuth();
-  const [userRole, setUserRole] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { can, isStaff, loading } = usePermissions();
   const [users, setUsers] = useState<User[]>([]);
   const [books, setBooks] = useState<Book[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [returnRequests, setReturnRequests] = useState<ReturnRequest[]>([]);
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [roleChange, setRoleChange] = useState<{ user: User; role: UserRole } | null>(null);
+  const [userToBlock, setUserToBlock] = useState<User | null>(null);
 
   useEffect(() => {
-    if (user) {
-      checkUserRole();
+    if (!loading && isStaff) {
+      fetchAllData();
     }
-  }, [user]);
-
-  const checkUserRole = async () => {
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (error) {
-      console.error('Error fetching user role:', error);
-      setLoading(false);
-    } else {
-      setUserRole(data.role);
-      if (data.role === 'admin') {
-        fetchAllData();
-      }
-      setLoading(false);
-    }
-  };
+  }, [loading, isStaff]);
 
+  // Only load what the current role is allowed to see
   const fetchAllData = async () => {
     await Promise.all([
-      fetchUsers(),
       fetchBooks(),
       fetchCategories(),
-      fetchOrders()
+      can('users.view') && fetchUsers(),
+      can('orders.view') && fetchOrders(),
+      can('promotions.write') && fetchPromotions(),
+      can('returns.manage') && fetchReturnRequests()
     ]);
   };
 
   const fetchUsers = async () => {
     const { data, error } = await supabase
       .from('profiles')
-      .select('id, email, full_name, role, is_blocked, created_at')
+      .select('id, email, full_name, role, is_blocked, block_reason, blocked_until, created_at')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -126,10 +198,17 @@ const Admin = () => {
         id,
         title,
         author,
+        isbn,
         price,
+        original_price,
         stock_quantity,
+        reorder_threshold,
+        weight_grams,
+        tax_class,
+        is_featured,
         description,
         category_id,
+        image_url,
         categories (name)
       `)
       .order('created_at', { ascending: false });
@@ -154,6 +233,23 @@ const Admin = () => {
     }
   };
 
+  const fetchPromotions = async () => {
+    const { data, error } = await supabase
+      .from('promotions')
+      .select(`
+        *,
+        categories (name),
+        promotion_redemptions (count)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching promotions:', error);
+    } else {
+      setPromotions(data || []);
+    }
+  };
+
   const fetchOrders = async () => {
     const { data: ordersData, error: ordersError } = await supabase
       .from('orders')
@@ -205,30 +301,93 @@ const Admin = () => {
     setOrders(ordersWithCustomerInfo);
   };
 
-  const toggleUserBlock = async (userId: string, isBlocked: boolean) => {
-    const { error } = await supabase
-      .from('profiles')
-      .update({ is_blocked: !isBlocked })
-      .eq('id', userId);
+  const fetchReturnRequests = async () => {
+    const { data, error } = await supabase
+      .from('return_requests')
+      .select(`
+        *,
+        orders (total_amount, refunded_amount, subtotal_amount, discount_amount),
+        return_request_items (
+          quantity,
+          order_items (
+            price,
+            quantity,
+            tax_amount,
+            books (title)
+          )
+        )
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching return requests:', error);
+      setReturnRequests([]);
+      return;
+    }
+
+    const userIds = [...new Set((data || []).map(request => request.user_id))];
+    const { data: profilesData, error: profilesError } = userIds.length
+      ? await supabase.from('profiles').select('id, email').in('id', userIds)
+      : { data: [], error: null };
+
+    if (profilesError) {
+      console.error('Error fetching profiles:', profilesError);
+    }
+
+    const emails = new Map((profilesData || []).map(profile => [profile.id, profile.email]));
+    setReturnRequests((data || []).map(request => ({
+      ...request,
+      customer_email: emails.get(request.user_id) || 'N/A'
+    })));
+  };
+
+  // Resolving a return can change the order's status and refunded amount
+  const refreshReturns = () => {
+    fetchReturnRequests();
+    fetchOrders();
+  };
+
+  // A block whose expiry has passed no longer applies
+  const isBlockActive = (userData: User) =>
+    userData.is_blocked && (!userData.blocked_until || new Date(userData.blocked_until) > new Date());
+
+  const unblockUser = async (userId: string) => {
+    const { error } = await supabase.rpc('set_user_block', { p_user_id: userId, p_blocked: false });
 
     if (error) {
       console.error('Error updating user:', error);
       toast.error('Failed to update user status');
     } else {
-      toast.success(`User ${!isBlocked ? 'blocked' : 'unblocked'} successfully`);
+      toast.success('User unblocked successfully');
+      fetchUsers();
+    }
+  };
+
+  const changeUserRole = async () => {
+    if (!roleChange) return;
+
+    const { user: target, role } = roleChange;
+    const { error } = await supabase.rpc('set_user_role', { p_user_id: target.id, p_role: role });
+
+    if (error) {
+      console.error('Error updating user role:', error);
+      toast.error(
+        error.message === 'CANNOT_CHANGE_OWN_ROLE'
+          ? "You can't change your own role"
+          : 'Failed to update user role'
+      );
+    } else {
+      toast.success(`Role for ${target.email} changed to ${ROLE_LABELS[role]}`);
       fetchUsers();
     }
+    setRoleChange(null);
   };
 
   const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
-    const { error } = await supabase
-      .from('orders')
-      .update({ status: newStatus })
-      .eq('id', orderId);
+    const { error } = await changeOrderStatus(orderId, newStatus);
 
     if (error) {
-      console.error('Error updating order status:', error);
-      toast.error('Failed to update order status');
+      toast.error(error);
     } else {
       toast.success(`Order status updated to ${newStatus}`);
       fetchOrders();
@@ -245,7 +404,7 @@ const Admin = () => {
     );
   }
 
-  if (!user || userRole !== 'admin') {
+  if (!user || !isStaff) {
     return <Navigate to="/" replace />;
   }
 
@@ -285,18 +444,62 @@ const Admin = () => {
             >
               Categories
             </TabsTrigger>
-            <TabsTrigger 
-              value="orders" 
-              className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
-            >
-              Orders
-            </TabsTrigger>
-            <TabsTrigger 
-              value="users" 
-              className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
-            >
-              Users
-            </TabsTrigger>
+            {can('orders.view') && (
+              <TabsTrigger 
+                value="orders" 
+                className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
+              >
+                Orders
+              </TabsTrigger>
+            )}
+            {can('returns.manage') && (
+              <TabsTrigger 
+                value="returns" 
+                className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
+              >
+                Returns
+              </TabsTrigger>
+            )}
+            {can('promotions.write') && (
+              <TabsTrigger 
+                value="promotions" 
+                className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
+              >
+                Promotions
+              </TabsTrigger>
+            )}
+            {can('shipping.manage') && (
+              <TabsTrigger 
+                value="shipping" 
+                className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
+              >
+                Shipping
+              </TabsTrigger>
+            )}
+            {can('tax.manage') && (
+              <TabsTrigger 
+                value="tax" 
+                className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
+              >
+                Tax
+              </TabsTrigger>
+            )}
+            {can('users.view') && (
+              <TabsTrigger 
+                value="users" 
+                className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
+              >
+                Users
+              </TabsTrigger>
+            )}
+            {can('audit.view') && (
+              <TabsTrigger 
+                value="activity" 
+                className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
+              >
+                Activity
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="overview">
@@ -314,29 +517,33 @@ const Admin = () => {
                 </CardContent>
               </Card>
 
-              <Card className="bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl">
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-                  <CardTitle className="text-base sm:text-lg font-semibold text-gray-700 dark:text-gray-200 font-sans">
-                    Total Users
-                  </CardTitle>
-                  <Users className="h-5 w-5 text-indigo-500 dark:text-indigo-400" />
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white font-sans">{users.length}</div>
-                </CardContent>
-              </Card>
-
-              <Card className="bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl">
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-                  <CardTitle className="text-base sm:text-lg font-semibold text-gray-700 dark:text-gray-200 font-sans">
-                    Total Orders
-                  </CardTitle>
-                  <Package className="h-5 w-5 text-indigo-500 dark:text-indigo-400" />
-                </CardHeader>
-                <CardContent>
-                  <div className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white font-sans">{orders.length}</div>
-                </CardContent>
-              </Card>
+              {can('users.view') && (
+                <Card className="bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                    <CardTitle className="text-base sm:text-lg font-semibold text-gray-700 dark:text-gray-200 font-sans">
+                      Total Users
+                    </CardTitle>
+                    <Users className="h-5 w-5 text-indigo-500 dark:text-indigo-400" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white font-sans">{users.length}</div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {can('orders.view') && (
+                <Card className="bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                    <CardTitle className="text-base sm:text-lg font-semibold text-gray-700 dark:text-gray-200 font-sans">
+                      Total Orders
+                    </CardTitle>
+                    <Package className="h-5 w-5 text-indigo-500 dark:text-indigo-400" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white font-sans">{orders.length}</div>
+                  </CardContent>
+                </Card>
+              )}
 
               <Card className="bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
@@ -350,6 +557,18 @@ const Admin = () => {
                 </CardContent>
               </Card>
             </div>
+
+            {can('inventory.manage') && (
+              <div className="mt-8">
+                <LowStockPanel />
+              </div>
+            )}
+
+            {can('reports.view') && (
+              <div className="mt-8">
+                <SalesDashboard />
+              </div>
+            )}
           </TabsContent>
 
           <TabsContent value="books">
@@ -407,6 +626,10 @@ const Admin = () => {
                               text-sm font-sans
                               ${order.status === 'pending' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' :
                               order.status === 'confirmed' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' :
+                              order.status === 'shipped' ? 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200' :
+                              order.status === 'cancelled' ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' :
+                              order.status === 'return_requested' ? 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200' :
+                              order.status === 'refunded' ? 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200' :
                               'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'}
                             `}
                           >
@@ -416,8 +639,8 @@ const Admin = () => {
                         <TableCell className="text-sm sm:text-base text-gray-700 dark:text-gray-300 font-sans">
                           {new Date(order.created_at).toLocaleDateString()}
                         </TableCell>
-                        <TableCell>
-                          {order.status === 'confirmed' && (
+                        <TableCell className="space-x-2">
+                          {can('orders.update') && (order.status === 'confirmed' || order.status === 'shipped') && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -427,6 +650,14 @@ const Admin = () => {
                               Mark as Delivered
                             </Button>
                           )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-sm border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans"
+                            onClick={() => setSelectedOrder(order)}
+                          >
+                            History
+                          </Button>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -434,8 +665,41 @@ const Admin = () => {
                 </Table>
               </CardContent>
             </Card>
+
+            <OrderDetailsDialog
+              order={selectedOrder}
+              onOpenChange={(open) => !open && setSelectedOrder(null)}
+              onStatusChanged={fetchOrders}
+            />
+          </TabsContent>
+
+          <TabsContent value="returns">
+            <ReturnsManagement
+              returnRequests={returnRequests}
+              onRefresh={refreshReturns}
+            />
           </TabsContent>
 
+          <TabsContent value="promotions">
+            <PromotionManagement
+              promotions={promotions}
+              categories={categories}
+              onRefresh={fetchPromotions}
+            />
+          </TabsContent>
+
+          {can('shipping.manage') && (
+            <TabsContent value="shipping">
+              <ShippingManagement />
+            </TabsContent>
+          )}
+
+          {can('tax.manage') && (
+            <TabsContent value="tax">
+              <TaxManagement />
+            </TabsContent>
+          )}
+
           <TabsContent value="users">
             <Card className="bg-white dark:bg-gray-800 shadow-lg rounded-2xl">
               <CardHeader>
@@ -464,40 +728,68 @@ const Admin = () => {
                           {userData.full_name || 'N/A'}
                         </TableCell>
                         <TableCell>
-                          <Badge 
-                            variant={userData.role === 'admin' ? 'default' : 'secondary'}
-                            className={`
-                              text-sm font-sans
-                              ${userData.role === 'admin' ? 
-                              'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200' : 
-                              'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'}
-                            `}
-                          >
-                            {userData.role}
-                          </Badge>
+                          {can('users.roles') && userData.id !== user.id ? (
+                            <Select
+                              value={userData.role}
+                              onValueChange={(role) => setRoleChange({ user: userData, role: role as UserRole })}
+                            >
+                              <SelectTrigger className="w-40 h-8 text-sm text-gray-900 dark:text-white font-sans bg-gray-50 dark:bg-gray-700">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans">
+                                {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+                                  <SelectItem key={role} value={role} className="text-sm font-sans">
+                                    {ROLE_LABELS[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge 
+                              variant={userData.role === 'admin' ? 'default' : 'secondary'}
+                              className={`
+                                text-sm font-sans
+                                ${userData.role === 'admin' ? 
+                                'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200' : 
+                                'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'}
+                              `}
+                            >
+                              {ROLE_LABELS[userData.role]}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge 
-                            variant={userData.is_blocked ? 'destructive' : 'default'}
+                            variant={isBlockActive(userData) ? 'destructive' : 'default'}
                             className={`
                               text-sm font-sans
-                              ${userData.is_blocked ? 
+                              ${isBlockActive(userData) ? 
                               'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' : 
                               'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'}
                             `}
                           >
-                            {userData.is_blocked ? 'Blocked' : 'Active'}
+                            {isBlockActive(userData) ? 'Blocked' : 'Active'}
                           </Badge>
+                          {isBlockActive(userData) && (
+                            <div className="mt-1 max-w-[14rem] text-xs text-gray-600 dark:text-gray-400 font-sans">
+                              {userData.block_reason && <p>{userData.block_reason}</p>}
+                              <p>
+                                {userData.blocked_until
+                                  ? `Until ${new Date(userData.blocked_until).toLocaleString()}`
+                                  : 'No end date'}
+                              </p>
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
-                          {userData.role !== 'admin' && (
+                          {can('users.block') && userData.role !== 'admin' && userData.id !== user.id && (
                             <Button
                               variant="outline"
                               size="sm"
                               className="text-sm border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans"
-                              onClick={() => toggleUserBlock(userData.id, userData.is_blocked)}
+                              onClick={() => isBlockActive(userData) ? unblockUser(userData.id) : setUserToBlock(userData)}
                             >
-                              {userData.is_blocked ? 'Unblock' : 'Block'}
+                              {isBlockActive(userData) ? 'Unblock' : 'Block'}
                             </Button>
                           )}
                         </TableCell>
@@ -507,7 +799,45 @@ const Admin = () => {
                 </Table>
               </CardContent>
             </Card>
+
+            <BlockUserDialog
+              user={userToBlock}
+              onOpenChange={(open) => !open && setUserToBlock(null)}
+              onBlocked={fetchUsers}
+            />
+
+            <AlertDialog open={!!roleChange} onOpenChange={(open) => !open && setRoleChange(null)}>
+              <AlertDialogContent className="bg-white dark:bg-gray-800 rounded-2xl font-sans">
+                <AlertDialogHeader>
+                  <AlertDialogTitle className="text-gray-900 dark:text-white font-sans">
+                    Change role to {roleChange ? ROLE_LABELS[roleChange.role] : ''}?
+                  </AlertDialogTitle>
+                  <AlertDialogDescription className="text-gray-600 dark:text-gray-400 font-sans">
+                    {roleChange?.role === 'admin'
+                      ? `${roleChange?.user.email} will be able to manage everything in this dashboard, including other users' roles.`
+                      : roleChange?.role === 'customer'
+                      ? `${roleChange?.user.email} will lose access to the admin dashboard.`
+                      : `${roleChange?.user.email} will only see the parts of the dashboard a ${roleChange ? ROLE_LABELS[roleChange.role].toLowerCase() : ''} needs.`}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel className="font-sans">Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={changeUserRole}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white font-sans"
+                  >
+                    Confirm
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
           </TabsContent>
+
+          {can('audit.view') && (
+            <TabsContent value="activity">
+              <ActivityLog />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
 
@@ -4,13 +4,18 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, ShoppingCart, Heart, Star, MessageSquare } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, ShoppingCart, Star, MessageSquare, Minus, Plus } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { addToCart } from "@/lib/cart";
 import { toast } from "sonner";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import WishlistButton from "@/components/WishlistButton";
 import ReviewDialog from "@/components/ReviewDialog";
+import StockBadge from "@/components/StockBadge";
+import NotifyMeButton from "@/components/NotifyMeButton";
 
 interface Book {
   id: string;
@@ -23,6 +28,7 @@ interface Book {
   isbn: string | null;
   rating: number | null;
   review_count: number | null;
+  rating_distribution: Record<string, number> | null;
   stock_quantity: number;
   categories: { name: string } | null;
 }
@@ -35,7 +41,6 @@ interface Review {
   user_id: string;
   profiles: {
     full_name: string | null;
-    email: string;
   } | null;
 }
 
@@ -46,6 +51,7 @@ const BookDetails = () => {
   const [reviews, setReviews] = useState<Review[]>([]);
   const [loading, setLoading] = useState(true);
   const [addingToCart, setAddingToCart] = useState(false);
+  const [quantity, setQuantity] = useState(1);
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [canReview, setCanReview] = useState(false);
 
@@ -66,6 +72,8 @@ const BookDetails = () => {
       if (bookError) {
         console.error('Error fetching book:', bookError);
         toast.error('Failed to load book details');
+      } else {
+        setBook(bookData as unknown as Book);
       }
 
       // Fetch reviews with manual join to profiles
@@ -85,45 +93,20 @@ const BookDetails = () => {
         console.error('Error fetching reviews:', reviewsError);
         setReviews([]);
       } else if (reviewsData) {
-        // Fetch profile information for each review
-        const reviewsWithProfiles = await Promise.all(
-          reviewsData.map(async (review) => {
-            const { data: profileData } = await supabase
-              .from('profiles')
-              .select('full_name, email')
-              .eq('id', review.user_id)
-              .single();
-
-            return {
-              ...review,
-              profiles: profileData || null
-            };
-          })
+        // Fetch the reviewers' names in one query
+        const { data: profilesData } = await supabase.rpc('get_reviewer_names', {
+          p_user_ids: [...new Set(reviewsData.map((review) => review.user_id))]
+        });
+
+        const profilesById = new Map((profilesData || []).map((profile) => [profile.id, profile]));
+        setReviews(
+          reviewsData.map((review) => ({
+            ...review,
+            profiles: profilesById.get(review.user_id) || null
+          }))
         );
-        setReviews(reviewsWithProfiles);
-
-        // Calculate real review statistics
-        if (bookData) {
-          const reviewCount = reviewsData.length;
-          const averageRating = reviewCount > 0 
-            ? reviewsData.reduce((sum, review) => sum + review.rating, 0) / reviewCount 
-            : 0;
-
-          setBook({
-            ...bookData,
-            rating: averageRating,
-            review_count: reviewCount
-          });
-        }
       } else {
         setReviews([]);
-        if (bookData) {
-          setBook({
-            ...bookData,
-            rating: 0,
-            review_count: 0
-          });
-        }
       }
 
       // Check if user can review (has purchased and received the book)
@@ -150,26 +133,24 @@ const BookDetails = () => {
     fetchBookAndReviews();
   }, [id, user]);
 
-  const addToCart = async () => {
-    if (!user || !book) {
-      toast.error('Please login to add items to cart');
-      return;
-    }
+  const handleAddToCart = async () => {
+    if (!book) return;
 
     setAddingToCart(true);
-    const { error } = await supabase
-      .from('cart_items')
-      .upsert({
-        user_id: user.id,
-        book_id: book.id,
-        quantity: 1
-      });
+    const { error, stockLimit } = await addToCart(user?.id ?? null, book.id, quantity);
 
     if (error) {
       console.error('Error adding to cart:', error);
       toast.error('Failed to add to cart');
+    } else if (stockLimit !== null) {
+      toast.info(stockLimit === 0
+        ? 'This book has just sold out'
+        : `Only ${stockLimit} in stock, so your cart now has all of them`);
+      setBook({ ...book, stock_quantity: stockLimit });
+      setQuantity(1);
     } else {
       toast.success('Added to cart successfully!');
+      setQuantity(1);
     }
     setAddingToCart(false);
   };
@@ -332,26 +313,60 @@ const BookDetails = () => {
             </div>
 
             <div className="space-y-4">
-              <div className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+              <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 font-sans">
                 Stock: {book.stock_quantity > 0 ? `${book.stock_quantity} available` : 'Out of stock'}
+                <StockBadge stockQuantity={book.stock_quantity} />
               </div>
               
               <div className="flex space-x-4">
-                <Button 
-                  className="flex-1 text-sm sm:text-base bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 font-sans" 
-                  onClick={addToCart}
-                  disabled={addingToCart || book.stock_quantity === 0}
-                >
-                  <ShoppingCart className="h-5 w-5 mr-2" />
-                  {addingToCart ? 'Adding...' : 'Add to Cart'}
-                </Button>
-                <Button 
-                  variant="outline" 
-                  size="icon" 
+                {book.stock_quantity > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setQuantity(quantity - 1)}
+                      disabled={quantity <= 1}
+                      aria-label="Decrease quantity"
+                      className="border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900"
+                    >
+                      <Minus className="h-5 w-5" />
+                    </Button>
+                    <span className="w-8 text-center text-sm sm:text-base font-semibold text-gray-900 dark:text-white font-sans">
+                      {quantity}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setQuantity(quantity + 1)}
+                      disabled={quantity >= book.stock_quantity}
+                      aria-label="Increase quantity"
+                      className="border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900"
+                    >
+                      <Plus className="h-5 w-5" />
+                    </Button>
+                  </div>
+                )}
+                {book.stock_quantity === 0 ? (
+                  <NotifyMeButton
+                    bookId={book.id}
+                    title={book.title}
+                    className="flex-1 text-sm sm:text-base bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 font-sans"
+                  />
+                ) : (
+                  <Button 
+                    className="flex-1 text-sm sm:text-base bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 font-sans" 
+                    onClick={handleAddToCart}
+                    disabled={addingToCart}
+                  >
+                    <ShoppingCart className="h-5 w-5 mr-2" />
+                    {addingToCart ? 'Adding...' : 'Add to Cart'}
+                  </Button>
+                )}
+                <WishlistButton
+                  bookId={book.id}
+                  title={book.title}
                   className="border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900"
-                >
-                  <Heart className="h-5 w-5" />
-                </Button>
+                />
               </div>
 
               {canReview && (
@@ -374,10 +389,37 @@ const BookDetails = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-xl sm:text-2xl font-bold text-gray-900 dark:text-white font-sans">
                 <MessageSquare className="h-5 w-5 text-indigo-500 dark:text-indigo-400" />
-                Customer Reviews ({reviews.length})
+                Customer Reviews ({book.review_count || 0})
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {!!book.review_count && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-6 mb-8">
+                  <div className="text-center sm:w-40">
+                    <div className="text-4xl font-bold text-gray-900 dark:text-white font-sans">
+                      {(book.rating || 0).toFixed(1)}
+                    </div>
+                    <div className="flex justify-center my-1">
+                      {renderStars(book.rating || 0)}
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+                      {book.review_count} {book.review_count === 1 ? 'review' : 'reviews'}
+                    </div>
+                  </div>
+                  <div className="flex-1 space-y-1.5">
+                    {[5, 4, 3, 2, 1].map((stars) => {
+                      const count = book.rating_distribution?.[stars] || 0;
+                      return (
+                        <div key={stars} className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400 font-sans">
+                          <span className="w-12">{stars} star</span>
+                          <Progress value={(count / book.review_count!) * 100} className="h-2 flex-1" />
+                          <span className="w-8 text-right">{count}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
               {reviews.length === 0 ? (
                 <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 text-center py-8 font-sans">
                   No reviews yet. Be the first to review this book!
@@ -393,7 +435,7 @@ const BookDetails = () => {
                               {renderStars(review.rating)}
                             </div>
                             <span className="text-sm sm:text-base font-medium text-gray-900 dark:text-white font-sans">
-                              {review.profiles?.full_name || review.profiles?.email || 'Anonymous'}
+                              {review.profiles?.full_name || 'Anonymous'}
                             </span>
                             <span className="text-sm text-gray-600 dark:text-gray-400 font-sans">
                               {new Date(review.created_at).toLocaleDateString()}
@@ -1,45 +1,71 @@
 import { useState, useEffect } from "react";
-import { useSearchParams } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, Filter } from "lucide-react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Search, Filter, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { searchBooks, fetchSearchFacets, type SearchResult, type SearchFacets, type SearchSort } from "@/lib/search";
+import { useCatalogFilters, type CatalogFilters } from "@/hooks/useCatalogFilters";
 import BookCard from "@/components/BookCard";
+import CatalogFacets from "@/components/CatalogFacets";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 
-interface Book {
-  id: string;
-  title: string;
-  author: string;
-  price: number;
-  original_price: number | null;
-  image_url: string | null;
-  rating: number | null;
-  review_count: number | null;
-  categories: { name: string } | null;
-}
-
 interface Category {
   id: string;
   name: string;
 }
 
+const PAGE_SIZE = 24;
+
+// Page numbers to show: the first, the last and a window around the current page
+const getPageNumbers = (current: number, total: number): (number | "ellipsis")[] => {
+  const pages: (number | "ellipsis")[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== "ellipsis") {
+      pages.push("ellipsis");
+    }
+  }
+  return pages;
+};
+
 const Books = () => {
-  const [searchParams, setSearchParams] = useSearchParams();
-  const [books, setBooks] = useState<Book[]>([]);
+  const { filters, setFilters, clearFilters: resetFilters, pageHref } = useCatalogFilters();
+  const [books, setBooks] = useState<SearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
-  const [selectedCategory, setSelectedCategory] = useState(searchParams.get('category') || 'all');
-  const [sortBy, setSortBy] = useState(searchParams.get('sort') || 'title');
+  const [searchInput, setSearchInput] = useState(filters.query);
+  const { query: searchQuery, category, sort: sortBy, page, minPrice, maxPrice, minRating, inStock, onSale } = filters;
 
   useEffect(() => {
     fetchCategories();
+  }, []);
+
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
+
+  useEffect(() => {
     fetchBooks();
-  }, [searchQuery, selectedCategory, sortBy]);
+  }, [searchQuery, category, sortBy, page, minPrice, maxPrice, minRating, inStock, onSale]);
+
+  useEffect(() => {
+    fetchFacets();
+  }, [searchQuery, category, minPrice, maxPrice, minRating, inStock, onSale]);
 
   const fetchCategories = async () => {
     const { data, error } = await supabase
@@ -54,52 +80,23 @@ const Books = () => {
     }
   };
 
-  const fetchBooks = async () => {
-    setLoading(true);
-    let query = supabase
-      .from('books')
-      .select(`
-        id,
-        title,
-        author,
-        price,
-        original_price,
-        image_url,
-        categories (name)
-      `);
-
-    // Apply search filter
-    if (searchQuery) {
-      query = query.or(`title.ilike.%${searchQuery}%,author.ilike.%${searchQuery}%`);
-    }
+  const fetchFacets = async () => {
+    const { data, error } = await fetchSearchFacets(filters);
 
-    // Apply category filter - only if not "all"
-    if (selectedCategory && selectedCategory !== 'all') {
-      const category = categories.find(c => c.name === selectedCategory);
-      if (category) {
-        query = query.eq('category_id', category.id);
-      }
-    }
-
-    // Apply sorting
-    switch (sortBy) {
-      case 'price_low':
-        query = query.order('price', { ascending: true });
-        break;
-      case 'price_high':
-        query = query.order('price', { ascending: false });
-        break;
-      case 'rating':
-        query = query.order('rating', { ascending: false });
-        break;
-      case 'newest':
-        query = query.order('created_at', { ascending: false });
-        break;
-      default:
-        query = query.order('title', { ascending: true });
+    if (error) {
+      console.error('Error fetching filter counts:', error);
+    } else {
+      setFacets(data);
     }
+  };
 
-    const { data, error } = await query;
+  const fetchBooks = async () => {
+    setLoading(true);
+    const { data, total, error } = await searchBooks({
+      ...filters,
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    });
 
     if (error) {
       console.error('Error fetching books:', error);
@@ -107,56 +104,40 @@ const Books = () => {
       return;
     }
 
-    if (data) {
-      // Fetch real review data for each book
-      const booksWithReviews = await Promise.all(
-        data.map(async (book) => {
-          const { data: reviewsData } = await supabase
-            .from('reviews')
-            .select('rating')
-            .eq('book_id', book.id);
-
-          const reviewCount = reviewsData?.length || 0;
-          const averageRating = reviewCount > 0 
-            ? reviewsData.reduce((sum, review) => sum + review.rating, 0) / reviewCount 
-            : 0;
-
-          return {
-            ...book,
-            rating: averageRating,
-            review_count: reviewCount
-          };
-        })
-      );
-
-      setBooks(booksWithReviews);
-    }
-
+    setBooks(data);
+    setTotalCount(total);
     setLoading(false);
   };
 
-  const updateSearchParams = (key: string, value: string) => {
-    const newParams = new URLSearchParams(searchParams);
-    if (value && value !== 'all') {
-      newParams.set(key, value);
-    } else {
-      newParams.delete(key);
-    }
-    setSearchParams(newParams);
-  };
-
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    updateSearchParams('search', searchQuery);
+    setFilters({ query: searchInput.trim() });
   };
 
   const clearFilters = () => {
-    setSearchQuery('');
-    setSelectedCategory('all');
-    setSortBy('title');
-    setSearchParams({});
+    setSearchInput('');
+    resetFilters();
+  };
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    setFilters({ page: target });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const activeFilters: { label: string; clear: Partial<CatalogFilters> }[] = [
+    ...(searchQuery ? [{ label: `Search: "${searchQuery}"`, clear: { query: '' } }] : []),
+    ...(category ? [{ label: `Category: ${category}`, clear: { category: null } }] : []),
+    ...(minPrice !== null || maxPrice !== null
+      ? [{ label: `Price: $${minPrice ?? facets?.price.min ?? 0} – $${maxPrice ?? facets?.price.max ?? ''}`, clear: { minPrice: null, maxPrice: null } }]
+      : []),
+    ...(minRating ? [{ label: `${minRating}+ stars`, clear: { minRating: null } }] : []),
+    ...(inStock ? [{ label: 'In stock', clear: { inStock: false } }] : []),
+    ...(onSale ? [{ label: 'On sale', clear: { onSale: false } }] : []),
+  ];
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300 font-sans">
       <Header />
@@ -171,46 +152,28 @@ const Books = () => {
           </p>
         </div>
         
-        {/* Search and Filters */}
+        {/* Search and Sort */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8 bg-white dark:bg-gray-800 shadow-lg rounded-2xl p-6">
-          <form onSubmit={handleSearch} className="md:col-span-2">
+          <form onSubmit={handleSearch} className="md:col-span-3">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-indigo-500 dark:text-indigo-400 h-5 w-5" />
               <Input
                 type="text"
-                placeholder="Search books or authors..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search titles, authors, ISBNs..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 className="pl-10 text-sm sm:text-base border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white font-sans rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
               />
             </div>
           </form>
-          
-          <Select value={selectedCategory} onValueChange={(value) => {
-            setSelectedCategory(value);
-            updateSearchParams('category', value);
-          }}>
-            <SelectTrigger className="text-sm sm:text-base border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white font-sans rounded-lg focus:ring-indigo-500 focus:border-indigo-500">
-              <SelectValue placeholder="Category" />
-            </SelectTrigger>
-            <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans rounded-lg">
-              <SelectItem value="all" className="text-sm sm:text-base font-sans">All Categories</SelectItem>
-              {categories.map((category) => (
-                <SelectItem key={category.id} value={category.name} className="text-sm sm:text-base font-sans">
-                  {category.name}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-          
-          <Select value={sortBy} onValueChange={(value) => {
-            setSortBy(value);
-            updateSearchParams('sort', value);
-          }}>
+          <Select value={sortBy} onValueChange={(value) => setFilters({ sort: value as SearchSort })}>
             <SelectTrigger className="text-sm sm:text-base border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white font-sans rounded-lg focus:ring-indigo-500 focus:border-indigo-500">
               <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-sans rounded-lg">
+              {searchQuery && (
+                <SelectItem value="relevance" className="text-sm sm:text-base font-sans">Best Match</SelectItem>
+              )}
               <SelectItem value="title" className="text-sm sm:text-base font-sans">Title (A-Z)</SelectItem>
               <SelectItem value="price_low" className="text-sm sm:text-base font-sans">Price (Low to High)</SelectItem>
               <SelectItem value="price_high" className="text-sm sm:text-base font-sans">Price (High to Low)</SelectItem>
@@ -220,75 +183,145 @@ const Books = () => {
           </Select>
         </div>
 
-        {/* Active Filters */}
-        <div className="flex flex-wrap items-center gap-2 mb-6">
-          {searchQuery && (
-            <Badge className="bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200 text-sm font-sans">
-              Search: "{searchQuery}"
-            </Badge>
-          )}
-          {selectedCategory && selectedCategory !== 'all' && (
-            <Badge className="bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200 text-sm font-sans">
-              Category: {selectedCategory}
-            </Badge>
-          )}
-          {(searchQuery || (selectedCategory && selectedCategory !== 'all')) && (
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              onClick={clearFilters}
-              className="text-sm sm:text-base text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900 font-sans"
-            >
-              <Filter className="h-5 w-5 mr-1" />
-              Clear Filters
-            </Button>
-          )}
-        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <aside className="lg:col-span-1">
+            <CatalogFacets
+              facets={facets}
+              categories={categories}
+              filters={filters}
+              onChange={setFilters}
+            />
+          </aside>
+
+          <div className="lg:col-span-3">
+            {/* Active Filters */}
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              {!loading && (
+                <span className="text-sm text-gray-600 dark:text-gray-400 font-sans mr-2">
+                  {totalCount === 1 ? '1 book' : `${totalCount} books`}
+                </span>
+              )}
+              {activeFilters.map((filter) => (
+                <Badge
+                  key={filter.label}
+                  className="bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200 text-sm font-sans"
+                >
+                  {filter.label}
+                  <button
+                    type="button"
+                    onClick={() => setFilters(filter.clear)}
+                    className="ml-1 hover:text-indigo-600 dark:hover:text-indigo-400"
+                    aria-label={`Remove ${filter.label}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {activeFilters.length > 0 && (
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={clearFilters}
+                  className="text-sm sm:text-base text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900 font-sans"
+                >
+                  <Filter className="h-5 w-5 mr-1" />
+                  Clear Filters
+                </Button>
+              )}
+            </div>
 
-        {/* Books Grid */}
-        {loading ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-            {[1, 2, 3, 4, 5, 6, 7, 8].map((i) => (
-              <div key={i} className="animate-pulse">
-                <div className="h-80 bg-gray-200 dark:bg-gray-700 rounded-2xl mb-4"></div>
-                <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4 mb-2"></div>
-                <div class corridoor="h-4 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+            {/* Books Grid */}
+            {loading ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+                {[1, 2, 3, 4, 5, 6].map((i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="h-80 bg-gray-200 dark:bg-gray-700 rounded-2xl mb-4"></div>
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4 mb-2"></div>
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-        ) : books.length === 0 ? (
-          <div className="text-center py-16">
-            <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white mb-2 font-sans">
-              No books found
-            </h2>
-            <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 mb-4 font-sans">
-              Try adjusting your search or filters
-            </p>
-            <Button 
-              onClick={clearFilters}
-              className="text-sm sm:text-base bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 font-sans"
-            >
-              Clear Filters
-            </Button>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-            {books.map((book) => (
-              <BookCard
-                key={book.id}
-                id={book.id}
-                title={book.title}
-                author={book.author}
-                price={book.price}
-                originalPrice={book.original_price}
-                image={book.image_url || 'https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400&h=600&fit=crop'}
-                category={book.categories?.name || 'Uncategorized'}
-                rating={book.rating || 0}
-                reviewCount={book.review_count || 0}
-              />
-            ))}
+            ) : books.length === 0 ? (
+              <div className="text-center py-16">
+                <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white mb-2 font-sans">
+                  No books found
+                </h2>
+                <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 mb-4 font-sans">
+                  Try adjusting your search or filters
+                </p>
+                <Button 
+                  onClick={clearFilters}
+                  className="text-sm sm:text-base bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 font-sans"
+                >
+                  Clear Filters
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+                  {books.map((book) => (
+                    <BookCard
+                      key={book.id}
+                      id={book.id}
+                      title={book.title}
+                      author={book.author}
+                      price={book.price}
+                      originalPrice={book.original_price}
+                      image={book.image_url || 'https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400&h=600&fit=crop'}
+                      category={book.category_name || 'Uncategorized'}
+                      rating={book.rating || 0}
+                      reviewCount={book.review_count || 0}
+                      stockQuantity={book.stock_quantity}
+                      titleHighlight={searchQuery ? book.title_highlight : undefined}
+                      snippet={searchQuery ? book.snippet : undefined}
+                    />
+                  ))}
+                </div>
+
+                {totalPages > 1 && (
+                  <Pagination className="mt-10">
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationPrevious
+                          href={pageHref(Math.max(1, page - 1))}
+                          onClick={(e) => page > 1 && goToPage(e, page - 1)}
+                          aria-disabled={page <= 1}
+                          className={page <= 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                        />
+                      </PaginationItem>
+                      {getPageNumbers(page, totalPages).map((item, index) =>
+                        item === 'ellipsis' ? (
+                          <PaginationItem key={`ellipsis-${index}`}>
+                            <PaginationEllipsis />
+                          </PaginationItem>
+                        ) : (
+                          <PaginationItem key={item}>
+                            <PaginationLink
+                              href={pageHref(item)}
+                              isActive={item === page}
+                              onClick={(e) => goToPage(e, item)}
+                              className="cursor-pointer"
+                            >
+                              {item}
+                            </PaginationLink>
+                          </PaginationItem>
+                        )
+                      )}
+                      <PaginationItem>
+                        <PaginationNext
+                          href={pageHref(Math.min(totalPages, page + 1))}
+                          onClick={(e) => page < totalPages && goToPage(e, page + 1)}
+                          aria-disabled={page >= totalPages}
+                          className={page >= totalPages ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                        />
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                )}
+              </>
+            )}
           </div>
-        )}
+        </div>
       </div>
 
       <Footer />
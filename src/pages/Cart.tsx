@@ -2,67 +2,101 @@ import { useState, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Trash2, Plus, Minus, ShoppingBag } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Trash2, Plus, Minus, ShoppingBag, AlertTriangle } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import {
+  fetchCart,
+  updateCartItemQuantity,
+  removeCartItem,
+  getUnavailableItems,
+  type CartItem,
+} from "@/lib/cart";
 import { toast } from "sonner";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import CheckoutDialog from "@/components/CheckoutDialog";
-
-interface CartItem {
-  id: string;
-  quantity: number;
-  books: {
-    id: string;
-    title: string;
-    author: string;
-    price: number;
-    image_url: string | null;
-    stock_quantity: number;
-  };
-}
+import PromoCodeInput from "@/components/PromoCodeInput";
+import StockBadge from "@/components/StockBadge";
+import { validatePromotion, type AppliedPromotion } from "@/lib/promotions";
+import { fetchAddresses } from "@/lib/addresses";
+import { fetchTaxDisplay, quoteTax, sumTax, taxLabel, type TaxDisplay, type TaxLine } from "@/lib/tax";
 
 const Cart = () => {
-  const { user } = useAuth();
+  const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState<string | null>(null);
   const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const [promotion, setPromotion] = useState<AppliedPromotion | null>(null);
+  const [taxDisplay, setTaxDisplay] = useState<TaxDisplay>('exclusive');
+  // Null until we know where the order is going
+  const [taxLines, setTaxLines] = useState<TaxLine[] | null>(null);
+  const promoCode = promotion?.code;
 
   useEffect(() => {
-    if (!user) {
-      navigate('/login');
+    fetchTaxDisplay().then(setTaxDisplay);
+  }, []);
+
+  useEffect(() => {
+    if (authLoading) return;
+    fetchCartItems();
+
+    // Picks up the guest cart being merged in after sign-in, and stock that
+    // sold while the customer was on another tab
+    window.addEventListener('cartUpdated', fetchCartItems);
+    window.addEventListener('focus', fetchCartItems);
+    return () => {
+      window.removeEventListener('cartUpdated', fetchCartItems);
+      window.removeEventListener('focus', fetchCartItems);
+    };
+  }, [user, authLoading]);
+
+  // The discount depends on the cart contents, so re-check the code whenever they change
+  useEffect(() => {
+    if (!promoCode || cartItems.length === 0) return;
+
+    validatePromotion(promoCode).then(({ promotion: refreshed, error }) => {
+      if (error) {
+        toast.error(error);
+        setPromotion(null);
+      } else {
+        setPromotion(refreshed);
+      }
+    });
+  }, [cartItems, promoCode]);
+
+  // Estimate tax for the default shipping address; checkout works it out for
+  // the address actually chosen
+  useEffect(() => {
+    if (!user || cartItems.length === 0) {
+      setTaxLines(null);
       return;
     }
-    fetchCartItems();
-  }, [user, navigate]);
+
+    const estimateTax = async () => {
+      const addresses = await fetchAddresses(user.id);
+      const address = addresses.find((a) => a.is_default_shipping) || addresses[0];
+      if (!address) {
+        setTaxLines(null);
+        return;
+      }
+
+      const { data, error } = await quoteTax(address.country_code, address.region, promoCode);
+      setTaxLines(error ? null : data);
+    };
+
+    estimateTax();
+  }, [user, cartItems, promoCode]);
 
   const fetchCartItems = async () => {
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from('cart_items')
-      .select(`
-        id,
-        quantity,
-        books (
-          id,
-          title,
-          author,
-          price,
-          image_url,
-          stock_quantity
-        )
-      `)
-      .eq('user_id', user.id);
+    const { data, error } = await fetchCart(user?.id ?? null);
 
     if (error) {
       console.error('Error fetching cart items:', error);
       toast.error('Failed to load cart items');
     } else {
-      setCartItems(data || []);
+      setCartItems(data);
     }
     setLoading(false);
   };
@@ -71,44 +105,64 @@ const Cart = () => {
     if (newQuantity < 1) return;
     
     setUpdating(itemId);
-    const { error } = await supabase
-      .from('cart_items')
-      .update({ quantity: newQuantity })
-      .eq('id', itemId);
+    const { error } = await updateCartItemQuantity(user?.id ?? null, itemId, newQuantity);
 
     if (error) {
       console.error('Error updating quantity:', error);
       toast.error('Failed to update quantity');
-    } else {
-      fetchCartItems();
     }
     setUpdating(null);
   };
 
   const removeItem = async (itemId: string) => {
     setUpdating(itemId);
-    const { error } = await supabase
-      .from('cart_items')
-      .delete()
-      .eq('id', itemId);
+    const { error } = await removeCartItem(user?.id ?? null, itemId);
 
     if (error) {
       console.error('Error removing item:', error);
       toast.error('Failed to remove item');
     } else {
-      fetchCartItems();
       toast.success('Item removed from cart');
     }
     setUpdating(null);
   };
 
+  // Trims each unavailable item down to the stock that's left, removing sold-out books
+  const adjustUnavailableItems = async () => {
+    setUpdating('unavailable');
+    for (const item of unavailableItems) {
+      const { error } = item.books.stock_quantity === 0
+        ? await removeCartItem(user?.id ?? null, item.id)
+        : await updateCartItemQuantity(user?.id ?? null, item.id, item.books.stock_quantity);
+
+      if (error) {
+        console.error('Error adjusting cart item:', error);
+        toast.error(`Failed to update "${item.books.title}"`);
+      }
+    }
+    setUpdating(null);
+  };
+
+  const handleCheckout = () => {
+    if (!user) {
+      toast.info('Log in to check out. Your cart will be kept.');
+      navigate('/login');
+      return;
+    }
+    setCheckoutOpen(true);
+  };
+
   const handleOrderComplete = () => {
     fetchCartItems();
     // Refresh the page to update cart count in header
     window.location.reload();
   };
 
-  const total = cartItems.reduce((sum, item) => sum + (item.books.price * item.quantity), 0);
+  const unavailableItems = getUnavailableItems(cartItems);
+  const subtotal = cartItems.reduce((sum, item) => sum + (item.books.price * item.quantity), 0);
+  const discount = Math.min(promotion?.discount_amount || 0, subtotal);
+  const total = subtotal - discount;
+  const tax = taxLines ? sumTax(taxLines) : 0;
 
   if (loading) {
     return (
@@ -159,6 +213,34 @@ const Cart = () => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Cart Items */}
             <div className="lg:col-span-2 space-y-4">
+              {unavailableItems.length > 0 && (
+                <div className="flex items-start gap-3 rounded-2xl border border-amber-300 bg-amber-50 p-4 dark:border-amber-700 dark:bg-amber-950">
+                  <AlertTriangle className="h-5 w-5 shrink-0 text-amber-500 mt-0.5" />
+                  <div className="flex-1 space-y-2">
+                    <p className="text-sm sm:text-base font-semibold text-amber-900 dark:text-amber-100 font-sans">
+                      Some items are no longer available in the quantity you added
+                    </p>
+                    <ul className="text-sm text-amber-800 dark:text-amber-200 font-sans space-y-0.5">
+                      {unavailableItems.map((item) => (
+                        <li key={item.id}>
+                          "{item.books.title}": {item.books.stock_quantity === 0
+                            ? 'now out of stock'
+                            : `only ${item.books.stock_quantity} left (you have ${item.quantity})`}
+                        </li>
+                      ))}
+                    </ul>
+                    <Button
+                      size="sm"
+                      onClick={adjustUnavailableItems}
+                      disabled={updating !== null}
+                      className="text-sm bg-amber-600 hover:bg-amber-700 dark:bg-amber-500 dark:hover:bg-amber-600 text-white font-sans"
+                    >
+                      Update My Cart
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {cartItems.map((item) => (
                 <Card key={item.id} className="bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl">
                   <CardContent className="p-6">
@@ -181,6 +263,7 @@ const Cart = () => {
                         <p className="text-base sm:text-lg font-bold text-indigo-600 dark:text-indigo-400 mt-2 font-sans">
                           ${item.books.price.toFixed(2)}
                         </p>
+                        <StockBadge stockQuantity={item.books.stock_quantity} className="mt-1" />
                       </div>
 
                       <div className="flex items-center space-x-2">
@@ -188,7 +271,7 @@ const Cart = () => {
                           variant="outline"
                           size="icon"
                           onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                          disabled={updating === item.id || item.quantity <= 1}
+                          disabled={updating === item.id || item.quantity <= 1 || item.books.stock_quantity === 0}
                           className="border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900"
                         >
                           <Minus className="h-5 w-5" />
@@ -233,27 +316,54 @@ const Cart = () => {
                   <div className="space-y-2 mb-4">
                     <div className="flex justify-between text-sm sm:text-base text-gray-700 dark:text-gray-300 font-sans">
                       <span>Subtotal</span>
-                      <span>${total.toFixed(2)}</span>
+                      <span>${subtotal.toFixed(2)}</span>
                     </div>
+                    {discount > 0 && (
+                      <div className="flex justify-between text-sm sm:text-base text-green-700 dark:text-green-400 font-sans">
+                        <span>Discount ({promotion?.code})</span>
+                        <span>-${discount.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm sm:text-base text-gray-700 dark:text-gray-300 font-sans">
                       <span>Shipping</span>
-                      <span>Free</span>
+                      <span>{promotion?.free_shipping ? 'Free' : 'Calculated at checkout'}</span>
                     </div>
+                    {taxDisplay === 'exclusive' && (
+                      <div className="flex justify-between text-sm sm:text-base text-gray-700 dark:text-gray-300 font-sans">
+                        <span>Estimated tax</span>
+                        <span>{taxLines ? `$${tax.toFixed(2)}` : 'Calculated at checkout'}</span>
+                      </div>
+                    )}
                     <div className="border-t border-gray-200 dark:border-gray-700 pt-2 font-semibold">
                       <div className="flex justify-between text-base sm:text-lg text-gray-900 dark:text-white font-sans">
                         <span>Total</span>
-                        <span>${total.toFixed(2)}</span>
+                        <span>${(total + tax).toFixed(2)}</span>
                       </div>
+                      {taxDisplay === 'inclusive' && (!taxLines || tax > 0) && (
+                        <p className="text-right text-xs sm:text-sm font-normal text-gray-500 dark:text-gray-400 font-sans">
+                          {taxLines ? `Includes $${tax.toFixed(2)} ${taxLabel(taxLines)}` : 'Tax calculated at checkout'}
+                        </p>
+                      )}
                     </div>
                   </div>
 
+                  <div className="mb-4">
+                    <PromoCodeInput promotion={promotion} onChange={setPromotion} />
+                  </div>
+
                   <Button 
                     className="w-full text-sm sm:text-base bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 font-sans" 
                     size="lg"
-                    onClick={() => setCheckoutOpen(true)}
+                    onClick={handleCheckout}
+                    disabled={unavailableItems.length > 0}
                   >
                     Proceed to Checkout
                   </Button>
+                  {unavailableItems.length > 0 && (
+                    <p className="mt-2 text-xs sm:text-sm text-center text-amber-700 dark:text-amber-300 font-sans">
+                      Update the unavailable items to check out
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -265,7 +375,11 @@ const Cart = () => {
         open={checkoutOpen}
         onOpenChange={setCheckoutOpen}
         cartItems={cartItems}
+        subtotal={subtotal}
         total={total}
+        taxDisplay={taxDisplay}
+        promotion={promotion}
+        onPromotionChange={setPromotion}
         onOrderComplete={handleOrderComplete}
       />
 
@@ -17,6 +17,7 @@ interface Book {
   image_url: string | null;
   rating: number | null;
   review_count: number | null;
+  stock_quantity: number;
   categories: { name: string } | null;
 }
 
@@ -42,6 +43,7 @@ const Home = () => {
         image_url,
         rating,
         review_count,
+        stock_quantity,
         categories (name)
       `)
       .eq('is_featured', true)
@@ -59,6 +61,7 @@ const Home = () => {
         image_url,
         rating,
         review_count,
+        stock_quantity,
         categories (name)
       `)
       .order('created_at', { ascending: false })
@@ -186,6 +189,7 @@ const Home = () => {
                     category={book.categories?.name || 'Uncategorized'}
                     rating={book.rating || 0}
                     reviewCount={book.review_count || 0}
+                    stockQuantity={book.stock_quantity}
                   />
                 ))}
               </div>
@@ -226,6 +230,7 @@ const Home = () => {
                   category={book.categories?.name || 'Uncategorized'}
                   rating={book.rating || 0}
                   reviewCount={book.review_count || 0}
+                  stockQuantity={book.stock_quantity}
                 />
               ))}
             </div>
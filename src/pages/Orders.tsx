@@ -3,21 +3,56 @@ import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Package, Calendar, MapPin, Star } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Package, Calendar, MapPin, Star, XCircle, RotateCcw, Truck, CreditCard, FileText } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import ReviewDialog from "@/components/ReviewDialog";
+import ReturnRequestDialog, { type ReturnableItem } from "@/components/ReturnRequestDialog";
+import OrderTimeline from "@/components/OrderTimeline";
+import PaymentDialog from "@/components/PaymentDialog";
+import {
+  cancelOrder,
+  formatOrderStatus,
+  CANCELLABLE_STATUSES,
+  type OrderStatusEvent,
+  type ReturnStatus,
+} from "@/lib/orders";
+import { getTrackingUrl } from "@/lib/shipping";
+import { formatAddressLines, type AddressSnapshot } from "@/lib/addresses";
+import { downloadInvoice, UNINVOICEABLE_STATUSES } from "@/lib/invoices";
 
 interface Order {
   id: string;
   total_amount: number;
   status: string;
   shipping_address: string;
+  // Null for pickup orders and orders placed before the address book
+  shipping_address_snapshot: AddressSnapshot | null;
   created_at: string;
+  refunded_amount: number;
+  shipping_method_name: string | null;
+  shipping_amount: number;
+  tax_amount: number;
+  tracking_number: string | null;
+  shipping_carriers: {
+    name: string;
+    tracking_url_template: string | null;
+  } | null;
   order_items: Array<{
+    id: string;
     quantity: number;
     price: number;
     books: {
@@ -27,6 +62,19 @@ interface Order {
       image_url: string | null;
     };
   }>;
+  return_requests: Array<{
+    id: string;
+    status: ReturnStatus;
+    reason: string;
+    refund_amount: number | null;
+    admin_note: string | null;
+    created_at: string;
+    return_request_items: Array<{
+      order_item_id: string;
+      quantity: number;
+    }>;
+  }>;
+  order_status_events: OrderStatusEvent[];
 }
 
 const Orders = () => {
@@ -36,6 +84,11 @@ const Orders = () => {
   const [loading, setLoading] = useState(true);
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [selectedBook, setSelectedBook] = useState<{ id: string; title: string } | null>(null);
+  const [orderToCancel, setOrderToCancel] = useState<Order | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [returnOrder, setReturnOrder] = useState<Order | null>(null);
+  const [orderToPay, setOrderToPay] = useState<Order | null>(null);
+  const [downloadingInvoice, setDownloadingInvoice] = useState<string | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -55,8 +108,19 @@ const Orders = () => {
         total_amount,
         status,
         shipping_address,
+        shipping_address_snapshot,
         created_at,
+        refunded_amount,
+        shipping_method_name,
+        shipping_amount,
+        tax_amount,
+        tracking_number,
+        shipping_carriers (
+          name,
+          tracking_url_template
+        ),
         order_items (
+          id,
           quantity,
           price,
           books (
@@ -65,6 +129,26 @@ const Orders = () => {
             author,
             image_url
           )
+        ),
+        order_status_events (
+          id,
+          old_status,
+          new_status,
+          changed_by,
+          note,
+          created_at
+        ),
+        return_requests (
+          id,
+          status,
+          reason,
+          refund_amount,
+          admin_note,
+          created_at,
+          return_request_items (
+            order_item_id,
+            quantity
+          )
         )
       `)
       .eq("user_id", user.id)
@@ -74,7 +158,7 @@ const Orders = () => {
       console.error("Error fetching orders:", error);
       toast.error("Failed to load orders");
     } else {
-      setOrders(data || []);
+      setOrders((data || []) as unknown as Order[]);
     }
     setLoading(false);
   };
@@ -87,6 +171,12 @@ const Orders = () => {
         return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 text-sm font-sans";
       case "confirmed":
         return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 text-sm font-sans";
+      case "return_requested":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200 text-sm font-sans";
+      case "refunded":
+        return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200 text-sm font-sans";
+      case "cancelled":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 text-sm font-sans";
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200 text-sm font-sans";
     }
@@ -103,6 +193,71 @@ const Orders = () => {
     toast.success("Review submitted successfully!");
   };
 
+  const handleCancelOrder = async () => {
+    if (!orderToCancel) return;
+
+    setCancelling(true);
+    const { error } = await cancelOrder(orderToCancel.id);
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success("Order cancelled");
+      fetchOrders();
+    }
+    setCancelling(false);
+    setOrderToCancel(null);
+  };
+
+  const handleDownloadInvoice = async (orderId: string) => {
+    setDownloadingInvoice(orderId);
+    const { error } = await downloadInvoice(orderId);
+
+    if (error) {
+      toast.error(error);
+    }
+    setDownloadingInvoice(null);
+  };
+
+  // Items can be returned up to the quantity bought, less what approved or
+  // refunded requests already cover
+  const getReturnableItems = (order: Order): ReturnableItem[] =>
+    order.order_items.map((item) => {
+      const alreadyReturned = order.return_requests
+        .filter((request) => request.status === "approved" || request.status === "refunded")
+        .flatMap((request) => request.return_request_items)
+        .filter((returned) => returned.order_item_id === item.id)
+        .reduce((sum, returned) => sum + returned.quantity, 0);
+
+      return {
+        id: item.id,
+        title: item.books.title,
+        price: item.price,
+        returnable: Math.max(0, item.quantity - alreadyReturned),
+      };
+    });
+
+  const describeActor = (event: OrderStatusEvent) => {
+    if (!event.changed_by) return null;
+    return event.changed_by === user?.id ? "You" : "Tea & Tales";
+  };
+
+  const renderTrackingNumber = (order: Order) => {
+    const trackingUrl = getTrackingUrl(order.shipping_carriers?.tracking_url_template, order.tracking_number);
+    if (!trackingUrl) return order.tracking_number;
+
+    return (
+      <a
+        href={trackingUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-indigo-600 dark:text-indigo-400 underline hover:text-indigo-700 dark:hover:text-indigo-300"
+      >
+        {order.tracking_number}
+      </a>
+    );
+  };
+
   const fallbackImageUrl = "https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400&h=600&fit=crop";
 
   if (loading) {
@@ -167,11 +322,21 @@ const Orders = () => {
                     </div>
                     <div className="text-right">
                       <Badge className={getStatusBadgeClassName(order.status)}>
-                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                        {formatOrderStatus(order.status)}
                       </Badge>
                       <p className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white font-sans mt-2">
                         ${order.total_amount.toFixed(2)}
                       </p>
+                      {order.tax_amount > 0 && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 font-sans">
+                          Includes ${order.tax_amount.toFixed(2)} tax
+                        </p>
+                      )}
+                      {order.refunded_amount > 0 && (
+                        <p className="text-sm text-purple-700 dark:text-purple-300 font-sans">
+                          Refunded ${order.refunded_amount.toFixed(2)}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -179,21 +344,50 @@ const Orders = () => {
                     <MapPin className="h-5 w-5 text-indigo-500 dark:text-indigo-400 mr-2 mt-0.5" />
                     <div>
                       <p className="text-sm sm:text-base font-semibold text-gray-700 dark:text-gray-200 font-sans">
-                        Shipping Address
-                      </p>
-                      <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 font-sans">
-                        {order.shipping_address}
+                        {order.shipping_method_name || "Shipping Address"}
+                        {order.shipping_method_name && (
+                          <span className="font-normal text-gray-600 dark:text-gray-400">
+                            {" "}· {order.shipping_amount > 0 ? `$${order.shipping_amount.toFixed(2)}` : "Free"}
+                          </span>
+                        )}
                       </p>
+                      {/* Pickup orders have no address; the method name is stored in its place */}
+                      {order.shipping_address_snapshot ? (
+                        formatAddressLines(order.shipping_address_snapshot).map((line, index) => (
+                          <p key={index} className="text-sm sm:text-base text-gray-600 dark:text-gray-400 font-sans">
+                            {line}
+                          </p>
+                        ))
+                      ) : order.shipping_address !== order.shipping_method_name && (
+                        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 font-sans">
+                          {order.shipping_address}
+                        </p>
+                      )}
                     </div>
                   </div>
 
+                  {order.tracking_number && (
+                    <div className="flex items-start mb-4">
+                      <Truck className="h-5 w-5 text-indigo-500 dark:text-indigo-400 mr-2 mt-0.5" />
+                      <div>
+                        <p className="text-sm sm:text-base font-semibold text-gray-700 dark:text-gray-200 font-sans">
+                          Tracking
+                        </p>
+                        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 font-sans">
+                          {order.shipping_carriers && `${order.shipping_carriers.name}: `}
+                          {renderTrackingNumber(order)}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="border-t pt-4">
                     <h4 className="text-base sm:text-lg font-semibold text-gray-700 dark:text-gray-200 font-sans mb-3">
                       Order Items
                     </h4>
                     <div className="space-y-3">
                       {order.order_items.map((item) => (
-                        <div key={item.books.id} className="flex items-center space-x-4">
+                        <div key={item.id} className="flex items-center space-x-4">
                           <img
                             src={item.books.image_url || fallbackImageUrl}
                             alt={item.books.title}
@@ -233,6 +427,91 @@ const Orders = () => {
                       ))}
                     </div>
                   </div>
+
+                  <div className="border-t pt-4 mt-4">
+                    <h4 className="text-base sm:text-lg font-semibold text-gray-700 dark:text-gray-200 font-sans mb-3">
+                      Order History
+                    </h4>
+                    <OrderTimeline events={order.order_status_events} describeActor={describeActor} />
+                  </div>
+
+                  {order.return_requests.length > 0 && (
+                    <div className="border-t pt-4 mt-4">
+                      <h4 className="text-base sm:text-lg font-semibold text-gray-700 dark:text-gray-200 font-sans mb-3">
+                        Returns
+                      </h4>
+                      <div className="space-y-2">
+                        {order.return_requests.map((request) => (
+                          <div key={request.id} className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+                            <div className="flex items-center gap-2">
+                              <Badge className="bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200 text-xs font-sans">
+                                {formatOrderStatus(request.status)}
+                              </Badge>
+                              <span>{new Date(request.created_at).toLocaleDateString()}</span>
+                              {request.refund_amount !== null && (
+                                <span className="font-semibold text-gray-900 dark:text-white">
+                                  ${request.refund_amount.toFixed(2)} refunded
+                                </span>
+                              )}
+                            </div>
+                            <p className="mt-1">{request.reason}</p>
+                            {request.admin_note && (
+                              <p className="mt-1 italic">Note from the store: {request.admin_note}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {(CANCELLABLE_STATUSES.includes(order.status) || !UNINVOICEABLE_STATUSES.includes(order.status)) && (
+                    <div className="border-t pt-4 mt-4 flex flex-wrap justify-end gap-2">
+                      {!UNINVOICEABLE_STATUSES.includes(order.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-sm border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans"
+                          onClick={() => handleDownloadInvoice(order.id)}
+                          disabled={downloadingInvoice === order.id}
+                        >
+                          <FileText className="h-4 w-4 mr-1" />
+                          {downloadingInvoice === order.id ? "Preparing..." : "Invoice"}
+                        </Button>
+                      )}
+                      {order.status === "pending" && (
+                        <Button
+                          size="sm"
+                          className="text-sm font-sans bg-indigo-500 hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700 text-white"
+                          onClick={() => setOrderToPay(order)}
+                        >
+                          <CreditCard className="h-4 w-4 mr-1" />
+                          Pay Now
+                        </Button>
+                      )}
+                      {CANCELLABLE_STATUSES.includes(order.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-sm border-red-500 text-red-500 hover:bg-red-50 dark:border-red-400 dark:text-red-400 dark:hover:bg-red-900 font-sans"
+                          onClick={() => setOrderToCancel(order)}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Cancel Order
+                        </Button>
+                      )}
+                      {order.status === "delivered" && getReturnableItems(order).some((item) => item.returnable > 0) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-sm border-indigo-500 text-indigo-500 hover:bg-indigo-50 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-900 font-sans"
+                          onClick={() => setReturnOrder(order)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Return Items
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
@@ -250,6 +529,55 @@ const Orders = () => {
         />
       )}
 
+      {returnOrder && (
+        <ReturnRequestDialog
+          open={!!returnOrder}
+          onOpenChange={(open) => !open && setReturnOrder(null)}
+          orderId={returnOrder.id}
+          items={getReturnableItems(returnOrder)}
+          onReturnRequested={fetchOrders}
+        />
+      )}
+
+      {orderToPay && (
+        <PaymentDialog
+          open={!!orderToPay}
+          onOpenChange={(open) => {
+            if (!open) {
+              setOrderToPay(null);
+              // A payment still processing may have confirmed the order meanwhile
+              fetchOrders();
+            }
+          }}
+          orderId={orderToPay.id}
+          amount={orderToPay.total_amount}
+        />
+      )}
+
+      <AlertDialog open={!!orderToCancel} onOpenChange={(open) => !open && setOrderToCancel(null)}>
+        <AlertDialogContent className="bg-white dark:bg-gray-800 rounded-2xl font-sans">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-gray-900 dark:text-white font-sans">
+              Cancel order #{orderToCancel?.id.slice(0, 8)}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-gray-600 dark:text-gray-400 font-sans">
+              The order won't be shipped, anything you paid is refunded to your card and any promotion code used on
+              it can be used again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-sans">Keep Order</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancelOrder}
+              disabled={cancelling}
+              className="bg-red-600 hover:bg-red-700 text-white font-sans"
+            >
+              {cancelling ? "Cancelling..." : "Cancel Order"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Footer />
     </div>
   );
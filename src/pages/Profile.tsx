@@ -6,12 +6,13 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { User, Package, Settings, LogOut, ArrowRight } from "lucide-react";
+import { User, Package, Settings, LogOut, ArrowRight, MapPin } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import AddressBook from "@/components/AddressBook";
 
 interface Profile {
   id: string;
@@ -112,7 +113,6 @@ const Profile = () => {
       .update({
         full_name: formData.get("full_name") as string,
         phone: formData.get("phone") as string,
-        address: formData.get("address") as string,
       })
       .eq("id", user.id);
 
@@ -213,6 +213,13 @@ const Profile = () => {
               <User className="h-5 w-5 mr-2 text-indigo-500 dark:text-indigo-400" />
               Profile
             </TabsTrigger>
+            <TabsTrigger
+              value="addresses"
+              className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
+            >
+              <MapPin className="h-5 w-5 mr-2 text-indigo-500 dark:text-indigo-400" />
+              Addresses
+            </TabsTrigger>
             <TabsTrigger
               value="orders"
               className="px-6 py-3 text-base sm:text-lg font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:dark:bg-gray-700 data-[state=active]:shadow-md font-sans"
@@ -309,22 +316,6 @@ const Profile = () => {
                     />
                   </div>
 
-                  <div>
-                    <Label
-                      htmlFor="address"
-                      className="text-sm sm:text-base text-gray-700 dark:text-gray-300 font-sans"
-                    >
-                      Address
-                    </Label>
-                    <Input
-                      id="address"
-                      name="address"
-                      defaultValue={profile.address || ""}
-                      placeholder="Enter your address"
-                      className="text-sm sm:text-base text-gray-900 dark:text-white font-sans"
-                    />
-                  </div>
-
                   <Button
                     type="submit"
                     disabled={updating}
@@ -337,6 +328,10 @@ const Profile = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="addresses">
+            <AddressBook defaultName={profile.full_name || ""} legacyAddress={profile.address} />
+          </TabsContent>
+
           <TabsContent value="orders">
             <div className="space-y-6">
               <div className="flex items-center justify-between">
@@ -0,0 +1,263 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Heart, ShoppingCart, Trash2, TrendingDown, PackageCheck, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { addToCart } from "@/lib/cart";
+import {
+  fetchWishlist,
+  removeFromWishlist,
+  acknowledgeWishlistItem,
+  getWishlistNotice,
+  type WishlistItem,
+} from "@/lib/wishlist";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import StockBadge from "@/components/StockBadge";
+
+const Wishlist = () => {
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    fetchItems();
+
+    window.addEventListener('wishlistUpdated', fetchItems);
+    return () => window.removeEventListener('wishlistUpdated', fetchItems);
+  }, [user, authLoading, navigate]);
+
+  const fetchItems = async () => {
+    if (!user) return;
+
+    const { data, error } = await fetchWishlist(user.id);
+
+    if (error) {
+      console.error('Error fetching wishlist:', error);
+      toast.error('Failed to load wishlist');
+    } else {
+      setItems(data);
+    }
+    setLoading(false);
+  };
+
+  const moveToCart = async (item: WishlistItem) => {
+    if (!user) return;
+
+    setUpdating(item.id);
+    const { error, stockLimit } = await addToCart(user.id, item.books.id);
+
+    if (error) {
+      console.error('Error adding to cart:', error);
+      toast.error('Failed to add item to cart');
+    } else if (stockLimit !== null) {
+      toast.info(stockLimit === 0
+        ? `"${item.books.title}" is out of stock`
+        : `Your cart already has all ${stockLimit} copies of "${item.books.title}"`);
+      fetchItems();
+    } else {
+      const { error: removeError } = await removeFromWishlist(user.id, item.books.id);
+      if (removeError) {
+        console.error('Error removing from wishlist:', removeError);
+      }
+      toast.success(`"${item.books.title}" moved to cart`);
+    }
+    setUpdating(null);
+  };
+
+  const removeItem = async (item: WishlistItem) => {
+    if (!user) return;
+
+    setUpdating(item.id);
+    const { error } = await removeFromWishlist(user.id, item.books.id);
+
+    if (error) {
+      console.error('Error removing from wishlist:', error);
+      toast.error('Failed to remove item');
+    } else {
+      toast.success('Item removed from wishlist');
+    }
+    setUpdating(null);
+  };
+
+  const dismissNotice = async (item: WishlistItem) => {
+    setUpdating(item.id);
+    const { error } = await acknowledgeWishlistItem(item.id);
+
+    if (error) {
+      console.error('Error dismissing notice:', error);
+      toast.error('Failed to dismiss notice');
+    }
+    setUpdating(null);
+  };
+
+  const itemsWithNotices = items.filter((item) => getWishlistNotice(item) !== null);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 font-sans">
+        <Header />
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-32 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+            ))}
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300 font-sans">
+      <Header />
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-10 text-center">
+          <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent font-sans">
+            Wishlist
+          </h1>
+          <p className="mt-2 text-base sm:text-lg text-gray-600 dark:text-gray-400 font-sans">
+            Books you've saved for later
+          </p>
+        </div>
+
+        {itemsWithNotices.length > 0 && (
+          <Card className="mb-8 bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800 rounded-2xl shadow-md">
+            <CardContent className="p-4">
+              <p className="text-sm sm:text-base font-semibold text-green-800 dark:text-green-200 font-sans">
+                {itemsWithNotices.length === 1
+                  ? 'Good news about 1 book on your wishlist'
+                  : `Good news about ${itemsWithNotices.length} books on your wishlist`}
+              </p>
+              <ul className="mt-1 space-y-0.5 text-sm text-green-700 dark:text-green-300 font-sans">
+                {itemsWithNotices.map((item) => (
+                  <li key={item.id}>
+                    {getWishlistNotice(item) === 'price_drop'
+                      ? `"${item.books.title}" dropped from $${item.price_at_save.toFixed(2)} to $${item.books.price.toFixed(2)}`
+                      : `"${item.books.title}" is back in stock`}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        {items.length === 0 ? (
+          <div className="text-center py-16">
+            <Heart className="h-16 w-16 text-indigo-500 dark:text-indigo-400 mx-auto mb-4" />
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white mb-2 font-sans">
+              Your wishlist is empty
+            </h2>
+            <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 mb-8 font-sans">
+              Tap the heart on any book to save it here.
+            </p>
+            <Link to="/books">
+              <Button className="text-sm sm:text-base bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 font-sans">
+                Browse Books
+              </Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4 max-w-4xl mx-auto">
+            {items.map((item) => {
+              const notice = getWishlistNotice(item);
+              const inStock = item.books.stock_quantity > 0;
+
+              return (
+                <Card key={item.id} className="bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-2xl">
+                  <CardContent className="p-6">
+                    <div className="flex items-center space-x-4">
+                      <img
+                        src={item.books.image_url || 'https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400&h=600&fit=crop'}
+                        alt={item.books.title}
+                        className="w-20 h-28 object-cover rounded-lg"
+                      />
+
+                      <div className="flex-1 min-w-0">
+                        <Link to={`/book/${item.books.id}`}>
+                          <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors font-sans">
+                            {item.books.title}
+                          </h3>
+                        </Link>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 font-sans">
+                          {item.books.author}
+                        </p>
+                        <div className="flex items-center space-x-2 mt-2">
+                          <span className="text-base sm:text-lg font-bold text-indigo-600 dark:text-indigo-400 font-sans">
+                            ${item.books.price.toFixed(2)}
+                          </span>
+                          {notice === 'price_drop' && (
+                            <span className="text-sm text-gray-500 dark:text-gray-400 line-through font-sans">
+                              ${item.price_at_save.toFixed(2)}
+                            </span>
+                          )}
+                          <StockBadge stockQuantity={item.books.stock_quantity} />
+                        </div>
+                        {notice && (
+                          <div className="flex items-center gap-1 mt-2">
+                            <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 text-xs font-sans">
+                              {notice === 'price_drop' ? (
+                                <><TrendingDown className="h-3 w-3 mr-1" />Price dropped</>
+                              ) : (
+                                <><PackageCheck className="h-3 w-3 mr-1" />Back in stock</>
+                              )}
+                            </Badge>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => dismissNotice(item)}
+                              disabled={updating === item.id}
+                              aria-label="Dismiss notice"
+                              className="h-6 w-6 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+
+                      <Button
+                        onClick={() => moveToCart(item)}
+                        disabled={updating === item.id || !inStock}
+                        className="text-sm sm:text-base bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 font-sans"
+                      >
+                        <ShoppingCart className="h-5 w-5 mr-2" />
+                        Move to Cart
+                      </Button>
+
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => removeItem(item)}
+                        disabled={updating === item.id}
+                        className="border-red-500 text-red-500 hover:bg-red-50 dark:border-red-400 dark:text-red-400 dark:hover:bg-red-900"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Wishlist;
@@ -0,0 +1,5 @@
+// For functions the app calls straight from the browser
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
@@ -0,0 +1,65 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+const mailFrom = () => Deno.env.get("MAIL_FROM") || "Tea and Tales <orders@teaandtales.local>";
+
+// Talks to any SMTP server. Without SMTP_TLS it connects in plain text, which is
+// what local catchers such as Mailpit (SMTP on port 1025) expect.
+const createSmtpMailer = (): Mailer => {
+  const tls = Deno.env.get("SMTP_TLS") === "true";
+  const username = Deno.env.get("SMTP_USER");
+  const client = new SMTPClient({
+    connection: {
+      hostname: Deno.env.get("SMTP_HOST") || "localhost",
+      port: Number(Deno.env.get("SMTP_PORT") || (tls ? 465 : 1025)),
+      tls,
+      auth: username ? { username, password: Deno.env.get("SMTP_PASSWORD") || "" } : undefined,
+    },
+    debug: { allowUnsecure: !tls, noStartTLS: !tls },
+  });
+
+  return {
+    send: (message) =>
+      client.send({
+        from: mailFrom(),
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      }),
+    close: () => client.close(),
+  };
+};
+
+// Prints messages instead of sending them
+const createLogMailer = (): Mailer => ({
+  send: async (message) => {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+  close: async () => {},
+});
+
+// MAIL_TRANSPORT picks the transport: "smtp" (the default) or "log"
+export const createMailer = (): Mailer => {
+  const transport = Deno.env.get("MAIL_TRANSPORT") || "smtp";
+
+  switch (transport) {
+    case "smtp":
+      return createSmtpMailer();
+    case "log":
+      return createLogMailer();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
@@ -0,0 +1,73 @@
+import { createMockPaymentProvider } from "./mock.ts";
+
+export interface CardDetails {
+  number: string;
+  // MM/YY
+  expiry: string;
+  cvc: string;
+}
+
+export interface AuthorizeRequest {
+  // payments.id, sent along so the provider's records can be matched to ours
+  paymentId: string;
+  amount: number;
+  currency: string;
+  card: CardDetails;
+}
+
+// What the provider decided about a payment:
+//   authorized       the money is held and can be captured
+//   requires_action  the customer has to pass a 3-D Secure challenge first
+//   processing       the result arrives later by webhook
+//   declined         the card was refused
+export interface AuthorizeResult {
+  status: "authorized" | "requires_action" | "processing" | "declined";
+  reference: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  // Shown to the customer for requires_action
+  challenge?: { message: string };
+  declineReason?: string;
+}
+
+export interface OperationResult {
+  ok: boolean;
+  // The provider's id for the capture or refund
+  reference?: string;
+  reason?: string;
+}
+
+export interface WebhookEvent {
+  // Unique per event, so repeated deliveries can be ignored
+  id: string;
+  type: "payment.authorized" | "payment.declined";
+  // The payment's reference, as returned by authorize
+  reference: string;
+  declineReason?: string;
+  payload: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  name: string;
+  authorize(request: AuthorizeRequest): Promise<AuthorizeResult>;
+  // Finishes a 3-D Secure challenge with whatever the challenge step returned
+  completeChallenge(reference: string, response: string): Promise<AuthorizeResult>;
+  capture(reference: string, amount: number): Promise<OperationResult>;
+  // Refunds made again with the same idempotencyKey are only paid out once
+  refund(reference: string, amount: number, idempotencyKey: string): Promise<OperationResult>;
+  // Checks a webhook really came from the provider and reads its event.
+  // Throws when the signature doesn't match.
+  parseWebhook(request: Request): Promise<WebhookEvent>;
+}
+
+// PAYMENT_PROVIDER picks the provider: only "mock" (the default) so far
+export const createPaymentProvider = (): PaymentProvider => {
+  const provider = Deno.env.get("PAYMENT_PROVIDER") || "mock";
+
+  switch (provider) {
+    case "mock":
+      return createMockPaymentProvider();
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER: ${provider}`);
+  }
+};
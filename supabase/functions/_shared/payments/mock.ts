@@ -0,0 +1,169 @@
+import type { AuthorizeResult, CardDetails, PaymentProvider, WebhookEvent } from "./index.ts";
+
+// A gateway that runs entirely inside the function, for development and demos.
+// No money moves. Which card number is used decides what happens:
+const TEST_CARDS: Record<string, "decline" | "insufficient_funds" | "challenge" | "delayed"> = {
+  "4000000000000002": "decline",
+  "4000000000009995": "insufficient_funds",
+  // Asks for 3-D Secure; completeChallenge("approved") passes it
+  "4000000000003220": "challenge",
+  // Answers "processing" and sends the result by webhook a few seconds later
+  "4000000000000077": "delayed",
+};
+// Any other valid card number, such as 4242 4242 4242 4242, is approved.
+
+const SIGNATURE_HEADER = "mock-signature";
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "kong"];
+
+// `supabase functions serve` points SUPABASE_URL at the local stack
+const isLocal = () => {
+  try {
+    return LOCAL_HOSTS.includes(new URL(Deno.env.get("SUPABASE_URL") || "").hostname);
+  } catch {
+    return false;
+  }
+};
+
+// Only a local stack may fall back to the well-known secret; anywhere else
+// that would let anyone sign a webhook, so every webhook is refused instead
+const webhookSecret = () => {
+  const secret = Deno.env.get("MOCK_PAYMENT_WEBHOOK_SECRET");
+  if (secret) return secret;
+  if (isLocal()) return "mock-webhook-secret";
+  throw new Error("MOCK_PAYMENT_WEBHOOK_SECRET is not set");
+};
+const webhookDelay = () => Number(Deno.env.get("MOCK_PAYMENT_WEBHOOK_DELAY_MS") || 5000);
+
+const luhnValid = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const cardBrand = (digits: string) => {
+  if (digits.startsWith("4")) return "visa";
+  if (/^5[1-5]/.test(digits)) return "mastercard";
+  if (/^3[47]/.test(digits)) return "amex";
+  return "card";
+};
+
+// Why the card can't be charged at all, before any test behaviour applies
+const cardProblem = (card: CardDetails, digits: string) => {
+  if (digits.length < 12 || digits.length > 19 || !luhnValid(digits)) return "invalid_number";
+
+  const expiry = card.expiry.match(/^(\d{2})\s*\/\s*(\d{2})$/);
+  if (!expiry || Number(expiry[1]) < 1 || Number(expiry[1]) > 12) return "invalid_expiry";
+  // Cards are valid until the end of their expiry month
+  if (new Date(2000 + Number(expiry[2]), Number(expiry[1])) <= new Date()) return "expired_card";
+
+  if (!/^\d{3,4}$/.test(card.cvc)) return "invalid_cvc";
+  return null;
+};
+
+const sign = async (body: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(webhookSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Compares every character so the time taken doesn't give the signature away
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return difference === 0;
+};
+
+// Posts the event to the payment-webhook function after a delay, the way a real
+// gateway reports results it couldn't give straight away
+const sendWebhookLater = (event: WebhookEvent) => {
+  const send = async () => {
+    await new Promise((resolve) => setTimeout(resolve, webhookDelay()));
+    const body = JSON.stringify(event);
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/payment-webhook`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [SIGNATURE_HEADER]: await sign(body) },
+      body,
+    });
+    if (!response.ok) {
+      console.error(`Mock webhook ${event.id} was rejected:`, response.status, await response.text());
+    }
+  };
+
+  const delivery = send().catch((error) => console.error(`Error sending mock webhook ${event.id}:`, error));
+  // Keeps the function running after it has responded, until the webhook is sent
+  (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime?.waitUntil(delivery);
+};
+
+export const createMockPaymentProvider = (): PaymentProvider => ({
+  name: "mock",
+
+  authorize: async ({ paymentId, card }) => {
+    const digits = card.number.replace(/\D/g, "");
+    const result: AuthorizeResult = {
+      status: "authorized",
+      reference: `mock_pay_${crypto.randomUUID()}`,
+      cardBrand: cardBrand(digits),
+      cardLast4: digits.slice(-4),
+    };
+
+    const problem = cardProblem(card, digits);
+    if (problem) return { ...result, status: "declined", declineReason: problem };
+
+    switch (TEST_CARDS[digits]) {
+      case "decline":
+        return { ...result, status: "declined", declineReason: "card_declined" };
+      case "insufficient_funds":
+        return { ...result, status: "declined", declineReason: "insufficient_funds" };
+      case "challenge":
+        return {
+          ...result,
+          status: "requires_action",
+          challenge: { message: "Your bank wants to confirm this payment. This is a test, so you choose the outcome." },
+        };
+      case "delayed":
+        sendWebhookLater({
+          id: `mock_evt_${crypto.randomUUID()}`,
+          type: "payment.authorized",
+          reference: result.reference,
+          payload: { payment_id: paymentId, reference: result.reference },
+        });
+        return { ...result, status: "processing" };
+      default:
+        return result;
+    }
+  },
+
+  completeChallenge: async (reference, response) =>
+    response === "approved"
+      ? { status: "authorized", reference }
+      : { status: "declined", reference, declineReason: "authentication_failed" },
+
+  capture: async () => ({ ok: true, reference: `mock_cap_${crypto.randomUUID()}` }),
+
+  // The refund's reference comes from its idempotency key, so a repeated
+  // refund gets the same one back
+  refund: async (_reference, _amount, idempotencyKey) => ({ ok: true, reference: `mock_ref_${idempotencyKey}` }),
+
+  parseWebhook: async (request) => {
+    const body = await request.text();
+    if (!safeEqual(request.headers.get(SIGNATURE_HEADER) || "", await sign(body))) {
+      throw new Error("Invalid mock webhook signature");
+    }
+    return JSON.parse(body) as WebhookEvent;
+  },
+});
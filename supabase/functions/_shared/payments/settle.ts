@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AuthorizeResult, PaymentProvider } from "./index.ts";
+
+export interface SettledPayment {
+  status: string;
+  failureReason: string | null;
+}
+
+// Records what the provider said about a payment and, once the money is held,
+// captures it, which confirms the order. Used both when the customer pays and
+// when a webhook brings a late result. `supabase` must use the service role key.
+export const settleAuthorization = async (
+  supabase: SupabaseClient,
+  provider: PaymentProvider,
+  payment: { id: string; amount: number },
+  result: AuthorizeResult
+): Promise<SettledPayment> => {
+  const record = async (status: string, failureReason: string | null = null) => {
+    const { data, error } = await supabase.rpc("record_payment_update", {
+      p_payment_id: payment.id,
+      p_status: status,
+      p_provider_reference: result.reference,
+      p_failure_reason: failureReason,
+      p_card_brand: result.cardBrand ?? null,
+      p_card_last4: result.cardLast4 ?? null,
+    });
+    if (error) throw error;
+    return data[0] as { payment_status: string; order_status: string };
+  };
+
+  if (result.status === "declined") {
+    const recorded = await record("failed", result.declineReason || "declined");
+    return { status: recorded.payment_status, failureReason: result.declineReason || "declined" };
+  }
+
+  if (result.status !== "authorized") {
+    const recorded = await record(result.status);
+    return { status: recorded.payment_status, failureReason: null };
+  }
+
+  // Another attempt may have settled the payment first, e.g. it was abandoned
+  const authorized = await record("authorized");
+  if (authorized.payment_status !== "authorized") {
+    return { status: authorized.payment_status, failureReason: null };
+  }
+
+  const capture = await provider.capture(result.reference, payment.amount);
+  if (!capture.ok) {
+    await record("failed", capture.reason || "capture_failed");
+    return { status: "failed", failureReason: capture.reason || "capture_failed" };
+  }
+
+  const captured = await record("captured");
+
+  // The order was cancelled while the payment went through, so give it back
+  if (captured.order_status === "cancelled") {
+    const refund = await provider.refund(result.reference, payment.amount, payment.id);
+    if (refund.ok) {
+      const { error } = await supabase.rpc("record_payment_refund", {
+        p_payment_id: payment.id,
+        p_amount: payment.amount,
+      });
+      if (error) throw error;
+      return { status: "refunded", failureReason: null };
+    }
+    console.error(`Couldn't refund payment ${payment.id} for a cancelled order:`, refund.reason);
+  }
+
+  return { status: captured.payment_status, failureReason: null };
+};
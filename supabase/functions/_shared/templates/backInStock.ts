@@ -0,0 +1,18 @@
+import { button, escapeHtml, greeting, layout, siteUrl, type EmailTemplate } from "./common.ts";
+
+export const backInStock: EmailTemplate = {
+  version: 1,
+  render: (payload) => {
+    const title = String(payload.title);
+    const url = `${siteUrl()}/book/${payload.book_id}`;
+
+    return {
+      subject: `"${title}" is back in stock`,
+      text: `${greeting(payload)}\n\n"${title}" by ${payload.author} is back in stock. Copies can go quickly, so order soon:\n${url}\n`,
+      html: layout(`
+      <p>${escapeHtml(greeting(payload))}</p>
+      <p><strong>${escapeHtml(title)}</strong> by ${escapeHtml(String(payload.author))} is back in stock. Copies can go quickly, so order soon.</p>
+      ${button("View the book", url)}`),
+    };
+  },
+};
@@ -0,0 +1,41 @@
+export type Payload = Record<string, unknown>;
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Bump version whenever a template's wording or layout changes; sent emails
+// record the version they were rendered with.
+export interface EmailTemplate {
+  version: number;
+  render: (payload: Payload) => RenderedEmail;
+}
+
+export const siteUrl = () => (Deno.env.get("SITE_URL") || "http://localhost:8080").replace(/\/$/, "");
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export const formatMoney = (value: unknown) => `$${Number(value || 0).toFixed(2)}`;
+
+export const greeting = (payload: Payload) => (payload.name ? `Hi ${payload.name},` : "Hi,");
+
+export const button = (label: string, url: string) =>
+  `<p><a href="${escapeHtml(url)}" style="display:inline-block;padding:10px 16px;background:#4f46e5;color:#ffffff;border-radius:8px;text-decoration:none">${escapeHtml(label)}</a></p>`;
+
+export const layout = (body: string) => `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#111827">
+    <div style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:16px;padding:24px">
+      <p style="margin:0 0 16px;font-size:18px;font-weight:bold;color:#4f46e5">Tea and Tales</p>
+      ${body}
+    </div>
+  </body>
+</html>`;
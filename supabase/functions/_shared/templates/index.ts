@@ -0,0 +1,29 @@
+import { backInStock } from "./backInStock.ts";
+import {
+  orderCancelled,
+  orderConfirmed,
+  orderDelivered,
+  orderReceived,
+  orderRefunded,
+  orderShipped,
+} from "./orders.ts";
+import type { EmailTemplate, Payload, RenderedEmail } from "./common.ts";
+
+// Keyed by email_outbox.template
+const templates: Record<string, EmailTemplate> = {
+  back_in_stock: backInStock,
+  order_received: orderReceived,
+  order_confirmed: orderConfirmed,
+  order_shipped: orderShipped,
+  order_delivered: orderDelivered,
+  order_cancelled: orderCancelled,
+  order_refunded: orderRefunded,
+};
+
+export const renderEmail = (template: string, payload: Payload): RenderedEmail & { version: number } => {
+  const entry = templates[template];
+  if (!entry) {
+    throw new Error(`Unknown email template: ${template}`);
+  }
+  return { ...entry.render(payload), version: entry.version };
+};
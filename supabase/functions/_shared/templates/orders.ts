@@ -0,0 +1,154 @@
+import {
+  button,
+  escapeHtml,
+  formatMoney,
+  greeting,
+  layout,
+  siteUrl,
+  type EmailTemplate,
+  type Payload,
+} from "./common.ts";
+
+// Payload built by queue_order_email()
+interface OrderItem {
+  title: string;
+  author: string;
+  quantity: number;
+  price: number;
+}
+
+interface OrderEmail {
+  subject: string;
+  // Paragraphs shown above the order summary
+  intro: string[];
+}
+
+const orderReference = (payload: Payload) => `#${String(payload.order_id).slice(0, 8)}`;
+
+const itemsOf = (payload: Payload) => (payload.items as OrderItem[] | undefined) || [];
+
+const shippingLabel = (payload: Payload) =>
+  payload.shipping_method ? `Shipping (${payload.shipping_method})` : "Shipping";
+
+const shippingValue = (payload: Payload) =>
+  Number(payload.shipping) > 0 ? formatMoney(payload.shipping) : "Free";
+
+// Orders without a delivery address (in-store pickup) store the method name instead
+const destinationOf = (payload: Payload) =>
+  payload.shipping_address === payload.shipping_method ? null : String(payload.shipping_address);
+
+const summaryText = (payload: Payload) => {
+  const lines = itemsOf(payload).map(
+    (item) => `${item.quantity} x ${item.title} (${item.author})  ${formatMoney(item.quantity * item.price)}`
+  );
+
+  lines.push("", `Subtotal: ${formatMoney(payload.subtotal)}`);
+  if (Number(payload.discount) > 0) {
+    lines.push(`Discount (${payload.promotion_code}): -${formatMoney(payload.discount)}`);
+  }
+  lines.push(`${shippingLabel(payload)}: ${shippingValue(payload)}`);
+  if (Number(payload.tax) > 0) {
+    lines.push(`Tax: ${formatMoney(payload.tax)}`);
+  }
+  lines.push(`Total: ${formatMoney(payload.total)}`);
+  if (Number(payload.refunded_amount) > 0) {
+    lines.push(`Refunded: ${formatMoney(payload.refunded_amount)}`);
+  }
+  const destination = destinationOf(payload);
+  if (destination) {
+    lines.push("", `Shipping to: ${destination}`);
+  }
+
+  return lines.join("\n");
+};
+
+const summaryRow = (label: string, value: string, bold = false) =>
+  `<tr><td style="padding:4px 0;color:#4b5563${bold ? ";font-weight:bold" : ""}">${escapeHtml(label)}</td><td style="padding:4px 0;text-align:right${bold ? ";font-weight:bold" : ""}">${escapeHtml(value)}</td></tr>`;
+
+const summaryHtml = (payload: Payload) => {
+  const items = itemsOf(payload)
+    .map(
+      (item) => `<tr>
+          <td style="padding:6px 0;border-bottom:1px solid #e5e7eb">${item.quantity} × <strong>${escapeHtml(item.title)}</strong><br><span style="color:#6b7280;font-size:13px">${escapeHtml(item.author)}</span></td>
+          <td style="padding:6px 0;border-bottom:1px solid #e5e7eb;text-align:right">${formatMoney(item.quantity * item.price)}</td>
+        </tr>`
+    )
+    .join("");
+
+  const totals = [
+    summaryRow("Subtotal", formatMoney(payload.subtotal)),
+    Number(payload.discount) > 0
+      ? summaryRow(`Discount (${payload.promotion_code})`, `-${formatMoney(payload.discount)}`)
+      : "",
+    summaryRow(shippingLabel(payload), shippingValue(payload)),
+    Number(payload.tax) > 0 ? summaryRow("Tax", formatMoney(payload.tax)) : "",
+    summaryRow("Total", formatMoney(payload.total), true),
+    Number(payload.refunded_amount) > 0 ? summaryRow("Refunded", formatMoney(payload.refunded_amount)) : "",
+  ].join("");
+
+  const destination = destinationOf(payload);
+
+  return `<table style="width:100%;border-collapse:collapse;font-size:14px;margin:16px 0">${items}${totals}</table>${
+    destination
+      ? `
+      <p style="font-size:14px;color:#4b5563"><strong>Shipping to:</strong> ${escapeHtml(destination)}</p>`
+      : ""
+  }`;
+};
+
+// Every order email is a greeting, a few lines about what happened, an optional
+// note from staff and the order summary.
+const orderTemplate = (version: number, build: (payload: Payload) => OrderEmail): EmailTemplate => ({
+  version,
+  render: (payload) => {
+    const { subject, intro } = build(payload);
+    const paragraphs = payload.note ? [...intro, `Note from our team: ${payload.note}`] : intro;
+    const url = `${siteUrl()}/orders`;
+
+    return {
+      subject,
+      text: [greeting(payload), ...paragraphs, summaryText(payload), `View your orders: ${url}`].join("\n\n") + "\n",
+      html: layout(`
+      <p>${escapeHtml(greeting(payload))}</p>
+      ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("\n      ")}
+      ${summaryHtml(payload)}
+      ${button("View your orders", url)}`),
+    };
+  },
+});
+
+export const orderReceived = orderTemplate(3, (payload) => ({
+  subject: `We've received your order ${orderReference(payload)}`,
+  intro: [`Thanks for your order! We'll email you again once it's confirmed.`],
+}));
+
+export const orderConfirmed = orderTemplate(3, (payload) => ({
+  subject: `Your order ${orderReference(payload)} is confirmed`,
+  intro: [`Good news: your order is confirmed and we're getting your books ready to ship.`],
+}));
+
+export const orderShipped = orderTemplate(3, (payload) => ({
+  subject: `Your order ${orderReference(payload)} is on its way`,
+  intro: [
+    `Your order has shipped.`,
+    ...(payload.tracking_number
+      ? [`Tracking number: ${payload.tracking_number}${payload.tracking_carrier ? ` (${payload.tracking_carrier})` : ""}`]
+      : []),
+    ...(payload.tracking_url ? [`Track your parcel: ${payload.tracking_url}`] : []),
+  ],
+}));
+
+export const orderDelivered = orderTemplate(3, (payload) => ({
+  subject: `Your order ${orderReference(payload)} has been delivered`,
+  intro: [`Your books have arrived. Happy reading! Once you've read them, you can leave a review from the book's page.`],
+}));
+
+export const orderCancelled = orderTemplate(3, (payload) => ({
+  subject: `Your order ${orderReference(payload)} has been cancelled`,
+  intro: [`Your order has been cancelled. If you didn't expect this, just reply to this email.`],
+}));
+
+export const orderRefunded = orderTemplate(3, (payload) => ({
+  subject: `We've refunded ${formatMoney(payload.refund_amount)} for order ${orderReference(payload)}`,
+  intro: [`We've issued a refund of ${formatMoney(payload.refund_amount)} for your order.`],
+}));
@@ -0,0 +1,83 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createPaymentProvider } from "../_shared/payments/index.ts";
+import { settleAuthorization } from "../_shared/payments/settle.ts";
+
+// Receives results the payment provider sends after the fact, such as
+// authorisations that took a while. The provider can't send a Supabase JWT, so
+// this function skips JWT verification (see config.toml) and checks the
+// provider's signature instead.
+Deno.serve(async (req) => {
+  const provider = createPaymentProvider();
+
+  let event;
+  try {
+    event = await provider.parseWebhook(req);
+  } catch (error) {
+    console.error("Rejected payment webhook:", error);
+    return Response.json({ error: "INVALID_SIGNATURE" }, { status: 400 });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .select("id, amount")
+    .eq("provider", provider.name)
+    .eq("provider_reference", event.reference)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error finding payment for webhook:", error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const { data: saved, error: insertError } = await supabase
+    .from("payment_events")
+    .insert({
+      payment_id: payment?.id ?? null,
+      provider: provider.name,
+      provider_event_id: event.id,
+      type: event.type,
+      payload: event.payload,
+    })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    // Providers resend events until they're acknowledged; this one was handled
+    if (insertError.code === "23505") return Response.json({ received: true });
+
+    console.error("Error saving payment event:", insertError);
+    return Response.json({ error: insertError.message }, { status: 500 });
+  }
+
+  if (!payment) {
+    console.error(`No payment with reference ${event.reference} for event ${event.id}`);
+    return Response.json({ received: true });
+  }
+
+  try {
+    const settled = await settleAuthorization(
+      supabase,
+      provider,
+      { id: payment.id, amount: Number(payment.amount) },
+      event.type === "payment.authorized"
+        ? { status: "authorized", reference: event.reference }
+        : { status: "declined", reference: event.reference, declineReason: event.declineReason }
+    );
+
+    return Response.json({ received: true, status: settled.status });
+  } catch (error) {
+    console.error(`Error settling payment ${payment.id} for event ${event.id}:`, error);
+
+    // Forgets the event so the provider's retry settles it rather than being
+    // taken for a duplicate
+    const { error: deleteError } = await supabase.from("payment_events").delete().eq("id", saved.id);
+    if (deleteError) console.error(`Error forgetting payment event ${event.id}:`, deleteError);
+
+    return Response.json({ error: "SETTLEMENT_FAILED" }, { status: 500 });
+  }
+});
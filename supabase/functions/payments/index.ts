@@ -0,0 +1,181 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createPaymentProvider, type CardDetails, type PaymentProvider } from "../_shared/payments/index.ts";
+import { settleAuthorization } from "../_shared/payments/settle.ts";
+
+// Everything in the app that moves money: paying for an order, refunding a
+// return and cancelling an order. Database functions called as the user check
+// the change is allowed and open it, the provider is called, and the service
+// role records what the provider did.
+
+interface Clients {
+  // Acts as the signed-in user
+  user: SupabaseClient;
+  // Service role, for recording what the provider did
+  service: SupabaseClient;
+  userId: string;
+  provider: PaymentProvider;
+}
+
+const json = (body: unknown, status = 200) => Response.json(body, { status, headers: corsHeaders });
+
+// Same shape as a PostgrestError, so the app can describe both the same way
+const fail = (error: { message: string; details?: string | null }, status = 400) =>
+  json({ error: error.message, details: error.details ?? null }, status);
+
+const authorize = async ({ user, service, provider }: Clients, orderId: string, card: CardDetails) => {
+  const { data, error } = await user.rpc("start_payment", { p_order_id: orderId, p_provider: provider.name });
+  if (error) return fail(error);
+
+  const payment = { id: data[0].payment_id as string, amount: Number(data[0].amount) };
+  const result = await provider.authorize({
+    paymentId: payment.id,
+    amount: payment.amount,
+    currency: data[0].currency,
+    card,
+  });
+  const settled = await settleAuthorization(service, provider, payment, result);
+
+  return json({
+    payment_id: payment.id,
+    status: settled.status,
+    failure_reason: settled.failureReason,
+    challenge: result.challenge ?? null,
+  });
+};
+
+const completeChallenge = async (
+  { user, service, userId, provider }: Clients,
+  paymentId: string,
+  response: string
+) => {
+  const { data: payment, error } = await user
+    .from("payments")
+    .select("id, amount, provider_reference, status")
+    .eq("id", paymentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) return fail(error);
+  if (!payment || payment.status !== "requires_action") return fail({ message: "PAYMENT_NOT_FOUND" }, 404);
+
+  const result = await provider.completeChallenge(payment.provider_reference, response);
+  const settled = await settleAuthorization(service, provider, { id: payment.id, amount: Number(payment.amount) }, result);
+
+  return json({ payment_id: payment.id, status: settled.status, failure_reason: settled.failureReason, challenge: null });
+};
+
+interface PendingRefund {
+  refund_id: string;
+  // Null for orders paid before payments were recorded
+  payment_id: string | null;
+  provider: string | null;
+  provider_reference: string | null;
+  amount: number;
+}
+
+// Pays out a refund opened by begin_return_refund or begin_cancellation, then
+// records it, which makes the change it was for, or records that it failed.
+// The refund's id goes to the provider so a retried refund isn't paid twice.
+const finishRefund = async ({ service, provider }: Clients, refund: PendingRefund) => {
+  let reference: string | null = null;
+
+  const failRefund = async (reason: string) => {
+    const { error } = await service.rpc("fail_refund", { p_refund_id: refund.refund_id, p_reason: reason });
+    if (error) throw error;
+  };
+
+  if (refund.payment_id) {
+    if (refund.provider !== provider.name) {
+      await failRefund("provider_mismatch");
+      return { message: "PAYMENT_PROVIDER_MISMATCH", details: refund.provider };
+    }
+
+    const result = await provider.refund(refund.provider_reference!, Number(refund.amount), refund.refund_id);
+    if (!result.ok) {
+      await failRefund(result.reason || "refund_failed");
+      return { message: "PAYMENT_REFUND_FAILED", details: result.reason ?? null };
+    }
+    reference = result.reference ?? null;
+  }
+
+  const { error } = await service.rpc("complete_refund", {
+    p_refund_id: refund.refund_id,
+    p_provider_reference: reference,
+  });
+  if (error) {
+    // Left pending, so the next attempt at the same change picks it up
+    console.error(`Refund ${refund.refund_id} was paid out but couldn't be recorded:`, error);
+    throw error;
+  }
+  return null;
+};
+
+const refundReturn = async (clients: Clients, requestId: string, amount?: number, note?: string) => {
+  const { data, error } = await clients.user.rpc("begin_return_refund", {
+    p_request_id: requestId,
+    p_amount: amount ?? null,
+    p_note: note ?? null,
+  });
+  if (error) return fail(error);
+
+  const refund = data[0] as PendingRefund;
+  const refundError = await finishRefund(clients, refund);
+  if (refundError) return fail(refundError, 502);
+
+  return json({ refunded: Number(refund.amount) });
+};
+
+// Orders with nothing to give back are cancelled by begin_cancellation itself
+const cancelOrder = async (clients: Clients, orderId: string, note?: string) => {
+  const { data, error } = await clients.user.rpc("begin_cancellation", {
+    p_order_id: orderId,
+    p_note: note ?? null,
+  });
+  if (error) return fail(error);
+
+  const refund = data[0] as PendingRefund | undefined;
+  if (refund) {
+    const refundError = await finishRefund(clients, refund);
+    if (refundError) return fail(refundError, 502);
+  }
+
+  return json({ refunded: refund ? Number(refund.amount) : 0 });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const { data: auth } = await user.auth.getUser();
+  if (!auth.user) return fail({ message: "NOT_AUTHENTICATED" }, 401);
+
+  const clients: Clients = {
+    user,
+    service: createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!),
+    userId: auth.user.id,
+    provider: createPaymentProvider(),
+  };
+  const body = await req.json();
+
+  try {
+    switch (body.action) {
+      case "authorize":
+        return await authorize(clients, body.order_id, body.card);
+      case "complete_challenge":
+        return await completeChallenge(clients, body.payment_id, body.response);
+      case "refund_return":
+        return await refundReturn(clients, body.return_request_id, body.amount, body.note);
+      case "cancel_order":
+        return await cancelOrder(clients, body.order_id, body.note);
+      default:
+        return fail({ message: "UNKNOWN_ACTION", details: String(body.action) });
+    }
+  } catch (error) {
+    console.error(`Error handling payment action ${body.action}:`, error);
+    return fail({ message: "PAYMENT_ERROR" }, 500);
+  }
+});
@@ -0,0 +1,73 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createMailer } from "../_shared/mailer.ts";
+import { renderEmail } from "../_shared/templates/index.ts";
+
+// Sends pending emails from email_outbox. Run it on a schedule (see the README);
+// each call sends at most one batch.
+const BATCH_SIZE = 20;
+// After this many failed attempts an email is marked failed and left alone
+const MAX_ATTEMPTS = 5;
+
+// Minutes to wait before the next attempt: 2, 4, 8, 16
+const retryDelay = (attempts: number) => new Date(Date.now() + 2 ** attempts * 60_000).toISOString();
+
+interface OutboxEmail {
+  id: string;
+  to_email: string;
+  template: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+}
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data, error } = await supabase.rpc("claim_email_outbox", { p_limit: BATCH_SIZE });
+
+  if (error) {
+    console.error("Error claiming emails:", error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const emails = (data || []) as OutboxEmail[];
+  const mailer = createMailer();
+  let sent = 0;
+  let failed = 0;
+
+  try {
+    for (const email of emails) {
+      try {
+        const { version, ...rendered } = renderEmail(email.template, email.payload);
+        await mailer.send({ to: email.to_email, ...rendered });
+        await supabase
+          .from("email_outbox")
+          .update({
+            status: "sent",
+            sent_at: new Date().toISOString(),
+            template_version: version,
+            last_error: null,
+          })
+          .eq("id", email.id);
+        sent++;
+      } catch (sendError) {
+        console.error(`Error sending email ${email.id}:`, sendError);
+        await supabase
+          .from("email_outbox")
+          .update({
+            status: email.attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+            next_attempt_at: retryDelay(email.attempts),
+            last_error: sendError instanceof Error ? sendError.message : String(sendError),
+          })
+          .eq("id", email.id);
+        failed++;
+      }
+    }
+  } finally {
+    await mailer.close();
+  }
+
+  return Response.json({ claimed: emails.length, sent, failed });
+});
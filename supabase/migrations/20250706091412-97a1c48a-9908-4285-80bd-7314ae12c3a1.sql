@@ -0,0 +1,93 @@
+
+-- Orders are now only created through place_order(), which prices the cart
+-- from the books table and takes stock in the same transaction.
+DROP POLICY IF EXISTS "Users can create their own orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can create order items for their orders" ON public.order_items;
+
+-- Stock can never go negative, whatever path updates it
+ALTER TABLE public.books
+  ADD CONSTRAINT books_stock_quantity_non_negative CHECK (stock_quantity >= 0);
+
+-- Place an order from the current user's cart.
+-- Raises NOT_AUTHENTICATED, EMPTY_CART or OUT_OF_STOCK (with the offending
+-- lines as JSON in the error detail) and writes nothing in those cases.
+CREATE OR REPLACE FUNCTION public.place_order(p_shipping_address TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id UUID;
+  v_total DECIMAL(10,2);
+  v_shortages JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_shipping_address IS NULL OR btrim(p_shipping_address) = '' THEN
+    RAISE EXCEPTION 'MISSING_SHIPPING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the books in the cart so concurrent checkouts queue up behind us
+  PERFORM 1
+  FROM public.books b
+  JOIN public.cart_items ci ON ci.book_id = b.id
+  WHERE ci.user_id = v_user_id
+  ORDER BY b.id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'book_id', b.id,
+    'title', b.title,
+    'requested', ci.quantity,
+    'available', b.stock_quantity
+  ))
+  INTO v_shortages
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id
+    AND ci.quantity > b.stock_quantity;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'OUT_OF_STOCK'
+      USING ERRCODE = 'P0001', DETAIL = v_shortages::text;
+  END IF;
+
+  SELECT SUM(b.price * ci.quantity)
+  INTO v_total
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  INSERT INTO public.orders (user_id, total_amount, status, shipping_address)
+  VALUES (v_user_id, v_total, 'confirmed', btrim(p_shipping_address))
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO public.order_items (order_id, book_id, quantity, price)
+  SELECT v_order_id, b.id, ci.quantity, b.price
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  UPDATE public.books b
+  SET stock_quantity = b.stock_quantity - ci.quantity,
+      updated_at = now()
+  FROM public.cart_items ci
+  WHERE ci.user_id = v_user_id
+    AND ci.book_id = b.id;
+
+  DELETE FROM public.cart_items WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT) TO authenticated;
@@ -0,0 +1,321 @@
+
+-- Promotion codes
+CREATE TYPE public.promotion_type AS ENUM ('percentage', 'fixed_amount', 'buy_x_get_y', 'free_shipping');
+
+CREATE TABLE public.promotions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(btrim(code)) AND code <> ''),
+  description TEXT,
+  type promotion_type NOT NULL,
+  -- Percentage (0-100) for 'percentage', currency amount for 'fixed_amount'
+  value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  buy_quantity INTEGER CHECK (buy_quantity > 0),
+  get_quantity INTEGER CHECK (get_quantity > 0),
+  -- When set, only books in this category count towards the promotion
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  min_spend DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_spend >= 0),
+  usage_limit INTEGER CHECK (usage_limit > 0),
+  usage_limit_per_user INTEGER CHECK (usage_limit_per_user > 0),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (type <> 'percentage' OR value <= 100),
+  CHECK (type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL)),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE TABLE public.promotion_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  promotion_id UUID NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  discount_amount DECIMAL(10,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX promotion_redemptions_promotion_id_idx ON public.promotion_redemptions (promotion_id);
+
+-- Orders keep the discount they were placed with
+ALTER TABLE public.orders
+  ADD COLUMN subtotal_amount DECIMAL(10,2),
+  ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL,
+  ADD COLUMN promotion_code TEXT,
+  ADD COLUMN free_shipping BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.orders SET subtotal_amount = total_amount WHERE subtotal_amount IS NULL;
+ALTER TABLE public.orders ALTER COLUMN subtotal_amount SET NOT NULL;
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Customers never read promotions directly; codes are checked via validate_promotion()
+CREATE POLICY "Admins can manage promotions" ON public.promotions
+  FOR ALL USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Users can view their own redemptions" ON public.promotion_redemptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redemptions" ON public.promotion_redemptions
+  FOR SELECT USING (public.get_current_user_role() = 'admin');
+
+-- Work out what a code is worth against a user's current cart.
+-- Raises a PROMO_* error when the code cannot be applied.
+CREATE OR REPLACE FUNCTION public.evaluate_promotion(
+  p_code TEXT,
+  p_user_id UUID,
+  OUT promotion_id UUID,
+  OUT code TEXT,
+  OUT description TEXT,
+  OUT discount_amount DECIMAL(10,2),
+  OUT free_shipping BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo public.promotions%ROWTYPE;
+  v_eligible_subtotal DECIMAL(10,2);
+  v_eligible_units INTEGER;
+  v_used INTEGER;
+  v_free_units INTEGER;
+BEGIN
+  SELECT * INTO v_promo FROM public.promotions p WHERE p.code = upper(btrim(p_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROMO_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT v_promo.is_active THEN
+    RAISE EXCEPTION 'PROMO_INACTIVE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_promo.starts_at IS NOT NULL AND v_promo.starts_at > now() THEN
+    RAISE EXCEPTION 'PROMO_NOT_STARTED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_promo.ends_at IS NOT NULL AND v_promo.ends_at <= now() THEN
+    RAISE EXCEPTION 'PROMO_EXPIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_promo.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM public.promotion_redemptions r
+    WHERE r.promotion_id = v_promo.id;
+
+    IF v_used >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'PROMO_USAGE_LIMIT_REACHED' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF v_promo.usage_limit_per_user IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM public.promotion_redemptions r
+    WHERE r.promotion_id = v_promo.id AND r.user_id = p_user_id;
+
+    IF v_used >= v_promo.usage_limit_per_user THEN
+      RAISE EXCEPTION 'PROMO_ALREADY_USED' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(SUM(b.price * ci.quantity), 0), COALESCE(SUM(ci.quantity), 0)
+  INTO v_eligible_subtotal, v_eligible_units
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = p_user_id
+    AND (v_promo.category_id IS NULL OR b.category_id = v_promo.category_id);
+
+  IF v_eligible_units = 0 THEN
+    RAISE EXCEPTION 'PROMO_NOT_APPLICABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_eligible_subtotal < v_promo.min_spend THEN
+    RAISE EXCEPTION 'PROMO_MIN_SPEND_NOT_MET'
+      USING ERRCODE = 'P0001', DETAIL = v_promo.min_spend::text;
+  END IF;
+
+  promotion_id := v_promo.id;
+  code := v_promo.code;
+  description := v_promo.description;
+  free_shipping := false;
+
+  CASE v_promo.type
+    WHEN 'percentage' THEN
+      discount_amount := round(v_eligible_subtotal * v_promo.value / 100, 2);
+    WHEN 'fixed_amount' THEN
+      discount_amount := LEAST(v_promo.value, v_eligible_subtotal);
+    WHEN 'buy_x_get_y' THEN
+      -- Every (buy + get) eligible copies earn `get` free copies, cheapest first
+      v_free_units := (v_eligible_units / (v_promo.buy_quantity + v_promo.get_quantity)) * v_promo.get_quantity;
+
+      IF v_free_units = 0 THEN
+        RAISE EXCEPTION 'PROMO_NOT_APPLICABLE' USING ERRCODE = 'P0001';
+      END IF;
+
+      SELECT COALESCE(SUM(units.price), 0)
+      INTO discount_amount
+      FROM (
+        SELECT b.price
+        FROM public.cart_items ci
+        JOIN public.books b ON b.id = ci.book_id
+        CROSS JOIN LATERAL generate_series(1, ci.quantity)
+        WHERE ci.user_id = p_user_id
+          AND (v_promo.category_id IS NULL OR b.category_id = v_promo.category_id)
+        ORDER BY b.price ASC
+        LIMIT v_free_units
+      ) units;
+    WHEN 'free_shipping' THEN
+      discount_amount := 0;
+      free_shipping := true;
+  END CASE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_promotion(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Client-facing check used by the cart and checkout to preview a code
+CREATE OR REPLACE FUNCTION public.validate_promotion(p_code TEXT)
+RETURNS TABLE (
+  promotion_id UUID,
+  code TEXT,
+  description TEXT,
+  discount_amount DECIMAL(10,2),
+  free_shipping BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.evaluate_promotion(p_code, auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.validate_promotion(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.validate_promotion(TEXT) TO authenticated;
+
+-- place_order now takes an optional promotion code, re-validated here
+DROP FUNCTION IF EXISTS public.place_order(TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shipping_address TEXT,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id UUID;
+  v_subtotal DECIMAL(10,2);
+  v_shortages JSONB;
+  v_promotion_id UUID;
+  v_promotion_code TEXT;
+  v_discount DECIMAL(10,2) := 0;
+  v_free_shipping BOOLEAN := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_shipping_address IS NULL OR btrim(p_shipping_address) = '' THEN
+    RAISE EXCEPTION 'MISSING_SHIPPING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the books in the cart so concurrent checkouts queue up behind us
+  PERFORM 1
+  FROM public.books b
+  JOIN public.cart_items ci ON ci.book_id = b.id
+  WHERE ci.user_id = v_user_id
+  ORDER BY b.id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'book_id', b.id,
+    'title', b.title,
+    'requested', ci.quantity,
+    'available', b.stock_quantity
+  ))
+  INTO v_shortages
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id
+    AND ci.quantity > b.stock_quantity;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'OUT_OF_STOCK'
+      USING ERRCODE = 'P0001', DETAIL = v_shortages::text;
+  END IF;
+
+  SELECT SUM(b.price * ci.quantity)
+  INTO v_subtotal
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  IF p_promo_code IS NOT NULL AND btrim(p_promo_code) <> '' THEN
+    -- Serialise redemptions of the same code so usage limits hold
+    PERFORM 1 FROM public.promotions WHERE code = upper(btrim(p_promo_code)) FOR UPDATE;
+    SELECT e.promotion_id, e.code, e.discount_amount, e.free_shipping
+    INTO v_promotion_id, v_promotion_code, v_discount, v_free_shipping
+    FROM public.evaluate_promotion(p_promo_code, v_user_id) e;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, subtotal_amount, discount_amount, total_amount, status, shipping_address,
+    promotion_id, promotion_code, free_shipping
+  )
+  VALUES (
+    v_user_id,
+    v_subtotal,
+    v_discount,
+    v_subtotal - v_discount,
+    'confirmed',
+    btrim(p_shipping_address),
+    v_promotion_id,
+    v_promotion_code,
+    v_free_shipping
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (v_promotion_id, v_order_id, v_user_id, v_discount);
+  END IF;
+
+  INSERT INTO public.order_items (order_id, book_id, quantity, price)
+  SELECT v_order_id, b.id, ci.quantity, b.price
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  UPDATE public.books b
+  SET stock_quantity = b.stock_quantity - ci.quantity,
+      updated_at = now()
+  FROM public.cart_items ci
+  WHERE ci.user_id = v_user_id
+    AND ci.book_id = b.id;
+
+  DELETE FROM public.cart_items WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,26 @@
+
+-- Merge a guest cart (kept in the browser before sign-in) into the user's cart.
+-- p_items is a JSON array of {book_id, quantity}; quantities for books already
+-- in the cart are summed rather than replaced. Unknown books are ignored.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(p_items JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.cart_items (user_id, book_id, quantity)
+  SELECT auth.uid(), b.id, SUM(GREATEST(item.quantity, 1))
+  FROM jsonb_to_recordset(p_items) AS item(book_id UUID, quantity INTEGER)
+  JOIN public.books b ON b.id = item.book_id
+  GROUP BY b.id
+  ON CONFLICT (user_id, book_id)
+  DO UPDATE SET quantity = public.cart_items.quantity + EXCLUDED.quantity;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_cart(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_guest_cart(JSONB) TO authenticated;
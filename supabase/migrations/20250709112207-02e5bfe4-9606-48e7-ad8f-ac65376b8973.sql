@@ -0,0 +1,69 @@
+
+-- Wishlist: books a customer has saved for later. The price and stock status at
+-- the time of saving are kept so the storefront can point out price drops and
+-- books that have come back into stock.
+CREATE TABLE public.wishlist_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  -- Filled from the book by set_wishlist_item_snapshot on insert
+  price_at_save NUMERIC(10,2) NOT NULL DEFAULT 0,
+  in_stock_at_save BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, book_id)
+);
+
+CREATE INDEX idx_wishlist_items_user_id ON public.wishlist_items(user_id);
+
+ALTER TABLE public.wishlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own wishlist" ON public.wishlist_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add to their own wishlist" ON public.wishlist_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove from their own wishlist" ON public.wishlist_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- The snapshot always comes from the book itself, never from the client
+CREATE OR REPLACE FUNCTION public.set_wishlist_item_snapshot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT b.price, b.stock_quantity > 0
+  INTO NEW.price_at_save, NEW.in_stock_at_save
+  FROM public.books b
+  WHERE b.id = NEW.book_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_wishlist_item_snapshot
+  BEFORE INSERT ON public.wishlist_items
+  FOR EACH ROW EXECUTE FUNCTION public.set_wishlist_item_snapshot();
+
+-- Dismiss a price-drop or back-in-stock notice by moving the snapshot up to the
+-- book's current price and stock status.
+CREATE OR REPLACE FUNCTION public.acknowledge_wishlist_item(p_item_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.wishlist_items w
+  SET price_at_save = b.price,
+      in_stock_at_save = b.stock_quantity > 0
+  FROM public.books b
+  WHERE w.id = p_item_id
+    AND w.user_id = auth.uid()
+    AND b.id = w.book_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acknowledge_wishlist_item(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acknowledge_wishlist_item(UUID) TO authenticated;
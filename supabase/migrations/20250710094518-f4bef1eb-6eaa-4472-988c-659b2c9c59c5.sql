@@ -0,0 +1,157 @@
+
+-- Catalog search: a weighted tsvector over title, author, ISBN, category name and
+-- description for ranked full-text matches, plus a lower-cased title/author/ISBN
+-- string with a trigram index so misspelled queries still find something.
+-- The category name lives in another table, so both columns are kept up to date
+-- by triggers rather than declared as generated columns.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.books
+  ADD COLUMN search_vector tsvector,
+  ADD COLUMN search_text TEXT;
+
+CREATE OR REPLACE FUNCTION public.build_book_search_vector(
+  p_title TEXT,
+  p_author TEXT,
+  p_isbn TEXT,
+  p_category_name TEXT,
+  p_description TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(p_author, '')), 'A') ||
+    -- ISBNs are indexed both as entered and with the hyphens stripped
+    setweight(to_tsvector('simple', coalesce(p_isbn, '') || ' ' || regexp_replace(coalesce(p_isbn, ''), '[^0-9Xx]', '', 'g')), 'A') ||
+    setweight(to_tsvector('english', coalesce(p_category_name, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_description, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_book_search_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_category_name TEXT;
+BEGIN
+  SELECT name INTO v_category_name FROM public.categories WHERE id = NEW.category_id;
+
+  NEW.search_vector := public.build_book_search_vector(
+    NEW.title, NEW.author, NEW.isbn, v_category_name, NEW.description
+  );
+  NEW.search_text := lower(concat_ws(' ', NEW.title, NEW.author, NEW.isbn));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_book_search_columns
+  BEFORE INSERT OR UPDATE OF title, author, isbn, category_id, description ON public.books
+  FOR EACH ROW EXECUTE FUNCTION public.update_book_search_columns();
+
+-- Renaming a category re-indexes its books
+CREATE OR REPLACE FUNCTION public.reindex_category_books()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.books SET category_id = category_id WHERE category_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reindex_category_books
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.reindex_category_books();
+
+-- Backfill existing rows through the trigger
+UPDATE public.books SET title = title;
+
+CREATE INDEX idx_books_search_vector ON public.books USING gin (search_vector);
+CREATE INDEX idx_books_search_text_trgm ON public.books USING gin (search_text extensions.gin_trgm_ops);
+
+-- Ranked catalog search. Rows match on the full-text query or, for typos, on
+-- trigram word similarity against title/author/ISBN. title_highlight and
+-- snippet wrap matched terms in <mark></mark>; they are plain text and must be
+-- rendered as such.
+CREATE OR REPLACE FUNCTION public.search_books(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 60,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  price NUMERIC,
+  original_price NUMERIC,
+  image_url TEXT,
+  stock_quantity INTEGER,
+  rating NUMERIC,
+  review_count INTEGER,
+  category_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH q AS (
+    SELECT
+      NULLIF(lower(btrim(p_query)), '') AS text,
+      websearch_to_tsquery('english', coalesce(p_query, '')) AS ts
+  ),
+  matches AS (
+    SELECT
+      b.*,
+      c.name AS category_name,
+      CASE WHEN q.text IS NULL THEN 0
+        ELSE ts_rank_cd(b.search_vector, q.ts) + word_similarity(q.text, b.search_text)
+      END::REAL AS rank
+    FROM public.books b
+    LEFT JOIN public.categories c ON c.id = b.category_id
+    CROSS JOIN q
+    WHERE (p_category IS NULL OR c.name = p_category)
+      AND (q.text IS NULL OR b.search_vector @@ q.ts OR q.text <% b.search_text)
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.author,
+    m.price,
+    m.original_price,
+    m.image_url,
+    m.stock_quantity,
+    m.rating,
+    m.review_count,
+    m.category_name,
+    m.rank,
+    CASE WHEN q.text IS NULL THEN m.title
+      ELSE ts_headline('english', m.title, q.ts, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')
+    END,
+    CASE WHEN q.text IS NULL OR m.description IS NULL THEN NULL
+      ELSE ts_headline('english', m.description, q.ts, 'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "')
+    END
+  FROM matches m
+  CROSS JOIN q
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' THEN m.rank END DESC,
+    CASE WHEN p_sort = 'price_low' THEN m.price END ASC,
+    CASE WHEN p_sort = 'price_high' THEN m.price END DESC,
+    CASE WHEN p_sort = 'rating' THEN m.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'newest' THEN m.created_at END DESC,
+    m.title ASC
+  LIMIT p_limit OFFSET p_offset;
+$$;
@@ -0,0 +1,61 @@
+
+-- Suggestions for the header search box as the user types. Each word of the
+-- query is matched as a prefix against the catalog search vector, falling back
+-- to trigram similarity for typos. Returns up to p_limit books, authors and
+-- categories; kind tells them apart.
+CREATE OR REPLACE FUNCTION public.search_suggestions(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  label TEXT,
+  detail TEXT,
+  image_url TEXT,
+  book_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH q AS (
+    SELECT
+      lower(btrim(p_query)) AS text,
+      (
+        SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+        FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS word
+        WHERE word <> ''
+      ) AS prefix
+  )
+  (
+    SELECT 'book', b.id, b.title, b.author, b.image_url, NULL::INTEGER
+    FROM public.books b, q
+    WHERE length(q.text) >= 2
+      AND (b.search_vector @@ q.prefix OR q.text <% b.search_text)
+    ORDER BY coalesce(ts_rank_cd(b.search_vector, q.prefix), 0) + word_similarity(q.text, b.search_text) DESC, b.title
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'author', NULL::UUID, b.author, NULL, NULL, count(*)::INTEGER
+    FROM public.books b, q
+    WHERE length(q.text) >= 2
+      AND (strpos(lower(b.author), q.text) > 0 OR q.text <% lower(b.author))
+    GROUP BY b.author
+    ORDER BY max(word_similarity(q.text, lower(b.author))) DESC, b.author
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'category', c.id, c.name, NULL, NULL, count(b.id)::INTEGER
+    FROM q, public.categories c
+    LEFT JOIN public.books b ON b.category_id = c.id
+    WHERE length(q.text) >= 2
+      AND (strpos(lower(c.name), q.text) > 0 OR q.text <% lower(c.name))
+    GROUP BY c.id, c.name
+    ORDER BY max(word_similarity(q.text, lower(c.name))) DESC, c.name
+    LIMIT p_limit
+  );
+$$;
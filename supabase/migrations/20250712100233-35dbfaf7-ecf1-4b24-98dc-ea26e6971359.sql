@@ -0,0 +1,175 @@
+
+-- Faceted catalog browsing: search_books gains price, rating, stock and sale
+-- filters and reports the total number of matches for pagination, and
+-- search_book_facets returns the counts shown next to each filter.
+DROP FUNCTION IF EXISTS public.search_books(TEXT, TEXT, TEXT, INTEGER, INTEGER);
+
+-- Rows matching the text query (or every book when there is none), with the
+-- relevance rank used for ordering. Shared by search_books and the facets.
+CREATE OR REPLACE FUNCTION public.match_books(p_query TEXT)
+RETURNS TABLE (
+  book_id UUID,
+  category_name TEXT,
+  rank REAL,
+  ts_query tsquery
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH q AS (
+    SELECT
+      NULLIF(lower(btrim(p_query)), '') AS text,
+      websearch_to_tsquery('english', coalesce(p_query, '')) AS ts
+  )
+  SELECT
+    b.id,
+    c.name,
+    CASE WHEN q.text IS NULL THEN 0
+      ELSE ts_rank_cd(b.search_vector, q.ts) + word_similarity(q.text, b.search_text)
+    END::REAL,
+    q.ts
+  FROM public.books b
+  LEFT JOIN public.categories c ON c.id = b.category_id
+  CROSS JOIN q
+  WHERE q.text IS NULL OR b.search_vector @@ q.ts OR q.text <% b.search_text;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_books(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_on_sale BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  price NUMERIC,
+  original_price NUMERIC,
+  image_url TEXT,
+  stock_quantity INTEGER,
+  rating NUMERIC,
+  review_count INTEGER,
+  category_name TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    b.id,
+    b.title,
+    b.author,
+    b.price,
+    b.original_price,
+    b.image_url,
+    b.stock_quantity,
+    b.rating,
+    b.review_count,
+    m.category_name,
+    m.rank,
+    CASE WHEN NULLIF(btrim(p_query), '') IS NULL THEN b.title
+      ELSE ts_headline('english', b.title, m.ts_query, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')
+    END,
+    CASE WHEN NULLIF(btrim(p_query), '') IS NULL OR b.description IS NULL THEN NULL
+      ELSE ts_headline('english', b.description, m.ts_query, 'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "')
+    END,
+    count(*) OVER ()
+  FROM public.match_books(p_query) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE (p_category IS NULL OR m.category_name = p_category)
+    AND (p_min_price IS NULL OR b.price >= p_min_price)
+    AND (p_max_price IS NULL OR b.price <= p_max_price)
+    AND (p_min_rating IS NULL OR b.rating >= p_min_rating)
+    AND (NOT p_in_stock OR b.stock_quantity > 0)
+    AND (NOT p_on_sale OR b.original_price > b.price)
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' THEN m.rank END DESC,
+    CASE WHEN p_sort = 'price_low' THEN b.price END ASC,
+    CASE WHEN p_sort = 'price_high' THEN b.price END DESC,
+    CASE WHEN p_sort = 'rating' THEN b.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'newest' THEN b.created_at END DESC,
+    b.title ASC
+  LIMIT p_limit OFFSET p_offset;
+$$;
+
+-- Counts for each filter option. Every facet is counted with all the other
+-- filters applied but not its own, so picking a category still shows how many
+-- books the other categories have.
+CREATE OR REPLACE FUNCTION public.search_book_facets(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_on_sale BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH base AS (
+    SELECT
+      b.price,
+      b.rating,
+      b.stock_quantity > 0 AS in_stock,
+      coalesce(b.original_price > b.price, false) AS on_sale,
+      m.category_name,
+      (p_category IS NULL OR m.category_name = p_category) AS category_ok,
+      ((p_min_price IS NULL OR b.price >= p_min_price)
+        AND (p_max_price IS NULL OR b.price <= p_max_price)) AS price_ok,
+      (p_min_rating IS NULL OR b.rating >= p_min_rating) AS rating_ok,
+      (NOT p_in_stock OR b.stock_quantity > 0) AS stock_ok,
+      (NOT p_on_sale OR b.original_price > b.price) AS sale_ok
+    FROM public.match_books(p_query) m
+    JOIN public.books b ON b.id = m.book_id
+  )
+  SELECT jsonb_build_object(
+    'categories', coalesce((
+      SELECT jsonb_agg(jsonb_build_object('name', category_name, 'count', total) ORDER BY category_name)
+      FROM (
+        SELECT category_name, count(*) AS total
+        FROM base
+        WHERE category_name IS NOT NULL AND price_ok AND rating_ok AND stock_ok AND sale_ok
+        GROUP BY category_name
+      ) c
+    ), '[]'::jsonb),
+    -- The slider bounds cover the whole result set regardless of the price filter
+    'price', (
+      SELECT jsonb_build_object('min', coalesce(floor(min(price)), 0), 'max', coalesce(ceil(max(price)), 0))
+      FROM base
+      WHERE category_ok AND rating_ok AND stock_ok AND sale_ok
+    ),
+    'ratings', (
+      SELECT jsonb_object_agg(threshold, total)
+      FROM (
+        SELECT t.threshold, count(base.rating) FILTER (WHERE base.rating >= t.threshold) AS total
+        FROM generate_series(1, 4) AS t(threshold)
+        LEFT JOIN base ON category_ok AND price_ok AND stock_ok AND sale_ok
+        GROUP BY t.threshold
+      ) r
+    ),
+    'in_stock', (
+      SELECT count(*) FROM base
+      WHERE in_stock AND category_ok AND price_ok AND rating_ok AND sale_ok
+    ),
+    'on_sale', (
+      SELECT count(*) FROM base
+      WHERE on_sale AND category_ok AND price_ok AND rating_ok AND stock_ok
+    )
+  );
+$$;
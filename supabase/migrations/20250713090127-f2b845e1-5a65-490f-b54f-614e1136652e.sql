@@ -0,0 +1,62 @@
+
+-- Keep each book's review aggregates on the book row so every page reads the
+-- same numbers without querying reviews: the average rating, the number of
+-- reviews and how many reviews gave each star rating.
+ALTER TABLE public.books
+  ADD COLUMN rating_distribution JSONB NOT NULL DEFAULT '{"1": 0, "2": 0, "3": 0, "4": 0, "5": 0}'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.refresh_book_review_stats(p_book_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.books b
+  SET rating = coalesce(s.average, 0),
+      review_count = s.total,
+      rating_distribution = s.distribution
+  FROM (
+    SELECT
+      round(avg(r.rating), 1) AS average,
+      count(r.id)::INTEGER AS total,
+      jsonb_build_object(
+        '1', count(r.id) FILTER (WHERE r.rating = 1),
+        '2', count(r.id) FILTER (WHERE r.rating = 2),
+        '3', count(r.id) FILTER (WHERE r.rating = 3),
+        '4', count(r.id) FILTER (WHERE r.rating = 4),
+        '5', count(r.id) FILTER (WHERE r.rating = 5)
+      ) AS distribution
+    FROM public.reviews r
+    WHERE r.book_id = p_book_id
+  ) s
+  WHERE b.id = p_book_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_book_review_stats(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_book_review_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_book_review_stats(NEW.book_id);
+  END IF;
+
+  -- A deleted review, or one moved to another book, changes the old book too
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.book_id <> NEW.book_id) THEN
+    PERFORM public.refresh_book_review_stats(OLD.book_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_book_review_stats
+  AFTER INSERT OR UPDATE OF rating, book_id OR DELETE ON public.reviews
+  FOR EACH ROW EXECUTE FUNCTION public.update_book_review_stats();
+
+-- Replace the seeded figures with ones computed from the actual reviews
+SELECT public.refresh_book_review_stats(id) FROM public.books;
@@ -0,0 +1,5 @@
+
+-- Order statuses for returns. Added in their own migration because new enum
+-- values can't be used in the transaction that adds them.
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'return_requested';
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'refunded';
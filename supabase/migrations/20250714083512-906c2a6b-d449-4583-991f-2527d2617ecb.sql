@@ -0,0 +1,281 @@
+
+-- Customer cancellations and return/refund requests.
+--   * Customers cancel their own pending or confirmed orders; stock is put back
+--     and any promotion redemption is released.
+--   * Customers open a return request on a delivered order for some or all of
+--     its items; admins approve, reject or refund it. Refunds are recorded on
+--     the order in refunded_amount. Returned copies are not restocked
+--     automatically since they need inspecting first.
+CREATE TYPE public.return_status AS ENUM ('requested', 'approved', 'rejected', 'refunded');
+
+ALTER TABLE public.orders
+  ADD COLUMN refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+CREATE TABLE public.return_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status public.return_status NOT NULL DEFAULT 'requested',
+  reason TEXT NOT NULL,
+  admin_note TEXT,
+  refund_amount DECIMAL(10,2) CHECK (refund_amount >= 0),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.return_request_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  return_request_id UUID NOT NULL REFERENCES public.return_requests(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  UNIQUE(return_request_id, order_item_id)
+);
+
+CREATE INDEX idx_return_requests_order_id ON public.return_requests(order_id);
+CREATE INDEX idx_return_requests_status ON public.return_requests(status);
+
+ALTER TABLE public.return_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.return_request_items ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through request_return() and resolve_return()
+CREATE POLICY "Users can view their own return requests" ON public.return_requests
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all return requests" ON public.return_requests
+  FOR SELECT USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Users can view their own return request items" ON public.return_request_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.return_requests rr
+      WHERE rr.id = return_request_id AND rr.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all return request items" ON public.return_request_items
+  FOR SELECT USING (public.get_current_user_role() = 'admin');
+
+-- Cancel one of the caller's orders while it is still pending or confirmed
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'ORDER_NOT_CANCELLABLE' USING ERRCODE = 'P0001', DETAIL = v_order.status::TEXT;
+  END IF;
+
+  UPDATE public.books b
+  SET stock_quantity = b.stock_quantity + oi.quantity
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id AND b.id = oi.book_id;
+
+  DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+
+  UPDATE public.orders
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
+
+-- Open a return request on a delivered order. p_items is a JSON array of
+-- {order_item_id, quantity}; quantities can't exceed what was bought less what
+-- earlier approved or refunded requests already covered.
+CREATE OR REPLACE FUNCTION public.request_return(
+  p_order_id UUID,
+  p_items JSONB,
+  p_reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_request_id UUID;
+  v_invalid JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'ORDER_NOT_RETURNABLE' USING ERRCODE = 'P0001', DETAIL = v_order.status::TEXT;
+  END IF;
+
+  IF coalesce(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'MISSING_RETURN_REASON' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'NO_RETURN_ITEMS' USING ERRCODE = 'P0001';
+  END IF;
+
+  WITH requested AS (
+    SELECT item.order_item_id, sum(item.quantity) AS quantity
+    FROM jsonb_to_recordset(p_items) AS item(order_item_id UUID, quantity INTEGER)
+    GROUP BY item.order_item_id
+  ),
+  already_returned AS (
+    SELECT rri.order_item_id, sum(rri.quantity) AS quantity
+    FROM public.return_request_items rri
+    JOIN public.return_requests rr ON rr.id = rri.return_request_id
+    WHERE rr.order_id = p_order_id AND rr.status IN ('approved', 'refunded')
+    GROUP BY rri.order_item_id
+  )
+  SELECT jsonb_agg(r.order_item_id)
+  INTO v_invalid
+  FROM requested r
+  LEFT JOIN public.order_items oi ON oi.id = r.order_item_id AND oi.order_id = p_order_id
+  LEFT JOIN already_returned ar ON ar.order_item_id = r.order_item_id
+  WHERE oi.id IS NULL
+    OR r.quantity IS NULL
+    OR r.quantity < 1
+    OR r.quantity > oi.quantity - coalesce(ar.quantity, 0);
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'INVALID_RETURN_ITEMS' USING ERRCODE = 'P0001', DETAIL = v_invalid::TEXT;
+  END IF;
+
+  INSERT INTO public.return_requests (order_id, user_id, reason)
+  VALUES (p_order_id, auth.uid(), btrim(p_reason))
+  RETURNING id INTO v_request_id;
+
+  INSERT INTO public.return_request_items (return_request_id, order_item_id, quantity)
+  SELECT v_request_id, item.order_item_id, sum(item.quantity)
+  FROM jsonb_to_recordset(p_items) AS item(order_item_id UUID, quantity INTEGER)
+  GROUP BY item.order_item_id;
+
+  UPDATE public.orders
+  SET status = 'return_requested', updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- Admin decision on a return request. p_action is 'approve', 'reject' or
+-- 'refund'. A refund defaults to the price paid for the returned items and is
+-- capped at what is left of the order total after earlier refunds.
+CREATE OR REPLACE FUNCTION public.resolve_return(
+  p_request_id UUID,
+  p_action TEXT,
+  p_refund_amount NUMERIC DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.return_requests%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_amount NUMERIC;
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.return_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RETURN_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_request.order_id
+  FOR UPDATE;
+
+  IF p_action = 'approve' AND v_request.status = 'requested' THEN
+    UPDATE public.return_requests
+    SET status = 'approved', admin_note = coalesce(p_note, admin_note), updated_at = now()
+    WHERE id = p_request_id;
+
+  ELSIF p_action = 'reject' AND v_request.status IN ('requested', 'approved') THEN
+    UPDATE public.return_requests
+    SET status = 'rejected', admin_note = coalesce(p_note, admin_note), resolved_at = now(), updated_at = now()
+    WHERE id = p_request_id;
+
+    -- Back to delivered unless another request on the order is still open
+    IF NOT EXISTS (
+      SELECT 1 FROM public.return_requests
+      WHERE order_id = v_order.id AND id <> p_request_id AND status IN ('requested', 'approved')
+    ) THEN
+      UPDATE public.orders
+      SET status = CASE WHEN refunded_amount > 0 THEN 'refunded' ELSE 'delivered' END::public.order_status,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+  ELSIF p_action = 'refund' AND v_request.status IN ('requested', 'approved') THEN
+    SELECT coalesce(p_refund_amount, sum(rri.quantity * oi.price))
+    INTO v_amount
+    FROM public.return_request_items rri
+    JOIN public.order_items oi ON oi.id = rri.order_item_id
+    WHERE rri.return_request_id = p_request_id;
+
+    IF v_amount IS NULL OR v_amount <= 0
+      OR v_amount > v_order.total_amount - v_order.refunded_amount THEN
+      RAISE EXCEPTION 'INVALID_REFUND_AMOUNT' USING ERRCODE = 'P0001',
+        DETAIL = (v_order.total_amount - v_order.refunded_amount)::TEXT;
+    END IF;
+
+    UPDATE public.return_requests
+    SET status = 'refunded',
+        refund_amount = v_amount,
+        admin_note = coalesce(p_note, admin_note),
+        resolved_at = now(),
+        updated_at = now()
+    WHERE id = p_request_id;
+
+    UPDATE public.orders
+    SET refunded_amount = refunded_amount + v_amount,
+        status = 'refunded',
+        updated_at = now()
+    WHERE id = v_order.id;
+
+  ELSE
+    RAISE EXCEPTION 'INVALID_RETURN_TRANSITION' USING ERRCODE = 'P0001', DETAIL = v_request.status::TEXT;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.request_return(UUID, JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resolve_return(UUID, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_return(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_return(UUID, TEXT, NUMERIC, TEXT) TO authenticated;
@@ -0,0 +1,163 @@
+
+-- Order status history.
+--   * Every status an order enters is recorded in order_status_events with who
+--     made the change and an optional note, so the customer and admins can see
+--     when it was confirmed, shipped, delivered and so on.
+--   * Orders can only move forward through the allowed transitions below; a
+--     delivered order can't go back to pending, and cancelled or refunded
+--     orders are final.
+CREATE TABLE public.order_status_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  old_status public.order_status,
+  new_status public.order_status NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_status_events_order_id ON public.order_status_events(order_id, created_at);
+
+ALTER TABLE public.order_status_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only ever written by the triggers below
+CREATE POLICY "Users can view status history of their own orders" ON public.order_status_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = order_id AND o.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all order status history" ON public.order_status_events
+  FOR SELECT USING (public.get_current_user_role() = 'admin');
+
+-- Which statuses an order may move to from each status. Return statuses are
+-- driven by request_return() and resolve_return().
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(
+  p_from public.order_status,
+  p_to public.order_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN p_to IN ('shipped', 'delivered', 'cancelled')
+    WHEN 'shipped' THEN p_to IN ('delivered')
+    WHEN 'delivered' THEN p_to IN ('return_requested')
+    WHEN 'return_requested' THEN p_to IN ('delivered', 'refunded')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING ERRCODE = 'P0001',
+      DETAIL = OLD.status::TEXT || ' -> ' || NEW.status::TEXT;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_order_status_transition();
+
+-- The note comes from update_order_status(), which passes it through a
+-- transaction-local setting since triggers can't take arguments.
+CREATE OR REPLACE FUNCTION public.log_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_events (order_id, old_status, new_status, changed_by, note)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid(),
+      nullif(current_setting('app.order_status_note', true), '')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_order_status_change
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_order_status_change();
+
+REVOKE EXECUTE ON FUNCTION public.log_order_status_change() FROM PUBLIC, anon, authenticated;
+
+-- Admins change an order's status through here so a note can go with it.
+-- Cancelling puts the stock back and releases the promotion, as cancel_order()
+-- does for customers.
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status IN ('return_requested', 'refunded') THEN
+    RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING ERRCODE = 'P0001',
+      DETAIL = v_order.status::TEXT || ' -> ' || p_status::TEXT;
+  END IF;
+
+  IF p_status = 'cancelled' AND v_order.status IN ('pending', 'confirmed') THEN
+    UPDATE public.books b
+    SET stock_quantity = b.stock_quantity + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = p_order_id AND b.id = oi.book_id;
+
+    DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(btrim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status, updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT) TO authenticated;
+
+-- Existing orders start their history at the status they are in now
+INSERT INTO public.order_status_events (order_id, old_status, new_status, created_at)
+SELECT id, NULL, status, created_at
+FROM public.orders;
@@ -0,0 +1,94 @@
+
+-- Admin access comes only from profiles.role.
+--   * Drops the placeholder admin@admin.com profile and create_admin_user(),
+--     which pointed at a fixed UUID that no auth user has.
+--   * The first admin is promoted from the SQL editor or psql with
+--     bootstrap_admin('you@example.com'); it can't be called from the app.
+--   * After that, admins promote and demote others with set_user_role().
+--     Role changes made any other way from the client are rejected.
+DELETE FROM public.profiles WHERE id = '00000000-0000-0000-0000-000000000001';
+
+DROP FUNCTION IF EXISTS public.create_admin_user();
+
+-- Client sessions (those with auth.uid()) may only change a role through the
+-- functions below, which set app.allow_role_change for their transaction.
+-- The service role and direct database connections are not restricted.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND current_setting('app.allow_role_change', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'ROLE_CHANGE_NOT_ALLOWED' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_role
+  BEFORE UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_role();
+
+-- Promote the first admin. Only runnable with database or service role
+-- access, e.g. `select public.bootstrap_admin('you@example.com');`
+CREATE OR REPLACE FUNCTION public.bootstrap_admin(p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  UPDATE public.profiles
+  SET role = 'admin', updated_at = now()
+  WHERE lower(email) = lower(btrim(p_email))
+  RETURNING id INTO v_user_id;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND' USING ERRCODE = 'P0001',
+      DETAIL = 'Sign up with ' || p_email || ' before promoting it';
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bootstrap_admin(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Admins change other users' roles. Admins can't change their own role, so
+-- there is always at least one admin left.
+CREATE OR REPLACE FUNCTION public.set_user_role(p_user_id UUID, p_role public.user_role)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'CANNOT_CHANGE_OWN_ROLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.allow_role_change', 'on', true);
+
+  UPDATE public.profiles
+  SET role = p_role, updated_at = now()
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.allow_role_change', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_user_role(UUID, public.user_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_role(UUID, public.user_role) TO authenticated;
@@ -0,0 +1,6 @@
+
+-- Staff roles between customer and admin. Added in their own migration because
+-- new enum values can't be used in the transaction that adds them.
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'catalog_editor';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'fulfilment';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'support';
@@ -0,0 +1,313 @@
+
+-- Staff permissions.
+--   * Each role maps to a set of capabilities in role_permissions; admins have
+--     all of them, the staff roles only what their job needs.
+--   * Policies and admin RPCs check has_permission() instead of comparing the
+--     role to 'admin', and the dashboard hides what a role can't use.
+CREATE TABLE public.role_permissions (
+  role public.user_role NOT NULL,
+  permission TEXT NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- The mapping isn't secret; it's edited with migrations, not from the app
+CREATE POLICY "Anyone signed in can view role permissions" ON public.role_permissions
+  FOR SELECT TO authenticated USING (true);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'catalog.write'),
+  ('admin', 'promotions.write'),
+  ('admin', 'orders.view'),
+  ('admin', 'orders.update'),
+  ('admin', 'returns.manage'),
+  ('admin', 'users.view'),
+  ('admin', 'users.block'),
+  ('admin', 'users.roles'),
+  ('catalog_editor', 'catalog.write'),
+  ('catalog_editor', 'promotions.write'),
+  ('fulfilment', 'orders.view'),
+  ('fulfilment', 'orders.update'),
+  ('support', 'orders.view'),
+  ('support', 'returns.manage'),
+  ('support', 'users.view'),
+  ('support', 'users.block');
+
+-- Security definer for the same reason as get_current_user_role(): policies on
+-- profiles call it, and reading profiles under RLS from there would recurse.
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.role_permissions rp ON rp.role = p.role
+    WHERE p.id = auth.uid() AND rp.permission = p_permission
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_current_user_permissions()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(rp.permission ORDER BY rp.permission), ARRAY[]::TEXT[])
+  FROM public.profiles p
+  JOIN public.role_permissions rp ON rp.role = p.role
+  WHERE p.id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_current_user_permissions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_current_user_permissions() TO authenticated;
+
+-- Profiles
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+
+CREATE POLICY "Staff can view profiles" ON public.profiles
+  FOR SELECT USING (public.has_permission('users.view') OR public.has_permission('orders.view'));
+
+CREATE POLICY "Staff can block users" ON public.profiles
+  FOR UPDATE USING (public.has_permission('users.block'));
+
+-- Only staff with users.block may change is_blocked from the app
+CREATE OR REPLACE FUNCTION public.protect_profile_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_blocked IS DISTINCT FROM OLD.is_blocked
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_permission('users.block') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_block
+  BEFORE UPDATE OF is_blocked ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_block();
+
+-- Catalog
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.categories;
+DROP POLICY IF EXISTS "Admins can manage books" ON public.books;
+
+CREATE POLICY "Catalog editors can manage categories" ON public.categories
+  FOR ALL USING (public.has_permission('catalog.write'));
+
+CREATE POLICY "Catalog editors can manage books" ON public.books
+  FOR ALL USING (public.has_permission('catalog.write'));
+
+-- Promotions
+DROP POLICY IF EXISTS "Admins can manage promotions" ON public.promotions;
+DROP POLICY IF EXISTS "Admins can view all redemptions" ON public.promotion_redemptions;
+
+CREATE POLICY "Staff can manage promotions" ON public.promotions
+  FOR ALL USING (public.has_permission('promotions.write'));
+
+CREATE POLICY "Staff can view all redemptions" ON public.promotion_redemptions
+  FOR SELECT USING (public.has_permission('promotions.write') OR public.has_permission('orders.view'));
+
+-- Orders
+DROP POLICY IF EXISTS "Admins can view all orders" ON public.orders;
+DROP POLICY IF EXISTS "Admins can update orders" ON public.orders;
+DROP POLICY IF EXISTS "Admins can view all order items" ON public.order_items;
+DROP POLICY IF EXISTS "Admins can view all order status history" ON public.order_status_events;
+
+CREATE POLICY "Staff can view all orders" ON public.orders
+  FOR SELECT USING (public.has_permission('orders.view'));
+
+CREATE POLICY "Staff can update orders" ON public.orders
+  FOR UPDATE USING (public.has_permission('orders.update'));
+
+CREATE POLICY "Staff can view all order items" ON public.order_items
+  FOR SELECT USING (public.has_permission('orders.view'));
+
+CREATE POLICY "Staff can view all order status history" ON public.order_status_events
+  FOR SELECT USING (public.has_permission('orders.view'));
+
+-- Returns
+DROP POLICY IF EXISTS "Admins can view all return requests" ON public.return_requests;
+DROP POLICY IF EXISTS "Admins can view all return request items" ON public.return_request_items;
+
+CREATE POLICY "Staff can view all return requests" ON public.return_requests
+  FOR SELECT USING (public.has_permission('returns.manage') OR public.has_permission('orders.view'));
+
+CREATE POLICY "Staff can view all return request items" ON public.return_request_items
+  FOR SELECT USING (public.has_permission('returns.manage') OR public.has_permission('orders.view'));
+
+-- Admin RPCs now check the matching permission rather than the admin role
+CREATE OR REPLACE FUNCTION public.resolve_return(
+  p_request_id UUID,
+  p_action TEXT,
+  p_refund_amount NUMERIC DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.return_requests%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_amount NUMERIC;
+BEGIN
+  IF NOT public.has_permission('returns.manage') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.return_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RETURN_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_request.order_id
+  FOR UPDATE;
+
+  IF p_action = 'approve' AND v_request.status = 'requested' THEN
+    UPDATE public.return_requests
+    SET status = 'approved', admin_note = coalesce(p_note, admin_note), updated_at = now()
+    WHERE id = p_request_id;
+
+  ELSIF p_action = 'reject' AND v_request.status IN ('requested', 'approved') THEN
+    UPDATE public.return_requests
+    SET status = 'rejected', admin_note = coalesce(p_note, admin_note), resolved_at = now(), updated_at = now()
+    WHERE id = p_request_id;
+
+    -- Back to delivered unless another request on the order is still open
+    IF NOT EXISTS (
+      SELECT 1 FROM public.return_requests
+      WHERE order_id = v_order.id AND id <> p_request_id AND status IN ('requested', 'approved')
+    ) THEN
+      UPDATE public.orders
+      SET status = CASE WHEN refunded_amount > 0 THEN 'refunded' ELSE 'delivered' END::public.order_status,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+  ELSIF p_action = 'refund' AND v_request.status IN ('requested', 'approved') THEN
+    SELECT coalesce(p_refund_amount, sum(rri.quantity * oi.price))
+    INTO v_amount
+    FROM public.return_request_items rri
+    JOIN public.order_items oi ON oi.id = rri.order_item_id
+    WHERE rri.return_request_id = p_request_id;
+
+    IF v_amount IS NULL OR v_amount <= 0
+      OR v_amount > v_order.total_amount - v_order.refunded_amount THEN
+      RAISE EXCEPTION 'INVALID_REFUND_AMOUNT' USING ERRCODE = 'P0001',
+        DETAIL = (v_order.total_amount - v_order.refunded_amount)::TEXT;
+    END IF;
+
+    UPDATE public.return_requests
+    SET status = 'refunded',
+        refund_amount = v_amount,
+        admin_note = coalesce(p_note, admin_note),
+        resolved_at = now(),
+        updated_at = now()
+    WHERE id = p_request_id;
+
+    UPDATE public.orders
+    SET refunded_amount = refunded_amount + v_amount,
+        status = 'refunded',
+        updated_at = now()
+    WHERE id = v_order.id;
+
+  ELSE
+    RAISE EXCEPTION 'INVALID_RETURN_TRANSITION' USING ERRCODE = 'P0001', DETAIL = v_request.status::TEXT;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('orders.update') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status IN ('return_requested', 'refunded') THEN
+    RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING ERRCODE = 'P0001',
+      DETAIL = v_order.status::TEXT || ' -> ' || p_status::TEXT;
+  END IF;
+
+  IF p_status = 'cancelled' AND v_order.status IN ('pending', 'confirmed') THEN
+    UPDATE public.books b
+    SET stock_quantity = b.stock_quantity + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = p_order_id AND b.id = oi.book_id;
+
+    DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(btrim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status, updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_role(p_user_id UUID, p_role public.user_role)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('users.roles') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'CANNOT_CHANGE_OWN_ROLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.allow_role_change', 'on', true);
+
+  UPDATE public.profiles
+  SET role = p_role, updated_at = now()
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.allow_role_change', '', true);
+END;
+$$;
@@ -0,0 +1,156 @@
+
+-- Account blocking.
+--   * A block carries a reason and an optional expiry; once blocked_until has
+--     passed the account works again without anyone lifting the block.
+--   * Blocked users can't write to their cart, wishlist, orders or reviews.
+--     Restrictive policies cover direct table access and a trigger covers the
+--     security definer RPCs (place_order, merge_guest_cart, request_return),
+--     which bypass RLS.
+--   * Replaces the "Blocked users cannot access data" policy, which let any
+--     signed-in user read and update every unblocked profile.
+UPDATE public.profiles SET is_blocked = false WHERE is_blocked IS NULL;
+
+ALTER TABLE public.profiles
+  ALTER COLUMN is_blocked SET NOT NULL,
+  ADD COLUMN block_reason TEXT,
+  ADD COLUMN blocked_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN blocked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN blocked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+DROP POLICY IF EXISTS "Blocked users cannot access data" ON public.profiles;
+
+CREATE OR REPLACE FUNCTION public.is_current_user_blocked()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid()
+      AND is_blocked
+      AND (blocked_until IS NULL OR blocked_until > now())
+  );
+$$;
+
+-- Writes denied while blocked. Deleting cart and wishlist items stays allowed.
+CREATE POLICY "Blocked users cannot add to their cart" ON public.cart_items
+  AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_current_user_blocked());
+
+CREATE POLICY "Blocked users cannot change their cart" ON public.cart_items
+  AS RESTRICTIVE FOR UPDATE USING (NOT public.is_current_user_blocked());
+
+CREATE POLICY "Blocked users cannot add to their wishlist" ON public.wishlist_items
+  AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_current_user_blocked());
+
+CREATE POLICY "Blocked users cannot create orders" ON public.orders
+  AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_current_user_blocked());
+
+CREATE POLICY "Blocked users cannot create order items" ON public.order_items
+  AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_current_user_blocked());
+
+CREATE POLICY "Blocked users cannot post reviews" ON public.reviews
+  AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_current_user_blocked());
+
+CREATE POLICY "Blocked users cannot edit reviews" ON public.reviews
+  AS RESTRICTIVE FOR UPDATE USING (NOT public.is_current_user_blocked());
+
+CREATE OR REPLACE FUNCTION public.reject_blocked_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF public.is_current_user_blocked() THEN
+    RAISE EXCEPTION 'ACCOUNT_BLOCKED' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_blocked_user
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.reject_blocked_user();
+
+CREATE TRIGGER reject_blocked_user
+  BEFORE INSERT OR UPDATE ON public.cart_items
+  FOR EACH ROW EXECUTE FUNCTION public.reject_blocked_user();
+
+CREATE TRIGGER reject_blocked_user
+  BEFORE INSERT ON public.return_requests
+  FOR EACH ROW EXECUTE FUNCTION public.reject_blocked_user();
+
+-- The block columns, like is_blocked, only change through set_user_block()
+-- or with users.block; otherwise users could lift their own block.
+CREATE OR REPLACE FUNCTION public.protect_profile_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.is_blocked, NEW.block_reason, NEW.blocked_until, NEW.blocked_at, NEW.blocked_by)
+      IS DISTINCT FROM (OLD.is_blocked, OLD.block_reason, OLD.blocked_until, OLD.blocked_at, OLD.blocked_by)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_permission('users.block') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_block ON public.profiles;
+
+CREATE TRIGGER protect_profile_block
+  BEFORE UPDATE OF is_blocked, block_reason, blocked_until, blocked_at, blocked_by ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_block();
+
+-- Block or unblock a user. Staff can't block themselves or an admin.
+CREATE OR REPLACE FUNCTION public.set_user_block(
+  p_user_id UUID,
+  p_blocked BOOLEAN,
+  p_reason TEXT DEFAULT NULL,
+  p_until TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role public.user_role;
+BEGIN
+  IF NOT public.has_permission('users.block') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT role INTO v_role FROM public.profiles WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_blocked AND (p_user_id = auth.uid() OR v_role = 'admin') THEN
+    RAISE EXCEPTION 'CANNOT_BLOCK_USER' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_blocked AND nullif(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'MISSING_BLOCK_REASON' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_blocked AND p_until IS NOT NULL AND p_until <= now() THEN
+    RAISE EXCEPTION 'INVALID_BLOCK_EXPIRY' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.profiles
+  SET is_blocked = p_blocked,
+      block_reason = CASE WHEN p_blocked THEN btrim(p_reason) END,
+      blocked_until = CASE WHEN p_blocked THEN p_until END,
+      blocked_at = CASE WHEN p_blocked THEN now() END,
+      blocked_by = CASE WHEN p_blocked THEN auth.uid() END,
+      updated_at = now()
+  WHERE id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_user_block(UUID, BOOLEAN, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_block(UUID, BOOLEAN, TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,121 @@
+
+-- Audit log of staff changes.
+--   * A generic trigger records every insert, update and delete made by a
+--     staff member on the catalog, promotions, orders, returns and profiles,
+--     with who did it and the before/after values of the changed columns.
+--   * Changes customers cause (placing an order decrementing stock, reviews
+--     updating ratings) aren't staff actions and aren't logged.
+--   * Readable by roles with the new audit.view permission.
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Kept so entries stay readable after the account is deleted
+  actor_email TEXT,
+  table_name TEXT NOT NULL,
+  row_id TEXT NOT NULL,
+  row_label TEXT,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_table_row ON public.audit_log(table_name, row_id);
+CREATE INDEX idx_audit_log_actor_id ON public.audit_log(actor_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by record_audit_log() and never changed
+CREATE POLICY "Staff can view the audit log" ON public.audit_log
+  FOR SELECT USING (public.has_permission('audit.view'));
+
+INSERT INTO public.role_permissions (role, permission) VALUES ('admin', 'audit.view');
+
+-- Trigger arguments name columns to leave out of the diff, e.g. derived
+-- search columns. Updates that only touch ignored columns aren't logged.
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_ignored TEXT[] := ARRAY['updated_at'] || coalesce(TG_ARGV::TEXT[], ARRAY[]::TEXT[]);
+  v_row JSONB;
+  v_before JSONB;
+  v_after JSONB;
+  v_actor_email TEXT;
+BEGIN
+  -- Only staff actions are audited
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    JOIN public.role_permissions rp ON rp.role = p.role
+    WHERE p.id = auth.uid()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  v_old := v_old - v_ignored;
+  v_new := v_new - v_ignored;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, v_new -> o.key)
+    INTO v_before, v_after
+    FROM jsonb_each(v_old) o
+    WHERE o.value IS DISTINCT FROM v_new -> o.key;
+
+    IF v_before IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    v_before := v_old;
+    v_after := v_new;
+  END IF;
+
+  v_row := coalesce(v_new, v_old);
+  SELECT email INTO v_actor_email FROM public.profiles WHERE id = auth.uid();
+
+  INSERT INTO public.audit_log (actor_id, actor_email, table_name, row_id, row_label, action, before, after)
+  VALUES (
+    auth.uid(),
+    v_actor_email,
+    TG_TABLE_NAME,
+    v_row ->> 'id',
+    coalesce(v_row ->> 'title', v_row ->> 'name', v_row ->> 'code', v_row ->> 'email'),
+    lower(TG_OP),
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_audit_log() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON public.books
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log('search_vector', 'search_text');
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON public.promotions
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON public.return_requests
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
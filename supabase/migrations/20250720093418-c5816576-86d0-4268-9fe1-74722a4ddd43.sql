@@ -0,0 +1,155 @@
+
+-- Sales analytics for the dashboard overview.
+--   * get_sales_analytics() aggregates orders in the database and returns one
+--     JSON document, so the browser never loads every order to draw charts.
+--   * Dates are whole days in the caller's time zone, inclusive at both ends.
+--   * Cancelled orders count towards orders by status but not towards sales.
+INSERT INTO public.role_permissions (role, permission) VALUES ('admin', 'reports.view');
+
+CREATE OR REPLACE FUNCTION public.get_sales_analytics(
+  p_from DATE,
+  p_to DATE,
+  p_bucket TEXT DEFAULT 'day',
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+BEGIN
+  IF NOT public.has_permission('reports.view') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'INVALID_BUCKET' USING ERRCODE = 'P0001', DETAIL = p_bucket;
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'INVALID_DATE_RANGE' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_start := p_from::TIMESTAMP AT TIME ZONE p_timezone;
+  v_end := (p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone;
+
+  RETURN (
+    WITH ranged AS (
+      SELECT o.*, o.created_at AT TIME ZONE p_timezone AS local_at
+      FROM public.orders o
+      WHERE o.created_at >= v_start AND o.created_at < v_end
+    ),
+    sales AS (
+      SELECT * FROM ranged WHERE status <> 'cancelled'
+    ),
+    -- Every period in the range, so quiet days still show up as zero
+    buckets AS (
+      SELECT generate_series(
+        date_trunc(p_bucket, p_from::TIMESTAMP),
+        date_trunc(p_bucket, p_to::TIMESTAMP),
+        ('1 ' || p_bucket)::INTERVAL
+      ) AS bucket
+    ),
+    -- Line totals at the price paid per copy, before order-level discounts
+    items AS (
+      SELECT
+        oi.book_id,
+        b.title,
+        coalesce(c.name, 'Uncategorized') AS category_name,
+        oi.quantity,
+        oi.quantity * oi.price AS revenue
+      FROM public.order_items oi
+      JOIN sales s ON s.id = oi.order_id
+      LEFT JOIN public.books b ON b.id = oi.book_id
+      LEFT JOIN public.categories c ON c.id = b.category_id
+    ),
+    book_totals AS (
+      SELECT book_id, title, sum(quantity) AS units, sum(revenue) AS revenue
+      FROM items
+      GROUP BY book_id, title
+    ),
+    category_totals AS (
+      SELECT category_name, sum(quantity) AS units, sum(revenue) AS revenue
+      FROM items
+      GROUP BY category_name
+    ),
+    -- A customer is new if their first ever non-cancelled order falls in the range
+    customers AS (
+      SELECT
+        s.user_id,
+        (SELECT min(o.created_at) FROM public.orders o
+          WHERE o.user_id = s.user_id AND o.status <> 'cancelled') >= v_start AS is_new
+      FROM (SELECT DISTINCT user_id FROM sales) s
+    )
+    SELECT jsonb_build_object(
+      'summary', (
+        SELECT jsonb_build_object(
+          'orders', count(*),
+          'gross_revenue', coalesce(sum(total_amount), 0),
+          'refunded', coalesce(sum(refunded_amount), 0),
+          'net_revenue', coalesce(sum(total_amount - refunded_amount), 0),
+          'average_order_value', coalesce(round(avg(total_amount), 2), 0),
+          'units_sold', (SELECT coalesce(sum(quantity), 0) FROM items)
+        )
+        FROM sales
+      ),
+      'revenue', (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'period', to_char(b.bucket, 'YYYY-MM-DD'),
+            'revenue', coalesce(t.revenue, 0),
+            'orders', coalesce(t.orders, 0)
+          )
+          ORDER BY b.bucket
+        )
+        FROM buckets b
+        LEFT JOIN (
+          SELECT date_trunc(p_bucket, local_at) AS bucket,
+                 sum(total_amount - refunded_amount) AS revenue,
+                 count(*) AS orders
+          FROM sales
+          GROUP BY 1
+        ) t ON t.bucket = b.bucket
+      ),
+      'orders_by_status', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('status', status, 'count', total) ORDER BY status)
+        FROM (SELECT status, count(*) AS total FROM ranged GROUP BY status) t
+      ), '[]'::jsonb),
+      'top_books', jsonb_build_object(
+        'units', coalesce((
+          SELECT jsonb_agg(to_jsonb(t) ORDER BY t.units DESC, t.revenue DESC)
+          FROM (SELECT * FROM book_totals ORDER BY units DESC, revenue DESC LIMIT 10) t
+        ), '[]'::jsonb),
+        'revenue', coalesce((
+          SELECT jsonb_agg(to_jsonb(t) ORDER BY t.revenue DESC, t.units DESC)
+          FROM (SELECT * FROM book_totals ORDER BY revenue DESC, units DESC LIMIT 10) t
+        ), '[]'::jsonb)
+      ),
+      'top_categories', jsonb_build_object(
+        'units', coalesce((
+          SELECT jsonb_agg(to_jsonb(t) ORDER BY t.units DESC, t.revenue DESC)
+          FROM (SELECT * FROM category_totals ORDER BY units DESC, revenue DESC LIMIT 10) t
+        ), '[]'::jsonb),
+        'revenue', coalesce((
+          SELECT jsonb_agg(to_jsonb(t) ORDER BY t.revenue DESC, t.units DESC)
+          FROM (SELECT * FROM category_totals ORDER BY revenue DESC, units DESC LIMIT 10) t
+        ), '[]'::jsonb)
+      ),
+      'customers', (
+        SELECT jsonb_build_object(
+          'new', count(*) FILTER (WHERE is_new),
+          'returning', count(*) FILTER (WHERE NOT is_new)
+        )
+        FROM customers
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_sales_analytics(DATE, DATE, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_sales_analytics(DATE, DATE, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,119 @@
+
+-- Bulk catalog import.
+--   * import_books() upserts a batch of books in one transaction, matching
+--     existing books on ISBN regardless of hyphens or spacing.
+--   * Rows that would change nothing are counted as skipped rather than
+--     rewritten, so re-importing an export leaves the audit log quiet.
+--   * The dashboard validates rows and resolves category names first; the
+--     function only rejects rows the table itself couldn't store.
+CREATE OR REPLACE FUNCTION public.normalize_isbn(p_isbn TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(regexp_replace(upper(coalesce(p_isbn, '')), '[^0-9X]', '', 'g'), '');
+$$;
+
+-- p_rows is an array of {isbn, title, author, price, original_price,
+-- stock_quantity, category_id, is_featured, image_url, description}.
+CREATE OR REPLACE FUNCTION public.import_books(p_rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_index BIGINT;
+  v_isbn TEXT;
+  v_book_id UUID;
+  v_created INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  IF NOT public.has_permission('catalog.write') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'NO_IMPORT_ROWS' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_row, v_index IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_rows) WITH ORDINALITY
+  LOOP
+    v_isbn := public.normalize_isbn(v_row->>'isbn');
+
+    IF v_isbn IS NULL
+      OR coalesce(btrim(v_row->>'title'), '') = ''
+      OR coalesce(btrim(v_row->>'author'), '') = ''
+      OR (v_row->>'price') IS NULL THEN
+      RAISE EXCEPTION 'INVALID_IMPORT_ROW' USING ERRCODE = 'P0001', DETAIL = v_index::TEXT;
+    END IF;
+
+    SELECT id INTO v_book_id
+    FROM public.books
+    WHERE public.normalize_isbn(isbn) = v_isbn
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_book_id IS NULL THEN
+      INSERT INTO public.books (
+        isbn, title, author, price, original_price, stock_quantity,
+        category_id, is_featured, image_url, description
+      ) VALUES (
+        v_isbn,
+        btrim(v_row->>'title'),
+        btrim(v_row->>'author'),
+        (v_row->>'price')::NUMERIC,
+        (v_row->>'original_price')::NUMERIC,
+        coalesce((v_row->>'stock_quantity')::INTEGER, 0),
+        (v_row->>'category_id')::UUID,
+        coalesce((v_row->>'is_featured')::BOOLEAN, false),
+        NULLIF(btrim(v_row->>'image_url'), ''),
+        NULLIF(btrim(v_row->>'description'), '')
+      );
+      v_created := v_created + 1;
+    ELSE
+      UPDATE public.books
+      SET isbn = v_isbn,
+          title = btrim(v_row->>'title'),
+          author = btrim(v_row->>'author'),
+          price = (v_row->>'price')::NUMERIC,
+          original_price = (v_row->>'original_price')::NUMERIC,
+          stock_quantity = coalesce((v_row->>'stock_quantity')::INTEGER, 0),
+          category_id = (v_row->>'category_id')::UUID,
+          is_featured = coalesce((v_row->>'is_featured')::BOOLEAN, false),
+          image_url = NULLIF(btrim(v_row->>'image_url'), ''),
+          description = NULLIF(btrim(v_row->>'description'), ''),
+          updated_at = now()
+      WHERE id = v_book_id
+        AND (isbn, title, author, price, original_price, stock_quantity,
+             category_id, is_featured, image_url, description)
+          IS DISTINCT FROM (
+            v_isbn,
+            btrim(v_row->>'title'),
+            btrim(v_row->>'author'),
+            (v_row->>'price')::NUMERIC,
+            (v_row->>'original_price')::NUMERIC,
+            coalesce((v_row->>'stock_quantity')::INTEGER, 0),
+            (v_row->>'category_id')::UUID,
+            coalesce((v_row->>'is_featured')::BOOLEAN, false),
+            NULLIF(btrim(v_row->>'image_url'), ''),
+            NULLIF(btrim(v_row->>'description'), '')
+          );
+
+      IF FOUND THEN
+        v_updated := v_updated + 1;
+      ELSE
+        v_skipped := v_skipped + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated, 'skipped', v_skipped);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_books(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_books(JSONB) TO authenticated;
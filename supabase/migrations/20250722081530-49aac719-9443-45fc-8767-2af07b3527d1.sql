@@ -0,0 +1,541 @@
+
+-- Inventory ledger.
+--   * Every change to a book's stock is a row in inventory_movements, and
+--     books.stock_quantity is kept equal to the sum of a book's movements.
+--     Writing stock_quantity directly is rejected.
+--   * Checkout records sales and cancellations reverse them, so recent sales
+--     can be read straight from the ledger.
+--   * Staff with inventory.manage record receipts, returns, adjustments and
+--     damage, and see books at or below their reorder threshold.
+CREATE TYPE public.inventory_movement_type AS ENUM ('receipt', 'sale', 'return', 'adjustment', 'damage');
+
+ALTER TABLE public.books
+  ADD COLUMN reorder_threshold INTEGER NOT NULL DEFAULT 5 CHECK (reorder_threshold >= 0);
+
+CREATE TABLE public.inventory_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  movement_type public.inventory_movement_type NOT NULL,
+  -- Signed change in stock: negative for sales and damage
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX inventory_movements_book_id_idx ON public.inventory_movements (book_id, created_at DESC);
+
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below
+CREATE POLICY "Staff can view inventory movements" ON public.inventory_movements
+  FOR SELECT USING (public.has_permission('inventory.manage'));
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'inventory.manage'),
+  ('catalog_editor', 'inventory.manage'),
+  ('fulfilment', 'inventory.manage');
+
+-- Applies a movement to the book. Opening balances are recorded for stock the
+-- row already holds, so app.opening_stock skips the update for those.
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.opening_stock', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('app.stock_sync', 'on', true);
+
+  UPDATE public.books
+  SET stock_quantity = stock_quantity + NEW.quantity, updated_at = now()
+  WHERE id = NEW.book_id;
+
+  PERFORM set_config('app.stock_sync', '', true);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_inventory_movement
+  AFTER INSERT ON public.inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION public.apply_inventory_movement();
+
+CREATE OR REPLACE FUNCTION public.protect_book_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity
+    AND current_setting('app.stock_sync', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'STOCK_MANAGED_BY_LEDGER' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_book_stock
+  BEFORE UPDATE OF stock_quantity ON public.books
+  FOR EACH ROW EXECUTE FUNCTION public.protect_book_stock();
+
+-- A book created with stock gets a receipt for it
+CREATE OR REPLACE FUNCTION public.record_opening_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stock_quantity > 0 THEN
+    PERFORM set_config('app.opening_stock', 'on', true);
+    INSERT INTO public.inventory_movements (book_id, movement_type, quantity, note)
+    VALUES (NEW.id, 'receipt', NEW.stock_quantity, 'Opening stock');
+    PERFORM set_config('app.opening_stock', '', true);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_opening_stock
+  AFTER INSERT ON public.books
+  FOR EACH ROW EXECUTE FUNCTION public.record_opening_stock();
+
+-- Existing stock becomes each book's opening balance
+SELECT set_config('app.opening_stock', 'on', true);
+
+INSERT INTO public.inventory_movements (book_id, movement_type, quantity, note, created_by, created_at)
+SELECT id, 'adjustment', stock_quantity, 'Opening balance', NULL, now()
+FROM public.books
+WHERE stock_quantity > 0;
+
+SELECT set_config('app.opening_stock', '', true);
+
+-- Record a movement by hand. p_quantity is the number of copies; its sign
+-- comes from the type, except for adjustments, which can go either way.
+CREATE OR REPLACE FUNCTION public.record_inventory_movement(
+  p_book_id UUID,
+  p_type public.inventory_movement_type,
+  p_quantity INTEGER,
+  p_note TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock INTEGER;
+  v_delta INTEGER;
+  v_movement_id UUID;
+BEGIN
+  IF NOT public.has_permission('inventory.manage') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 OR (p_type <> 'adjustment' AND p_quantity < 0) THEN
+    RAISE EXCEPTION 'INVALID_MOVEMENT_QUANTITY' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_type IN ('adjustment', 'damage') AND coalesce(btrim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'MISSING_MOVEMENT_NOTE' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT stock_quantity INTO v_stock
+  FROM public.books
+  WHERE id = p_book_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'BOOK_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_delta := CASE WHEN p_type IN ('sale', 'damage') THEN -p_quantity ELSE p_quantity END;
+
+  IF v_stock + v_delta < 0 THEN
+    RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001', DETAIL = v_stock::TEXT;
+  END IF;
+
+  INSERT INTO public.inventory_movements (book_id, movement_type, quantity, order_id, note)
+  VALUES (p_book_id, p_type, v_delta, p_order_id, NULLIF(btrim(p_note), ''))
+  RETURNING id INTO v_movement_id;
+
+  RETURN v_movement_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_inventory_movement(UUID, public.inventory_movement_type, INTEGER, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_inventory_movement(UUID, public.inventory_movement_type, INTEGER, TEXT, UUID) TO authenticated;
+
+-- Books at or below their reorder threshold. Days of cover is stock divided by
+-- average daily sales over the last p_days, and null when nothing sold.
+CREATE OR REPLACE FUNCTION public.get_low_stock_books(p_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  book_id UUID,
+  title TEXT,
+  author TEXT,
+  stock_quantity INTEGER,
+  reorder_threshold INTEGER,
+  units_sold BIGINT,
+  days_of_cover NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('inventory.manage') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN QUERY
+  WITH sales AS (
+    SELECT m.book_id, -sum(m.quantity) AS units
+    FROM public.inventory_movements m
+    WHERE m.movement_type = 'sale'
+      AND m.created_at >= now() - make_interval(days => p_days)
+    GROUP BY m.book_id
+  )
+  SELECT
+    b.id,
+    b.title,
+    b.author,
+    b.stock_quantity,
+    b.reorder_threshold,
+    coalesce(s.units, 0)::BIGINT,
+    CASE WHEN coalesce(s.units, 0) > 0
+      THEN round(b.stock_quantity / (s.units::NUMERIC / p_days), 1)
+    END
+  FROM public.books b
+  LEFT JOIN sales s ON s.book_id = b.id
+  WHERE b.stock_quantity <= b.reorder_threshold
+  ORDER BY 7 ASC NULLS LAST, b.stock_quantity ASC, b.title;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_low_stock_books(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_low_stock_books(INTEGER) TO authenticated;
+
+-- Checkout, cancellation and import now go through the ledger
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shipping_address TEXT,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id UUID;
+  v_subtotal DECIMAL(10,2);
+  v_shortages JSONB;
+  v_promotion_id UUID;
+  v_promotion_code TEXT;
+  v_discount DECIMAL(10,2) := 0;
+  v_free_shipping BOOLEAN := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_shipping_address IS NULL OR btrim(p_shipping_address) = '' THEN
+    RAISE EXCEPTION 'MISSING_SHIPPING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the books in the cart so concurrent checkouts queue up behind us
+  PERFORM 1
+  FROM public.books b
+  JOIN public.cart_items ci ON ci.book_id = b.id
+  WHERE ci.user_id = v_user_id
+  ORDER BY b.id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'book_id', b.id,
+    'title', b.title,
+    'requested', ci.quantity,
+    'available', b.stock_quantity
+  ))
+  INTO v_shortages
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id
+    AND ci.quantity > b.stock_quantity;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'OUT_OF_STOCK'
+      USING ERRCODE = 'P0001', DETAIL = v_shortages::text;
+  END IF;
+
+  SELECT SUM(b.price * ci.quantity)
+  INTO v_subtotal
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  IF p_promo_code IS NOT NULL AND btrim(p_promo_code) <> '' THEN
+    -- Serialise redemptions of the same code so usage limits hold
+    PERFORM 1 FROM public.promotions WHERE code = upper(btrim(p_promo_code)) FOR UPDATE;
+    SELECT e.promotion_id, e.code, e.discount_amount, e.free_shipping
+    INTO v_promotion_id, v_promotion_code, v_discount, v_free_shipping
+    FROM public.evaluate_promotion(p_promo_code, v_user_id) e;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, subtotal_amount, discount_amount, total_amount, status, shipping_address,
+    promotion_id, promotion_code, free_shipping
+  )
+  VALUES (
+    v_user_id,
+    v_subtotal,
+    v_discount,
+    v_subtotal - v_discount,
+    'confirmed',
+    btrim(p_shipping_address),
+    v_promotion_id,
+    v_promotion_code,
+    v_free_shipping
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (v_promotion_id, v_order_id, v_user_id, v_discount);
+  END IF;
+
+  INSERT INTO public.order_items (order_id, book_id, quantity, price)
+  SELECT v_order_id, b.id, ci.quantity, b.price
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  INSERT INTO public.inventory_movements (book_id, movement_type, quantity, order_id)
+  SELECT ci.book_id, 'sale', -ci.quantity, v_order_id
+  FROM public.cart_items ci
+  WHERE ci.user_id = v_user_id;
+
+  DELETE FROM public.cart_items WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Puts a cancelled order's copies back on the shelf. Recorded as negative
+-- sales so the order nets out of sales figures.
+CREATE OR REPLACE FUNCTION public.reverse_order_sales(p_order_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.inventory_movements (book_id, movement_type, quantity, order_id, note)
+  SELECT oi.book_id, 'sale', oi.quantity, p_order_id, 'Order cancelled'
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_order_sales(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'ORDER_NOT_CANCELLABLE' USING ERRCODE = 'P0001', DETAIL = v_order.status::TEXT;
+  END IF;
+
+  PERFORM public.reverse_order_sales(p_order_id);
+
+  DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+
+  UPDATE public.orders
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('orders.update') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status IN ('return_requested', 'refunded') THEN
+    RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING ERRCODE = 'P0001',
+      DETAIL = v_order.status::TEXT || ' -> ' || p_status::TEXT;
+  END IF;
+
+  IF p_status = 'cancelled' AND v_order.status IN ('pending', 'confirmed') THEN
+    PERFORM public.reverse_order_sales(p_order_id);
+
+    DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(btrim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status, updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+-- Stock in an import is the count on the shelf; differences from the current
+-- stock are recorded as adjustments.
+CREATE OR REPLACE FUNCTION public.import_books(p_rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_index BIGINT;
+  v_isbn TEXT;
+  v_book public.books%ROWTYPE;
+  v_stock INTEGER;
+  v_changed BOOLEAN;
+  v_created INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  IF NOT public.has_permission('catalog.write') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'NO_IMPORT_ROWS' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_row, v_index IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_rows) WITH ORDINALITY
+  LOOP
+    v_isbn := public.normalize_isbn(v_row->>'isbn');
+
+    IF v_isbn IS NULL
+      OR coalesce(btrim(v_row->>'title'), '') = ''
+      OR coalesce(btrim(v_row->>'author'), '') = ''
+      OR (v_row->>'price') IS NULL THEN
+      RAISE EXCEPTION 'INVALID_IMPORT_ROW' USING ERRCODE = 'P0001', DETAIL = v_index::TEXT;
+    END IF;
+
+    v_stock := coalesce((v_row->>'stock_quantity')::INTEGER, 0);
+
+    SELECT * INTO v_book
+    FROM public.books
+    WHERE public.normalize_isbn(isbn) = v_isbn
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_book.id IS NULL THEN
+      INSERT INTO public.books (
+        isbn, title, author, price, original_price, stock_quantity,
+        category_id, is_featured, image_url, description
+      ) VALUES (
+        v_isbn,
+        btrim(v_row->>'title'),
+        btrim(v_row->>'author'),
+        (v_row->>'price')::NUMERIC,
+        (v_row->>'original_price')::NUMERIC,
+        v_stock,
+        (v_row->>'category_id')::UUID,
+        coalesce((v_row->>'is_featured')::BOOLEAN, false),
+        NULLIF(btrim(v_row->>'image_url'), ''),
+        NULLIF(btrim(v_row->>'description'), '')
+      );
+      v_created := v_created + 1;
+    ELSE
+      UPDATE public.books
+      SET isbn = v_isbn,
+          title = btrim(v_row->>'title'),
+          author = btrim(v_row->>'author'),
+          price = (v_row->>'price')::NUMERIC,
+          original_price = (v_row->>'original_price')::NUMERIC,
+          category_id = (v_row->>'category_id')::UUID,
+          is_featured = coalesce((v_row->>'is_featured')::BOOLEAN, false),
+          image_url = NULLIF(btrim(v_row->>'image_url'), ''),
+          description = NULLIF(btrim(v_row->>'description'), ''),
+          updated_at = now()
+      WHERE id = v_book.id
+        AND (isbn, title, author, price, original_price,
+             category_id, is_featured, image_url, description)
+          IS DISTINCT FROM (
+            v_isbn,
+            btrim(v_row->>'title'),
+            btrim(v_row->>'author'),
+            (v_row->>'price')::NUMERIC,
+            (v_row->>'original_price')::NUMERIC,
+            (v_row->>'category_id')::UUID,
+            coalesce((v_row->>'is_featured')::BOOLEAN, false),
+            NULLIF(btrim(v_row->>'image_url'), ''),
+            NULLIF(btrim(v_row->>'description'), '')
+          );
+      v_changed := FOUND;
+
+      IF v_stock <> v_book.stock_quantity THEN
+        INSERT INTO public.inventory_movements (book_id, movement_type, quantity, note)
+        VALUES (v_book.id, 'adjustment', v_stock - v_book.stock_quantity, 'Catalog import');
+        v_changed := true;
+      END IF;
+
+      IF v_changed THEN
+        v_updated := v_updated + 1;
+      ELSE
+        v_skipped := v_skipped + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated, 'skipped', v_skipped);
+END;
+$$;
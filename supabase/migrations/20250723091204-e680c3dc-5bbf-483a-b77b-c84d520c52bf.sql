@@ -0,0 +1,110 @@
+
+-- Back-in-stock notifications and an outbound email queue.
+--   * Signed-in customers subscribe to a sold-out book from its page. A
+--     subscription is used once: when the book's stock goes from 0 to positive
+--     an email is queued for each subscriber and the subscription is removed.
+--   * email_outbox holds emails waiting to be sent. Only the service role can
+--     read it; the process-email-outbox edge function claims pending rows,
+--     renders them from their template and sends them through the mailer.
+CREATE TABLE public.stock_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, book_id)
+);
+
+CREATE INDEX idx_stock_notifications_book_id ON public.stock_notifications(book_id);
+
+ALTER TABLE public.stock_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stock notifications" ON public.stock_notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can subscribe to stock notifications" ON public.stock_notifications
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unsubscribe from stock notifications" ON public.stock_notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TABLE public.email_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  to_email TEXT NOT NULL,
+  -- Template name and the values it's rendered with, see supabase/functions/_shared/templates.ts
+  template TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX email_outbox_pending_idx ON public.email_outbox (created_at)
+  WHERE status IN ('pending', 'sending');
+
+-- No policies: clients can't see or write the queue
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_back_in_stock_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH fulfilled AS (
+    DELETE FROM public.stock_notifications
+    WHERE book_id = NEW.id
+    RETURNING user_id
+  )
+  INSERT INTO public.email_outbox (to_email, template, payload)
+  SELECT p.email,
+         'back_in_stock',
+         jsonb_build_object(
+           'book_id', NEW.id,
+           'title', NEW.title,
+           'author', NEW.author,
+           'name', p.full_name
+         )
+  FROM fulfilled f
+  JOIN public.profiles p ON p.id = f.user_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_back_in_stock_emails
+  AFTER UPDATE OF stock_quantity ON public.books
+  FOR EACH ROW
+  WHEN (OLD.stock_quantity = 0 AND NEW.stock_quantity > 0)
+  EXECUTE FUNCTION public.queue_back_in_stock_emails();
+
+-- Claims up to p_limit emails for sending. Rows left in 'sending' by a run that
+-- died are picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_outbox o
+  SET status = 'sending', locked_at = now(), attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT q.id
+    FROM public.email_outbox q
+    WHERE q.status = 'pending'
+       OR (q.status = 'sending' AND q.locked_at < now() - interval '10 minutes')
+    ORDER BY q.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) TO service_role;
@@ -0,0 +1,206 @@
+
+-- Order lifecycle emails.
+--   * Placing an order queues an 'order_received' email, and moving it to
+--     confirmed, shipped, delivered or cancelled queues the matching email.
+--     Each refund queues 'order_refunded' with the amount refunded.
+--   * The payload snapshots the line items and totals when the email is
+--     queued, so a later change to the order doesn't alter what was sent.
+--   * Orders record a carrier and tracking number when they ship.
+--   * Failed sends are retried with a growing delay (next_attempt_at), and the
+--     template version each email was rendered with is kept.
+ALTER TABLE public.orders
+  ADD COLUMN tracking_carrier TEXT,
+  ADD COLUMN tracking_number TEXT;
+
+ALTER TABLE public.email_outbox
+  ADD COLUMN order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  ADD COLUMN template_version INTEGER,
+  ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+DROP INDEX public.email_outbox_pending_idx;
+
+CREATE INDEX email_outbox_due_idx ON public.email_outbox (next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_outbox o
+  SET status = 'sending', locked_at = now(), attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT q.id
+    FROM public.email_outbox q
+    WHERE (q.status = 'pending' AND q.next_attempt_at <= now())
+       OR (q.status = 'sending' AND q.locked_at < now() - interval '10 minutes')
+    ORDER BY q.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+-- p_extra is merged over the standard order payload
+CREATE OR REPLACE FUNCTION public.queue_order_email(
+  p_order_id UUID,
+  p_template TEXT,
+  p_extra JSONB DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.email_outbox (to_email, template, payload, order_id)
+  SELECT p.email,
+         p_template,
+         jsonb_build_object(
+           'order_id', o.id,
+           'name', p.full_name,
+           'placed_at', o.created_at,
+           'shipping_address', o.shipping_address,
+           'items', coalesce((
+             SELECT jsonb_agg(
+                      jsonb_build_object(
+                        'title', b.title,
+                        'author', b.author,
+                        'quantity', oi.quantity,
+                        'price', oi.price
+                      )
+                      ORDER BY b.title
+                    )
+             FROM public.order_items oi
+             JOIN public.books b ON b.id = oi.book_id
+             WHERE oi.order_id = o.id
+           ), '[]'::jsonb),
+           'subtotal', o.subtotal_amount,
+           'discount', o.discount_amount,
+           'promotion_code', o.promotion_code,
+           'total', o.total_amount,
+           'refunded_amount', o.refunded_amount,
+           'tracking_carrier', o.tracking_carrier,
+           'tracking_number', o.tracking_number,
+           -- Set by update_order_status for the duration of the change
+           'note', nullif(current_setting('app.order_status_note', true), '')
+         ) || p_extra,
+         o.id
+  FROM public.orders o
+  JOIN public.profiles p ON p.id = o.user_id
+  WHERE o.id = p_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_order_email(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.queue_order_received_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.queue_order_email(NEW.id, 'order_received');
+  RETURN NULL;
+END;
+$$;
+
+-- Deferred to commit so the line items place_order inserts after the order are
+-- in the email
+CREATE CONSTRAINT TRIGGER queue_order_received_email
+  AFTER INSERT ON public.orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.queue_order_received_email();
+
+CREATE OR REPLACE FUNCTION public.queue_order_status_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.refunded_amount > OLD.refunded_amount THEN
+    PERFORM public.queue_order_email(
+      NEW.id,
+      'order_refunded',
+      jsonb_build_object('refund_amount', NEW.refunded_amount - OLD.refunded_amount)
+    );
+  -- A rejected return puts the order back to delivered; that isn't news to the customer
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('confirmed', 'shipped', 'delivered', 'cancelled')
+    AND OLD.status <> 'return_requested' THEN
+    PERFORM public.queue_order_email(NEW.id, 'order_' || NEW.status::TEXT);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_order_status_email
+  AFTER UPDATE OF status, refunded_amount ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.queue_order_status_email();
+
+-- Same as before, plus the tracking details when an order ships
+DROP FUNCTION IF EXISTS public.update_order_status(UUID, public.order_status, TEXT);
+
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL,
+  p_tracking_carrier TEXT DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('orders.update') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status IN ('return_requested', 'refunded') THEN
+    RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING ERRCODE = 'P0001',
+      DETAIL = v_order.status::TEXT || ' -> ' || p_status::TEXT;
+  END IF;
+
+  IF p_status = 'cancelled' AND v_order.status IN ('pending', 'confirmed') THEN
+    PERFORM public.reverse_order_sales(p_order_id);
+
+    DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(btrim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status,
+      tracking_carrier = CASE WHEN p_status = 'shipped'
+        THEN nullif(btrim(p_tracking_carrier), '') ELSE tracking_carrier END,
+      tracking_number = CASE WHEN p_status = 'shipped'
+        THEN nullif(btrim(p_tracking_number), '') ELSE tracking_number END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,457 @@
+
+-- Shipping methods and rates.
+--   * Staff with shipping.manage configure delivery methods (standard, express,
+--     in-store pickup, ...) and their rate rules. A rule applies to a country
+--     (or anywhere), a band of parcel weight and a band of order value; the
+--     cheapest rule that matches wins, and rules for the customer's country
+--     take precedence over catch-all rules.
+--   * Checkout quotes the active methods for the cart and destination, and
+--     place_order charges the chosen method's rate unless a free-shipping
+--     promotion applies. The method and cost are stored on the order.
+--   * Carriers have a tracking URL template, and orders.tracking_carrier now
+--     refers to one so the storefront and emails can link to tracking.
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'shipping.manage');
+
+ALTER TABLE public.books
+  ADD COLUMN weight_grams INTEGER NOT NULL DEFAULT 400 CHECK (weight_grams > 0);
+
+CREATE TABLE public.shipping_carriers (
+  code TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- {tracking_number} is replaced with the order's tracking number
+  tracking_url_template TEXT
+);
+
+ALTER TABLE public.shipping_carriers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shipping carriers" ON public.shipping_carriers
+  FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage shipping carriers" ON public.shipping_carriers
+  FOR ALL USING (public.has_permission('shipping.manage'));
+
+INSERT INTO public.shipping_carriers (code, name, tracking_url_template) VALUES
+  ('usps', 'USPS', 'https://tools.usps.com/go/TrackConfirmAction?tLabels={tracking_number}'),
+  ('ups', 'UPS', 'https://www.ups.com/track?tracknum={tracking_number}'),
+  ('fedex', 'FedEx', 'https://www.fedex.com/fedextrack/?trknbr={tracking_number}'),
+  ('dhl', 'DHL', 'https://www.dhl.com/global-en/home/tracking/tracking-express.html?tracking-id={tracking_number}'),
+  ('other', 'Other', NULL);
+
+CREATE TABLE public.shipping_methods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  carrier_code TEXT REFERENCES public.shipping_carriers(code) ON DELETE SET NULL,
+  -- In-store pickup doesn't need a delivery address
+  requires_address BOOLEAN NOT NULL DEFAULT true,
+  min_days INTEGER CHECK (min_days >= 0),
+  max_days INTEGER CHECK (max_days >= min_days),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.shipping_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active shipping methods" ON public.shipping_methods
+  FOR SELECT USING (is_active OR public.has_permission('shipping.manage'));
+
+CREATE POLICY "Staff can manage shipping methods" ON public.shipping_methods
+  FOR ALL USING (public.has_permission('shipping.manage'));
+
+CREATE TABLE public.shipping_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  method_id UUID NOT NULL REFERENCES public.shipping_methods(id) ON DELETE CASCADE,
+  -- ISO 3166-1 alpha-2 code; NULL applies anywhere
+  country_code TEXT CHECK (country_code ~ '^[A-Z]{2}$'),
+  min_weight_grams INTEGER NOT NULL DEFAULT 0 CHECK (min_weight_grams >= 0),
+  max_weight_grams INTEGER CHECK (max_weight_grams >= min_weight_grams),
+  min_order_value NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (min_order_value >= 0),
+  max_order_value NUMERIC(10,2) CHECK (max_order_value >= min_order_value),
+  price NUMERIC(10,2) NOT NULL CHECK (price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shipping_rates_method_id ON public.shipping_rates(method_id);
+
+ALTER TABLE public.shipping_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shipping rates" ON public.shipping_rates
+  FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage shipping rates" ON public.shipping_rates
+  FOR ALL USING (public.has_permission('shipping.manage'));
+
+WITH methods AS (
+  INSERT INTO public.shipping_methods (code, name, description, carrier_code, requires_address, min_days, max_days, sort_order)
+  VALUES
+    ('standard', 'Standard', 'Tracked delivery', 'usps', true, 3, 7, 1),
+    ('express', 'Express', 'Next or second day delivery', 'ups', true, 1, 2, 2),
+    ('pickup', 'In-store pickup', 'Collect from the shop once we email you', NULL, false, NULL, NULL, 3)
+  RETURNING id, code
+)
+INSERT INTO public.shipping_rates (method_id, country_code, min_weight_grams, max_weight_grams, min_order_value, price)
+SELECT m.id, r.country_code, r.min_weight_grams, r.max_weight_grams, r.min_order_value, r.price
+FROM methods m
+JOIN (VALUES
+  ('standard', 'US', 0, 2000, 0, 4.99),
+  ('standard', 'US', 2001, NULL, 0, 8.99),
+  ('standard', 'US', 0, NULL, 35, 0),
+  ('standard', NULL, 0, NULL, 0, 14.99),
+  ('express', 'US', 0, NULL, 0, 12.99),
+  ('express', NULL, 0, NULL, 0, 29.99),
+  ('pickup', NULL, 0, NULL, 0, 0)
+) AS r(method_code, country_code, min_weight_grams, max_weight_grams, min_order_value, price)
+  ON r.method_code = m.code;
+
+-- Orders
+ALTER TABLE public.orders
+  ADD COLUMN shipping_method_id UUID REFERENCES public.shipping_methods(id) ON DELETE SET NULL,
+  -- Kept so the order still reads correctly if the method is renamed or removed
+  ADD COLUMN shipping_method_name TEXT,
+  ADD COLUMN shipping_country TEXT,
+  ADD COLUMN shipping_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (shipping_amount >= 0);
+
+-- Carriers entered as free text become the matching carrier, or 'other'
+UPDATE public.orders o
+SET tracking_carrier = coalesce(
+  (SELECT c.code FROM public.shipping_carriers c
+   WHERE c.code = lower(btrim(o.tracking_carrier)) OR lower(c.name) = lower(btrim(o.tracking_carrier))),
+  'other'
+)
+WHERE o.tracking_carrier IS NOT NULL;
+
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_tracking_carrier_fkey
+  FOREIGN KEY (tracking_carrier) REFERENCES public.shipping_carriers(code);
+
+-- Price of a method for a parcel, or NULL when no rule matches
+CREATE OR REPLACE FUNCTION public.shipping_rate_for(
+  p_method_id UUID,
+  p_country TEXT,
+  p_weight_grams INTEGER,
+  p_order_value NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.price
+  FROM public.shipping_rates r
+  WHERE r.method_id = p_method_id
+    AND (r.country_code IS NULL OR r.country_code = upper(btrim(p_country)))
+    AND p_weight_grams >= r.min_weight_grams
+    AND (r.max_weight_grams IS NULL OR p_weight_grams <= r.max_weight_grams)
+    AND p_order_value >= r.min_order_value
+    AND (r.max_order_value IS NULL OR p_order_value <= r.max_order_value)
+  ORDER BY r.country_code IS NULL, r.price
+  LIMIT 1;
+$$;
+
+-- Active methods that can deliver the current user's cart to p_country
+CREATE OR REPLACE FUNCTION public.quote_shipping(p_country TEXT)
+RETURNS TABLE (
+  method_id UUID,
+  code TEXT,
+  name TEXT,
+  description TEXT,
+  carrier_name TEXT,
+  requires_address BOOLEAN,
+  min_days INTEGER,
+  max_days INTEGER,
+  price NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_weight INTEGER;
+  v_subtotal NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT coalesce(sum(b.weight_grams * ci.quantity), 0), coalesce(sum(b.price * ci.quantity), 0)
+  INTO v_weight, v_subtotal
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = auth.uid();
+
+  RETURN QUERY
+  SELECT m.id, m.code, m.name, m.description, c.name, m.requires_address, m.min_days, m.max_days, q.price
+  FROM public.shipping_methods m
+  LEFT JOIN public.shipping_carriers c ON c.code = m.carrier_code
+  CROSS JOIN LATERAL (
+    SELECT public.shipping_rate_for(m.id, p_country, v_weight, v_subtotal) AS price
+  ) q
+  WHERE m.is_active AND q.price IS NOT NULL
+  ORDER BY m.sort_order, m.name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quote_shipping(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_shipping(TEXT) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.place_order(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shipping_address TEXT,
+  p_shipping_method_id UUID,
+  p_shipping_country TEXT,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id UUID;
+  v_subtotal DECIMAL(10,2);
+  v_weight INTEGER;
+  v_shortages JSONB;
+  v_method public.shipping_methods%ROWTYPE;
+  v_shipping DECIMAL(10,2);
+  v_promotion_id UUID;
+  v_promotion_code TEXT;
+  v_discount DECIMAL(10,2) := 0;
+  v_free_shipping BOOLEAN := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_method
+  FROM public.shipping_methods
+  WHERE id = p_shipping_method_id AND is_active;
+
+  IF NOT FOUND OR p_shipping_country IS NULL OR btrim(p_shipping_country) = '' THEN
+    RAISE EXCEPTION 'SHIPPING_METHOD_UNAVAILABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_method.requires_address AND (p_shipping_address IS NULL OR btrim(p_shipping_address) = '') THEN
+    RAISE EXCEPTION 'MISSING_SHIPPING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the books in the cart so concurrent checkouts queue up behind us
+  PERFORM 1
+  FROM public.books b
+  JOIN public.cart_items ci ON ci.book_id = b.id
+  WHERE ci.user_id = v_user_id
+  ORDER BY b.id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'book_id', b.id,
+    'title', b.title,
+    'requested', ci.quantity,
+    'available', b.stock_quantity
+  ))
+  INTO v_shortages
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id
+    AND ci.quantity > b.stock_quantity;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'OUT_OF_STOCK'
+      USING ERRCODE = 'P0001', DETAIL = v_shortages::text;
+  END IF;
+
+  SELECT SUM(b.price * ci.quantity), SUM(b.weight_grams * ci.quantity)
+  INTO v_subtotal, v_weight
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  v_shipping := public.shipping_rate_for(v_method.id, p_shipping_country, v_weight, v_subtotal);
+
+  IF v_shipping IS NULL THEN
+    RAISE EXCEPTION 'SHIPPING_METHOD_UNAVAILABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND btrim(p_promo_code) <> '' THEN
+    -- Serialise redemptions of the same code so usage limits hold
+    PERFORM 1 FROM public.promotions WHERE code = upper(btrim(p_promo_code)) FOR UPDATE;
+    SELECT e.promotion_id, e.code, e.discount_amount, e.free_shipping
+    INTO v_promotion_id, v_promotion_code, v_discount, v_free_shipping
+    FROM public.evaluate_promotion(p_promo_code, v_user_id) e;
+  END IF;
+
+  IF v_free_shipping THEN
+    v_shipping := 0;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, subtotal_amount, discount_amount, shipping_amount, total_amount, status,
+    shipping_address, shipping_country, shipping_method_id, shipping_method_name,
+    promotion_id, promotion_code, free_shipping
+  )
+  VALUES (
+    v_user_id,
+    v_subtotal,
+    v_discount,
+    v_shipping,
+    v_subtotal - v_discount + v_shipping,
+    'confirmed',
+    CASE WHEN v_method.requires_address THEN btrim(p_shipping_address) ELSE v_method.name END,
+    upper(btrim(p_shipping_country)),
+    v_method.id,
+    v_method.name,
+    v_promotion_id,
+    v_promotion_code,
+    v_free_shipping
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (v_promotion_id, v_order_id, v_user_id, v_discount);
+  END IF;
+
+  INSERT INTO public.order_items (order_id, book_id, quantity, price)
+  SELECT v_order_id, b.id, ci.quantity, b.price
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  INSERT INTO public.inventory_movements (book_id, movement_type, quantity, order_id)
+  SELECT ci.book_id, 'sale', -ci.quantity, v_order_id
+  FROM public.cart_items ci
+  WHERE ci.user_id = v_user_id;
+
+  DELETE FROM public.cart_items WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, UUID, TEXT, TEXT) TO authenticated;
+
+-- Same as before, but the carrier must be one of shipping_carriers
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL,
+  p_tracking_carrier TEXT DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('orders.update') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status IN ('return_requested', 'refunded') THEN
+    RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING ERRCODE = 'P0001',
+      DETAIL = v_order.status::TEXT || ' -> ' || p_status::TEXT;
+  END IF;
+
+  IF p_status = 'shipped' AND nullif(btrim(p_tracking_carrier), '') IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.shipping_carriers WHERE code = btrim(p_tracking_carrier)) THEN
+    RAISE EXCEPTION 'UNKNOWN_CARRIER' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status = 'cancelled' AND v_order.status IN ('pending', 'confirmed') THEN
+    PERFORM public.reverse_order_sales(p_order_id);
+
+    DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(btrim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status,
+      tracking_carrier = CASE WHEN p_status = 'shipped'
+        THEN nullif(btrim(p_tracking_carrier), '') ELSE tracking_carrier END,
+      tracking_number = CASE WHEN p_status = 'shipped'
+        THEN nullif(btrim(p_tracking_number), '') ELSE tracking_number END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+-- Order emails now include the shipping method, its cost and a tracking link
+CREATE OR REPLACE FUNCTION public.queue_order_email(
+  p_order_id UUID,
+  p_template TEXT,
+  p_extra JSONB DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.email_outbox (to_email, template, payload, order_id)
+  SELECT p.email,
+         p_template,
+         jsonb_build_object(
+           'order_id', o.id,
+           'name', p.full_name,
+           'placed_at', o.created_at,
+           'shipping_address', o.shipping_address,
+           'shipping_method', o.shipping_method_name,
+           'items', coalesce((
+             SELECT jsonb_agg(
+                      jsonb_build_object(
+                        'title', b.title,
+                        'author', b.author,
+                        'quantity', oi.quantity,
+                        'price', oi.price
+                      )
+                      ORDER BY b.title
+                    )
+             FROM public.order_items oi
+             JOIN public.books b ON b.id = oi.book_id
+             WHERE oi.order_id = o.id
+           ), '[]'::jsonb),
+           'subtotal', o.subtotal_amount,
+           'discount', o.discount_amount,
+           'promotion_code', o.promotion_code,
+           'shipping', o.shipping_amount,
+           'total', o.total_amount,
+           'refunded_amount', o.refunded_amount,
+           'tracking_carrier', c.name,
+           'tracking_number', o.tracking_number,
+           'tracking_url', replace(c.tracking_url_template, '{tracking_number}', o.tracking_number),
+           -- Set by update_order_status for the duration of the change
+           'note', nullif(current_setting('app.order_status_note', true), '')
+         ) || p_extra,
+         o.id
+  FROM public.orders o
+  JOIN public.profiles p ON p.id = o.user_id
+  LEFT JOIN public.shipping_carriers c ON c.code = o.tracking_carrier
+  WHERE o.id = p_order_id;
+END;
+$$;
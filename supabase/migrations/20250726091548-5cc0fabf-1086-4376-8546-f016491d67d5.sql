@@ -0,0 +1,292 @@
+
+-- Address book.
+--   * Customers keep structured addresses (recipient, street lines, city,
+--     region, postal code, country, phone) and can mark one as their default
+--     shipping address and one as their default billing address. Their first
+--     address becomes both defaults.
+--   * Checkout picks saved addresses instead of asking for a free-text
+--     address. The order keeps a copy of the shipping and billing addresses as
+--     they were when it was placed, so later edits don't change past orders.
+--     orders.shipping_address keeps a one-line rendering for emails and lists.
+--   * profiles.address is no longer edited; it stays so nothing is lost, and
+--     the address book offers it as a starting point.
+CREATE TABLE public.addresses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL CHECK (btrim(full_name) <> ''),
+  line1 TEXT NOT NULL CHECK (btrim(line1) <> ''),
+  line2 TEXT,
+  city TEXT NOT NULL CHECK (btrim(city) <> ''),
+  region TEXT,
+  postal_code TEXT,
+  -- ISO 3166-1 alpha-2 code
+  country_code TEXT NOT NULL CHECK (country_code ~ '^[A-Z]{2}$'),
+  phone TEXT,
+  is_default_shipping BOOLEAN NOT NULL DEFAULT false,
+  is_default_billing BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_addresses_user_id ON public.addresses(user_id);
+
+CREATE UNIQUE INDEX addresses_default_shipping_idx ON public.addresses(user_id)
+  WHERE is_default_shipping;
+
+CREATE UNIQUE INDEX addresses_default_billing_idx ON public.addresses(user_id)
+  WHERE is_default_billing;
+
+ALTER TABLE public.addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own addresses" ON public.addresses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own addresses" ON public.addresses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own addresses" ON public.addresses
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own addresses" ON public.addresses
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Marking an address as a default clears the flag on the user's other
+-- addresses, and a user's first address becomes both defaults.
+CREATE OR REPLACE FUNCTION public.maintain_default_addresses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.addresses WHERE user_id = NEW.user_id
+  ) THEN
+    NEW.is_default_shipping := true;
+    NEW.is_default_billing := true;
+  END IF;
+
+  IF NEW.is_default_shipping THEN
+    UPDATE public.addresses
+    SET is_default_shipping = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default_shipping;
+  END IF;
+
+  IF NEW.is_default_billing THEN
+    UPDATE public.addresses
+    SET is_default_billing = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default_billing;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintain_default_addresses
+  BEFORE INSERT OR UPDATE OF is_default_shipping, is_default_billing ON public.addresses
+  FOR EACH ROW EXECUTE FUNCTION public.maintain_default_addresses();
+
+-- One-line rendering of an address snapshot
+CREATE OR REPLACE FUNCTION public.format_address(p_address JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(', ',
+    p_address->>'full_name',
+    p_address->>'line1',
+    nullif(p_address->>'line2', ''),
+    p_address->>'city',
+    nullif(concat_ws(' ', nullif(p_address->>'region', ''), nullif(p_address->>'postal_code', '')), ''),
+    p_address->>'country_code'
+  );
+$$;
+
+ALTER TABLE public.orders
+  ADD COLUMN shipping_address_snapshot JSONB,
+  ADD COLUMN billing_address_snapshot JSONB;
+
+-- Addresses now come from the address book: the shipping address is required
+-- unless the method is pickup, and the billing address defaults to it.
+DROP FUNCTION IF EXISTS public.place_order(TEXT, UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shipping_method_id UUID,
+  p_shipping_address_id UUID DEFAULT NULL,
+  p_billing_address_id UUID DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id UUID;
+  v_subtotal DECIMAL(10,2);
+  v_weight INTEGER;
+  v_shortages JSONB;
+  v_method public.shipping_methods%ROWTYPE;
+  v_shipping_address JSONB;
+  v_billing_address JSONB;
+  v_country TEXT;
+  v_shipping DECIMAL(10,2);
+  v_promotion_id UUID;
+  v_promotion_code TEXT;
+  v_discount DECIMAL(10,2) := 0;
+  v_free_shipping BOOLEAN := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_method
+  FROM public.shipping_methods
+  WHERE id = p_shipping_method_id AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SHIPPING_METHOD_UNAVAILABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_shipping_address_id IS NOT NULL THEN
+    SELECT to_jsonb(a) - 'id' - 'user_id' - 'is_default_shipping' - 'is_default_billing' - 'created_at' - 'updated_at'
+    INTO v_shipping_address
+    FROM public.addresses a
+    WHERE a.id = p_shipping_address_id AND a.user_id = v_user_id;
+
+    IF v_shipping_address IS NULL THEN
+      RAISE EXCEPTION 'ADDRESS_NOT_FOUND' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF p_billing_address_id IS NOT NULL THEN
+    SELECT to_jsonb(a) - 'id' - 'user_id' - 'is_default_shipping' - 'is_default_billing' - 'created_at' - 'updated_at'
+    INTO v_billing_address
+    FROM public.addresses a
+    WHERE a.id = p_billing_address_id AND a.user_id = v_user_id;
+
+    IF v_billing_address IS NULL THEN
+      RAISE EXCEPTION 'ADDRESS_NOT_FOUND' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF v_method.requires_address AND v_shipping_address IS NULL THEN
+    RAISE EXCEPTION 'MISSING_SHIPPING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_billing_address := coalesce(v_billing_address, v_shipping_address);
+
+  IF v_billing_address IS NULL THEN
+    RAISE EXCEPTION 'MISSING_BILLING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Pickup orders are priced for the customer's own country
+  v_country := coalesce(v_shipping_address, v_billing_address)->>'country_code';
+
+  IF NOT v_method.requires_address THEN
+    v_shipping_address := NULL;
+  END IF;
+
+  -- Lock the books in the cart so concurrent checkouts queue up behind us
+  PERFORM 1
+  FROM public.books b
+  JOIN public.cart_items ci ON ci.book_id = b.id
+  WHERE ci.user_id = v_user_id
+  ORDER BY b.id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'book_id', b.id,
+    'title', b.title,
+    'requested', ci.quantity,
+    'available', b.stock_quantity
+  ))
+  INTO v_shortages
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id
+    AND ci.quantity > b.stock_quantity;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'OUT_OF_STOCK'
+      USING ERRCODE = 'P0001', DETAIL = v_shortages::text;
+  END IF;
+
+  SELECT SUM(b.price * ci.quantity), SUM(b.weight_grams * ci.quantity)
+  INTO v_subtotal, v_weight
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  v_shipping := public.shipping_rate_for(v_method.id, v_country, v_weight, v_subtotal);
+
+  IF v_shipping IS NULL THEN
+    RAISE EXCEPTION 'SHIPPING_METHOD_UNAVAILABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND btrim(p_promo_code) <> '' THEN
+    -- Serialise redemptions of the same code so usage limits hold
+    PERFORM 1 FROM public.promotions WHERE code = upper(btrim(p_promo_code)) FOR UPDATE;
+    SELECT e.promotion_id, e.code, e.discount_amount, e.free_shipping
+    INTO v_promotion_id, v_promotion_code, v_discount, v_free_shipping
+    FROM public.evaluate_promotion(p_promo_code, v_user_id) e;
+  END IF;
+
+  IF v_free_shipping THEN
+    v_shipping := 0;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, subtotal_amount, discount_amount, shipping_amount, total_amount, status,
+    shipping_address, shipping_address_snapshot, billing_address_snapshot,
+    shipping_country, shipping_method_id, shipping_method_name,
+    promotion_id, promotion_code, free_shipping
+  )
+  VALUES (
+    v_user_id,
+    v_subtotal,
+    v_discount,
+    v_shipping,
+    v_subtotal - v_discount + v_shipping,
+    'confirmed',
+    coalesce(public.format_address(v_shipping_address), v_method.name),
+    v_shipping_address,
+    v_billing_address,
+    v_country,
+    v_method.id,
+    v_method.name,
+    v_promotion_id,
+    v_promotion_code,
+    v_free_shipping
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (v_promotion_id, v_order_id, v_user_id, v_discount);
+  END IF;
+
+  INSERT INTO public.order_items (order_id, book_id, quantity, price)
+  SELECT v_order_id, b.id, ci.quantity, b.price
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  INSERT INTO public.inventory_movements (book_id, movement_type, quantity, order_id)
+  SELECT ci.book_id, 'sale', -ci.quantity, v_order_id
+  FROM public.cart_items ci
+  WHERE ci.user_id = v_user_id;
+
+  DELETE FROM public.cart_items WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, UUID, TEXT) TO authenticated;
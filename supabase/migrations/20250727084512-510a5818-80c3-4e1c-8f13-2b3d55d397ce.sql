@@ -0,0 +1,620 @@
+
+-- Sales tax.
+--   * Rates are set per country, optionally narrowed to a region (state,
+--     province, ...), and per tax class, so printed books and gift items can be
+--     taxed differently. A region's rate takes precedence over the country's,
+--     and places without a rate aren't taxed.
+--   * place_order works out tax per line on the price after the order
+--     discount (shared out across lines by value) and stores the rate and
+--     amount on each order item, with the total on the order. Shipping isn't
+--     taxed.
+--   * store_settings.tax_display decides whether totals show tax as its own
+--     line (exclusive) or as included in the total (inclusive). It only
+--     changes how totals are presented, not what is charged.
+--   * Sales reports include the tax collected, per country and region.
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'tax.manage');
+
+-- Single row of shop-wide settings
+CREATE TABLE public.store_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  tax_display TEXT NOT NULL DEFAULT 'exclusive' CHECK (tax_display IN ('exclusive', 'inclusive')),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.store_settings DEFAULT VALUES;
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view store settings" ON public.store_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Staff can update tax settings" ON public.store_settings
+  FOR UPDATE USING (public.has_permission('tax.manage'));
+
+CREATE TABLE public.tax_classes (
+  code TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL
+);
+
+ALTER TABLE public.tax_classes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax classes" ON public.tax_classes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage tax classes" ON public.tax_classes
+  FOR ALL USING (public.has_permission('tax.manage'));
+
+INSERT INTO public.tax_classes (code, name) VALUES
+  ('books', 'Printed books'),
+  ('standard', 'Gifts and merchandise');
+
+ALTER TABLE public.books
+  ADD COLUMN tax_class TEXT NOT NULL DEFAULT 'books' REFERENCES public.tax_classes(code);
+
+CREATE TABLE public.tax_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- ISO 3166-1 alpha-2 code
+  country_code TEXT NOT NULL CHECK (country_code ~ '^[A-Z]{2}$'),
+  -- Matched against the region on the customer's address, ignoring case;
+  -- NULL covers the whole country
+  region TEXT CHECK (region = upper(btrim(region)) AND region <> ''),
+  tax_class TEXT NOT NULL REFERENCES public.tax_classes(code) ON DELETE CASCADE,
+  -- Shown to customers, e.g. "VAT" or "Sales tax"
+  name TEXT NOT NULL DEFAULT 'Tax',
+  -- 0.0725 is 7.25%
+  rate NUMERIC(6,4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX tax_rates_scope_idx
+  ON public.tax_rates (country_code, coalesce(region, ''), tax_class);
+
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax rates" ON public.tax_rates
+  FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage tax rates" ON public.tax_rates
+  FOR ALL USING (public.has_permission('tax.manage'));
+
+INSERT INTO public.tax_rates (country_code, region, tax_class, name, rate) VALUES
+  ('US', 'CA', 'books', 'Sales tax', 0.0725),
+  ('US', 'CA', 'standard', 'Sales tax', 0.0725),
+  ('US', 'NY', 'books', 'Sales tax', 0.04),
+  ('US', 'NY', 'standard', 'Sales tax', 0.04),
+  ('US', 'TX', 'books', 'Sales tax', 0.0625),
+  ('US', 'TX', 'standard', 'Sales tax', 0.0625),
+  ('CA', NULL, 'books', 'GST', 0.05),
+  ('CA', NULL, 'standard', 'GST', 0.05),
+  ('GB', NULL, 'books', 'VAT', 0),
+  ('GB', NULL, 'standard', 'VAT', 0.20),
+  ('IE', NULL, 'books', 'VAT', 0),
+  ('IE', NULL, 'standard', 'VAT', 0.23),
+  ('DE', NULL, 'books', 'VAT', 0.07),
+  ('DE', NULL, 'standard', 'VAT', 0.19),
+  ('FR', NULL, 'books', 'VAT', 0.055),
+  ('FR', NULL, 'standard', 'VAT', 0.20),
+  ('AU', NULL, 'books', 'GST', 0.10),
+  ('AU', NULL, 'standard', 'GST', 0.10);
+
+ALTER TABLE public.order_items
+  ADD COLUMN tax_rate NUMERIC(6,4) NOT NULL DEFAULT 0,
+  ADD COLUMN tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.orders
+  ADD COLUMN tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  -- Where the order was taxed, for reports
+  ADD COLUMN tax_country TEXT,
+  ADD COLUMN tax_region TEXT;
+
+-- Tax for each line of a user's cart when delivered to p_country/p_region.
+-- p_discount is shared out across the lines in proportion to their value.
+CREATE OR REPLACE FUNCTION public.cart_tax_lines(
+  p_user_id UUID,
+  p_country TEXT,
+  p_region TEXT,
+  p_discount NUMERIC
+)
+RETURNS TABLE (
+  book_id UUID,
+  quantity INTEGER,
+  price NUMERIC,
+  tax_name TEXT,
+  tax_rate NUMERIC,
+  tax_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH lines AS (
+    SELECT ci.book_id,
+           ci.quantity,
+           b.price,
+           b.tax_class,
+           b.price * ci.quantity AS line_total,
+           sum(b.price * ci.quantity) OVER () AS subtotal
+    FROM public.cart_items ci
+    JOIN public.books b ON b.id = ci.book_id
+    WHERE ci.user_id = p_user_id
+  )
+  SELECT l.book_id,
+         l.quantity,
+         l.price,
+         r.name,
+         coalesce(r.rate, 0),
+         round(
+           greatest(l.line_total - coalesce(p_discount, 0) * l.line_total / nullif(l.subtotal, 0), 0)
+             * coalesce(r.rate, 0),
+           2
+         )
+  FROM lines l
+  LEFT JOIN LATERAL (
+    SELECT t.name, t.rate
+    FROM public.tax_rates t
+    WHERE t.country_code = upper(btrim(p_country))
+      AND t.tax_class = l.tax_class
+      AND (t.region IS NULL OR t.region = upper(btrim(p_region)))
+    ORDER BY t.region IS NULL
+    LIMIT 1
+  ) r ON true;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cart_tax_lines(UUID, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Tax on the current user's cart, one row per tax name and rate, for showing
+-- at checkout before the order is placed
+CREATE OR REPLACE FUNCTION public.quote_tax(
+  p_country TEXT,
+  p_region TEXT DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  name TEXT,
+  rate NUMERIC,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_discount NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND btrim(p_promo_code) <> '' THEN
+    BEGIN
+      SELECT e.discount_amount INTO v_discount
+      FROM public.evaluate_promotion(p_promo_code, auth.uid()) e;
+    EXCEPTION WHEN raise_exception THEN
+      -- The code's problem is reported when it's applied; quote without it
+      v_discount := 0;
+    END;
+  END IF;
+
+  RETURN QUERY
+  SELECT t.tax_name, t.tax_rate, sum(t.tax_amount)
+  FROM public.cart_tax_lines(auth.uid(), p_country, p_region, coalesce(v_discount, 0)) t
+  WHERE t.tax_amount > 0
+  GROUP BY t.tax_name, t.tax_rate
+  ORDER BY t.tax_rate DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quote_tax(TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_tax(TEXT, TEXT, TEXT) TO authenticated;
+
+-- Same as before, plus tax on each line
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shipping_method_id UUID,
+  p_shipping_address_id UUID DEFAULT NULL,
+  p_billing_address_id UUID DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id UUID;
+  v_subtotal DECIMAL(10,2);
+  v_weight INTEGER;
+  v_shortages JSONB;
+  v_method public.shipping_methods%ROWTYPE;
+  v_shipping_address JSONB;
+  v_billing_address JSONB;
+  v_country TEXT;
+  v_region TEXT;
+  v_shipping DECIMAL(10,2);
+  v_tax DECIMAL(10,2);
+  v_promotion_id UUID;
+  v_promotion_code TEXT;
+  v_discount DECIMAL(10,2) := 0;
+  v_free_shipping BOOLEAN := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_method
+  FROM public.shipping_methods
+  WHERE id = p_shipping_method_id AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SHIPPING_METHOD_UNAVAILABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_shipping_address_id IS NOT NULL THEN
+    SELECT to_jsonb(a) - 'id' - 'user_id' - 'is_default_shipping' - 'is_default_billing' - 'created_at' - 'updated_at'
+    INTO v_shipping_address
+    FROM public.addresses a
+    WHERE a.id = p_shipping_address_id AND a.user_id = v_user_id;
+
+    IF v_shipping_address IS NULL THEN
+      RAISE EXCEPTION 'ADDRESS_NOT_FOUND' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF p_billing_address_id IS NOT NULL THEN
+    SELECT to_jsonb(a) - 'id' - 'user_id' - 'is_default_shipping' - 'is_default_billing' - 'created_at' - 'updated_at'
+    INTO v_billing_address
+    FROM public.addresses a
+    WHERE a.id = p_billing_address_id AND a.user_id = v_user_id;
+
+    IF v_billing_address IS NULL THEN
+      RAISE EXCEPTION 'ADDRESS_NOT_FOUND' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF v_method.requires_address AND v_shipping_address IS NULL THEN
+    RAISE EXCEPTION 'MISSING_SHIPPING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_billing_address := coalesce(v_billing_address, v_shipping_address);
+
+  IF v_billing_address IS NULL THEN
+    RAISE EXCEPTION 'MISSING_BILLING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Pickup orders are priced and taxed for the customer's own address
+  v_country := coalesce(v_shipping_address, v_billing_address)->>'country_code';
+  v_region := coalesce(v_shipping_address, v_billing_address)->>'region';
+
+  IF NOT v_method.requires_address THEN
+    v_shipping_address := NULL;
+  END IF;
+
+  -- Lock the books in the cart so concurrent checkouts queue up behind us
+  PERFORM 1
+  FROM public.books b
+  JOIN public.cart_items ci ON ci.book_id = b.id
+  WHERE ci.user_id = v_user_id
+  ORDER BY b.id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'book_id', b.id,
+    'title', b.title,
+    'requested', ci.quantity,
+    'available', b.stock_quantity
+  ))
+  INTO v_shortages
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id
+    AND ci.quantity > b.stock_quantity;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'OUT_OF_STOCK'
+      USING ERRCODE = 'P0001', DETAIL = v_shortages::text;
+  END IF;
+
+  SELECT SUM(b.price * ci.quantity), SUM(b.weight_grams * ci.quantity)
+  INTO v_subtotal, v_weight
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  v_shipping := public.shipping_rate_for(v_method.id, v_country, v_weight, v_subtotal);
+
+  IF v_shipping IS NULL THEN
+    RAISE EXCEPTION 'SHIPPING_METHOD_UNAVAILABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND btrim(p_promo_code) <> '' THEN
+    -- Serialise redemptions of the same code so usage limits hold
+    PERFORM 1 FROM public.promotions WHERE code = upper(btrim(p_promo_code)) FOR UPDATE;
+    SELECT e.promotion_id, e.code, e.discount_amount, e.free_shipping
+    INTO v_promotion_id, v_promotion_code, v_discount, v_free_shipping
+    FROM public.evaluate_promotion(p_promo_code, v_user_id) e;
+  END IF;
+
+  IF v_free_shipping THEN
+    v_shipping := 0;
+  END IF;
+
+  SELECT coalesce(sum(t.tax_amount), 0)
+  INTO v_tax
+  FROM public.cart_tax_lines(v_user_id, v_country, v_region, v_discount) t;
+
+  INSERT INTO public.orders (
+    user_id, subtotal_amount, discount_amount, shipping_amount, tax_amount, total_amount, status,
+    tax_country, tax_region, shipping_address, shipping_address_snapshot, billing_address_snapshot,
+    shipping_country, shipping_method_id, shipping_method_name,
+    promotion_id, promotion_code, free_shipping
+  )
+  VALUES (
+    v_user_id,
+    v_subtotal,
+    v_discount,
+    v_shipping,
+    v_tax,
+    v_subtotal - v_discount + v_shipping + v_tax,
+    'confirmed',
+    v_country,
+    nullif(upper(btrim(v_region)), ''),
+    coalesce(public.format_address(v_shipping_address), v_method.name),
+    v_shipping_address,
+    v_billing_address,
+    v_country,
+    v_method.id,
+    v_method.name,
+    v_promotion_id,
+    v_promotion_code,
+    v_free_shipping
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (v_promotion_id, v_order_id, v_user_id, v_discount);
+  END IF;
+
+  INSERT INTO public.order_items (order_id, book_id, quantity, price, tax_rate, tax_amount)
+  SELECT v_order_id, t.book_id, t.quantity, t.price, t.tax_rate, t.tax_amount
+  FROM public.cart_tax_lines(v_user_id, v_country, v_region, v_discount) t;
+
+  INSERT INTO public.inventory_movements (book_id, movement_type, quantity, order_id)
+  SELECT ci.book_id, 'sale', -ci.quantity, v_order_id
+  FROM public.cart_items ci
+  WHERE ci.user_id = v_user_id;
+
+  DELETE FROM public.cart_items WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, UUID, TEXT) TO authenticated;
+
+-- Order emails now include the tax charged
+CREATE OR REPLACE FUNCTION public.queue_order_email(
+  p_order_id UUID,
+  p_template TEXT,
+  p_extra JSONB DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.email_outbox (to_email, template, payload, order_id)
+  SELECT p.email,
+         p_template,
+         jsonb_build_object(
+           'order_id', o.id,
+           'name', p.full_name,
+           'placed_at', o.created_at,
+           'shipping_address', o.shipping_address,
+           'shipping_method', o.shipping_method_name,
+           'items', coalesce((
+             SELECT jsonb_agg(
+                      jsonb_build_object(
+                        'title', b.title,
+                        'author', b.author,
+                        'quantity', oi.quantity,
+                        'price', oi.price
+                      )
+                      ORDER BY b.title
+                    )
+             FROM public.order_items oi
+             JOIN public.books b ON b.id = oi.book_id
+             WHERE oi.order_id = o.id
+           ), '[]'::jsonb),
+           'subtotal', o.subtotal_amount,
+           'discount', o.discount_amount,
+           'promotion_code', o.promotion_code,
+           'shipping', o.shipping_amount,
+           'tax', o.tax_amount,
+           'total', o.total_amount,
+           'refunded_amount', o.refunded_amount,
+           'tracking_carrier', c.name,
+           'tracking_number', o.tracking_number,
+           'tracking_url', replace(c.tracking_url_template, '{tracking_number}', o.tracking_number),
+           -- Set by update_order_status for the duration of the change
+           'note', nullif(current_setting('app.order_status_note', true), '')
+         ) || p_extra,
+         o.id
+  FROM public.orders o
+  JOIN public.profiles p ON p.id = o.user_id
+  LEFT JOIN public.shipping_carriers c ON c.code = o.tracking_carrier
+  WHERE o.id = p_order_id;
+END;
+$$;
+
+-- Same report, plus tax collected
+CREATE OR REPLACE FUNCTION public.get_sales_analytics(
+  p_from DATE,
+  p_to DATE,
+  p_bucket TEXT DEFAULT 'day',
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+BEGIN
+  IF NOT public.has_permission('reports.view') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'INVALID_BUCKET' USING ERRCODE = 'P0001', DETAIL = p_bucket;
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'INVALID_DATE_RANGE' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_start := p_from::TIMESTAMP AT TIME ZONE p_timezone;
+  v_end := (p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone;
+
+  RETURN (
+    WITH ranged AS (
+      SELECT o.*, o.created_at AT TIME ZONE p_timezone AS local_at
+      FROM public.orders o
+      WHERE o.created_at >= v_start AND o.created_at < v_end
+    ),
+    sales AS (
+      SELECT * FROM ranged WHERE status <> 'cancelled'
+    ),
+    -- Every period in the range, so quiet days still show up as zero
+    buckets AS (
+      SELECT generate_series(
+        date_trunc(p_bucket, p_from::TIMESTAMP),
+        date_trunc(p_bucket, p_to::TIMESTAMP),
+        ('1 ' || p_bucket)::INTERVAL
+      ) AS bucket
+    ),
+    -- Line totals at the price paid per copy, before order-level discounts
+    items AS (
+      SELECT
+        oi.book_id,
+        b.title,
+        coalesce(c.name, 'Uncategorized') AS category_name,
+        oi.quantity,
+        oi.quantity * oi.price AS revenue
+      FROM public.order_items oi
+      JOIN sales s ON s.id = oi.order_id
+      LEFT JOIN public.books b ON b.id = oi.book_id
+      LEFT JOIN public.categories c ON c.id = b.category_id
+    ),
+    book_totals AS (
+      SELECT book_id, title, sum(quantity) AS units, sum(revenue) AS revenue
+      FROM items
+      GROUP BY book_id, title
+    ),
+    category_totals AS (
+      SELECT category_name, sum(quantity) AS units, sum(revenue) AS revenue
+      FROM items
+      GROUP BY category_name
+    ),
+    -- A customer is new if their first ever non-cancelled order falls in the range
+    customers AS (
+      SELECT
+        s.user_id,
+        (SELECT min(o.created_at) FROM public.orders o
+          WHERE o.user_id = s.user_id AND o.status <> 'cancelled') >= v_start AS is_new
+      FROM (SELECT DISTINCT user_id FROM sales) s
+    )
+    SELECT jsonb_build_object(
+      'summary', (
+        SELECT jsonb_build_object(
+          'orders', count(*),
+          'gross_revenue', coalesce(sum(total_amount), 0),
+          'refunded', coalesce(sum(refunded_amount), 0),
+          'net_revenue', coalesce(sum(total_amount - refunded_amount), 0),
+          'average_order_value', coalesce(round(avg(total_amount), 2), 0),
+          'units_sold', (SELECT coalesce(sum(quantity), 0) FROM items),
+          'tax', coalesce(sum(tax_amount), 0)
+        )
+        FROM sales
+      ),
+      'revenue', (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'period', to_char(b.bucket, 'YYYY-MM-DD'),
+            'revenue', coalesce(t.revenue, 0),
+            'orders', coalesce(t.orders, 0)
+          )
+          ORDER BY b.bucket
+        )
+        FROM buckets b
+        LEFT JOIN (
+          SELECT date_trunc(p_bucket, local_at) AS bucket,
+                 sum(total_amount - refunded_amount) AS revenue,
+                 count(*) AS orders
+          FROM sales
+          GROUP BY 1
+        ) t ON t.bucket = b.bucket
+      ),
+      'orders_by_status', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('status', status, 'count', total) ORDER BY status)
+        FROM (SELECT status, count(*) AS total FROM ranged GROUP BY status) t
+      ), '[]'::jsonb),
+      'top_books', jsonb_build_object(
+        'units', coalesce((
+          SELECT jsonb_agg(to_jsonb(t) ORDER BY t.units DESC, t.revenue DESC)
+          FROM (SELECT * FROM book_totals ORDER BY units DESC, revenue DESC LIMIT 10) t
+        ), '[]'::jsonb),
+        'revenue', coalesce((
+          SELECT jsonb_agg(to_jsonb(t) ORDER BY t.revenue DESC, t.units DESC)
+          FROM (SELECT * FROM book_totals ORDER BY revenue DESC, units DESC LIMIT 10) t
+        ), '[]'::jsonb)
+      ),
+      'top_categories', jsonb_build_object(
+        'units', coalesce((
+          SELECT jsonb_agg(to_jsonb(t) ORDER BY t.units DESC, t.revenue DESC)
+          FROM (SELECT * FROM category_totals ORDER BY units DESC, revenue DESC LIMIT 10) t
+        ), '[]'::jsonb),
+        'revenue', coalesce((
+          SELECT jsonb_agg(to_jsonb(t) ORDER BY t.revenue DESC, t.units DESC)
+          FROM (SELECT * FROM category_totals ORDER BY revenue DESC, units DESC LIMIT 10) t
+        ), '[]'::jsonb)
+      ),
+      -- Tax charged per country and region, before refunds
+      'tax_by_region', coalesce((
+        SELECT jsonb_agg(to_jsonb(t) ORDER BY t.tax DESC)
+        FROM (
+          SELECT tax_country AS country_code,
+                 tax_region AS region,
+                 count(*) AS orders,
+                 sum(subtotal_amount - discount_amount) AS sales,
+                 sum(tax_amount) AS tax
+          FROM sales
+          WHERE tax_amount > 0
+          GROUP BY tax_country, tax_region
+        ) t
+      ), '[]'::jsonb),
+      'customers', (
+        SELECT jsonb_build_object(
+          'new', count(*) FILTER (WHERE is_new),
+          'returning', count(*) FILTER (WHERE NOT is_new)
+        )
+        FROM customers
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_sales_analytics(DATE, DATE, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_sales_analytics(DATE, DATE, TEXT, TEXT) TO authenticated;
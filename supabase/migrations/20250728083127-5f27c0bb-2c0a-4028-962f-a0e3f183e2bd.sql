@@ -0,0 +1,560 @@
+
+-- Payments.
+--   * Orders are placed as pending and move to confirmed once their payment
+--     is captured. Payments are taken by the payments edge function, which
+--     talks to the configured provider (a local mock by default) and records
+--     each attempt here. A declined payment can be retried on the same order.
+--   * Providers report late results, such as delayed authorisations, by
+--     webhook to the payment-webhook function. Each event is stored once under
+--     the provider's event id, so redelivered webhooks are ignored.
+--   * Refunds, and cancellations of paid orders, are refunded through the
+--     provider before they're recorded. prepare_return_refund and
+--     prepare_cancellation check the change is allowed and say what to refund.
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Which PaymentProvider took the payment, e.g. 'mock'
+  provider TEXT NOT NULL,
+  -- The provider's id for the payment, once it has one
+  provider_reference TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending', 'requires_action', 'processing', 'authorized', 'captured', 'failed', 'refunded'
+  )),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0 AND refunded_amount <= amount),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  card_brand TEXT,
+  card_last4 TEXT,
+  failure_reason TEXT,
+  captured_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id);
+
+CREATE UNIQUE INDEX payments_provider_reference_idx ON public.payments(provider, provider_reference);
+
+-- An order has at most one payment that has gone through or may still do so
+CREATE UNIQUE INDEX payments_active_order_idx ON public.payments(order_id)
+  WHERE status IN ('processing', 'authorized', 'captured', 'refunded');
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payments" ON public.payments
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all payments" ON public.payments
+  FOR SELECT USING (public.has_permission('orders.view'));
+
+CREATE TABLE public.payment_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Null when the event names a payment we don't know
+  payment_id UUID REFERENCES public.payments(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_event_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX payment_events_provider_event_idx ON public.payment_events(provider, provider_event_id);
+
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view payment events" ON public.payment_events
+  FOR SELECT USING (public.has_permission('orders.view'));
+
+-- Opens a new payment attempt on one of the current user's pending orders.
+-- Earlier attempts that never went through are given up.
+CREATE OR REPLACE FUNCTION public.start_payment(p_order_id UUID, p_provider TEXT)
+RETURNS TABLE (
+  payment_id UUID,
+  amount NUMERIC,
+  currency TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'ORDER_NOT_PAYABLE' USING ERRCODE = 'P0001', DETAIL = v_order.status::TEXT;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments p
+    WHERE p.order_id = p_order_id AND p.status IN ('processing', 'authorized', 'captured', 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'PAYMENT_IN_PROGRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.payments p
+  SET status = 'failed', failure_reason = coalesce(p.failure_reason, 'abandoned'), updated_at = now()
+  WHERE p.order_id = p_order_id AND p.status IN ('pending', 'requires_action');
+
+  INSERT INTO public.payments (order_id, user_id, provider, amount)
+  VALUES (p_order_id, auth.uid(), p_provider, v_order.total_amount)
+  RETURNING * INTO v_payment;
+
+  RETURN QUERY SELECT v_payment.id, v_payment.amount, v_payment.currency;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_payment(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_payment(UUID, TEXT) TO authenticated;
+
+-- Records what the provider said about a payment. Captured, refunded and
+-- failed payments are settled, so late or repeated results for them are
+-- ignored. Capturing a payment confirms its order. Returns the payment's and
+-- the order's status afterwards, so the caller can tell whether the result was
+-- taken and refund a payment that completed after the order was cancelled.
+CREATE OR REPLACE FUNCTION public.record_payment_update(
+  p_payment_id UUID,
+  p_status TEXT,
+  p_provider_reference TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL,
+  p_card_brand TEXT DEFAULT NULL,
+  p_card_last4 TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  payment_status TEXT,
+  order_status public.order_status
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAYMENT_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_payment.status NOT IN ('captured', 'refunded', 'failed') THEN
+    UPDATE public.payments
+    SET status = p_status,
+        provider_reference = coalesce(p_provider_reference, provider_reference),
+        failure_reason = CASE WHEN p_status = 'failed' THEN p_failure_reason END,
+        card_brand = coalesce(p_card_brand, card_brand),
+        card_last4 = coalesce(p_card_last4, card_last4),
+        captured_at = CASE WHEN p_status = 'captured' THEN now() ELSE captured_at END,
+        updated_at = now()
+    WHERE id = p_payment_id;
+
+    IF p_status = 'captured' THEN
+      UPDATE public.orders
+      SET status = 'confirmed', updated_at = now()
+      WHERE id = v_payment.order_id AND status = 'pending';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.status, o.status
+  FROM public.payments p
+  JOIN public.orders o ON o.id = p.order_id
+  WHERE p.id = p_payment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_update(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_update(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.record_payment_refund(p_payment_id UUID, p_amount NUMERIC)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.payments
+  SET refunded_amount = refunded_amount + p_amount,
+      status = CASE WHEN refunded_amount + p_amount >= amount THEN 'refunded' ELSE status END,
+      updated_at = now()
+  WHERE id = p_payment_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_refund(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_refund(UUID, NUMERIC) TO service_role;
+
+-- Checks a return can be refunded and works out the amount: p_amount, or by
+-- default what was paid for the returned items, tax included. Returns the
+-- captured payment to refund it from; orders paid before payments were
+-- recorded have none, and their refunds are settled outside the shop.
+CREATE OR REPLACE FUNCTION public.prepare_return_refund(p_request_id UUID, p_amount NUMERIC DEFAULT NULL)
+RETURNS TABLE (
+  payment_id UUID,
+  provider TEXT,
+  provider_reference TEXT,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.return_requests%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_amount NUMERIC;
+BEGIN
+  IF NOT public.has_permission('returns.manage') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request FROM public.return_requests WHERE id = p_request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RETURN_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_request.status NOT IN ('requested', 'approved') THEN
+    RAISE EXCEPTION 'INVALID_RETURN_TRANSITION' USING ERRCODE = 'P0001', DETAIL = v_request.status::TEXT;
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_request.order_id;
+
+  SELECT coalesce(p_amount, round(sum(rri.quantity * (oi.price + oi.tax_amount / oi.quantity)), 2))
+  INTO v_amount
+  FROM public.return_request_items rri
+  JOIN public.order_items oi ON oi.id = rri.order_item_id
+  WHERE rri.return_request_id = p_request_id;
+
+  IF v_amount IS NULL OR v_amount <= 0
+    OR v_amount > v_order.total_amount - v_order.refunded_amount THEN
+    RAISE EXCEPTION 'INVALID_REFUND_AMOUNT' USING ERRCODE = 'P0001',
+      DETAIL = (v_order.total_amount - v_order.refunded_amount)::TEXT;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.provider, p.provider_reference, v_amount
+  FROM public.payments p
+  WHERE p.order_id = v_order.id AND p.status = 'captured';
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::TEXT, NULL::TEXT, v_amount;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prepare_return_refund(UUID, NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.prepare_return_refund(UUID, NUMERIC) TO authenticated;
+
+-- Checks the current user may cancel the order, as its customer or as staff,
+-- and returns what's left of its captured payment, if anything, to refund.
+CREATE OR REPLACE FUNCTION public.prepare_cancellation(p_order_id UUID)
+RETURNS TABLE (
+  payment_id UUID,
+  provider TEXT,
+  provider_reference TEXT,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (v_order.user_id <> auth.uid() AND NOT public.has_permission('orders.update')) THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'ORDER_NOT_CANCELLABLE' USING ERRCODE = 'P0001', DETAIL = v_order.status::TEXT;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.provider, p.provider_reference, p.amount - p.refunded_amount
+  FROM public.payments p
+  WHERE p.order_id = p_order_id AND p.status = 'captured' AND p.amount > p.refunded_amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prepare_cancellation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.prepare_cancellation(UUID) TO authenticated;
+
+-- Same as before, except orders start out pending until they're paid
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_shipping_method_id UUID,
+  p_shipping_address_id UUID DEFAULT NULL,
+  p_billing_address_id UUID DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order_id UUID;
+  v_subtotal DECIMAL(10,2);
+  v_weight INTEGER;
+  v_shortages JSONB;
+  v_method public.shipping_methods%ROWTYPE;
+  v_shipping_address JSONB;
+  v_billing_address JSONB;
+  v_country TEXT;
+  v_region TEXT;
+  v_shipping DECIMAL(10,2);
+  v_tax DECIMAL(10,2);
+  v_promotion_id UUID;
+  v_promotion_code TEXT;
+  v_discount DECIMAL(10,2) := 0;
+  v_free_shipping BOOLEAN := false;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_method
+  FROM public.shipping_methods
+  WHERE id = p_shipping_method_id AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SHIPPING_METHOD_UNAVAILABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_shipping_address_id IS NOT NULL THEN
+    SELECT to_jsonb(a) - 'id' - 'user_id' - 'is_default_shipping' - 'is_default_billing' - 'created_at' - 'updated_at'
+    INTO v_shipping_address
+    FROM public.addresses a
+    WHERE a.id = p_shipping_address_id AND a.user_id = v_user_id;
+
+    IF v_shipping_address IS NULL THEN
+      RAISE EXCEPTION 'ADDRESS_NOT_FOUND' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF p_billing_address_id IS NOT NULL THEN
+    SELECT to_jsonb(a) - 'id' - 'user_id' - 'is_default_shipping' - 'is_default_billing' - 'created_at' - 'updated_at'
+    INTO v_billing_address
+    FROM public.addresses a
+    WHERE a.id = p_billing_address_id AND a.user_id = v_user_id;
+
+    IF v_billing_address IS NULL THEN
+      RAISE EXCEPTION 'ADDRESS_NOT_FOUND' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF v_method.requires_address AND v_shipping_address IS NULL THEN
+    RAISE EXCEPTION 'MISSING_SHIPPING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_billing_address := coalesce(v_billing_address, v_shipping_address);
+
+  IF v_billing_address IS NULL THEN
+    RAISE EXCEPTION 'MISSING_BILLING_ADDRESS' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Pickup orders are priced and taxed for the customer's own address
+  v_country := coalesce(v_shipping_address, v_billing_address)->>'country_code';
+  v_region := coalesce(v_shipping_address, v_billing_address)->>'region';
+
+  IF NOT v_method.requires_address THEN
+    v_shipping_address := NULL;
+  END IF;
+
+  -- Lock the books in the cart so concurrent checkouts queue up behind us
+  PERFORM 1
+  FROM public.books b
+  JOIN public.cart_items ci ON ci.book_id = b.id
+  WHERE ci.user_id = v_user_id
+  ORDER BY b.id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'book_id', b.id,
+    'title', b.title,
+    'requested', ci.quantity,
+    'available', b.stock_quantity
+  ))
+  INTO v_shortages
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id
+    AND ci.quantity > b.stock_quantity;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'OUT_OF_STOCK'
+      USING ERRCODE = 'P0001', DETAIL = v_shortages::text;
+  END IF;
+
+  SELECT SUM(b.price * ci.quantity), SUM(b.weight_grams * ci.quantity)
+  INTO v_subtotal, v_weight
+  FROM public.cart_items ci
+  JOIN public.books b ON b.id = ci.book_id
+  WHERE ci.user_id = v_user_id;
+
+  v_shipping := public.shipping_rate_for(v_method.id, v_country, v_weight, v_subtotal);
+
+  IF v_shipping IS NULL THEN
+    RAISE EXCEPTION 'SHIPPING_METHOD_UNAVAILABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND btrim(p_promo_code) <> '' THEN
+    -- Serialise redemptions of the same code so usage limits hold
+    PERFORM 1 FROM public.promotions WHERE code = upper(btrim(p_promo_code)) FOR UPDATE;
+    SELECT e.promotion_id, e.code, e.discount_amount, e.free_shipping
+    INTO v_promotion_id, v_promotion_code, v_discount, v_free_shipping
+    FROM public.evaluate_promotion(p_promo_code, v_user_id) e;
+  END IF;
+
+  IF v_free_shipping THEN
+    v_shipping := 0;
+  END IF;
+
+  SELECT coalesce(sum(t.tax_amount), 0)
+  INTO v_tax
+  FROM public.cart_tax_lines(v_user_id, v_country, v_region, v_discount) t;
+
+  INSERT INTO public.orders (
+    user_id, subtotal_amount, discount_amount, shipping_amount, tax_amount, total_amount, status,
+    tax_country, tax_region, shipping_address, shipping_address_snapshot, billing_address_snapshot,
+    shipping_country, shipping_method_id, shipping_method_name,
+    promotion_id, promotion_code, free_shipping
+  )
+  VALUES (
+    v_user_id,
+    v_subtotal,
+    v_discount,
+    v_shipping,
+    v_tax,
+    v_subtotal - v_discount + v_shipping + v_tax,
+    'pending',
+    v_country,
+    nullif(upper(btrim(v_region)), ''),
+    coalesce(public.format_address(v_shipping_address), v_method.name),
+    v_shipping_address,
+    v_billing_address,
+    v_country,
+    v_method.id,
+    v_method.name,
+    v_promotion_id,
+    v_promotion_code,
+    v_free_shipping
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (v_promotion_id, v_order_id, v_user_id, v_discount);
+  END IF;
+
+  INSERT INTO public.order_items (order_id, book_id, quantity, price, tax_rate, tax_amount)
+  SELECT v_order_id, t.book_id, t.quantity, t.price, t.tax_rate, t.tax_amount
+  FROM public.cart_tax_lines(v_user_id, v_country, v_region, v_discount) t;
+
+  INSERT INTO public.inventory_movements (book_id, movement_type, quantity, order_id)
+  SELECT ci.book_id, 'sale', -ci.quantity, v_order_id
+  FROM public.cart_items ci
+  WHERE ci.user_id = v_user_id;
+
+  DELETE FROM public.cart_items WHERE user_id = v_user_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, UUID, UUID, TEXT) TO authenticated;
+
+-- Same as before, but staff can't confirm an order that hasn't been paid
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL,
+  p_tracking_carrier TEXT DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('orders.update') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status IN ('return_requested', 'refunded') THEN
+    RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING ERRCODE = 'P0001',
+      DETAIL = v_order.status::TEXT || ' -> ' || p_status::TEXT;
+  END IF;
+
+  -- Pending orders are confirmed by their payment being captured
+  IF p_status = 'confirmed' AND v_order.status = 'pending' AND NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE order_id = p_order_id AND status IN ('captured', 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'PAYMENT_NOT_CAPTURED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status = 'cancelled' AND v_order.status IN ('pending', 'confirmed') THEN
+    PERFORM public.reverse_order_sales(p_order_id);
+
+    DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(btrim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status,
+      tracking_carrier = CASE WHEN p_status = 'shipped'
+        THEN nullif(btrim(p_tracking_carrier), '') ELSE tracking_carrier END,
+      tracking_number = CASE WHEN p_status = 'shipped'
+        THEN nullif(btrim(p_tracking_number), '') ELSE tracking_number END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, public.order_status, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,181 @@
+
+-- Invoices and packing slips.
+--   * Invoices are numbered 1, 2, 3... without gaps, in the order they're
+--     issued. An order gets its invoice the first time the customer or staff
+--     asks for it, once it has been paid; asking again returns the same one.
+--   * The seller details printed on invoices live in store_settings, edited
+--     alongside the tax settings, and are copied onto each invoice when it's
+--     issued, so changing them later doesn't alter invoices already sent.
+--   * issue_invoice and get_packing_slip return everything the app needs to
+--     draw the documents, which it turns into PDFs in the browser.
+ALTER TABLE public.store_settings
+  ADD COLUMN seller_name TEXT NOT NULL DEFAULT 'Tea and Tales',
+  ADD COLUMN seller_address TEXT NOT NULL DEFAULT '',
+  ADD COLUMN seller_email TEXT NOT NULL DEFAULT 'orders@teaandtales.local',
+  -- VAT or sales tax registration number
+  ADD COLUMN seller_tax_id TEXT;
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  number INTEGER NOT NULL UNIQUE CHECK (number > 0),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE RESTRICT,
+  -- store_settings' seller details when the invoice was issued
+  seller JSONB NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view invoices for their own orders" ON public.invoices
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.orders o WHERE o.id = invoices.order_id AND o.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can view all invoices" ON public.invoices
+  FOR SELECT USING (public.has_permission('orders.view'));
+
+-- The order's items with what the documents print about each book
+CREATE OR REPLACE FUNCTION public.order_document_lines(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'title', b.title,
+    'author', b.author,
+    'isbn', b.isbn,
+    'quantity', oi.quantity,
+    'unit_price', oi.price,
+    'tax_rate', oi.tax_rate,
+    'tax_amount', oi.tax_amount
+  ) ORDER BY b.title), '[]'::jsonb)
+  FROM public.order_items oi
+  JOIN public.books b ON b.id = oi.book_id
+  WHERE oi.order_id = p_order_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.order_document_lines(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Issues the order's invoice if it doesn't have one yet and returns it. Open
+-- to the order's customer and to staff who can view orders. Unpaid and
+-- cancelled orders can't be invoiced.
+CREATE OR REPLACE FUNCTION public.issue_invoice(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_invoice public.invoices%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (v_order.user_id <> auth.uid() AND NOT public.has_permission('orders.view')) THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE order_id = p_order_id;
+
+  IF NOT FOUND THEN
+    IF v_order.status IN ('pending', 'cancelled') THEN
+      RAISE EXCEPTION 'ORDER_NOT_INVOICEABLE' USING ERRCODE = 'P0001', DETAIL = v_order.status::TEXT;
+    END IF;
+
+    -- Numbers must have no gaps, which a sequence can't promise, so invoices
+    -- are issued one at a time
+    PERFORM pg_advisory_xact_lock(hashtext('public.invoices'));
+
+    -- Someone else may have issued it while we waited for the lock
+    SELECT * INTO v_invoice FROM public.invoices WHERE order_id = p_order_id;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.invoices (number, order_id, seller)
+      SELECT
+        coalesce((SELECT max(number) FROM public.invoices), 0) + 1,
+        p_order_id,
+        jsonb_build_object(
+          'name', s.seller_name,
+          'address', s.seller_address,
+          'email', s.seller_email,
+          'tax_id', s.seller_tax_id
+        )
+      FROM public.store_settings s
+      RETURNING * INTO v_invoice;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'number', v_invoice.number,
+    'issued_at', v_invoice.issued_at,
+    'seller', v_invoice.seller,
+    'order_id', v_order.id,
+    'ordered_at', v_order.created_at,
+    'customer_email', (SELECT email FROM public.profiles WHERE id = v_order.user_id),
+    'billing_address', v_order.billing_address_snapshot,
+    'shipping_address', v_order.shipping_address_snapshot,
+    -- Free text on orders placed before the address book
+    'legacy_address', v_order.shipping_address,
+    'shipping_method', v_order.shipping_method_name,
+    'promotion_code', v_order.promotion_code,
+    'subtotal', v_order.subtotal_amount,
+    'discount', v_order.discount_amount,
+    'shipping', v_order.shipping_amount,
+    'tax', v_order.tax_amount,
+    'total', v_order.total_amount,
+    'refunded', v_order.refunded_amount,
+    'lines', public.order_document_lines(v_order.id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_invoice(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_invoice(UUID) TO authenticated;
+
+-- What fulfilment staff need to pack and ship the order; no prices
+CREATE OR REPLACE FUNCTION public.get_packing_slip(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('orders.view') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'seller', (
+      SELECT jsonb_build_object('name', s.seller_name, 'address', s.seller_address, 'email', s.seller_email)
+      FROM public.store_settings s
+    ),
+    'order_id', v_order.id,
+    'ordered_at', v_order.created_at,
+    'status', v_order.status,
+    'customer_email', (SELECT email FROM public.profiles WHERE id = v_order.user_id),
+    'shipping_address', v_order.shipping_address_snapshot,
+    'legacy_address', v_order.shipping_address,
+    'shipping_method', v_order.shipping_method_name,
+    'tracking_number', v_order.tracking_number,
+    'lines', public.order_document_lines(v_order.id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_packing_slip(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_packing_slip(UUID) TO authenticated;
@@ -0,0 +1,551 @@
+
+-- Refunds happen in two steps, so a refund can't be paid out twice or leave
+-- the order it pays for unchanged:
+--   * begin_return_refund and begin_cancellation lock the return or the order,
+--     check the change is allowed and open a pending refund for it. While an
+--     order has a pending refund, neither it nor its returns can change status,
+--     and no other refund can be opened on it.
+--   * The payments function then has the provider pay it out and, with the
+--     service role, calls complete_refund, which records the refund and
+--     resolves the return or cancels the order, or fail_refund, which leaves
+--     them as they were.
+--   * A refund left pending, e.g. because the function died after the
+--     provider paid out, is picked up again by the next attempt at the same
+--     change after a few minutes. The provider is given the refund's id, so it
+--     doesn't pay out twice.
+-- Refunds and cancellations of paid orders can only be made this way:
+-- resolve_return no longer refunds, and cancel_order and update_order_status
+-- refuse to cancel an order with money to give back.
+CREATE TABLE public.refunds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- Null when the refund is for cancelling the order
+  return_request_id UUID REFERENCES public.return_requests(id) ON DELETE CASCADE,
+  -- Null for orders paid before payments were recorded, whose refunds are
+  -- settled outside the shop
+  payment_id UUID REFERENCES public.payments(id) ON DELETE CASCADE,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  -- The provider's id for the refund
+  provider_reference TEXT,
+  failure_reason TEXT,
+  -- Saved with the return or the cancellation once the refund goes through
+  note TEXT,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_refunds_order_id ON public.refunds(order_id);
+
+-- One refund at a time per order
+CREATE UNIQUE INDEX refunds_pending_order_idx ON public.refunds(order_id) WHERE status = 'pending';
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view refunds of their own orders" ON public.refunds
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.orders o WHERE o.id = refunds.order_id AND o.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can view all refunds" ON public.refunds
+  FOR SELECT USING (public.has_permission('orders.view'));
+
+-- How long a pending refund is left alone before another attempt takes it over
+CREATE OR REPLACE FUNCTION public.refund_is_stale(p_refund public.refunds)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_refund.created_at < now() - interval '5 minutes';
+$$;
+
+-- Status changes wait until the order's pending refund is settled
+CREATE OR REPLACE FUNCTION public.check_no_pending_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'orders' THEN
+    v_order_id := NEW.id;
+  ELSE
+    v_order_id := NEW.order_id;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND EXISTS (
+    SELECT 1 FROM public.refunds WHERE order_id = v_order_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'REFUND_IN_PROGRESS' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_no_pending_refund
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_no_pending_refund();
+
+CREATE TRIGGER check_no_pending_refund
+  BEFORE UPDATE OF status ON public.return_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_no_pending_refund();
+
+-- Status changes made by the service role on someone's behalf are credited to
+-- them through app.order_status_changed_by, the same way as the note
+CREATE OR REPLACE FUNCTION public.log_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_events (order_id, old_status, new_status, changed_by, note)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      coalesce(auth.uid(), nullif(current_setting('app.order_status_changed_by', true), '')::UUID),
+      nullif(current_setting('app.order_status_note', true), '')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Cancels a locked order whose cancellation has been checked: puts its copies
+-- back on the shelf, frees its promotion redemption and records the note
+CREATE OR REPLACE FUNCTION public.apply_order_cancellation(p_order_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.reverse_order_sales(p_order_id);
+
+  DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', coalesce(btrim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_order_cancellation(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Opens the refund for a return: p_amount, or by default what was paid for
+-- the returned items, tax included. Returns the refund with the captured
+-- payment to refund it from, if the order has one.
+CREATE OR REPLACE FUNCTION public.begin_return_refund(
+  p_request_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  refund_id UUID,
+  payment_id UUID,
+  provider TEXT,
+  provider_reference TEXT,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.return_requests%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_refund public.refunds%ROWTYPE;
+  v_amount NUMERIC;
+BEGIN
+  IF NOT public.has_permission('returns.manage') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.return_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RETURN_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_request.order_id
+  FOR UPDATE;
+
+  SELECT * INTO v_refund
+  FROM public.refunds r
+  WHERE r.order_id = v_order.id AND r.status = 'pending';
+
+  IF FOUND THEN
+    IF v_refund.return_request_id IS DISTINCT FROM p_request_id OR NOT public.refund_is_stale(v_refund) THEN
+      RAISE EXCEPTION 'REFUND_IN_PROGRESS' USING ERRCODE = 'P0001';
+    END IF;
+  ELSE
+    IF v_request.status NOT IN ('requested', 'approved') THEN
+      RAISE EXCEPTION 'INVALID_RETURN_TRANSITION' USING ERRCODE = 'P0001', DETAIL = v_request.status::TEXT;
+    END IF;
+
+    SELECT coalesce(p_amount, round(sum(rri.quantity * (oi.price + oi.tax_amount / oi.quantity)), 2))
+    INTO v_amount
+    FROM public.return_request_items rri
+    JOIN public.order_items oi ON oi.id = rri.order_item_id
+    WHERE rri.return_request_id = p_request_id;
+
+    IF v_amount IS NULL OR v_amount <= 0
+      OR v_amount > v_order.total_amount - v_order.refunded_amount THEN
+      RAISE EXCEPTION 'INVALID_REFUND_AMOUNT' USING ERRCODE = 'P0001',
+        DETAIL = (v_order.total_amount - v_order.refunded_amount)::TEXT;
+    END IF;
+
+    INSERT INTO public.refunds (order_id, return_request_id, payment_id, amount, note, requested_by)
+    VALUES (
+      v_order.id,
+      p_request_id,
+      (SELECT p.id FROM public.payments p WHERE p.order_id = v_order.id AND p.status = 'captured'),
+      v_amount,
+      p_note,
+      auth.uid()
+    )
+    RETURNING * INTO v_refund;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_refund.id, v_refund.payment_id, p.provider, p.provider_reference, v_refund.amount
+  FROM (SELECT 1) AS refund
+  LEFT JOIN public.payments p ON p.id = v_refund.payment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_return_refund(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.begin_return_refund(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- Cancels an order for its customer or for staff. An order with nothing to
+-- give back is cancelled straight away and nothing is returned; otherwise the
+-- refund of what's left of its captured payment is opened and returned, and
+-- the order is cancelled once it goes through.
+CREATE OR REPLACE FUNCTION public.begin_cancellation(p_order_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS TABLE (
+  refund_id UUID,
+  payment_id UUID,
+  provider TEXT,
+  provider_reference TEXT,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_payment public.payments%ROWTYPE;
+  v_refund public.refunds%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (v_order.user_id <> auth.uid() AND NOT public.has_permission('orders.update')) THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_refund
+  FROM public.refunds r
+  WHERE r.order_id = p_order_id AND r.status = 'pending';
+
+  IF FOUND THEN
+    IF v_refund.return_request_id IS NOT NULL OR NOT public.refund_is_stale(v_refund) THEN
+      RAISE EXCEPTION 'REFUND_IN_PROGRESS' USING ERRCODE = 'P0001';
+    END IF;
+  ELSE
+    IF v_order.status NOT IN ('pending', 'confirmed') THEN
+      RAISE EXCEPTION 'ORDER_NOT_CANCELLABLE' USING ERRCODE = 'P0001', DETAIL = v_order.status::TEXT;
+    END IF;
+
+    SELECT * INTO v_payment
+    FROM public.payments p
+    WHERE p.order_id = p_order_id AND p.status = 'captured' AND p.amount > p.refunded_amount;
+
+    IF NOT FOUND THEN
+      PERFORM public.apply_order_cancellation(p_order_id, p_note);
+      RETURN;
+    END IF;
+
+    INSERT INTO public.refunds (order_id, payment_id, amount, note, requested_by)
+    VALUES (p_order_id, v_payment.id, v_payment.amount - v_payment.refunded_amount, p_note, auth.uid())
+    RETURNING * INTO v_refund;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_refund.id, v_refund.payment_id, p.provider, p.provider_reference, v_refund.amount
+  FROM public.payments p
+  WHERE p.id = v_refund.payment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_cancellation(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.begin_cancellation(UUID, TEXT) TO authenticated;
+
+-- The provider paid the refund out: records it against the payment and makes
+-- the change it was for
+CREATE OR REPLACE FUNCTION public.complete_refund(p_refund_id UUID, p_provider_reference TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund public.refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_refund
+  FROM public.refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'REFUND_NOT_PENDING' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.refunds
+  SET status = 'succeeded', provider_reference = p_provider_reference, completed_at = now()
+  WHERE id = p_refund_id;
+
+  IF v_refund.payment_id IS NOT NULL THEN
+    PERFORM public.record_payment_refund(v_refund.payment_id, v_refund.amount);
+  END IF;
+
+  PERFORM set_config('app.order_status_changed_by', coalesce(v_refund.requested_by::TEXT, ''), true);
+
+  IF v_refund.return_request_id IS NOT NULL THEN
+    UPDATE public.return_requests
+    SET status = 'refunded',
+        refund_amount = v_refund.amount,
+        admin_note = coalesce(v_refund.note, admin_note),
+        resolved_at = now(),
+        updated_at = now()
+    WHERE id = v_refund.return_request_id;
+
+    UPDATE public.orders
+    SET refunded_amount = refunded_amount + v_refund.amount,
+        status = 'refunded',
+        updated_at = now()
+    WHERE id = v_refund.order_id;
+  ELSE
+    PERFORM public.apply_order_cancellation(v_refund.order_id, v_refund.note);
+  END IF;
+
+  PERFORM set_config('app.order_status_changed_by', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_refund(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_refund(UUID, TEXT) TO service_role;
+
+-- The provider refused the refund; the return or order stays as it was
+CREATE OR REPLACE FUNCTION public.fail_refund(p_refund_id UUID, p_reason TEXT)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.refunds
+  SET status = 'failed', failure_reason = p_reason, completed_at = now()
+  WHERE id = p_refund_id AND status = 'pending';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_refund(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fail_refund(UUID, TEXT) TO service_role;
+
+DROP FUNCTION public.prepare_return_refund(UUID, NUMERIC);
+DROP FUNCTION public.prepare_cancellation(UUID);
+
+-- Same as before, but refunds go through begin_return_refund
+CREATE OR REPLACE FUNCTION public.resolve_return(
+  p_request_id UUID,
+  p_action TEXT,
+  p_refund_amount NUMERIC DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.return_requests%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('returns.manage') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_action = 'refund' THEN
+    RAISE EXCEPTION 'PAYMENT_REFUND_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.return_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RETURN_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_request.order_id
+  FOR UPDATE;
+
+  IF p_action = 'approve' AND v_request.status = 'requested' THEN
+    UPDATE public.return_requests
+    SET status = 'approved', admin_note = coalesce(p_note, admin_note), updated_at = now()
+    WHERE id = p_request_id;
+
+  ELSIF p_action = 'reject' AND v_request.status IN ('requested', 'approved') THEN
+    UPDATE public.return_requests
+    SET status = 'rejected', admin_note = coalesce(p_note, admin_note), resolved_at = now(), updated_at = now()
+    WHERE id = p_request_id;
+
+    -- Back to delivered unless another request on the order is still open
+    IF NOT EXISTS (
+      SELECT 1 FROM public.return_requests
+      WHERE order_id = v_order.id AND id <> p_request_id AND status IN ('requested', 'approved')
+    ) THEN
+      UPDATE public.orders
+      SET status = CASE WHEN refunded_amount > 0 THEN 'refunded' ELSE 'delivered' END::public.order_status,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'INVALID_RETURN_TRANSITION' USING ERRCODE = 'P0001', DETAIL = v_request.status::TEXT;
+  END IF;
+END;
+$$;
+
+-- Same as before, but paid orders are cancelled through begin_cancellation
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'ORDER_NOT_CANCELLABLE' USING ERRCODE = 'P0001', DETAIL = v_order.status::TEXT;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE order_id = p_order_id AND status = 'captured' AND amount > refunded_amount
+  ) THEN
+    RAISE EXCEPTION 'PAYMENT_REFUND_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM public.apply_order_cancellation(p_order_id);
+END;
+$$;
+
+-- Same as before, but paid orders are cancelled through begin_cancellation
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL,
+  p_tracking_carrier TEXT DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('orders.update') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status IN ('return_requested', 'refunded') THEN
+    RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING ERRCODE = 'P0001',
+      DETAIL = v_order.status::TEXT || ' -> ' || p_status::TEXT;
+  END IF;
+
+  -- Pending orders are confirmed by their payment being captured
+  IF p_status = 'confirmed' AND v_order.status = 'pending' AND NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE order_id = p_order_id AND status IN ('captured', 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'PAYMENT_NOT_CAPTURED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status = 'cancelled' AND EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE order_id = p_order_id AND status = 'captured' AND amount > refunded_amount
+  ) THEN
+    RAISE EXCEPTION 'PAYMENT_REFUND_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status = 'cancelled' AND v_order.status IN ('pending', 'confirmed') THEN
+    PERFORM public.reverse_order_sales(p_order_id);
+
+    DELETE FROM public.promotion_redemptions WHERE order_id = p_order_id;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', coalesce(btrim(p_note), ''), true);
+
+  UPDATE public.orders
+  SET status = p_status,
+      tracking_carrier = CASE WHEN p_status = 'shipped'
+        THEN nullif(btrim(p_tracking_carrier), '') ELSE tracking_carrier END,
+      tracking_number = CASE WHEN p_status = 'shipped'
+        THEN nullif(btrim(p_tracking_number), '') ELSE tracking_number END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
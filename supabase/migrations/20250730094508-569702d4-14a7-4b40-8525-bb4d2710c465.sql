@@ -0,0 +1,52 @@
+-- Orders take their stock when they're placed but wait in pending until
+-- they're paid for. Orders nobody pays for are cancelled after a while, which
+-- puts their copies back on the shelf (and so sends back-in-stock emails).
+-- Orders whose payment is going through, or was tried in the last few
+-- minutes, are left alone; older attempts still waiting on the customer are
+-- given up.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Cancels pending orders placed more than p_older_than ago that have no
+-- payment going through. Returns how many were cancelled.
+CREATE OR REPLACE FUNCTION public.expire_unpaid_orders(p_older_than INTERVAL DEFAULT interval '30 minutes')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT o.id
+    FROM public.orders o
+    WHERE o.status = 'pending'
+      AND o.created_at < now() - p_older_than
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.order_id = o.id
+          AND (p.status IN ('processing', 'authorized', 'captured', 'refunded')
+            OR p.updated_at > now() - interval '5 minutes')
+      )
+    ORDER BY o.created_at
+    -- Orders being paid for right now are locked by start_payment; they're
+    -- checked again next time
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.payments
+    SET status = 'failed', failure_reason = 'expired', updated_at = now()
+    WHERE order_id = v_order_id AND status IN ('pending', 'requires_action');
+
+    PERFORM public.apply_order_cancellation(v_order_id, 'Not paid for in time');
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_unpaid_orders(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_unpaid_orders(INTERVAL) TO service_role;
+
+SELECT cron.schedule('expire-unpaid-orders', '*/5 * * * *', 'SELECT public.expire_unpaid_orders()');
@@ -0,0 +1,127 @@
+-- Catalog files don't have to carry every column. A row that leaves out
+-- original_price, stock_quantity, category_id, is_featured, image_url or
+-- description leaves that field of an existing book as it is, rather than
+-- clearing it (or, for stock, recording an adjustment down to zero). New books
+-- still get the defaults.
+CREATE OR REPLACE FUNCTION public.import_books(p_rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_index BIGINT;
+  v_isbn TEXT;
+  v_book public.books%ROWTYPE;
+  v_stock INTEGER;
+  v_changed BOOLEAN;
+  v_created INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  IF NOT public.has_permission('catalog.write') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'NO_IMPORT_ROWS' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_row, v_index IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_rows) WITH ORDINALITY
+  LOOP
+    v_isbn := public.normalize_isbn(v_row->>'isbn');
+
+    IF v_isbn IS NULL
+      OR coalesce(btrim(v_row->>'title'), '') = ''
+      OR coalesce(btrim(v_row->>'author'), '') = ''
+      OR (v_row->>'price') IS NULL THEN
+      RAISE EXCEPTION 'INVALID_IMPORT_ROW' USING ERRCODE = 'P0001', DETAIL = v_index::TEXT;
+    END IF;
+
+    SELECT * INTO v_book
+    FROM public.books
+    WHERE public.normalize_isbn(isbn) = v_isbn
+    LIMIT 1
+    FOR UPDATE;
+
+    -- Fields the row leaves out keep the book's current values
+    IF v_book.id IS NOT NULL THEN
+      v_row := jsonb_build_object(
+        'original_price', v_book.original_price,
+        'stock_quantity', v_book.stock_quantity,
+        'category_id', v_book.category_id,
+        'is_featured', v_book.is_featured,
+        'image_url', v_book.image_url,
+        'description', v_book.description
+      ) || v_row;
+    END IF;
+
+    v_stock := coalesce((v_row->>'stock_quantity')::INTEGER, 0);
+
+    IF v_book.id IS NULL THEN
+      INSERT INTO public.books (
+        isbn, title, author, price, original_price, stock_quantity,
+        category_id, is_featured, image_url, description
+      ) VALUES (
+        v_isbn,
+        btrim(v_row->>'title'),
+        btrim(v_row->>'author'),
+        (v_row->>'price')::NUMERIC,
+        (v_row->>'original_price')::NUMERIC,
+        v_stock,
+        (v_row->>'category_id')::UUID,
+        coalesce((v_row->>'is_featured')::BOOLEAN, false),
+        NULLIF(btrim(v_row->>'image_url'), ''),
+        NULLIF(btrim(v_row->>'description'), '')
+      );
+      v_created := v_created + 1;
+    ELSE
+      UPDATE public.books
+      SET isbn = v_isbn,
+          title = btrim(v_row->>'title'),
+          author = btrim(v_row->>'author'),
+          price = (v_row->>'price')::NUMERIC,
+          original_price = (v_row->>'original_price')::NUMERIC,
+          category_id = (v_row->>'category_id')::UUID,
+          is_featured = coalesce((v_row->>'is_featured')::BOOLEAN, false),
+          image_url = NULLIF(btrim(v_row->>'image_url'), ''),
+          description = NULLIF(btrim(v_row->>'description'), ''),
+          updated_at = now()
+      WHERE id = v_book.id
+        AND (isbn, title, author, price, original_price,
+             category_id, is_featured, image_url, description)
+          IS DISTINCT FROM (
+            v_isbn,
+            btrim(v_row->>'title'),
+            btrim(v_row->>'author'),
+            (v_row->>'price')::NUMERIC,
+            (v_row->>'original_price')::NUMERIC,
+            (v_row->>'category_id')::UUID,
+            coalesce((v_row->>'is_featured')::BOOLEAN, false),
+            NULLIF(btrim(v_row->>'image_url'), ''),
+            NULLIF(btrim(v_row->>'description'), '')
+          );
+      v_changed := FOUND;
+
+      IF v_stock <> v_book.stock_quantity THEN
+        INSERT INTO public.inventory_movements (book_id, movement_type, quantity, note)
+        VALUES (v_book.id, 'adjustment', v_stock - v_book.stock_quantity, 'Catalog import');
+        v_changed := true;
+      END IF;
+
+      IF v_changed THEN
+        v_updated := v_updated + 1;
+      ELSE
+        v_skipped := v_skipped + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated, 'skipped', v_skipped);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_books(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_books(JSONB) TO authenticated;
@@ -0,0 +1,76 @@
+-- Tax rates for a region are matched on its code (CA, NY, ...), but the
+-- region on addresses used to be free text, so an address in "California" was
+-- never taxed. The address form now picks US states and Canadian provinces
+-- from a list and saves the code; this converts the names already saved.
+UPDATE public.addresses a
+SET region = r.code, updated_at = now()
+FROM (VALUES
+  ('US', 'AL', 'Alabama'),
+  ('US', 'AK', 'Alaska'),
+  ('US', 'AZ', 'Arizona'),
+  ('US', 'AR', 'Arkansas'),
+  ('US', 'CA', 'California'),
+  ('US', 'CO', 'Colorado'),
+  ('US', 'CT', 'Connecticut'),
+  ('US', 'DE', 'Delaware'),
+  ('US', 'DC', 'District of Columbia'),
+  ('US', 'FL', 'Florida'),
+  ('US', 'GA', 'Georgia'),
+  ('US', 'HI', 'Hawaii'),
+  ('US', 'ID', 'Idaho'),
+  ('US', 'IL', 'Illinois'),
+  ('US', 'IN', 'Indiana'),
+  ('US', 'IA', 'Iowa'),
+  ('US', 'KS', 'Kansas'),
+  ('US', 'KY', 'Kentucky'),
+  ('US', 'LA', 'Louisiana'),
+  ('US', 'ME', 'Maine'),
+  ('US', 'MD', 'Maryland'),
+  ('US', 'MA', 'Massachusetts'),
+  ('US', 'MI', 'Michigan'),
+  ('US', 'MN', 'Minnesota'),
+  ('US', 'MS', 'Mississippi'),
+  ('US', 'MO', 'Missouri'),
+  ('US', 'MT', 'Montana'),
+  ('US', 'NE', 'Nebraska'),
+  ('US', 'NV', 'Nevada'),
+  ('US', 'NH', 'New Hampshire'),
+  ('US', 'NJ', 'New Jersey'),
+  ('US', 'NM', 'New Mexico'),
+  ('US', 'NY', 'New York'),
+  ('US', 'NC', 'North Carolina'),
+  ('US', 'ND', 'North Dakota'),
+  ('US', 'OH', 'Ohio'),
+  ('US', 'OK', 'Oklahoma'),
+  ('US', 'OR', 'Oregon'),
+  ('US', 'PA', 'Pennsylvania'),
+  ('US', 'PR', 'Puerto Rico'),
+  ('US', 'RI', 'Rhode Island'),
+  ('US', 'SC', 'South Carolina'),
+  ('US', 'SD', 'South Dakota'),
+  ('US', 'TN', 'Tennessee'),
+  ('US', 'TX', 'Texas'),
+  ('US', 'UT', 'Utah'),
+  ('US', 'VT', 'Vermont'),
+  ('US', 'VA', 'Virginia'),
+  ('US', 'WA', 'Washington'),
+  ('US', 'WV', 'West Virginia'),
+  ('US', 'WI', 'Wisconsin'),
+  ('US', 'WY', 'Wyoming'),
+  ('CA', 'AB', 'Alberta'),
+  ('CA', 'BC', 'British Columbia'),
+  ('CA', 'MB', 'Manitoba'),
+  ('CA', 'NB', 'New Brunswick'),
+  ('CA', 'NL', 'Newfoundland and Labrador'),
+  ('CA', 'NS', 'Nova Scotia'),
+  ('CA', 'NT', 'Northwest Territories'),
+  ('CA', 'NU', 'Nunavut'),
+  ('CA', 'ON', 'Ontario'),
+  ('CA', 'PE', 'Prince Edward Island'),
+  ('CA', 'QC', 'Quebec'),
+  ('CA', 'SK', 'Saskatchewan'),
+  ('CA', 'YT', 'Yukon')
+) AS r (country_code, code, name)
+WHERE a.country_code = r.country_code
+  AND upper(btrim(a.region)) IN (upper(r.name), r.code)
+  AND a.region IS DISTINCT FROM r.code;
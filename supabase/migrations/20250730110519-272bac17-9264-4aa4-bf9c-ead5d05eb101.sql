@@ -0,0 +1,4 @@
+-- Staff block users through set_user_block(), so they no longer need to update
+-- profiles directly. The policy let anyone with users.block rewrite any
+-- customer's email, name, phone and address, so it goes.
+DROP POLICY IF EXISTS "Staff can block users" ON public.profiles;
@@ -0,0 +1,94 @@
+-- A return's refund defaulted to the full price of the returned items, so on
+-- an order with a promotion it gave back more than the customer paid for
+-- them. It now takes off each item's share of the order's discount.
+CREATE OR REPLACE FUNCTION public.begin_return_refund(
+  p_request_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  refund_id UUID,
+  payment_id UUID,
+  provider TEXT,
+  provider_reference TEXT,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.return_requests%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_refund public.refunds%ROWTYPE;
+  v_amount NUMERIC;
+BEGIN
+  IF NOT public.has_permission('returns.manage') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.return_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RETURN_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_request.order_id
+  FOR UPDATE;
+
+  SELECT * INTO v_refund
+  FROM public.refunds r
+  WHERE r.order_id = v_order.id AND r.status = 'pending';
+
+  IF FOUND THEN
+    IF v_refund.return_request_id IS DISTINCT FROM p_request_id OR NOT public.refund_is_stale(v_refund) THEN
+      RAISE EXCEPTION 'REFUND_IN_PROGRESS' USING ERRCODE = 'P0001';
+    END IF;
+  ELSE
+    IF v_request.status NOT IN ('requested', 'approved') THEN
+      RAISE EXCEPTION 'INVALID_RETURN_TRANSITION' USING ERRCODE = 'P0001', DETAIL = v_request.status::TEXT;
+    END IF;
+
+    -- The order's discount is shared out across its lines in proportion to
+    -- their value, as cart_tax_lines() does when the order is placed
+    SELECT coalesce(p_amount, round(sum(rri.quantity * (
+      greatest(oi.price - v_order.discount_amount * oi.price / nullif(v_order.subtotal_amount, 0), 0)
+        + oi.tax_amount / oi.quantity
+    )), 2))
+    INTO v_amount
+    FROM public.return_request_items rri
+    JOIN public.order_items oi ON oi.id = rri.order_item_id
+    WHERE rri.return_request_id = p_request_id;
+
+    IF v_amount IS NULL OR v_amount <= 0
+      OR v_amount > v_order.total_amount - v_order.refunded_amount THEN
+      RAISE EXCEPTION 'INVALID_REFUND_AMOUNT' USING ERRCODE = 'P0001',
+        DETAIL = (v_order.total_amount - v_order.refunded_amount)::TEXT;
+    END IF;
+
+    INSERT INTO public.refunds (order_id, return_request_id, payment_id, amount, note, requested_by)
+    VALUES (
+      v_order.id,
+      p_request_id,
+      (SELECT p.id FROM public.payments p WHERE p.order_id = v_order.id AND p.status = 'captured'),
+      v_amount,
+      p_note,
+      auth.uid()
+    )
+    RETURNING * INTO v_refund;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_refund.id, v_refund.payment_id, p.provider, p.provider_reference, v_refund.amount
+  FROM (SELECT 1) AS refund
+  LEFT JOIN public.payments p ON p.id = v_refund.payment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_return_refund(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.begin_return_refund(UUID, NUMERIC, TEXT) TO authenticated;
@@ -0,0 +1,162 @@
+-- Refunding a return marked the whole order refunded, and refunded orders are
+-- final, so once part of an order was refunded the rest of it could never be
+-- returned. Orders now go back to delivered after a refund, and only become
+-- refunded once every copy on them has been refunded.
+
+-- Whether refunded return requests cover every copy on the order
+CREATE OR REPLACE FUNCTION public.order_fully_refunded(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.order_items oi
+    WHERE oi.order_id = p_order_id
+      AND oi.quantity > (
+        SELECT coalesce(sum(rri.quantity), 0)
+        FROM public.return_request_items rri
+        JOIN public.return_requests rr ON rr.id = rri.return_request_id
+        WHERE rri.order_item_id = oi.id AND rr.status = 'refunded'
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.order_fully_refunded(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, but a return's order only becomes refunded with its last copy
+CREATE OR REPLACE FUNCTION public.complete_refund(p_refund_id UUID, p_provider_reference TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund public.refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_refund
+  FROM public.refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'REFUND_NOT_PENDING' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.refunds
+  SET status = 'succeeded', provider_reference = p_provider_reference, completed_at = now()
+  WHERE id = p_refund_id;
+
+  IF v_refund.payment_id IS NOT NULL THEN
+    PERFORM public.record_payment_refund(v_refund.payment_id, v_refund.amount);
+  END IF;
+
+  PERFORM set_config('app.order_status_changed_by', coalesce(v_refund.requested_by::TEXT, ''), true);
+
+  IF v_refund.return_request_id IS NOT NULL THEN
+    UPDATE public.return_requests
+    SET status = 'refunded',
+        refund_amount = v_refund.amount,
+        admin_note = coalesce(v_refund.note, admin_note),
+        resolved_at = now(),
+        updated_at = now()
+    WHERE id = v_refund.return_request_id;
+
+    UPDATE public.orders
+    SET refunded_amount = refunded_amount + v_refund.amount,
+        status = CASE WHEN public.order_fully_refunded(id) THEN 'refunded' ELSE 'delivered' END::public.order_status,
+        updated_at = now()
+    WHERE id = v_refund.order_id;
+  ELSE
+    PERFORM public.apply_order_cancellation(v_refund.order_id, v_refund.note);
+  END IF;
+
+  PERFORM set_config('app.order_status_changed_by', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_refund(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_refund(UUID, TEXT) TO service_role;
+
+-- Same as before, but a rejected request leaves a partly refunded order
+-- delivered
+CREATE OR REPLACE FUNCTION public.resolve_return(
+  p_request_id UUID,
+  p_action TEXT,
+  p_refund_amount NUMERIC DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.return_requests%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('returns.manage') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_action = 'refund' THEN
+    RAISE EXCEPTION 'PAYMENT_REFUND_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.return_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RETURN_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE id = v_request.order_id
+  FOR UPDATE;
+
+  IF p_action = 'approve' AND v_request.status = 'requested' THEN
+    UPDATE public.return_requests
+    SET status = 'approved', admin_note = coalesce(p_note, admin_note), updated_at = now()
+    WHERE id = p_request_id;
+
+  ELSIF p_action = 'reject' AND v_request.status IN ('requested', 'approved') THEN
+    UPDATE public.return_requests
+    SET status = 'rejected', admin_note = coalesce(p_note, admin_note), resolved_at = now(), updated_at = now()
+    WHERE id = p_request_id;
+
+    -- Back to delivered unless another request on the order is still open
+    IF NOT EXISTS (
+      SELECT 1 FROM public.return_requests
+      WHERE order_id = v_order.id AND id <> p_request_id AND status IN ('requested', 'approved')
+    ) THEN
+      UPDATE public.orders
+      SET status = 'delivered', updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'INVALID_RETURN_TRANSITION' USING ERRCODE = 'P0001', DETAIL = v_request.status::TEXT;
+  END IF;
+END;
+$$;
+
+-- Orders already stuck as refunded with copies left to return go back to
+-- delivered. Refunded is otherwise final, so the transition check is switched
+-- off while they move, and so is the status email: they were delivered long ago.
+ALTER TABLE public.orders DISABLE TRIGGER check_order_status_transition;
+ALTER TABLE public.orders DISABLE TRIGGER queue_order_status_email;
+
+SELECT set_config('app.order_status_note', 'Partly refunded; the rest can still be returned', true);
+
+UPDATE public.orders
+SET status = 'delivered', updated_at = now()
+WHERE status = 'refunded' AND NOT public.order_fully_refunded(id);
+
+SELECT set_config('app.order_status_note', '', true);
+
+ALTER TABLE public.orders ENABLE TRIGGER check_order_status_transition;
+ALTER TABLE public.orders ENABLE TRIGGER queue_order_status_email;
@@ -0,0 +1,21 @@
+-- Customers and visitors can only read their own profile, so book pages
+-- showed every other customer's review as "Anonymous". This gives out the
+-- names behind reviews, and nothing else from the profile.
+CREATE OR REPLACE FUNCTION public.get_reviewer_names(p_user_ids UUID[])
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.full_name
+  FROM public.profiles p
+  WHERE p.id = ANY(p_user_ids)
+    AND EXISTS (SELECT 1 FROM public.reviews r WHERE r.user_id = p.id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_reviewer_names(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_reviewer_names(UUID[]) TO anon, authenticated;